@@ -10,11 +10,19 @@
 
 import type * as answers from "../answers.js";
 import type * as helpers from "../helpers.js";
+import type * as hosts from "../hosts.js";
 import type * as http from "../http.js";
+import type * as leagues from "../leagues.js";
 import type * as players from "../players.js";
+import type * as powerUps from "../powerUps.js";
 import type * as questions from "../questions.js";
+import type * as quizzes from "../quizzes.js";
+import type * as reports from "../reports.js";
+import type * as rounds from "../rounds.js";
 import type * as sampleQuestions from "../sampleQuestions.js";
+import type * as selfPaced from "../selfPaced.js";
 import type * as sessions from "../sessions.js";
+import type * as teams from "../teams.js";
 
 import type {
   ApiFromModules,
@@ -25,11 +33,19 @@ import type {
 declare const fullApi: ApiFromModules<{
   answers: typeof answers;
   helpers: typeof helpers;
+  hosts: typeof hosts;
   http: typeof http;
+  leagues: typeof leagues;
   players: typeof players;
+  powerUps: typeof powerUps;
   questions: typeof questions;
+  quizzes: typeof quizzes;
+  reports: typeof reports;
+  rounds: typeof rounds;
   sampleQuestions: typeof sampleQuestions;
+  selfPaced: typeof selfPaced;
   sessions: typeof sessions;
+  teams: typeof teams;
 }>;
 
 /**
@@ -1,41 +1,43 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { calculateElevationGain, SUMMIT } from "../lib/elevation";
+import type { Doc, Id } from "./_generated/dataModel";
+import { calculateElevationGain, getMaxWager, rankEstimates, SUMMIT } from "../lib/elevation";
 import { PRESENCE_TIMEOUT_MS } from "../lib/constants";
-import type { PlayerOnRope, QuestionPhase, RopeClimbingState } from "../lib/ropeTypes";
-import { getEnabledQuestions } from "./helpers";
+import { clusterTextAnswers, MAX_TEXT_ANSWER_LENGTH, normalizeTextAnswer } from "../lib/freeText";
+import { isIntermissionPhase } from "../lib/intermission";
+import { buildWordCloud, summarizeRatings } from "../lib/survey";
+import type { EstimationGuess, PlayerOnRope, PlayerRopeState, QuestionPhase, RopeClimbingState } from "../lib/ropeTypes";
+import { getAnswerSelections, getEnabledQuestions, getPowerUpEffects, isAnswerCorrect, isEstimation, isFreeText, isMultiSelect, isOptionCorrect, isSelfPacedInProgress, isSurvey, isValidPlayerToken, parseAnswerInput, requireSessionHost } from "./helpers";
 
 export const submit = mutation({
   args: {
     questionId: v.id("questions"),
     playerId: v.id("players"),
-    optionIndex: v.number(),
+    secretToken: v.string(), // Proves the caller is this player (issued on join)
+    optionIndex: v.optional(v.number()), // Single-choice questions
+    optionIndices: v.optional(v.array(v.number())), // "Select all that apply" questions
+    numericGuess: v.optional(v.number()), // Estimation ("closest guess") questions
+    text: v.optional(v.string()), // Free-text and word-cloud questions
+    rating: v.optional(v.number()), // Rating-scale questions
+    wager: v.optional(v.number()), // Meters of current elevation to stake on this answer
   },
   handler: async (ctx, args) => {
     const question = await ctx.db.get(args.questionId);
     if (!question) throw new Error("Question not found");
 
-    // Validate optionIndex is within bounds
-    if (
-      !Number.isInteger(args.optionIndex) ||
-      args.optionIndex < 0 ||
-      args.optionIndex >= question.options.length
-    ) {
-      throw new Error(
-        `Invalid option index: must be 0-${question.options.length - 1}`
-      );
-    }
+    const answer = parseAnswerInput(question, args);
 
     const player = await ctx.db.get(args.playerId);
     if (!player) throw new Error("Player not found");
+    if (!isValidPlayerToken(player, args.secretToken)) throw new Error("Invalid player token");
 
     // Get the session to check the question phase
     const session = await ctx.db.get(question.sessionId);
     if (!session) throw new Error("Session not found");
 
-    // Only accept answers during the answers_shown phase
+    // Only accept answers during the answers_shown phase (self-paced games answer through selfPaced.submitAnswer)
     const questionPhase = session.questionPhase ?? "answers_shown"; // backward compatibility
-    if (questionPhase !== "answers_shown") {
+    if (questionPhase !== "answers_shown" || session.mode === "async") {
       throw new Error("Answers are not being accepted right now");
     }
 
@@ -59,8 +61,13 @@ export const submit = mutation({
       .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
       .collect();
 
-    // Check if timer has expired (only if there are existing answers)
-    if (existingAnswers.length > 0) {
+    // Check if timer has expired: the server deadline when the session has one,
+    // otherwise the time limit counted from the first answer
+    if (session.answerDeadline !== undefined) {
+      if (answeredAt >= session.answerDeadline) {
+        throw new Error("Time's up! Answer not accepted.");
+      }
+    } else if (existingAnswers.length > 0) {
       const firstAnsweredAt = Math.min(...existingAnswers.map((a) => a.answeredAt));
       const elapsed = answeredAt - firstAnsweredAt;
       const timeLimitMs = question.timeLimit * 1000;
@@ -83,18 +90,40 @@ export const submit = mutation({
     // Store the player's current elevation (where they grabbed the rope)
     const currentElevation = player.elevation ?? 0;
 
+    // Wagers: a whole number of meters, up to half the player's elevation
+    const wager = args.wager ?? 0;
+    if (wager !== 0) {
+      if (!Number.isInteger(wager) || wager < 0) {
+        throw new Error("Wager must be a whole number of meters");
+      }
+      if (!isMultiSelect(question) && !isEstimation(question) && question.correctOptionIndex === undefined) {
+        throw new Error("Can't wager on a poll question");
+      }
+      if (player.summitPlace !== undefined) {
+        throw new Error("Summiters can't wager");
+      }
+      if (wager > getMaxWager(currentElevation)) {
+        throw new Error(`Can't wager more than ${getMaxWager(currentElevation)}m`);
+      }
+    }
+
     await ctx.db.insert("answers", {
       questionId: args.questionId,
       playerId: args.playerId,
-      optionIndex: args.optionIndex,
+      ...answer,
       answeredAt,
       elevationAtAnswer: currentElevation,
+      wager: wager > 0 ? wager : undefined,
     });
 
     // Cache the last option index on the player for column positioning
-    await ctx.db.patch(args.playerId, {
-      lastOptionIndex: args.optionIndex,
-    });
+    // (estimation guesses, survey answers and queued free text have no column, so keep the previous one;
+    // anonymous sessions never record it, so a player's column can't give their answer away)
+    if (answer.optionIndex >= 0 && !session.anonymous) {
+      await ctx.db.patch(args.playerId, {
+        lastOptionIndex: answer.optionIndex,
+      });
+    }
 
     // NOTE: Elevation is now calculated during reveal phase to include minority bonus
     // Just acknowledge the answer was received
@@ -104,9 +133,21 @@ export const submit = mutation({
   },
 });
 
+// Anonymous sessions keep who answered what to themselves - per-answer queries come back empty
+// (getResults and getRopeClimbingState still give the aggregates). Self-paced games hide them
+// too until the deadline, since a player's picks and gains give the answers away.
+async function hidesPlayerAnswers(ctx: QueryCtx, sessionId: Id<"sessions"> | undefined) {
+  if (!sessionId) return false;
+  const session = await ctx.db.get(sessionId);
+  return session?.anonymous === true || isSelfPacedInProgress(session);
+}
+
 export const getByQuestion = query({
   args: { questionId: v.id("questions") },
   handler: async (ctx, args) => {
+    const question = await ctx.db.get(args.questionId);
+    if (await hidesPlayerAnswers(ctx, question?.sessionId)) return [];
+
     return await ctx.db
       .query("answers")
       .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
@@ -117,6 +158,9 @@ export const getByQuestion = query({
 export const getByPlayer = query({
   args: { playerId: v.id("players") },
   handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (await hidesPlayerAnswers(ctx, player?.sessionId)) return [];
+
     return await ctx.db
       .query("answers")
       .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
@@ -146,18 +190,21 @@ export const getResults = query({
   handler: async (ctx, args) => {
     const question = await ctx.db.get(args.questionId);
     if (!question) return null;
+    // No answer keys or vote counts until a self-paced game's deadline
+    if (isSelfPacedInProgress(await ctx.db.get(question.sessionId))) return null;
 
     const answers = await ctx.db
       .query("answers")
       .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
       .collect();
 
-    // Count votes per option
+    // Count votes per option (select-all answers count once for every option picked)
     const counts: number[] = question.options.map(() => 0);
     for (const answer of answers) {
-      const idx = answer.optionIndex;
-      if (idx >= 0 && idx < counts.length) {
-        counts[idx] = (counts[idx] ?? 0) + 1;
+      for (const idx of getAnswerSelections(answer)) {
+        if (idx >= 0 && idx < counts.length) {
+          counts[idx] = (counts[idx] ?? 0) + 1;
+        }
       }
     }
 
@@ -165,6 +212,21 @@ export const getResults = query({
       totalAnswers: answers.length,
       optionCounts: counts,
       correctOptionIndex: question.correctOptionIndex,
+      correctOptionIndices: question.correctOptionIndices,
+      // Estimation questions: the true value and every guess (smallest first)
+      numericAnswer: question.numericAnswer,
+      guesses: answers
+        .flatMap((a) => (a.numericGuess !== undefined ? [a.numericGuess] : []))
+        .sort((a, b) => a - b),
+      // Survey questions: the rating tally, or the word cloud (most popular first)
+      ratingScale: question.ratingScale ?? null,
+      ratings: question.ratingScale !== undefined
+        ? summarizeRatings(question.ratingScale, answers.flatMap((a) => (a.rating !== undefined ? [a.rating] : [])))
+        : null,
+      words: question.wordCloud
+        ? buildWordCloud(answers.flatMap((a) => (a.textAnswer !== undefined ? [a.textAnswer] : [])))
+        : null,
+      surveyScored: isSurvey(question) ? question.surveyScored === true : null,
     };
   },
 });
@@ -173,6 +235,9 @@ export const getResults = query({
 export const getPlayerAnswers = query({
   args: { questionId: v.id("questions") },
   handler: async (ctx, args) => {
+    const question = await ctx.db.get(args.questionId);
+    if (await hidesPlayerAnswers(ctx, question?.sessionId)) return [];
+
     const answers = await ctx.db
       .query("answers")
       .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
@@ -182,6 +247,7 @@ export const getPlayerAnswers = query({
     return answers.map((a) => ({
       playerId: a.playerId,
       optionIndex: a.optionIndex,
+      optionIndices: getAnswerSelections(a),
       elevationAtAnswer: a.elevationAtAnswer ?? 0,
     }));
   },
@@ -220,6 +286,10 @@ export const isQuestionOpen = query({
     const question = await ctx.db.get(args.questionId);
     if (!question) return false;
 
+    // A server deadline (autoReveal) overrides the first-answer timer
+    const session = await ctx.db.get(question.sessionId);
+    if (session?.answerDeadline !== undefined) return Date.now() < session.answerDeadline;
+
     const answers = await ctx.db
       .query("answers")
       .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
@@ -246,6 +316,7 @@ export interface PlayersOnRopesResult {
   notAnswered: PlayerOnRope[]; // Players who haven't answered yet
   options: { text: string }[]; // Answer option texts
   correctOptionIndex: number | undefined; // Which rope is correct (if quiz mode)
+  correctOptionIndices: number[] | undefined; // Which ropes are correct (select-all questions)
 }
 
 /**
@@ -257,6 +328,7 @@ export const getPlayersOnRopes = query({
   handler: async (ctx, args): Promise<PlayersOnRopesResult | null> => {
     const question = await ctx.db.get(args.questionId);
     if (!question) return null;
+    if (await hidesPlayerAnswers(ctx, question.sessionId)) return null;
 
     // Get all players in the session
     const players = await ctx.db
@@ -313,6 +385,7 @@ export const getPlayersOnRopes = query({
       notAnswered,
       options: question.options,
       correctOptionIndex: question.correctOptionIndex,
+      correctOptionIndices: question.correctOptionIndices,
     };
   },
 });
@@ -329,6 +402,8 @@ export const getRopeClimbingState = query({
     const session = await ctx.db.get(args.sessionId);
     if (!session) return null;
     if (session.currentQuestionIndex < 0) return null;
+    // The round intro card keeps the question hidden until the host moves on
+    if (session.questionPhase === "round_intro") return null;
 
     // Get the current question
     const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
@@ -351,8 +426,14 @@ export const getRopeClimbingState = query({
     // Build answer lookup map (playerId -> answer)
     const answerMap = new Map(answers.map((a) => [a.playerId, a]));
 
-    // Get the question phase from the session (default to "answers_shown" for backward compatibility)
-    const questionPhase = (session.questionPhase ?? "answers_shown") as QuestionPhase;
+    // Power-ups in play on this question (shown on the climbers' blobs)
+    const powerUpEffects = await getPowerUpEffects(ctx, question._id);
+
+    // Get the question phase from the session (default to "answers_shown" for backward compatibility).
+    // An intermission sits on top of the question's results.
+    const questionPhase = (isIntermissionPhase(session.questionPhase)
+      ? "results"
+      : session.questionPhase ?? "answers_shown") as QuestionPhase;
 
     // Calculate timing - only applies when answers are shown
     const firstAnsweredAt =
@@ -361,9 +442,10 @@ export const getRopeClimbingState = query({
         : null;
 
     const now = Date.now();
-    const isExpired =
-      firstAnsweredAt !== null &&
-      now - firstAnsweredAt >= question.timeLimit * 1000;
+    const deadline = session.answerDeadline ?? null;
+    const isExpired = deadline !== null
+      ? now >= deadline
+      : firstAnsweredAt !== null && now - firstAnsweredAt >= question.timeLimit * 1000;
 
     // Calculate active players (those with recent heartbeat)
     const totalPlayers = players.length;
@@ -381,38 +463,78 @@ export const getRopeClimbingState = query({
       optionText: option.text,
       optionIndex: index,
       players: [] as PlayerOnRope[],
-      isCorrect:
-        question.correctOptionIndex !== undefined
-          ? index === question.correctOptionIndex
-          : null,
+      playerCount: 0,
+      isCorrect: isOptionCorrect(question, index),
     }));
+    const anonymous = session.anonymous === true;
 
-    const notAnswered: { playerId: string; playerName: string; elevation: number; lastOptionIndex: number | null }[] = [];
+    const notAnswered: RopeClimbingState["notAnswered"] = [];
+    const guesses: EstimationGuess[] = [];
 
     // lastOptionIndex is now cached on the player record - no need to query all answers
     // (Updated in answers.submit mutation)
 
+    // Count players per rope - select-all answers count on every rope picked
+    for (const answer of answers) {
+      for (const idx of getAnswerSelections(answer)) {
+        if (idx >= 0 && idx < ropes.length) ropes[idx]!.playerCount++;
+      }
+    }
+
     // Group players by their answer
     for (const player of players) {
       const answer = answerMap.get(player._id);
-      if (answer) {
+      if (anonymous) {
+        // Anonymous: everyone stays off the ropes, and nobody's column gives their answer away
+        if (answer?.numericGuess !== undefined) {
+          guesses.push({
+            playerId: "",
+            playerName: "",
+            guess: answer.numericGuess,
+            elevationAtAnswer: 0,
+            answeredAt: answer.answeredAt,
+          });
+        }
+        notAnswered.push({
+          playerId: player._id,
+          playerName: player.name,
+          elevation: player.elevation ?? 0,
+          lastOptionIndex: null,
+          powerUps: powerUpEffects.get(player._id),
+        });
+      } else if (answer && answer.numericGuess !== undefined) {
+        // Estimation guess - placed on the number line instead of a rope
+        guesses.push({
+          playerId: player._id,
+          playerName: player.name,
+          guess: answer.numericGuess,
+          elevationAtAnswer: answer.elevationAtAnswer,
+          answeredAt: answer.answeredAt,
+          elevationGain: answer.elevationGain, // Populated after reveal
+          wager: answer.wager,
+        });
+      } else if (answer && answer.optionIndex >= 0) {
         const ropePlayer: PlayerOnRope = {
           playerId: player._id,
           playerName: player.name,
           elevationAtAnswer: answer.elevationAtAnswer,
           answeredAt: answer.answeredAt,
           elevationGain: answer.elevationGain, // Populated after reveal
+          powerUps: powerUpEffects.get(player._id),
+          wager: answer.wager,
         };
-        if (answer.optionIndex >= 0 && answer.optionIndex < ropes.length) {
+        if (answer.optionIndex < ropes.length) {
           ropes[answer.optionIndex]!.players.push(ropePlayer);
         }
       } else {
-        // Player hasn't answered current question - use cached lastOptionIndex from player record
+        // Player isn't on a rope (hasn't answered, or typed an answer the host hasn't grouped yet)
+        // - use cached lastOptionIndex from player record
         notAnswered.push({
           playerId: player._id,
           playerName: player.name,
           elevation: player.elevation ?? 0,
           lastOptionIndex: player.lastOptionIndex ?? null,
+          powerUps: powerUpEffects.get(player._id),
         });
       }
     }
@@ -422,17 +544,39 @@ export const getRopeClimbingState = query({
       rope.players.sort((a, b) => a.answeredAt - b.answeredAt);
     }
 
+    // Anonymous guesses get placeholder ids in answer order (not join order, which would give players away)
+    if (anonymous) {
+      guesses.sort((a, b) => a.answeredAt - b.answeredAt).forEach((g, i) => (g.playerId = `anonymous-${i}`));
+    }
+
+    // Estimation: the true answer and closeness ranks stay hidden until reveal
+    let estimation: RopeClimbingState["estimation"] = null;
+    if (question.numericAnswer !== undefined) {
+      estimation = isRevealed
+        ? { answer: question.numericAnswer, guesses: rankEstimates(guesses, question.numericAnswer) }
+        : { answer: null, guesses: guesses.sort((a, b) => a.answeredAt - b.answeredAt) };
+    }
+
+    const freeText: RopeClimbingState["freeText"] = isFreeText(question)
+      ? { pendingCount: answers.filter((a) => a.moderation === "pending").length }
+      : null;
+
     return {
       question: {
         id: question._id,
         text: question.text,
         timeLimit: question.timeLimit,
+        multiSelect: isMultiSelect(question),
       },
       questionPhase,
+      anonymous,
       ropes,
+      estimation,
+      freeText,
       notAnswered,
       timing: {
         firstAnsweredAt,
+        deadline,
         timeLimit: question.timeLimit,
         isExpired,
         isRevealed,
@@ -456,11 +600,18 @@ export const getPlayerRopeState = query({
   args: {
     sessionId: v.id("sessions"),
     playerId: v.id("players"),
+    secretToken: v.optional(v.string()), // Required in anonymous sessions - only the player sees their own answer
   },
-  handler: async (ctx, { sessionId, playerId }) => {
+  handler: async (ctx, { sessionId, playerId, secretToken }) => {
     const session = await ctx.db.get(sessionId);
     if (!session) return null;
     if (session.currentQuestionIndex < 0) return null;
+    // The round intro card keeps the question hidden until the host moves on
+    if (session.questionPhase === "round_intro") return null;
+    if (session.anonymous) {
+      const player = await ctx.db.get(playerId);
+      if (!player || secretToken === undefined || !isValidPlayerToken(player, secretToken)) return null;
+    }
 
     // Get the current question
     const enabledQuestions = await getEnabledQuestions(ctx, sessionId);
@@ -474,8 +625,10 @@ export const getPlayerRopeState = query({
       .withIndex("by_question", (q) => q.eq("questionId", question._id))
       .collect();
 
-    // Get the question phase from the session
-    const questionPhase = (session.questionPhase ?? "answers_shown") as QuestionPhase;
+    // Get the question phase from the session (an intermission sits on top of the results)
+    const questionPhase = (isIntermissionPhase(session.questionPhase)
+      ? "results"
+      : session.questionPhase ?? "answers_shown") as QuestionPhase;
     const isRevealed = questionPhase === "revealed" || questionPhase === "results";
 
     // Calculate timing
@@ -485,15 +638,18 @@ export const getPlayerRopeState = query({
         : null;
 
     const now = Date.now();
-    const isExpired =
-      firstAnsweredAt !== null &&
-      now - firstAnsweredAt >= question.timeLimit * 1000;
+    const deadline = session.answerDeadline ?? null;
+    const isExpired = deadline !== null
+      ? now >= deadline
+      : firstAnsweredAt !== null && now - firstAnsweredAt >= question.timeLimit * 1000;
 
-    // Count players per rope (answer option)
+    // Count players per rope (answer option) - select-all answers count on every rope picked
     const ropeCounts: number[] = question.options.map(() => 0);
     for (const answer of answers) {
-      if (answer.optionIndex >= 0 && answer.optionIndex < ropeCounts.length) {
-        ropeCounts[answer.optionIndex]!++;
+      for (const idx of getAnswerSelections(answer)) {
+        if (idx >= 0 && idx < ropeCounts.length) {
+          ropeCounts[idx]!++;
+        }
       }
     }
 
@@ -509,10 +665,7 @@ export const getPlayerRopeState = query({
     }
 
     // Determine if player's answer was correct (only after reveal)
-    let myIsCorrect: boolean | null = null;
-    if (isRevealed && hasAnswered && question.correctOptionIndex !== undefined) {
-      myIsCorrect = myAnswerDoc.optionIndex === question.correctOptionIndex;
-    }
+    const myIsCorrect = isRevealed && hasAnswered ? isAnswerCorrect(question, myAnswerDoc) : null;
 
     // Get total player count
     const playerCount = await ctx.db
@@ -525,30 +678,72 @@ export const getPlayerRopeState = query({
       optionIndex: index,
       optionText: option.text,
       playerCount: ropeCounts[index] ?? 0,
-      isCorrect:
-        question.correctOptionIndex !== undefined
-          ? index === question.correctOptionIndex
-          : null,
+      isCorrect: isOptionCorrect(question, index),
     }));
 
+    // Estimation: the player's guess, plus the true answer and their closeness rank after reveal
+    let estimation: PlayerRopeState["estimation"] = null;
+    if (question.numericAnswer !== undefined) {
+      let myRank: number | null = null;
+      if (isRevealed && myAnswerDoc?.numericGuess !== undefined) {
+        const ranked = rankEstimates(
+          answers.flatMap((a) =>
+            a.numericGuess !== undefined
+              ? [{ playerId: a.playerId, guess: a.numericGuess, answeredAt: a.answeredAt }]
+              : []
+          ),
+          question.numericAnswer
+        );
+        myRank = ranked.find((g) => g.playerId === playerId)?.rank ?? null;
+      }
+      estimation = {
+        answer: isRevealed ? question.numericAnswer : null,
+        myGuess: myAnswerDoc?.numericGuess ?? null,
+        myRank,
+      };
+    }
+
+    const freeText: PlayerRopeState["freeText"] = isFreeText(question)
+      ? { myText: myAnswerDoc?.textAnswer ?? null, moderation: myAnswerDoc?.moderation ?? null }
+      : null;
+
+    const survey: PlayerRopeState["survey"] = isSurvey(question)
+      ? { myRating: myAnswerDoc?.rating ?? null, myWord: question.wordCloud ? myAnswerDoc?.textAnswer ?? null : null }
+      : null;
+
     return {
       question: {
         id: question._id,
         text: question.text,
         options: question.options,
         timeLimit: question.timeLimit,
+        multiSelect: isMultiSelect(question),
       },
       ropes,
+      estimation,
+      freeText,
+      survey,
       myAnswer: {
         hasAnswered,
         optionIndex: myAnswerDoc?.optionIndex ?? null,
+        optionIndices: myAnswerDoc ? getAnswerSelections(myAnswerDoc) : [],
         isCorrect: myIsCorrect,
         position,
         elevationGain: myAnswerDoc?.elevationGain ?? null,
+        wager: myAnswerDoc?.wager ?? null,
+        scoring: isRevealed && myAnswerDoc?.baseScore !== undefined
+          ? {
+              base: myAnswerDoc.baseScore,
+              speedBonus: myAnswerDoc.speedBonus ?? 0,
+              minorityBonus: myAnswerDoc.minorityBonus ?? 0,
+              streakBonus: myAnswerDoc.streakBonus ?? 0,
+            }
+          : null,
       },
       phase: questionPhase,
       timing: {
         firstAnsweredAt,
+        deadline,
         timeLimit: question.timeLimit,
         isExpired,
         isRevealed,
@@ -558,3 +753,172 @@ export const getPlayerRopeState = query({
     };
   },
 });
+
+// A free-text question the host is moderating: must be the live question with answers open
+async function getModeratedQuestion(ctx: MutationCtx, questionId: Id<"questions">, hostId: string) {
+  const question = await ctx.db.get(questionId);
+  if (!question) throw new Error("Question not found");
+  if (!isFreeText(question)) throw new Error("Only typed answers can be moderated");
+
+  const session = await ctx.db.get(question.sessionId);
+  if (!session) throw new Error("Session not found");
+  await requireSessionHost(ctx, session, hostId, "runGame");
+  const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+  if (enabledQuestions[session.currentQuestionIndex]?._id !== question._id || session.questionPhase !== "answers_shown") {
+    throw new Error("Can only moderate answers while they're open");
+  }
+  return { question, session };
+}
+
+// Load answers the host picked in the queue, checking they belong to the question
+async function getQuestionAnswers(ctx: MutationCtx, question: Doc<"questions">, answerIds: Id<"answers">[]) {
+  if (answerIds.length === 0) throw new Error("Select at least one answer");
+  const answers = await Promise.all(answerIds.map((id) => ctx.db.get(id)));
+  return answers.map((answer) => {
+    if (!answer || answer.questionId !== question._id) throw new Error("Answer not found");
+    return answer;
+  });
+}
+
+/**
+ * The host's moderation queue for a free-text question: approved groups (the ropes) with
+ * their answers, pending answers clustered by similar text, and rejected answers.
+ */
+export const getModerationQueue = query({
+  args: { questionId: v.id("questions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const question = await ctx.db.get(args.questionId);
+    if (!question || !isFreeText(question)) return null;
+    const session = await ctx.db.get(question.sessionId);
+    if (!session) return null;
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+
+    const answers = await ctx.db
+      .query("answers")
+      .withIndex("by_question", (q) => q.eq("questionId", args.questionId))
+      .collect();
+    const typed = answers
+      .sort((a, b) => a.answeredAt - b.answeredAt)
+      .map((a) => ({ answerId: a._id, text: a.textAnswer ?? "", optionIndex: a.optionIndex, moderation: a.moderation }));
+
+    // Suggest the existing group whose name matches a pending cluster
+    const groupKeys = question.options.map((option) => normalizeTextAnswer(option.text));
+
+    return {
+      groups: question.options.map((option, index) => ({
+        optionIndex: index,
+        text: option.text,
+        answers: typed.filter((a) => a.moderation === "approved" && a.optionIndex === index),
+      })),
+      pending: clusterTextAnswers(typed.filter((a) => a.moderation === "pending")).map((cluster) => {
+        const suggested = groupKeys.indexOf(cluster.key);
+        return {
+          text: cluster.text,
+          answerIds: cluster.items.map((a) => a.answerId),
+          suggestedOptionIndex: suggested >= 0 ? suggested : null,
+        };
+      }),
+      rejected: typed.filter((a) => a.moderation === "rejected"),
+    };
+  },
+});
+
+/**
+ * Approve typed answers into a group - an existing one (optionIndex), or a new one named
+ * by label (reusing a group whose name matches). Groups are the question's options, so
+ * approved players climb that rope. Returns the group's option index.
+ */
+export const approveTextAnswers = mutation({
+  args: {
+    questionId: v.id("questions"),
+    hostId: v.string(),
+    answerIds: v.array(v.id("answers")),
+    optionIndex: v.optional(v.number()),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { question, session } = await getModeratedQuestion(ctx, args.questionId, args.hostId);
+    const answers = await getQuestionAnswers(ctx, question, args.answerIds);
+
+    let optionIndex = args.optionIndex;
+    if (optionIndex !== undefined) {
+      if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= question.options.length) {
+        throw new Error("Group not found");
+      }
+    } else {
+      const label = args.label?.trim() ?? "";
+      if (!label) throw new Error("Group name is required");
+      if (label.length > MAX_TEXT_ANSWER_LENGTH) {
+        throw new Error(`Group names must be ${MAX_TEXT_ANSWER_LENGTH} characters or less`);
+      }
+      optionIndex = question.options.findIndex((o) => normalizeTextAnswer(o.text) === normalizeTextAnswer(label));
+      if (optionIndex < 0) {
+        optionIndex = question.options.length;
+        await ctx.db.patch(question._id, { options: [...question.options, { text: label }] });
+      }
+    }
+
+    for (const answer of answers) {
+      await ctx.db.patch(answer._id, { optionIndex, moderation: "approved" });
+      // Column positioning follows the rope the player ends up on
+      if (!session.anonymous) await ctx.db.patch(answer.playerId, { lastOptionIndex: optionIndex });
+    }
+    return optionIndex;
+  },
+});
+
+// Hide typed answers - they leave their rope and earn nothing on reveal
+export const rejectTextAnswers = mutation({
+  args: {
+    questionId: v.id("questions"),
+    hostId: v.string(),
+    answerIds: v.array(v.id("answers")),
+  },
+  handler: async (ctx, args) => {
+    const { question } = await getModeratedQuestion(ctx, args.questionId, args.hostId);
+    const answers = await getQuestionAnswers(ctx, question, args.answerIds);
+
+    for (const answer of answers) {
+      await ctx.db.patch(answer._id, { optionIndex: -1, moderation: "rejected" });
+    }
+  },
+});
+
+/**
+ * Merge one free-text group into another: its answers move over and its rope is removed
+ * (later groups shift down one index).
+ */
+export const mergeTextGroups = mutation({
+  args: {
+    questionId: v.id("questions"),
+    hostId: v.string(),
+    fromIndex: v.number(),
+    intoIndex: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { question, session } = await getModeratedQuestion(ctx, args.questionId, args.hostId);
+    const groupCount = question.options.length;
+    for (const index of [args.fromIndex, args.intoIndex]) {
+      if (!Number.isInteger(index) || index < 0 || index >= groupCount) throw new Error("Group not found");
+    }
+    if (args.fromIndex === args.intoIndex) throw new Error("Pick two different groups");
+
+    // Where each old index ends up once the merged group is gone
+    const newIndex = (index: number) => {
+      const target = index === args.fromIndex ? args.intoIndex : index;
+      return target > args.fromIndex ? target - 1 : target;
+    };
+
+    const answers = await ctx.db
+      .query("answers")
+      .withIndex("by_question", (q) => q.eq("questionId", question._id))
+      .collect();
+    for (const answer of answers) {
+      if (answer.optionIndex < 0 || newIndex(answer.optionIndex) === answer.optionIndex) continue;
+      await ctx.db.patch(answer._id, { optionIndex: newIndex(answer.optionIndex) });
+      if (!session.anonymous) await ctx.db.patch(answer.playerId, { lastOptionIndex: newIndex(answer.optionIndex) });
+    }
+
+    await ctx.db.patch(question._id, { options: question.options.filter((_, i) => i !== args.fromIndex) });
+  },
+});
@@ -1,6 +1,17 @@
-import type { GenericQueryCtx } from "convex/server";
+import type { GenericMutationCtx, GenericQueryCtx } from "convex/server";
+import type { Infer } from "convex/values";
 import type { DataModel } from "./_generated/dataModel";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { hostActionValidator, hostPermissionValidator, quizQuestionValidator } from "./schema";
+import { calculateEstimationCredit, calculateMultiSelectCredit } from "../lib/elevation";
+import { getCheckpointRewards, type PowerUpKind } from "../lib/powerUps";
+import { calculateStreaks } from "../lib/report";
+import { MAX_TEXT_ANSWER_LENGTH } from "../lib/freeText";
+import { MAX_WORD_LENGTH, RATING_SCALE_INFO } from "../lib/survey";
+
+export type QuizQuestion = Infer<typeof quizQuestionValidator>;
+export type HostPermission = Infer<typeof hostPermissionValidator>;
+export type HostAction = Infer<typeof hostActionValidator>;
 
 /**
  * Fetch all enabled questions for a session, sorted by order.
@@ -21,3 +32,491 @@ export async function getEnabledQuestions(
     .filter((q) => q.enabled !== false)
     .sort((a, b) => a.order - b.order);
 }
+
+/**
+ * Whether a question is "select all that apply" (players pick several options).
+ */
+export function isMultiSelect(question: Doc<"questions">): boolean {
+  return question.correctOptionIndices !== undefined && question.correctOptionIndices.length > 0;
+}
+
+/**
+ * Whether a question is an estimation ("closest guess") question - players type a number.
+ */
+export function isEstimation(question: Doc<"questions">): boolean {
+  return question.numericAnswer !== undefined;
+}
+
+/**
+ * Whether a question is open-ended - players type answers that the host groups into options.
+ */
+export function isFreeText(question: Doc<"questions">): boolean {
+  return question.freeText === true;
+}
+
+/**
+ * Whether a question is a survey question (rating scale or word cloud) - answers are
+ * tallied for the big screen and only earn elevation when the host scores the question.
+ */
+export function isSurvey(question: Doc<"questions">): boolean {
+  return question.ratingScale !== undefined || question.wordCloud === true;
+}
+
+/**
+ * Whether a question is a poll - no correct answer configured, so nobody is right or wrong.
+ * Survey questions count as polls too.
+ */
+export function isPoll(question: Doc<"questions">): boolean {
+  return !isMultiSelect(question) && !isEstimation(question) && question.correctOptionIndex === undefined;
+}
+
+/**
+ * Whether an option is correct for a question.
+ * Returns null in poll mode (no correct answer configured).
+ */
+export function isOptionCorrect(question: Doc<"questions">, optionIndex: number): boolean | null {
+  if (isMultiSelect(question)) return question.correctOptionIndices!.includes(optionIndex);
+  if (question.correctOptionIndex === undefined) return null;
+  return optionIndex === question.correctOptionIndex;
+}
+
+/**
+ * Whether a (revealed) answer was correct. Select-all and estimation answers count as
+ * correct when they earned any credit - the same rule as streaks, so power-ups and wagers
+ * (which only change the elevation gained) never flip it. Returns null in poll mode.
+ */
+export function isAnswerCorrect(question: Doc<"questions">, answer: Doc<"answers">): boolean | null {
+  if (isMultiSelect(question) || isEstimation(question)) return getAnswerCredit(question, answer) > 0;
+  if (question.correctOptionIndex === undefined) return null;
+  return answer.optionIndex === question.correctOptionIndex;
+}
+
+/**
+ * All option indices an answer picked (one for single-choice, several for select-all).
+ */
+export function getAnswerSelections(answer: Doc<"answers">): number[] {
+  if (answer.numericGuess !== undefined) return []; // Estimation guesses don't pick options
+  if (answer.optionIndex < 0) return []; // Free text not (or no longer) in a group
+  return answer.optionIndices ?? [answer.optionIndex];
+}
+
+/**
+ * A player's raw answer input, before it's checked against the question type.
+ */
+export interface AnswerInput {
+  optionIndex?: number; // Single-choice questions
+  optionIndices?: number[]; // "Select all that apply" questions
+  numericGuess?: number; // Estimation ("closest guess") questions
+  text?: string; // Free-text and word-cloud questions
+  rating?: number; // Rating-scale questions
+}
+
+/**
+ * Validate an answer against its question and normalize it into the fields stored on
+ * an answer. Estimation questions take a number, free-text questions take typed text (queued
+ * for the host), rating questions take a value on their scale, word clouds take a short word,
+ * select-all questions take a set of picks, everything else takes exactly one option.
+ */
+export function parseAnswerInput(
+  question: Doc<"questions">,
+  input: AnswerInput
+): Pick<Doc<"answers">, "optionIndex" | "optionIndices" | "numericGuess" | "textAnswer" | "moderation" | "rating"> {
+  if (question.ratingScale !== undefined) {
+    if (input.optionIndex !== undefined || input.optionIndices !== undefined || input.numericGuess !== undefined || input.text !== undefined) {
+      throw new Error("This question takes a rating");
+    }
+    const { min, max } = RATING_SCALE_INFO[question.ratingScale];
+    if (input.rating === undefined) throw new Error("Pick a rating");
+    if (!Number.isInteger(input.rating) || input.rating < min || input.rating > max) {
+      throw new Error(`Rating must be ${min}-${max}`);
+    }
+    return { optionIndex: -1, rating: input.rating };
+  }
+  if (input.rating !== undefined) throw new Error("This question doesn't take a rating");
+
+  if (question.wordCloud) {
+    if (input.optionIndex !== undefined || input.optionIndices !== undefined || input.numericGuess !== undefined) {
+      throw new Error("This question takes a typed answer");
+    }
+    const word = input.text?.trim() ?? "";
+    if (!word) throw new Error("Type a word");
+    if (word.length > MAX_WORD_LENGTH) {
+      throw new Error(`Words must be ${MAX_WORD_LENGTH} characters or less`);
+    }
+    return { optionIndex: -1, textAnswer: word };
+  }
+
+  if (isFreeText(question)) {
+    if (input.optionIndex !== undefined || input.optionIndices !== undefined || input.numericGuess !== undefined) {
+      throw new Error("This question takes a typed answer");
+    }
+    const text = input.text?.trim() ?? "";
+    if (!text) throw new Error("Type an answer");
+    if (text.length > MAX_TEXT_ANSWER_LENGTH) {
+      throw new Error(`Answers must be ${MAX_TEXT_ANSWER_LENGTH} characters or less`);
+    }
+    return { optionIndex: -1, textAnswer: text, moderation: "pending" };
+  }
+  if (input.text !== undefined) throw new Error("This question takes an option, not text");
+
+  const estimation = isEstimation(question);
+  const multiSelect = isMultiSelect(question);
+  let picks: number[];
+  if (estimation) {
+    if (input.optionIndex !== undefined || input.optionIndices !== undefined) {
+      throw new Error("This question takes a number, not an option");
+    }
+    if (input.numericGuess === undefined || !Number.isFinite(input.numericGuess)) {
+      throw new Error("Enter a number");
+    }
+    picks = [];
+  } else if (input.numericGuess !== undefined) {
+    throw new Error("This question takes an option, not a number");
+  } else if (multiSelect) {
+    const requested = input.optionIndices ?? (input.optionIndex !== undefined ? [input.optionIndex] : []);
+    if (requested.length === 0) throw new Error("Select at least one option");
+    picks = [...new Set(requested)].sort((a, b) => a - b);
+  } else {
+    if (input.optionIndices !== undefined) {
+      throw new Error("This question only accepts one answer");
+    }
+    if (input.optionIndex === undefined) throw new Error("Select an option");
+    picks = [input.optionIndex];
+  }
+
+  // Validate every pick is within bounds
+  for (const pick of picks) {
+    if (
+      !Number.isInteger(pick) ||
+      pick < 0 ||
+      pick >= question.options.length
+    ) {
+      throw new Error(
+        `Invalid option index: must be 0-${question.options.length - 1}`
+      );
+    }
+  }
+
+  return {
+    optionIndex: estimation ? -1 : picks[0]!,
+    optionIndices: multiSelect ? picks : undefined,
+    numericGuess: estimation ? input.numericGuess : undefined,
+  };
+}
+
+/**
+ * Credit an answer earns (0-1): estimation guesses scale with closeness, select-all
+ * questions can earn partial credit, single-choice answers are all-or-nothing,
+ * poll mode gives everyone full credit (except free text the host rejected), and
+ * survey questions earn nothing unless the host scores them.
+ */
+export function getAnswerCredit(
+  question: Doc<"questions">,
+  answer: Pick<Doc<"answers">, "optionIndex" | "optionIndices" | "numericGuess" | "moderation">
+): number {
+  if (answer.moderation === "rejected") return 0;
+  if (isSurvey(question)) return question.surveyScored ? 1 : 0;
+  if (question.numericAnswer !== undefined) {
+    return answer.numericGuess !== undefined
+      ? calculateEstimationCredit(answer.numericGuess, question.numericAnswer)
+      : 0;
+  }
+  if (isMultiSelect(question)) {
+    return calculateMultiSelectCredit(
+      answer.optionIndices ?? [answer.optionIndex],
+      question.correctOptionIndices!,
+      question.partialCredit ?? false
+    );
+  }
+  if (question.correctOptionIndex === undefined) return 1; // Poll mode - all answers are "correct"
+  return answer.optionIndex === question.correctOptionIndex ? 1 : 0;
+}
+
+/**
+ * Check that a request acting as a player carries that player's secret token.
+ * Player IDs are visible to everyone in the session, so the token is what proves identity.
+ */
+export function isValidPlayerToken(player: Doc<"players">, secretToken: string): boolean {
+  return player.secretToken !== undefined && player.secretToken === secretToken;
+}
+
+/**
+ * Strip the secret token and device id from a player before returning it from a query.
+ */
+export function toPublicPlayer(player: Doc<"players">): Omit<Doc<"players">, "secretToken" | "deviceId"> {
+  const { secretToken: _secretToken, deviceId: _deviceId, ...rest } = player;
+  return rest;
+}
+
+/**
+ * Whether a self-paced session is still being played. Until the deadline finishes it,
+ * scores and correct answers stay hidden so players can't pass them on to colleagues
+ * who haven't played yet.
+ */
+export function isSelfPacedInProgress(session: Doc<"sessions"> | null): boolean {
+  return session?.mode === "async" && session.status === "active";
+}
+
+/**
+ * A player as anyone in the session may see them: no secret token, and no score while a
+ * self-paced session is still being played.
+ */
+export function toVisiblePlayer(player: Doc<"players">, session: Doc<"sessions"> | null): Omit<Doc<"players">, "secretToken" | "deviceId"> {
+  const visible = toPublicPlayer(player);
+  if (!isSelfPacedInProgress(session)) return visible;
+  return {
+    ...visible,
+    elevation: 0,
+    summitPlace: undefined,
+    summitElevation: undefined,
+    summitQuestionId: undefined,
+    currentStreak: undefined,
+    bestStreak: undefined,
+  };
+}
+
+/**
+ * A question without its answer key (correct options, estimation value and fun fact),
+ * for non-hosts while a self-paced session is still being played.
+ */
+export function withoutAnswerKey(question: Doc<"questions">): Doc<"questions"> {
+  return {
+    ...question,
+    correctOptionIndex: undefined,
+    correctOptionIndices: undefined,
+    numericAnswer: undefined,
+    followUpText: undefined,
+  };
+}
+
+/**
+ * Copy a session question into quiz library form (drops session, order and enabled state).
+ */
+export function toQuizQuestion(question: Doc<"questions">): QuizQuestion {
+  return {
+    text: question.text,
+    imageId: question.imageId,
+    imageUrl: question.imageUrl,
+    audioId: question.audioId,
+    audioUrl: question.audioUrl,
+    options: isFreeText(question) ? [] : question.options, // Groups belong to the session's answers
+    correctOptionIndex: question.correctOptionIndex,
+    correctOptionIndices: question.correctOptionIndices,
+    partialCredit: question.partialCredit,
+    numericAnswer: question.numericAnswer,
+    freeText: question.freeText,
+    ratingScale: question.ratingScale,
+    wordCloud: question.wordCloud,
+    surveyScored: question.surveyScored,
+    timeLimit: question.timeLimit,
+    followUpText: question.followUpText,
+  };
+}
+
+/**
+ * Keep imageUrl only for external images. Clients send back the URLs queries filled in
+ * for uploads, which expire with the file - the storage id is what gets stored.
+ */
+export function normalizeImage<T extends { imageId?: Id<"_storage">; imageUrl?: string }>(item: T): T {
+  return item.imageId ? { ...item, imageUrl: undefined } : item;
+}
+
+/**
+ * Fill in imageUrl and audioUrl for a question's uploads (question, options and clip) so clients can use them.
+ */
+export async function withMediaUrls(
+  ctx: GenericQueryCtx<DataModel>,
+  question: Doc<"questions">
+): Promise<Doc<"questions">> {
+  const resolve = async <T extends { imageId?: Id<"_storage">; imageUrl?: string }>(item: T): Promise<T> =>
+    item.imageId ? { ...item, imageUrl: (await ctx.storage.getUrl(item.imageId)) ?? undefined } : item;
+
+  return {
+    ...(await resolve(question)),
+    audioUrl: question.audioId ? (await ctx.storage.getUrl(question.audioId)) ?? undefined : question.audioUrl,
+    options: await Promise.all(question.options.map(resolve)),
+  };
+}
+
+/**
+ * Insert quiz library questions into a session, in quiz order.
+ */
+export async function insertQuizQuestions(
+  ctx: GenericMutationCtx<DataModel>,
+  sessionId: Id<"sessions">,
+  questions: QuizQuestion[]
+) {
+  for (let i = 0; i < questions.length; i++) {
+    await ctx.db.insert("questions", { ...questions[i]!, sessionId, order: i });
+  }
+}
+
+/**
+ * A host's co-host record in a session, if they were invited to it.
+ */
+export async function findCoHost(ctx: GenericQueryCtx<DataModel>, sessionId: Id<"sessions">, hostId: string) {
+  return await ctx.db
+    .query("coHosts")
+    .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+    .filter((q) => q.eq(q.field("hostId"), hostId))
+    .first();
+}
+
+/**
+ * Check that hostId may perform an action on a session. The owner can do anything;
+ * co-hosts only what they were granted. Returns the caller's role.
+ */
+export async function requireSessionHost(
+  ctx: GenericQueryCtx<DataModel>,
+  session: Doc<"sessions">,
+  hostId: string,
+  permission: HostPermission
+): Promise<"owner" | "cohost"> {
+  if (hostId === session.hostId) return "owner";
+
+  const coHost = await findCoHost(ctx, session._id, hostId);
+  if (!coHost) throw new Error("Unauthorized: not the session host");
+  if (!coHost.permissions.includes(permission)) throw new Error("Unauthorized: missing co-host permission");
+  return "cohost";
+}
+
+/**
+ * Display name for a host: their account name, or a generic label when they haven't made one.
+ */
+export async function getHostName(ctx: GenericQueryCtx<DataModel>, hostId: string, fallback: string) {
+  const account = await ctx.db
+    .query("hosts")
+    .withIndex("by_hostId", (q) => q.eq("hostId", hostId))
+    .first();
+  return account?.name ?? fallback;
+}
+
+/**
+ * Record which host triggered a sensitive action, for the session's audit trail.
+ */
+export async function recordHostAction(
+  ctx: GenericMutationCtx<DataModel>,
+  session: Doc<"sessions">,
+  hostId: string,
+  action: HostAction,
+  detail?: string
+) {
+  const hostName = await getHostName(ctx, hostId, hostId === session.hostId ? "Host" : "Co-host");
+  await ctx.db.insert("hostActions", {
+    sessionId: session._id,
+    hostId,
+    hostName,
+    action,
+    detail,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Strip the owner's hostId from a session before returning it from a public query.
+ * The hostId is the host's credential, and sessions are readable by players and spectators.
+ */
+export function toPublicSession(session: Doc<"sessions">): Omit<Doc<"sessions">, "hostId"> {
+  const { hostId: _hostId, ...rest } = session;
+  return rest;
+}
+
+/**
+ * Power-ups in play on a question, per affected player: their own double/shield/50-50
+ * plus any freeze a rival aimed at them.
+ */
+export async function getPowerUpEffects(
+  ctx: GenericQueryCtx<DataModel>,
+  questionId: Id<"questions">
+): Promise<Map<Id<"players">, PowerUpKind[]>> {
+  const used = await ctx.db
+    .query("powerUps")
+    .withIndex("by_used_question", (q) => q.eq("usedOnQuestionId", questionId))
+    .collect();
+
+  const effects = new Map<Id<"players">, PowerUpKind[]>();
+  for (const powerUp of used) {
+    const affected = powerUp.kind === "freeze" ? powerUp.targetPlayerId : powerUp.playerId;
+    if (!affected) continue;
+    effects.set(affected, [...(effects.get(affected) ?? []), powerUp.kind]);
+  }
+  return effects;
+}
+
+/**
+ * Work out each player's current and best streak from their answers to the given
+ * questions (in play order). Same rules as the session report: a wrong or missing
+ * answer breaks a streak, poll questions are skipped.
+ *
+ * @param questions - Scored questions in play order (e.g. everything up to the current question)
+ * @param playerIds - Players to count streaks for
+ */
+export async function getStreaks(
+  ctx: GenericQueryCtx<DataModel>,
+  questions: Doc<"questions">[],
+  playerIds: Id<"players">[]
+): Promise<Map<Id<"players">, { current: number; best: number }>> {
+  const results = new Map(playerIds.map((id) => [id, [] as Array<boolean | null>]));
+
+  for (const question of questions) {
+    const answers = await ctx.db
+      .query("answers")
+      .withIndex("by_question", (q) => q.eq("questionId", question._id))
+      .collect();
+    const answerByPlayer = new Map(answers.map((a) => [a.playerId, a]));
+    for (const [playerId, playerResults] of results) {
+      const answer = answerByPlayer.get(playerId);
+      playerResults.push(isPoll(question) ? null : answer ? getAnswerCredit(question, answer) > 0 : false);
+    }
+  }
+
+  return new Map([...results].map(([playerId, playerResults]) => [playerId, calculateStreaks(playerResults)]));
+}
+
+/**
+ * Store every player's current and best streak as of the given questions
+ * (only patching players whose streaks changed).
+ */
+export async function refreshStreaks(
+  ctx: GenericMutationCtx<DataModel>,
+  questions: Doc<"questions">[],
+  players: Doc<"players">[]
+) {
+  const streaks = await getStreaks(ctx, questions, players.map((p) => p._id));
+  for (const player of players) {
+    const { current, best } = streaks.get(player._id)!;
+    if (current !== (player.currentStreak ?? 0) || best !== (player.bestStreak ?? 0)) {
+      await ctx.db.patch(player._id, { currentStreak: current, bestStreak: best });
+    }
+  }
+}
+
+/**
+ * Hand out power-ups for reward checkpoints a player climbed past on a question.
+ * Each checkpoint pays out once per game, so re-scoring the same reveal is harmless.
+ */
+export async function awardCheckpointPowerUps(
+  ctx: GenericMutationCtx<DataModel>,
+  player: { _id: Id<"players">; sessionId: Id<"sessions"> },
+  questionId: Id<"questions">,
+  fromElevation: number,
+  toElevation: number
+) {
+  const rewards = getCheckpointRewards(fromElevation, toElevation);
+  if (rewards.length === 0) return;
+
+  const owned = await ctx.db
+    .query("powerUps")
+    .withIndex("by_player", (q) => q.eq("playerId", player._id))
+    .collect();
+  for (const reward of rewards) {
+    if (owned.some((p) => p.checkpoint === reward.elevation)) continue;
+    await ctx.db.insert("powerUps", {
+      sessionId: player.sessionId,
+      playerId: player._id,
+      kind: reward.kind,
+      checkpoint: reward.elevation,
+      earnedOnQuestionId: questionId,
+    });
+  }
+}
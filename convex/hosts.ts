@@ -0,0 +1,220 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import type { GenericQueryCtx } from "convex/server";
+import type { DataModel, Id } from "./_generated/dataModel";
+import { hostPermissionValidator } from "./schema";
+import { HOST_PERMISSIONS } from "../lib/hostPermissions";
+import { findCoHost, getHostName, type HostPermission } from "./helpers";
+
+const MAX_HOST_NAME_LENGTH = 40;
+const MIN_PASSWORD_LENGTH = 8;
+const PBKDF2_ITERATIONS = 100_000;
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Salted PBKDF2-SHA256 so stored hashes don't reveal passwords
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+// Trim and validate a host display name
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Host name is required");
+  if (trimmed.length > MAX_HOST_NAME_LENGTH) {
+    throw new Error(`Host name must be ${MAX_HOST_NAME_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
+
+// Owner-only check for managing who else can host a session
+async function getOwnedSession(ctx: GenericQueryCtx<DataModel>, sessionId: Id<"sessions">, hostId: string) {
+  const session = await ctx.db.get(sessionId);
+  if (!session) throw new Error("Session not found");
+  if (hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+  return session;
+}
+
+// Create a named account for this device's hostId, so existing sessions and quizzes carry over
+export const register = mutation({
+  args: { hostId: v.string(), name: v.string(), password: v.string() },
+  handler: async (ctx, args) => {
+    const name = normalizeName(args.name);
+    if (args.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const existingAccount = await ctx.db
+      .query("hosts")
+      .withIndex("by_hostId", (q) => q.eq("hostId", args.hostId))
+      .first();
+    if (existingAccount) throw new Error("This device is already signed in to a host account");
+
+    const nameKey = name.toLowerCase();
+    const taken = await ctx.db
+      .query("hosts")
+      .withIndex("by_nameKey", (q) => q.eq("nameKey", nameKey))
+      .first();
+    if (taken) throw new Error("Host name already taken");
+
+    const passwordSalt = crypto.randomUUID();
+    await ctx.db.insert("hosts", {
+      name,
+      nameKey,
+      hostId: args.hostId,
+      passwordHash: await hashPassword(args.password, passwordSalt),
+      passwordSalt,
+      createdAt: Date.now(),
+    });
+    return { name };
+  },
+});
+
+// Sign in from another device - returns the account's hostId for the client to store
+export const signIn = mutation({
+  args: { name: v.string(), password: v.string() },
+  handler: async (ctx, args) => {
+    const account = await ctx.db
+      .query("hosts")
+      .withIndex("by_nameKey", (q) => q.eq("nameKey", args.name.trim().toLowerCase()))
+      .first();
+    // Same error either way, so names can't be probed
+    if (!account || (await hashPassword(args.password, account.passwordSalt)) !== account.passwordHash) {
+      throw new Error("Invalid host name or password");
+    }
+    return { hostId: account.hostId, name: account.name };
+  },
+});
+
+// The account signed in on this device (null for anonymous hosts)
+export const getAccount = query({
+  args: { hostId: v.string() },
+  handler: async (ctx, args) => {
+    const account = await ctx.db
+      .query("hosts")
+      .withIndex("by_hostId", (q) => q.eq("hostId", args.hostId))
+      .first();
+    return account ? { name: account.name } : null;
+  },
+});
+
+// The caller's role in a session: the owner has every permission, co-hosts what they were granted
+export const getMyRole = query({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args): Promise<{ role: "owner" | "cohost"; permissions: HostPermission[] } | null> => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return null;
+    if (args.hostId === session.hostId) return { role: "owner", permissions: [...HOST_PERMISSIONS] };
+
+    const coHost = await findCoHost(ctx, args.sessionId, args.hostId);
+    return coHost ? { role: "cohost", permissions: coHost.permissions } : null;
+  },
+});
+
+// Co-hosts of a session with their account names (visible to anyone hosting it)
+export const listCoHosts = query({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return [];
+
+    const coHosts = await ctx.db
+      .query("coHosts")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    if (args.hostId !== session.hostId && !coHosts.some((c) => c.hostId === args.hostId)) return [];
+
+    return Promise.all(
+      coHosts.map(async (c) => ({
+        _id: c._id,
+        name: await getHostName(ctx, c.hostId, "Co-host"),
+        permissions: c.permissions,
+        addedAt: c.addedAt,
+      }))
+    );
+  },
+});
+
+// Invite a co-host by their host account name (owner only)
+export const addCoHost = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    name: v.string(),
+    permissions: v.array(hostPermissionValidator),
+  },
+  handler: async (ctx, args) => {
+    const session = await getOwnedSession(ctx, args.sessionId, args.hostId);
+    if (args.permissions.length === 0) throw new Error("Pick at least one permission");
+
+    const account = await ctx.db
+      .query("hosts")
+      .withIndex("by_nameKey", (q) => q.eq("nameKey", args.name.trim().toLowerCase()))
+      .first();
+    if (!account) throw new Error("No host account with that name");
+    if (account.hostId === session.hostId) throw new Error("You already own this session");
+
+    if (await findCoHost(ctx, args.sessionId, account.hostId)) throw new Error("That host is already a co-host");
+
+    return await ctx.db.insert("coHosts", {
+      sessionId: args.sessionId,
+      hostId: account.hostId,
+      permissions: [...new Set(args.permissions)],
+      addedAt: Date.now(),
+    });
+  },
+});
+
+// Change what a co-host may do (owner only)
+export const updateCoHost = mutation({
+  args: {
+    coHostId: v.id("coHosts"),
+    hostId: v.string(),
+    permissions: v.array(hostPermissionValidator),
+  },
+  handler: async (ctx, args) => {
+    const coHost = await ctx.db.get(args.coHostId);
+    if (!coHost) throw new Error("Co-host not found");
+    await getOwnedSession(ctx, coHost.sessionId, args.hostId);
+    if (args.permissions.length === 0) throw new Error("Pick at least one permission");
+
+    await ctx.db.patch(args.coHostId, { permissions: [...new Set(args.permissions)] });
+  },
+});
+
+// Remove a co-host from a session (owner only)
+export const removeCoHost = mutation({
+  args: { coHostId: v.id("coHosts"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const coHost = await ctx.db.get(args.coHostId);
+    if (!coHost) throw new Error("Co-host not found");
+    await getOwnedSession(ctx, coHost.sessionId, args.hostId);
+
+    await ctx.db.delete(args.coHostId);
+  },
+});
+
+// Audit trail of sensitive host actions in a session, newest first (hosts only)
+export const listActions = query({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return [];
+    if (args.hostId !== session.hostId && !(await findCoHost(ctx, args.sessionId, args.hostId))) return [];
+
+    const actions = await ctx.db
+      .query("hostActions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .order("desc")
+      .collect();
+    return actions.map((a) => ({ _id: a._id, hostName: a.hostName, action: a.action, detail: a.detail, createdAt: a.createdAt }));
+  },
+});
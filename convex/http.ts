@@ -13,14 +13,14 @@ http.route({
   handler: httpAction(async (ctx, request) => {
     try {
       const body = await request.json();
-      const { playerId } = body as { playerId: Id<"players"> };
+      const { playerId, secretToken } = body as { playerId: Id<"players">; secretToken: string };
 
-      if (!playerId) {
-        return new Response("Missing playerId", { status: 400 });
+      if (!playerId || !secretToken) {
+        return new Response("Missing playerId or secretToken", { status: 400 });
       }
 
       // Mark player as disconnected by setting lastSeenAt to 0
-      await ctx.runMutation(api.players.disconnect, { playerId });
+      await ctx.runMutation(api.players.disconnect, { playerId, secretToken });
 
       return new Response(null, { status: 200 });
     } catch (error) {
@@ -104,8 +104,9 @@ http.route({
         );
       }
 
-      // Verify hostId matches
-      if (session.hostId !== hostId) {
+      // Verify the caller may edit this session's questions (owner, or co-host with that permission)
+      const role = await ctx.runQuery(api.hosts.getMyRole, { sessionId: session._id, hostId });
+      if (!role || !role.permissions.includes("editQuestions")) {
         return new Response(
           JSON.stringify({ error: "Invalid hostId for this session" }),
           { status: 403, headers: { "Content-Type": "application/json" } }
@@ -0,0 +1,154 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { leagueScoringValidator } from "./schema";
+import { rankFinishers } from "../lib/finale";
+import { buildLeagueTable, getLeagueMemberKey, LEAGUE_CODE_LENGTH, MAX_LEAGUE_NAME_LENGTH } from "../lib/league";
+
+// Generate a league share code no other league uses
+async function generateLeagueCode(ctx: MutationCtx): Promise<string> {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // No I or O to avoid confusion
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < LEAGUE_CODE_LENGTH; i++) {
+      code += chars[Math.floor(Math.random() * chars.length)];
+    }
+    const existing = await ctx.db
+      .query("leagues")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (!existing) return code;
+  }
+}
+
+// Create a league for a host
+export const create = mutation({
+  args: {
+    hostId: v.string(),
+    name: v.string(),
+    scoring: leagueScoringValidator,
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (!name) throw new Error("League name is required");
+    if (name.length > MAX_LEAGUE_NAME_LENGTH) {
+      throw new Error(`League name must be ${MAX_LEAGUE_NAME_LENGTH} characters or less`);
+    }
+
+    return await ctx.db.insert("leagues", {
+      hostId: args.hostId,
+      name,
+      code: await generateLeagueCode(ctx),
+      scoring: args.scoring,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Delete a league. Its sessions stay, they just stop counting towards a table.
+export const remove = mutation({
+  args: { leagueId: v.id("leagues"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const league = await ctx.db.get(args.leagueId);
+    if (!league) throw new Error("League not found");
+    if (args.hostId !== league.hostId) throw new Error("Unauthorized: not the league owner");
+
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_league", (q) => q.eq("leagueId", args.leagueId))
+      .collect();
+    for (const session of sessions) {
+      await ctx.db.patch(session._id, { leagueId: undefined });
+    }
+    await ctx.db.delete(args.leagueId);
+  },
+});
+
+// List a host's leagues (newest first) with how many sessions each has
+export const listByHost = query({
+  args: { hostId: v.string() },
+  handler: async (ctx, args) => {
+    const leagues = await ctx.db
+      .query("leagues")
+      .withIndex("by_hostId", (q) => q.eq("hostId", args.hostId))
+      .collect();
+
+    const result = [];
+    for (const league of leagues.sort((a, b) => b.createdAt - a.createdAt)) {
+      const sessions = await ctx.db
+        .query("sessions")
+        .withIndex("by_league", (q) => q.eq("leagueId", league._id))
+        .collect();
+      const { hostId: _hostId, ...rest } = league;
+      result.push({ ...rest, sessionCount: sessions.length });
+    }
+    return result;
+  },
+});
+
+// Add a session to one of the host's leagues, or take it out (leagueId: null).
+// Only the session's owner decides - co-hosts can't move it into (or out of) a league.
+export const setSessionLeague = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    leagueId: v.union(v.id("leagues"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+
+    if (args.leagueId) {
+      const league = await ctx.db.get(args.leagueId);
+      if (!league) throw new Error("League not found");
+      if (args.hostId !== league.hostId) throw new Error("Unauthorized: not the league owner");
+    }
+    await ctx.db.patch(args.sessionId, { leagueId: args.leagueId ?? undefined });
+  },
+});
+
+// Public league table by share code: points from every finished session in the league
+export const getStandings = query({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const league = await ctx.db
+      .query("leagues")
+      .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
+      .first();
+    if (!league) return null;
+
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_league", (q) => q.eq("leagueId", league._id))
+      .collect();
+    const finished = sessions
+      .filter((s) => s.status === "finished")
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    const finishers = [];
+    for (const session of finished) {
+      const players = await ctx.db
+        .query("players")
+        .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+        .collect();
+      finishers.push(
+        rankFinishers(players).map((p) => ({
+          key: getLeagueMemberKey(p),
+          name: p.name,
+          elevation: p.elevation,
+          summitPlace: p.summitPlace,
+        }))
+      );
+    }
+
+    return {
+      name: league.name,
+      code: league.code,
+      scoring: league.scoring,
+      sessionCount: finished.length,
+      lastPlayedAt: finished[finished.length - 1]?.createdAt ?? null,
+      // Keys carry device ids, which would let anyone pose as a climber - keep them private
+      table: buildLeagueTable(league.scoring, finishers).map(({ key: _key, ...row }) => row),
+    };
+  },
+});
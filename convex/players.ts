@@ -1,24 +1,26 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import { PRESENCE_TIMEOUT_MS } from "../lib/constants";
-
-// Helper to check if a player is currently active based on heartbeat
-function isPlayerActive(player: { lastSeenAt?: number }): boolean {
-  if (!player.lastSeenAt) return false; // Never seen = inactive
-  if (player.lastSeenAt === 0) return false; // Explicitly disconnected
-  return Date.now() - player.lastSeenAt < PRESENCE_TIMEOUT_MS;
-}
+import { getEnabledQuestions, isSelfPacedInProgress, isValidPlayerToken, recordHostAction, requireSessionHost, toVisiblePlayer } from "./helpers";
+import { buildClimbReplay } from "../lib/finale";
 
 export const join = mutation({
   args: {
     sessionId: v.id("sessions"),
     name: v.string(),
+    teamId: v.optional(v.id("teams")), // Team to climb with (team mode only)
+    secretToken: v.optional(v.string()), // Token from an earlier join, to rejoin as the same player
+    deviceId: v.optional(v.string()), // This browser's id, linking the player across a league's sessions
   },
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
     if (session.status === "finished") throw new Error("Game has ended");
 
+    if (args.teamId) {
+      const team = await ctx.db.get(args.teamId);
+      if (!team || team.sessionId !== args.sessionId) throw new Error("Team not found");
+    }
+
     const trimmedName = args.name.trim();
 
     // Check for existing player with same name in session
@@ -29,56 +31,128 @@ export const join = mutation({
       .first();
 
     if (existing) {
-      // If existing player is still active, reject the join
-      if (isPlayerActive(existing)) {
+      // Only the device holding the player's token can take the name back.
+      // Matching on name alone let anyone hijack a disconnected player's progress.
+      if (!args.secretToken || !isValidPlayerToken(existing, args.secretToken)) {
         throw new Error("Name already taken in this session");
       }
 
-      // Existing player is inactive - reactivate them (allows rejoin/refresh scenarios)
-      // This preserves their elevation/progress
-      await ctx.db.patch(existing._id, { lastSeenAt: Date.now() });
-      return existing._id;
+      // Reactivate the player (refresh/rejoin). This preserves their elevation/progress.
+      // Team can only change before the game starts.
+      await ctx.db.patch(existing._id, {
+        lastSeenAt: Date.now(),
+        ...(args.teamId && session.status === "lobby" ? { teamId: args.teamId } : {}),
+      });
+      return { playerId: existing._id, secretToken: args.secretToken };
     }
 
     // No existing player with this name - create new one
+    const secretToken = crypto.randomUUID();
     const playerId = await ctx.db.insert("players", {
       sessionId: args.sessionId,
       name: trimmedName,
+      teamId: args.teamId,
+      secretToken,
+      deviceId: args.deviceId,
       elevation: 0,
       lastSeenAt: Date.now(),
     });
 
-    return playerId;
+    return { playerId, secretToken };
+  },
+});
+
+// Switch a player's team (only in lobby, so team standings stay consistent during play)
+export const setTeam = mutation({
+  args: {
+    playerId: v.id("players"),
+    secretToken: v.string(),
+    teamId: v.id("teams"),
+  },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player) throw new Error("Player not found");
+    if (!isValidPlayerToken(player, args.secretToken)) throw new Error("Invalid player token");
+
+    const session = await ctx.db.get(player.sessionId);
+    if (!session) throw new Error("Session not found");
+    if (session.status !== "lobby") throw new Error("Can only switch teams in lobby");
+
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.sessionId !== player.sessionId) throw new Error("Team not found");
+
+    await ctx.db.patch(args.playerId, { teamId: args.teamId });
   },
 });
 
+// Scores stay hidden in these queries while a self-paced session is still being played
 export const listBySession = query({
   args: { sessionId: v.id("sessions") },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const session = await ctx.db.get(args.sessionId);
+    const players = await ctx.db
       .query("players")
       .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
       .collect();
+    return players.map((p) => toVisiblePlayer(p, session));
   },
 });
 
 export const get = query({
   args: { playerId: v.id("players") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.playerId);
+    const player = await ctx.db.get(args.playerId);
+    if (!player) return null;
+    return toVisiblePlayer(player, await ctx.db.get(player.sessionId));
   },
 });
 
 export const getLeaderboard = query({
   args: { sessionId: v.id("sessions") },
   handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
     const players = await ctx.db
       .query("players")
       .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
       .collect();
 
-    // Sort by elevation descending (highest climbers first)
-    return players.sort((a, b) => (b.elevation ?? 0) - (a.elevation ?? 0));
+    // Sort by elevation descending (highest climbers first) - after hiding scores, so the order gives nothing away
+    return players
+      .map((p) => toVisiblePlayer(p, session))
+      .sort((a, b) => (b.elevation ?? 0) - (a.elevation ?? 0));
+  },
+});
+
+// The whole climb for the finale replay: each player's elevation before the first question
+// and after every question since. Only once the game is over.
+export const getClimbReplay = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "finished") return null;
+
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    // Questions after the one the game ended on were never played
+    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
+    const played = enabledQuestions.slice(0, session.currentQuestionIndex + 1);
+
+    const answersByQuestion = [];
+    for (const question of played) {
+      answersByQuestion.push(
+        await ctx.db
+          .query("answers")
+          .withIndex("by_question", (q) => q.eq("questionId", question._id))
+          .collect()
+      );
+    }
+
+    return {
+      players: players.map((p) => ({ _id: p._id, name: p.name, teamId: p.teamId })),
+      frames: buildClimbReplay(players.map((p) => p._id), answersByQuestion),
+    };
   },
 });
 
@@ -91,15 +165,16 @@ export const getLeaderboardSummary = query({
     limit: v.optional(v.number()), // default 10
   },
   handler: async (ctx, { sessionId, playerId, limit = 10 }) => {
+    const session = await ctx.db.get(sessionId);
     const allPlayers = await ctx.db
       .query("players")
       .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
       .collect();
 
     // Sort by elevation descending (highest climbers first)
-    const sorted = allPlayers.sort(
-      (a, b) => (b.elevation ?? 0) - (a.elevation ?? 0)
-    );
+    const sorted = allPlayers
+      .map((p) => toVisiblePlayer(p, session))
+      .sort((a, b) => (b.elevation ?? 0) - (a.elevation ?? 0));
 
     const top = sorted.slice(0, limit);
 
@@ -109,7 +184,15 @@ export const getLeaderboardSummary = query({
       const idx = sorted.findIndex((p) => p._id === playerId);
       if (idx !== -1) {
         currentRank = idx + 1;
-        currentPlayer = sorted[idx];
+        currentPlayer = sorted[idx]!;
+      }
+    }
+
+    // Longest run of correct answers anyone managed this game (ties go to the higher climber)
+    let longestStreak: { name: string; streak: number } | null = null;
+    for (const p of sorted) {
+      if ((p.bestStreak ?? 0) > (longestStreak?.streak ?? 0)) {
+        longestStreak = { name: p.name, streak: p.bestStreak! };
       }
     }
 
@@ -118,6 +201,7 @@ export const getLeaderboardSummary = query({
       currentRank,
       currentPlayer,
       totalPlayers: allPlayers.length,
+      longestStreak,
     };
   },
 });
@@ -145,10 +229,12 @@ export const addElevation = mutation({
 
 // Heartbeat for presence tracking - called periodically by client
 export const heartbeat = mutation({
-  args: { playerId: v.id("players") },
+  args: { playerId: v.id("players"), secretToken: v.string() },
   handler: async (ctx, args) => {
     const player = await ctx.db.get(args.playerId);
     if (!player) return; // Silently ignore if player doesn't exist
+    // Silently ignore stale devices (e.g. after the host reset this player's link)
+    if (!isValidPlayerToken(player, args.secretToken)) return;
 
     await ctx.db.patch(args.playerId, { lastSeenAt: Date.now() });
   },
@@ -157,10 +243,11 @@ export const heartbeat = mutation({
 // Disconnect mutation - marks player as immediately inactive
 // Called via HTTP endpoint on page unload for instant disconnect detection
 export const disconnect = mutation({
-  args: { playerId: v.id("players") },
+  args: { playerId: v.id("players"), secretToken: v.string() },
   handler: async (ctx, args) => {
     const player = await ctx.db.get(args.playerId);
     if (!player) return; // Silently ignore if player doesn't exist
+    if (!isValidPlayerToken(player, args.secretToken)) return;
 
     // Setting lastSeenAt to 0 immediately marks the player as inactive
     await ctx.db.patch(args.playerId, { lastSeenAt: 0 });
@@ -209,10 +296,11 @@ export const checkStoredSession = query({
 
 // Reactivate a player (update lastSeenAt to mark as active again)
 export const reactivate = mutation({
-  args: { playerId: v.id("players") },
+  args: { playerId: v.id("players"), secretToken: v.string() },
   handler: async (ctx, args) => {
     const player = await ctx.db.get(args.playerId);
     if (!player) throw new Error("Player not found");
+    if (!isValidPlayerToken(player, args.secretToken)) throw new Error("Invalid player token");
 
     // Check the session is still joinable
     const session = await ctx.db.get(player.sessionId);
@@ -225,6 +313,26 @@ export const reactivate = mutation({
   },
 });
 
+// Reset a player's link - issues a new token so only the new link can act as this player.
+// Used when a player switches devices or their old link may have been shared.
+// Returns the new token; the host passes the rejoin link on to the player.
+export const resetToken = mutation({
+  args: { playerId: v.id("players"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player) throw new Error("Player not found");
+
+    const session = await ctx.db.get(player.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "managePlayers");
+
+    // Mark inactive too, so the old device drops off and the name is free to rejoin
+    const secretToken = crypto.randomUUID();
+    await ctx.db.patch(args.playerId, { secretToken, lastSeenAt: 0 });
+    return { secretToken };
+  },
+});
+
 // Kick a player from a session - removes them entirely
 export const kick = mutation({
   args: { playerId: v.id("players"), hostId: v.string() },
@@ -234,7 +342,7 @@ export const kick = mutation({
 
     const session = await ctx.db.get(player.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "managePlayers");
 
     // Delete all answers by this player
     const answers = await ctx.db
@@ -246,8 +354,18 @@ export const kick = mutation({
       await ctx.db.delete(answer._id);
     }
 
+    // Delete their power-ups
+    const powerUps = await ctx.db
+      .query("powerUps")
+      .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
+      .collect();
+    for (const powerUp of powerUps) {
+      await ctx.db.delete(powerUp._id);
+    }
+
     // Delete the player record
     await ctx.db.delete(args.playerId);
+    await recordHostAction(ctx, session, args.hostId, "kick", player.name);
   },
 });
 
@@ -267,6 +385,7 @@ export const getPlayerContext = query({
     // Verify player belongs to this session
     if (currentPlayer.sessionId !== sessionId) return null;
 
+    const session = await ctx.db.get(sessionId);
     const elevation = currentPlayer.elevation ?? 0;
     const minElevation = Math.max(0, elevation - elevationRange);
     const maxElevation = elevation + elevationRange;
@@ -277,17 +396,18 @@ export const getPlayerContext = query({
       .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
       .collect();
 
-    // Filter to nearby players only (includes current player)
+    // Filter to nearby players only (includes current player) - everyone while scores are hidden
     const nearbyPlayers = allPlayers.filter(
       (p) =>
-        p.elevation !== undefined &&
-        p.elevation >= minElevation &&
-        p.elevation <= maxElevation
+        isSelfPacedInProgress(session) ||
+        (p.elevation !== undefined &&
+          p.elevation >= minElevation &&
+          p.elevation <= maxElevation)
     );
 
     return {
-      currentPlayer,
-      nearbyPlayers,
+      currentPlayer: toVisiblePlayer(currentPlayer, session),
+      nearbyPlayers: nearbyPlayers.map((p) => toVisiblePlayer(p, session)),
       totalPlayers: allPlayers.length,
     };
   },
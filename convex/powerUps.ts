@@ -0,0 +1,131 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { pickFiftyFiftyRemovals } from "../lib/powerUps";
+import { getEnabledQuestions, isEstimation, isMultiSelect, isValidPlayerToken } from "./helpers";
+
+/**
+ * Power-ups: earned at elevation checkpoints (awarded when a reveal carries a player
+ * past one), used from PlayerView while answers are open, and applied when the
+ * question is scored in sessions.revealAnswer.
+ */
+
+// A player's inventory plus what's in play for them on the current question
+export const getMine = query({
+  args: { playerId: v.id("players"), secretToken: v.string() },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player || !isValidPlayerToken(player, args.secretToken)) return null;
+    const session = await ctx.db.get(player.sessionId);
+    if (!session) return null;
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const question = enabledQuestions[session.currentQuestionIndex];
+
+    const owned = await ctx.db
+      .query("powerUps")
+      .withIndex("by_player", (q) => q.eq("playerId", player._id))
+      .collect();
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+      .collect();
+    const nameById = new Map(players.map((p) => [p._id, p.name]));
+
+    const usedNow = question ? owned.find((p) => p.usedOnQuestionId === question._id) : undefined;
+    const aimedAtQuestion = question
+      ? await ctx.db
+          .query("powerUps")
+          .withIndex("by_used_question", (q) => q.eq("usedOnQuestionId", question._id))
+          .collect()
+      : [];
+
+    return {
+      inventory: owned
+        .filter((p) => p.usedOnQuestionId === undefined)
+        .map((p) => ({ _id: p._id, kind: p.kind, checkpoint: p.checkpoint }))
+        .sort((a, b) => a.checkpoint - b.checkpoint),
+      usedThisQuestion: usedNow
+        ? {
+            kind: usedNow.kind,
+            targetName: usedNow.targetPlayerId ? nameById.get(usedNow.targetPlayerId) ?? null : null,
+          }
+        : null,
+      hiddenOptions: usedNow?.removedOptions ?? [],
+      frozenBy: aimedAtQuestion
+        .filter((p) => p.kind === "freeze" && p.targetPlayerId === player._id)
+        .map((p) => nameById.get(p.playerId) ?? "A rival"),
+      rivals: players
+        .filter((p) => p._id !== player._id)
+        .map((p) => ({ _id: p._id, name: p.name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+// Use a power-up on the current question (one per player per question)
+export const use = mutation({
+  args: {
+    playerId: v.id("players"),
+    secretToken: v.string(),
+    powerUpId: v.id("powerUps"),
+    targetPlayerId: v.optional(v.id("players")), // Freeze: the rival to freeze
+  },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player) throw new Error("Player not found");
+    if (!isValidPlayerToken(player, args.secretToken)) throw new Error("Invalid player token");
+
+    const powerUp = await ctx.db.get(args.powerUpId);
+    if (!powerUp || powerUp.playerId !== player._id) throw new Error("Power-up not found");
+    if (powerUp.usedOnQuestionId !== undefined) throw new Error("Power-up already used");
+
+    const session = await ctx.db.get(player.sessionId);
+    if (!session) throw new Error("Session not found");
+    if (session.status !== "active" || session.questionPhase !== "answers_shown" || session.mode === "async") {
+      throw new Error("Power-ups can only be used while answers are open");
+    }
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const question = enabledQuestions[session.currentQuestionIndex];
+    if (!question) throw new Error("Current question not found");
+
+    const usedThisQuestion = await ctx.db
+      .query("powerUps")
+      .withIndex("by_used_question", (q) => q.eq("usedOnQuestionId", question._id))
+      .collect();
+    if (usedThisQuestion.some((p) => p.playerId === player._id)) {
+      throw new Error("Only one power-up per question");
+    }
+
+    let targetPlayerId: typeof args.targetPlayerId;
+    let removedOptions: number[] | undefined;
+
+    if (powerUp.kind === "freeze") {
+      const target = args.targetPlayerId ? await ctx.db.get(args.targetPlayerId) : null;
+      if (!target || target.sessionId !== session._id || target._id === player._id) {
+        throw new Error("Pick a rival to freeze");
+      }
+      targetPlayerId = target._id;
+    }
+
+    if (powerUp.kind === "fiftyFifty") {
+      if (isMultiSelect(question) || isEstimation(question) || question.correctOptionIndex === undefined || question.options.length < 3) {
+        throw new Error("50/50 only works on single-answer questions with 3 or more options");
+      }
+      const answer = await ctx.db
+        .query("answers")
+        .withIndex("by_question_and_player", (q) => q.eq("questionId", question._id).eq("playerId", player._id))
+        .first();
+      if (answer) throw new Error("Use 50/50 before answering");
+      removedOptions = pickFiftyFiftyRemovals(question.options.length, question.correctOptionIndex, powerUp._id);
+    }
+
+    await ctx.db.patch(powerUp._id, {
+      usedOnQuestionId: question._id,
+      targetPlayerId,
+      removedOptions,
+      usedAt: Date.now(),
+    });
+    return { kind: powerUp.kind, removedOptions: removedOptions ?? [] };
+  },
+});
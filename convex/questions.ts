@@ -1,23 +1,64 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
-import { getEnabledQuestions } from "./helpers";
+import { findCoHost, getEnabledQuestions, isSelfPacedInProgress, normalizeImage, requireSessionHost, withMediaUrls, withoutAnswerKey } from "./helpers";
+import { questionOptionValidator, ratingScaleValidator } from "./schema";
+import { isMediaUrl } from "../lib/questionSheet";
+
+// Validate and normalize a "select all that apply" correct set (sorted, deduplicated)
+function normalizeCorrectIndices(indices: number[], optionCount: number): number[] {
+  const unique = [...new Set(indices)].sort((a, b) => a - b);
+  for (const index of unique) {
+    if (!Number.isInteger(index) || index < 0 || index >= optionCount) {
+      throw new Error(`Invalid correct option index: must be 0-${optionCount - 1}`);
+    }
+  }
+  return unique;
+}
 
 export const create = mutation({
   args: {
     sessionId: v.id("sessions"),
     hostId: v.string(),
     text: v.string(),
-    options: v.array(v.object({ text: v.string() })),
+    imageId: v.optional(v.id("_storage")), // Picture uploaded with generateUploadUrl
+    audioId: v.optional(v.id("_storage")), // Audio clip uploaded with generateUploadUrl
+    options: v.array(questionOptionValidator),
     correctOptionIndex: v.optional(v.number()),
+    correctOptionIndices: v.optional(v.array(v.number())), // "Select all that apply" correct set
+    partialCredit: v.optional(v.boolean()),
+    numericAnswer: v.optional(v.number()), // Estimation ("closest guess") question: the true value
+    freeText: v.optional(v.boolean()), // Open-ended question: players type answers for the host to group
+    ratingScale: v.optional(ratingScaleValidator), // Survey: players rate on a scale
+    wordCloud: v.optional(v.boolean()), // Survey: players type a word for the word cloud
+    surveyScored: v.optional(v.boolean()), // Survey only: answering earns poll-style elevation
     timeLimit: v.optional(v.number()),
     followUpText: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") throw new Error("Cannot add questions after game starts");
 
+    // Estimation, free-text and survey questions have no options - players type a number,
+    // an answer or a word, or pick a rating
+    const isEstimation = args.numericAnswer !== undefined;
+    if (isEstimation && !Number.isFinite(args.numericAnswer)) {
+      throw new Error("Answer must be a number");
+    }
+    const isFreeText = args.freeText === true;
+    if (isEstimation && isFreeText) throw new Error("Free-text questions don't have a numeric answer");
+    const isSurvey = args.ratingScale !== undefined || args.wordCloud === true;
+    if (isSurvey && (isEstimation || isFreeText || (args.ratingScale !== undefined && args.wordCloud))) {
+      throw new Error("A survey question is either a rating or a word cloud");
+    }
+    const isTyped = isEstimation || isFreeText || isSurvey;
+
+    const correctOptionIndices = !isTyped && args.correctOptionIndices?.length
+      ? normalizeCorrectIndices(args.correctOptionIndices, args.options.length)
+      : undefined;
+
     // Get current question count for ordering
     const questions = await ctx.db
       .query("questions")
@@ -27,8 +68,17 @@ export const create = mutation({
     const questionId = await ctx.db.insert("questions", {
       sessionId: args.sessionId,
       text: args.text,
-      options: args.options,
-      correctOptionIndex: args.correctOptionIndex,
+      imageId: args.imageId,
+      audioId: args.audioId,
+      options: isTyped ? [] : args.options.map(normalizeImage),
+      correctOptionIndex: correctOptionIndices || isTyped ? undefined : args.correctOptionIndex,
+      correctOptionIndices,
+      partialCredit: correctOptionIndices ? args.partialCredit : undefined,
+      numericAnswer: args.numericAnswer,
+      freeText: isFreeText || undefined,
+      ratingScale: args.ratingScale,
+      wordCloud: args.wordCloud || undefined,
+      surveyScored: isSurvey ? args.surveyScored : undefined,
       order: questions.length,
       timeLimit: args.timeLimit ?? 30, // Default 30 seconds
       followUpText: args.followUpText,
@@ -38,22 +88,42 @@ export const create = mutation({
   },
 });
 
+// Whether answer keys must be hidden from this caller: only hosts see them while a
+// self-paced session is still being played
+async function hidesAnswerKeys(ctx: QueryCtx, sessionId: Id<"sessions">, hostId: string | undefined) {
+  const session = await ctx.db.get(sessionId);
+  if (!session || !isSelfPacedInProgress(session)) return false;
+  if (hostId === undefined) return true;
+  return hostId !== session.hostId && !(await findCoHost(ctx, sessionId, hostId));
+}
+
 export const listBySession = query({
-  args: { sessionId: v.id("sessions") },
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.optional(v.string()), // Hosts see correct answers even during a self-paced game
+  },
   handler: async (ctx, args) => {
     const questions = await ctx.db
       .query("questions")
       .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
       .collect();
 
-    return questions.sort((a, b) => a.order - b.order);
+    const hide = await hidesAnswerKeys(ctx, args.sessionId, args.hostId);
+    const sorted = questions.sort((a, b) => a.order - b.order);
+    return await Promise.all(sorted.map((q) => withMediaUrls(ctx, hide ? withoutAnswerKey(q) : q)));
   },
 });
 
 export const get = query({
-  args: { questionId: v.id("questions") },
+  args: {
+    questionId: v.id("questions"),
+    hostId: v.optional(v.string()), // Hosts see the correct answer even during a self-paced game
+  },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.questionId);
+    const question = await ctx.db.get(args.questionId);
+    if (!question) return null;
+    const hide = await hidesAnswerKeys(ctx, question.sessionId, args.hostId);
+    return await withMediaUrls(ctx, hide ? withoutAnswerKey(question) : question);
   },
 });
 
@@ -63,9 +133,26 @@ export const getCurrentQuestion = query({
     const session = await ctx.db.get(args.sessionId);
     if (!session) return null;
     if (session.currentQuestionIndex < 0) return null;
+    // The round intro card keeps the question hidden until the host moves on
+    if (session.questionPhase === "round_intro") return null;
 
     const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
-    return enabledQuestions[session.currentQuestionIndex] ?? null;
+    const question = enabledQuestions[session.currentQuestionIndex];
+    return question ? await withMediaUrls(ctx, question) : null;
+  },
+});
+
+// Upload URL for a question/option picture or an audio clip. The client POSTs the file there and
+// gets back a storage id to pass as imageId/audioId to create/update.
+export const generateUploadUrl = mutation({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+    if (session.status !== "lobby") throw new Error("Cannot edit questions after game starts");
+
+    return await ctx.storage.generateUploadUrl();
   },
 });
 
@@ -77,7 +164,7 @@ export const remove = mutation({
 
     const session = await ctx.db.get(question.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") {
       throw new Error("Cannot delete questions after game starts");
     }
@@ -91,8 +178,18 @@ export const update = mutation({
     questionId: v.id("questions"),
     hostId: v.string(),
     text: v.optional(v.string()),
-    options: v.optional(v.array(v.object({ text: v.string() }))),
+    // Uploaded picture for the question; pass null to remove the current one (uploaded or imported)
+    imageId: v.optional(v.union(v.id("_storage"), v.null())),
+    // Uploaded audio clip; pass null to remove the current one
+    audioId: v.optional(v.union(v.id("_storage"), v.null())),
+    options: v.optional(v.array(questionOptionValidator)),
     correctOptionIndex: v.optional(v.number()),
+    // Select-all correct set; pass an empty array to turn the question back into single-choice
+    correctOptionIndices: v.optional(v.array(v.number())),
+    partialCredit: v.optional(v.boolean()),
+    numericAnswer: v.optional(v.number()), // Estimation questions only
+    ratingScale: v.optional(ratingScaleValidator), // Rating questions only
+    surveyScored: v.optional(v.boolean()), // Survey questions only
     timeLimit: v.optional(v.number()),
     followUpText: v.optional(v.string()),
   },
@@ -102,15 +199,48 @@ export const update = mutation({
 
     const session = await ctx.db.get(question.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") {
       throw new Error("Cannot edit questions after game starts");
     }
 
     const updates: Partial<typeof question> = {};
     if (args.text !== undefined) updates.text = args.text;
-    if (args.options !== undefined) updates.options = args.options;
+    if (args.imageId !== undefined) {
+      updates.imageId = args.imageId ?? undefined;
+      updates.imageUrl = undefined;
+    }
+    if (args.audioId !== undefined) {
+      updates.audioId = args.audioId ?? undefined;
+      updates.audioUrl = undefined;
+    }
+    if (args.options !== undefined) updates.options = args.options.map(normalizeImage);
     if (args.correctOptionIndex !== undefined) updates.correctOptionIndex = args.correctOptionIndex;
+    if (args.correctOptionIndices !== undefined) {
+      const optionCount = (args.options ?? question.options).length;
+      updates.correctOptionIndices = args.correctOptionIndices.length > 0
+        ? normalizeCorrectIndices(args.correctOptionIndices, optionCount)
+        : undefined;
+      if (updates.correctOptionIndices) updates.correctOptionIndex = undefined;
+    }
+    if (args.partialCredit !== undefined) updates.partialCredit = args.partialCredit;
+    if (args.numericAnswer !== undefined) {
+      if (question.numericAnswer === undefined) {
+        throw new Error("Only estimation questions have a numeric answer");
+      }
+      if (!Number.isFinite(args.numericAnswer)) throw new Error("Answer must be a number");
+      updates.numericAnswer = args.numericAnswer;
+    }
+    if (args.ratingScale !== undefined) {
+      if (question.ratingScale === undefined) throw new Error("Only rating questions have a scale");
+      updates.ratingScale = args.ratingScale;
+    }
+    if (args.surveyScored !== undefined) {
+      if (question.ratingScale === undefined && !question.wordCloud) {
+        throw new Error("Only survey questions can be scored");
+      }
+      updates.surveyScored = args.surveyScored;
+    }
     if (args.timeLimit !== undefined) updates.timeLimit = args.timeLimit;
     if (args.followUpText !== undefined) updates.followUpText = args.followUpText;
 
@@ -143,7 +273,7 @@ export const reorder = mutation({
 
     const session = await ctx.db.get(question.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
 
     // Check if question has answers (is completed)
     const answers = await ctx.db
@@ -207,7 +337,7 @@ export const setEnabled = mutation({
 
     const session = await ctx.db.get(question.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
 
     // Check if question has answers (is completed)
     const answers = await ctx.db
@@ -222,22 +352,40 @@ export const setEnabled = mutation({
   },
 });
 
-// Export questions in JSON format (same as AI injection API)
+// Export questions in JSON format (same as AI injection API).
+// Only hosts can export while a self-paced game is running - the export is the answer key.
 export const exportQuestions = query({
-  args: { sessionId: v.id("sessions") },
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
+    if (await hidesAnswerKeys(ctx, args.sessionId, args.hostId)) return null;
+
     const questions = await ctx.db
       .query("questions")
       .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
       .collect();
 
-    const sorted = questions.sort((a, b) => a.order - b.order);
+    const sorted = await Promise.all(
+      questions.sort((a, b) => a.order - b.order).map((q) => withMediaUrls(ctx, q))
+    );
 
     return {
       questions: sorted.map((q) => ({
         text: q.text,
-        options: q.options.map((o) => o.text),
-        correctIndex: q.correctOptionIndex ?? 0,
+        imageUrl: q.imageUrl,
+        audioUrl: q.audioUrl,
+        options: q.freeText ? [] : q.options.map((o) => o.text), // Free-text groups come from a game's answers
+        optionImageUrls: q.options.some((o) => o.imageUrl) ? q.options.map((o) => o.imageUrl ?? null) : undefined,
+        correctIndex: q.correctOptionIndex ?? q.correctOptionIndices?.[0] ?? 0,
+        correctIndices: q.correctOptionIndices,
+        partialCredit: q.partialCredit,
+        numericAnswer: q.numericAnswer,
+        freeText: q.freeText,
+        ratingScale: q.ratingScale,
+        wordCloud: q.wordCloud,
+        surveyScored: q.surveyScored,
         timeLimit: q.timeLimit,
         followUpText: q.followUpText,
       })),
@@ -253,8 +401,18 @@ export const importQuestions = mutation({
     questions: v.array(
       v.object({
         text: v.string(),
+        imageUrl: v.optional(v.string()), // Picture shown with the question
+        audioUrl: v.optional(v.string()), // Clip played on the big screen
         options: v.array(v.string()),
+        optionImageUrls: v.optional(v.array(v.union(v.string(), v.null()))), // Picture per option (null for none)
         correctIndex: v.number(),
+        correctIndices: v.optional(v.array(v.number())), // "Select all that apply" correct set
+        partialCredit: v.optional(v.boolean()),
+        numericAnswer: v.optional(v.number()), // Estimation question (options and correctIndex are ignored)
+        freeText: v.optional(v.boolean()), // Free-text question (options and correctIndex are ignored)
+        ratingScale: v.optional(ratingScaleValidator), // Rating question (options and correctIndex are ignored)
+        wordCloud: v.optional(v.boolean()), // Word-cloud question (options and correctIndex are ignored)
+        surveyScored: v.optional(v.boolean()), // Survey questions: answering earns elevation
         timeLimit: v.optional(v.number()),
         followUpText: v.optional(v.string()),
       })
@@ -263,7 +421,7 @@ export const importQuestions = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") throw new Error("Can only import questions in lobby state");
 
     // Validate questions
@@ -277,12 +435,31 @@ export const importQuestions = mutation({
       if (!q.text || typeof q.text !== "string") {
         throw new Error(`Question ${i + 1}: text is required and must be a string`);
       }
+      if (q.imageUrl !== undefined && !isMediaUrl(q.imageUrl)) {
+        throw new Error(`Question ${i + 1}: imageUrl must be an http(s) URL`);
+      }
+      if (q.audioUrl !== undefined && !isMediaUrl(q.audioUrl)) {
+        throw new Error(`Question ${i + 1}: audioUrl must be an http(s) URL`);
+      }
+      if (q.numericAnswer !== undefined) {
+        if (!Number.isFinite(q.numericAnswer)) {
+          throw new Error(`Question ${i + 1}: numericAnswer must be a number`);
+        }
+        continue; // Estimation questions have no options to validate
+      }
+      if (q.freeText || q.ratingScale !== undefined || q.wordCloud) continue; // Neither do free-text and survey questions
       if (!Array.isArray(q.options) || q.options.length < 2) {
         throw new Error(`Question ${i + 1}: options must be an array with at least 2 items`);
       }
       if (typeof q.correctIndex !== "number" || q.correctIndex < 0 || q.correctIndex >= q.options.length) {
         throw new Error(`Question ${i + 1}: correctIndex must be a valid option index (0-${q.options.length - 1})`);
       }
+      if (q.correctIndices?.some((idx) => !Number.isInteger(idx) || idx < 0 || idx >= q.options.length)) {
+        throw new Error(`Question ${i + 1}: correctIndices must be valid option indexes (0-${q.options.length - 1})`);
+      }
+      if (q.optionImageUrls?.some((url) => url !== null && !isMediaUrl(url))) {
+        throw new Error(`Question ${i + 1}: optionImageUrls must be http(s) URLs`);
+      }
     }
 
     // Delete all existing questions first
@@ -300,8 +477,25 @@ export const importQuestions = mutation({
       await ctx.db.insert("questions", {
         sessionId: args.sessionId,
         text: q.text,
-        options: q.options.map((text) => ({ text })),
-        correctOptionIndex: q.correctIndex,
+        imageUrl: q.imageUrl,
+        audioUrl: q.audioUrl,
+        options: q.numericAnswer !== undefined || q.freeText || q.ratingScale !== undefined || q.wordCloud
+          ? []
+          : q.options.map((text, index) => ({ text, imageUrl: q.optionImageUrls?.[index] ?? undefined })),
+        ...(q.numericAnswer !== undefined
+          ? { numericAnswer: q.numericAnswer }
+          : q.freeText
+          ? { freeText: true }
+          : q.ratingScale !== undefined
+          ? { ratingScale: q.ratingScale, surveyScored: q.surveyScored }
+          : q.wordCloud
+          ? { wordCloud: true, surveyScored: q.surveyScored }
+          : q.correctIndices?.length
+          ? {
+              correctOptionIndices: [...new Set(q.correctIndices)].sort((a, b) => a - b),
+              partialCredit: q.partialCredit,
+            }
+          : { correctOptionIndex: q.correctIndex }),
         order: args.questions.indexOf(q),
         timeLimit: q.timeLimit ?? 30,
         followUpText: q.followUpText,
@@ -321,7 +515,7 @@ export const shuffleQuestions = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") throw new Error("Can only shuffle questions in lobby state");
 
     // Get all questions
@@ -0,0 +1,153 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { quizQuestionValidator } from "./schema";
+import { requireSessionHost, toQuizQuestion, type QuizQuestion } from "./helpers";
+
+const MAX_QUIZ_TITLE_LENGTH = 80;
+
+// Trim and validate a quiz title
+function normalizeTitle(title: string): string {
+  const trimmed = title.trim();
+  if (!trimmed) throw new Error("Quiz title is required");
+  if (trimmed.length > MAX_QUIZ_TITLE_LENGTH) {
+    throw new Error(`Quiz title must be ${MAX_QUIZ_TITLE_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
+
+// Validate edited quiz questions (same rules as session questions)
+function validateQuizQuestions(questions: QuizQuestion[]) {
+  if (questions.length === 0) throw new Error("A quiz needs at least one question");
+
+  for (let i = 0; i < questions.length; i++) {
+    const q = questions[i]!;
+    if (!q.text.trim()) {
+      throw new Error(`Question ${i + 1}: text is required`);
+    }
+    if (q.timeLimit <= 0) {
+      throw new Error(`Question ${i + 1}: timeLimit must be a positive number`);
+    }
+    if (q.numericAnswer !== undefined) {
+      if (!Number.isFinite(q.numericAnswer)) {
+        throw new Error(`Question ${i + 1}: numericAnswer must be a number`);
+      }
+      continue; // Estimation questions have no options to validate
+    }
+    if (q.freeText || q.ratingScale !== undefined || q.wordCloud) continue; // Neither do free-text and survey questions
+    if (q.options.length < 2) {
+      throw new Error(`Question ${i + 1}: needs at least 2 options`);
+    }
+    const correct = q.correctOptionIndices ?? (q.correctOptionIndex !== undefined ? [q.correctOptionIndex] : []);
+    for (const index of correct) {
+      if (!Number.isInteger(index) || index < 0 || index >= q.options.length) {
+        throw new Error(`Question ${i + 1}: correct option index must be 0-${q.options.length - 1}`);
+      }
+    }
+  }
+}
+
+// List a host's quizzes (most recently edited first)
+export const listByHost = query({
+  args: { hostId: v.string() },
+  handler: async (ctx, args) => {
+    const quizzes = await ctx.db
+      .query("quizzes")
+      .withIndex("by_hostId", (q) => q.eq("hostId", args.hostId))
+      .collect();
+
+    return quizzes.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+// Get a single quiz (only visible to its owner)
+export const get = query({
+  args: { quizId: v.id("quizzes"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const quiz = await ctx.db.get(args.quizId);
+    if (!quiz || quiz.hostId !== args.hostId) return null;
+    return quiz;
+  },
+});
+
+// Save a session's questions (in play order) as a new quiz in the host's library
+export const saveFromSession = mutation({
+  args: { sessionId: v.id("sessions"), hostId: v.string(), title: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+
+    const title = normalizeTitle(args.title);
+    const questions = await ctx.db
+      .query("questions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    if (questions.length === 0) throw new Error("Session has no questions to save");
+
+    const now = Date.now();
+    return await ctx.db.insert("quizzes", {
+      hostId: args.hostId,
+      title,
+      questions: questions.sort((a, b) => a.order - b.order).map(toQuizQuestion),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Copy a quiz so it can be edited without changing the original
+export const duplicate = mutation({
+  args: { quizId: v.id("quizzes"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const quiz = await ctx.db.get(args.quizId);
+    if (!quiz) throw new Error("Quiz not found");
+    if (args.hostId !== quiz.hostId) throw new Error("Unauthorized: not the quiz owner");
+
+    const now = Date.now();
+    return await ctx.db.insert("quizzes", {
+      hostId: quiz.hostId,
+      title: `${quiz.title} (copy)`.slice(0, MAX_QUIZ_TITLE_LENGTH),
+      questions: quiz.questions,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Rename a quiz and/or replace its questions
+export const update = mutation({
+  args: {
+    quizId: v.id("quizzes"),
+    hostId: v.string(),
+    title: v.optional(v.string()),
+    questions: v.optional(v.array(quizQuestionValidator)),
+  },
+  handler: async (ctx, args) => {
+    const quiz = await ctx.db.get(args.quizId);
+    if (!quiz) throw new Error("Quiz not found");
+    if (args.hostId !== quiz.hostId) throw new Error("Unauthorized: not the quiz owner");
+
+    const updates: { title?: string; questions?: QuizQuestion[]; updatedAt: number } = {
+      updatedAt: Date.now(),
+    };
+    if (args.title !== undefined) updates.title = normalizeTitle(args.title);
+    if (args.questions !== undefined) {
+      validateQuizQuestions(args.questions);
+      updates.questions = args.questions;
+    }
+
+    await ctx.db.patch(args.quizId, updates);
+  },
+});
+
+// Delete a quiz (sessions already seeded from it keep their questions)
+export const remove = mutation({
+  args: { quizId: v.id("quizzes"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const quiz = await ctx.db.get(args.quizId);
+    if (!quiz) throw new Error("Quiz not found");
+    if (args.hostId !== quiz.hostId) throw new Error("Unauthorized: not the quiz owner");
+
+    await ctx.db.delete(args.quizId);
+  },
+});
@@ -0,0 +1,156 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { isIntermissionPhase } from "../lib/intermission";
+import { calculateStreaks, median, type PlayerReport, type QuestionReport, type SessionReport } from "../lib/report";
+import { buildWordCloud, summarizeRatings } from "../lib/survey";
+import { getAnswerSelections, getEnabledQuestions, isAnswerCorrect, isEstimation, isFreeText, isMultiSelect, isOptionCorrect, isPoll } from "./helpers";
+
+// Word-cloud questions list this many of the most popular words
+const WORD_CLOUD_TOP = 10;
+
+// Closeness buckets for estimation guesses (relative error, same scale as scoring)
+const ESTIMATION_BUCKETS = [
+  { label: "Within 10%", maxError: 0.1 },
+  { label: "Within 25%", maxError: 0.25 },
+  { label: "Further off", maxError: Infinity },
+];
+
+function questionKind(question: Doc<"questions">): QuestionReport["kind"] {
+  if (isEstimation(question)) return "estimation";
+  if (isFreeText(question)) return "freeText";
+  if (question.ratingScale !== undefined) return "rating";
+  if (question.wordCloud) return "wordCloud";
+  if (isMultiSelect(question)) return "multiSelect";
+  if (question.correctOptionIndex === undefined) return "poll";
+  return "choice";
+}
+
+// Answer counts per option, per closeness bucket for estimation questions,
+// per scale value for ratings, or the most popular words for word clouds
+function answerDistribution(question: Doc<"questions">, answers: Doc<"answers">[]): QuestionReport["distribution"] {
+  if (question.ratingScale !== undefined) {
+    const { counts } = summarizeRatings(question.ratingScale, answers.flatMap((a) => (a.rating !== undefined ? [a.rating] : [])));
+    return counts.map(({ value, count }) => ({ label: String(value), count, isCorrect: null }));
+  }
+  if (question.wordCloud) {
+    return buildWordCloud(answers.flatMap((a) => (a.textAnswer !== undefined ? [a.textAnswer] : [])))
+      .slice(0, WORD_CLOUD_TOP)
+      .map(({ text, count }) => ({ label: text, count, isCorrect: null }));
+  }
+
+  if (question.numericAnswer !== undefined) {
+    const answer = question.numericAnswer;
+    const scale = Math.abs(answer) || 1;
+    const counts = ESTIMATION_BUCKETS.map(() => 0);
+    for (const a of answers) {
+      if (a.numericGuess === undefined) continue;
+      const error = Math.abs(a.numericGuess - answer) / scale;
+      counts[ESTIMATION_BUCKETS.findIndex((b) => error <= b.maxError)]!++;
+    }
+    return ESTIMATION_BUCKETS.map((bucket, i) => ({ label: bucket.label, count: counts[i]!, isCorrect: null }));
+  }
+
+  return question.options.map((option, index) => ({
+    label: option.text,
+    count: answers.filter((a) => getAnswerSelections(a).includes(index)).length,
+    isCorrect: isOptionCorrect(question, index),
+  }));
+}
+
+// Post-game analytics: per-question accuracy, answer distribution and response times,
+// plus per-player correctness streaks. Covers every question revealed so far.
+export const getSessionReport = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args): Promise<SessionReport | null> => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return null;
+
+    // Played questions: everything up to the current one, minus the current one if not yet revealed
+    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
+    let playedCount = session.status === "lobby" ? 0 : session.currentQuestionIndex + 1;
+    if (
+      session.status === "active" &&
+      session.questionPhase !== "revealed" &&
+      session.questionPhase !== "results" &&
+      !isIntermissionPhase(session.questionPhase)
+    ) {
+      playedCount--;
+    }
+    const played = enabledQuestions.slice(0, Math.max(0, playedCount));
+
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    // Per-player results in question order (null for polls) and response times
+    const playerResults = new Map(players.map((p) => [p._id as string, [] as Array<boolean | null>]));
+    const playerResponseTimes = new Map(players.map((p) => [p._id as string, [] as number[]]));
+
+    const questions: QuestionReport[] = [];
+    for (let i = 0; i < played.length; i++) {
+      const question = played[i]!;
+      const answers = await ctx.db
+        .query("answers")
+        .withIndex("by_question", (q) => q.eq("questionId", question._id))
+        .collect();
+
+      // The question timer starts on the first answer, so response time is measured from there
+      const firstAnsweredAt = answers.length > 0 ? Math.min(...answers.map((a) => a.answeredAt)) : 0;
+      const responseTimes = answers.map((a) => a.answeredAt - firstAnsweredAt);
+
+      const kind = questionKind(question);
+      // Polls have no right answer (nor do free-text and survey questions - same as for streaks)
+      const scored = !isPoll(question);
+      const correctCount = !scored
+        ? null
+        : answers.filter((a) => isAnswerCorrect(question, a) === true).length;
+
+      questions.push({
+        questionId: question._id,
+        number: i + 1,
+        text: question.text,
+        kind,
+        totalAnswers: answers.length,
+        correctCount,
+        accuracy: correctCount !== null && answers.length > 0 ? correctCount / answers.length : null,
+        distribution: answerDistribution(question, answers),
+        medianResponseMs: median(responseTimes),
+      });
+
+      const answerByPlayer = new Map(answers.map((a) => [a.playerId as string, a]));
+      for (const player of players) {
+        const answer = answerByPlayer.get(player._id);
+        // Unanswered scored questions break a streak
+        playerResults.get(player._id)!.push(!scored ? null : answer ? isAnswerCorrect(question, answer) : false);
+        if (answer) playerResponseTimes.get(player._id)!.push(answer.answeredAt - firstAnsweredAt);
+      }
+    }
+
+    const playerReports: PlayerReport[] = players
+      .map((player) => {
+        const results = playerResults.get(player._id)!;
+        const scored = results.filter((r) => r !== null);
+        const correct = scored.filter((r) => r === true).length;
+        const streaks = calculateStreaks(results);
+        const responseTimes = playerResponseTimes.get(player._id)!;
+        return {
+          playerId: player._id,
+          name: player.name,
+          elevation: player.elevation,
+          answered: responseTimes.length,
+          correct,
+          accuracy: scored.length > 0 ? correct / scored.length : null,
+          currentStreak: streaks.current,
+          bestStreak: streaks.best,
+          medianResponseMs: median(responseTimes),
+        };
+      })
+      .sort((a, b) => b.elevation - a.elevation);
+
+    // Anonymous sessions never tie results to a player - only the per-question aggregates go out
+    const anonymous = session.anonymous === true;
+    return { sessionCode: session.code, anonymous, questions, players: anonymous ? [] : playerReports };
+  },
+});
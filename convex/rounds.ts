@@ -0,0 +1,235 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getEnabledQuestions, isSelfPacedInProgress, requireSessionHost } from "./helpers";
+import {
+  DEFAULT_ROUND_MULTIPLIER,
+  getRoundPlayOrder,
+  MAX_ROUND_MULTIPLIER,
+  MAX_ROUND_NAME_LENGTH,
+  MAX_ROUND_TIME_LIMIT,
+  MIN_ROUND_TIME_LIMIT,
+} from "../lib/rounds";
+
+// Create a round in a session (only in lobby)
+export const create = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+    if (session.status !== "lobby") throw new Error("Can only add rounds in lobby");
+
+    const trimmedName = args.name.trim();
+    if (!trimmedName) throw new Error("Round name is required");
+    if (trimmedName.length > MAX_ROUND_NAME_LENGTH) {
+      throw new Error(`Round name must be ${MAX_ROUND_NAME_LENGTH} characters or less`);
+    }
+
+    return await ctx.db.insert("rounds", {
+      sessionId: args.sessionId,
+      name: trimmedName,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Rename a round or change its settings (only in lobby). A time limit is copied onto
+// every question in the round; pass null to stop applying one.
+export const update = mutation({
+  args: {
+    roundId: v.id("rounds"),
+    hostId: v.string(),
+    name: v.optional(v.string()),
+    timeLimit: v.optional(v.union(v.number(), v.null())),
+    multiplier: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const round = await ctx.db.get(args.roundId);
+    if (!round) throw new Error("Round not found");
+
+    const session = await ctx.db.get(round.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+    if (session.status !== "lobby") throw new Error("Can only change rounds in lobby");
+
+    const updates: Partial<typeof round> = {};
+    if (args.name !== undefined) {
+      const trimmedName = args.name.trim();
+      if (!trimmedName) throw new Error("Round name is required");
+      if (trimmedName.length > MAX_ROUND_NAME_LENGTH) {
+        throw new Error(`Round name must be ${MAX_ROUND_NAME_LENGTH} characters or less`);
+      }
+      updates.name = trimmedName;
+    }
+    if (args.multiplier !== undefined) {
+      if (args.multiplier < DEFAULT_ROUND_MULTIPLIER || args.multiplier > MAX_ROUND_MULTIPLIER) {
+        throw new Error(`Multiplier must be between ${DEFAULT_ROUND_MULTIPLIER} and ${MAX_ROUND_MULTIPLIER}`);
+      }
+      updates.multiplier = args.multiplier;
+    }
+    if (args.timeLimit !== undefined) {
+      const timeLimit = args.timeLimit;
+      if (timeLimit !== null && (!Number.isInteger(timeLimit) || timeLimit < MIN_ROUND_TIME_LIMIT || timeLimit > MAX_ROUND_TIME_LIMIT)) {
+        throw new Error(`Time limit must be between ${MIN_ROUND_TIME_LIMIT} and ${MAX_ROUND_TIME_LIMIT} seconds`);
+      }
+      updates.timeLimit = timeLimit ?? undefined;
+
+      if (timeLimit !== null) {
+        const questions = await ctx.db
+          .query("questions")
+          .withIndex("by_session", (q) => q.eq("sessionId", round.sessionId))
+          .collect();
+        for (const question of questions.filter((q) => q.roundId === round._id)) {
+          await ctx.db.patch(question._id, { timeLimit });
+        }
+      }
+    }
+
+    await ctx.db.patch(args.roundId, updates);
+  },
+});
+
+// Delete a round (only in lobby) - its questions stay, outside any round
+export const remove = mutation({
+  args: { roundId: v.id("rounds"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const round = await ctx.db.get(args.roundId);
+    if (!round) throw new Error("Round not found");
+
+    const session = await ctx.db.get(round.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+    if (session.status !== "lobby") throw new Error("Can only remove rounds in lobby");
+
+    const questions = await ctx.db
+      .query("questions")
+      .withIndex("by_session", (q) => q.eq("sessionId", round.sessionId))
+      .collect();
+    for (const question of questions.filter((q) => q.roundId === round._id)) {
+      await ctx.db.patch(question._id, { roundId: undefined });
+    }
+
+    await ctx.db.delete(args.roundId);
+  },
+});
+
+// Put a question in a round, or take it out with null (only in lobby).
+// The question picks up the round's time limit if it has one.
+export const assignQuestion = mutation({
+  args: {
+    questionId: v.id("questions"),
+    hostId: v.string(),
+    roundId: v.union(v.id("rounds"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const question = await ctx.db.get(args.questionId);
+    if (!question) throw new Error("Question not found");
+
+    const session = await ctx.db.get(question.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
+    if (session.status !== "lobby") throw new Error("Can only change rounds in lobby");
+
+    if (args.roundId === null) {
+      await ctx.db.patch(args.questionId, { roundId: undefined });
+      return;
+    }
+
+    const round = await ctx.db.get(args.roundId);
+    if (!round || round.sessionId !== question.sessionId) throw new Error("Round not found");
+
+    await ctx.db.patch(args.questionId, {
+      roundId: round._id,
+      timeLimit: round.timeLimit ?? question.timeLimit,
+    });
+  },
+});
+
+export const listBySession = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    return rounds.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+/**
+ * The round the current question belongs to, numbered in play order (null outside rounds).
+ * Drives the round intro card and the "Round 2 of 3" labels.
+ */
+export const getCurrentRound = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.currentQuestionIndex < 0) return null;
+
+    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
+    const roundId = enabledQuestions[session.currentQuestionIndex]?.roundId;
+    if (!roundId) return null;
+    const round = await ctx.db.get(roundId);
+    if (!round) return null;
+
+    const playOrder = getRoundPlayOrder(enabledQuestions);
+    return {
+      _id: round._id,
+      name: round.name,
+      number: playOrder.indexOf(round._id) + 1,
+      totalRounds: playOrder.length,
+      questionCount: enabledQuestions.filter((q) => q.roundId === round._id).length,
+      timeLimit: round.timeLimit ?? null,
+      multiplier: round.multiplier ?? DEFAULT_ROUND_MULTIPLIER,
+    };
+  },
+});
+
+/**
+ * Elevation each player gained per round, for leaderboard subtotals. Rounds are in play
+ * order and only count revealed questions. Null when the session has no rounds.
+ */
+export const getSubtotals = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    // Subtotals are scores too - hidden until a self-paced session's deadline
+    if (isSelfPacedInProgress(await ctx.db.get(args.sessionId))) return null;
+
+    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
+    const playOrder = getRoundPlayOrder(enabledQuestions);
+    if (playOrder.length === 0) return null;
+
+    const rounds = [];
+    for (const roundId of playOrder) {
+      const round = await ctx.db.get(roundId);
+      if (round) rounds.push({ _id: round._id, name: round.name });
+    }
+
+    // playerId -> meters gained in each round
+    const totals = new Map<string, number[]>();
+    for (const question of enabledQuestions) {
+      const roundIndex = rounds.findIndex((r) => r._id === question.roundId);
+      if (roundIndex < 0) continue;
+      const answers = await ctx.db
+        .query("answers")
+        .withIndex("by_question", (q) => q.eq("questionId", question._id))
+        .collect();
+      for (const answer of answers) {
+        if (answer.elevationGain === undefined) continue;
+        const playerTotals = totals.get(answer.playerId) ?? rounds.map(() => 0);
+        playerTotals[roundIndex]! += answer.elevationGain;
+        totals.set(answer.playerId, playerTotals);
+      }
+    }
+
+    return {
+      rounds,
+      players: [...totals].map(([playerId, roundTotals]) => ({ playerId, totals: roundTotals })),
+    };
+  },
+});
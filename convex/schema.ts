@@ -1,63 +1,294 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// An answer option. Images are either an upload in Convex file storage (imageId) or an external
+// URL from imported questions (imageUrl). Queries fill imageUrl in for uploads, so clients only read imageUrl.
+export const questionOptionValidator = v.object({
+  text: v.string(),
+  imageId: v.optional(v.id("_storage")),
+  imageUrl: v.optional(v.string()),
+});
+
+// Rating-scale survey questions (see lib/survey.ts)
+export const ratingScaleValidator = v.union(
+  v.literal("fivePoint"), // 1-5 stars
+  v.literal("nps") // Net Promoter Score, 0-10
+);
+
+// A question stored in a host's quiz library (same shape as a session question, minus session bookkeeping)
+export const quizQuestionValidator = v.object({
+  text: v.string(),
+  imageId: v.optional(v.id("_storage")),
+  imageUrl: v.optional(v.string()),
+  audioId: v.optional(v.id("_storage")),
+  audioUrl: v.optional(v.string()),
+  options: v.array(questionOptionValidator),
+  correctOptionIndex: v.optional(v.number()),
+  correctOptionIndices: v.optional(v.array(v.number())),
+  partialCredit: v.optional(v.boolean()),
+  numericAnswer: v.optional(v.number()),
+  freeText: v.optional(v.boolean()),
+  ratingScale: v.optional(ratingScaleValidator),
+  wordCloud: v.optional(v.boolean()),
+  surveyScored: v.optional(v.boolean()),
+  timeLimit: v.number(),
+  followUpText: v.optional(v.string()),
+});
+
+// What a co-host may do in a session (the owner can always do everything)
+export const hostPermissionValidator = v.union(
+  v.literal("runGame"), // Start, advance/undo phases, reveal, end the game
+  v.literal("editQuestions"), // Add, edit, reorder, import and regenerate questions
+  v.literal("managePlayers") // Kick players, reset player links, manage teams
+);
+
+// Host actions recorded in a session's audit trail
+export const hostActionValidator = v.union(
+  v.literal("revealAnswer"),
+  v.literal("kick"),
+  v.literal("endGameEarly")
+);
+
+// Power-ups players earn at elevation checkpoints (see lib/powerUps.ts)
+export const powerUpKindValidator = v.union(
+  v.literal("double"), // Double this question's elevation gain
+  v.literal("shield"), // A wrong answer still earns part of the base elevation
+  v.literal("freeze"), // A rival gains nothing this question
+  v.literal("fiftyFifty") // Hide half of the wrong options
+);
+
+// What a wrong answer costs (see calculateSlip in lib/elevation.ts)
+export const penaltyModeValidator = v.union(
+  v.literal("none"), // No penalty - just no climb
+  v.literal("fixedSlip"), // Slide down a fixed distance
+  v.literal("percentSlip"), // Slide down a share of current elevation
+  v.literal("checkpoint") // Slide back to the last checkpoint
+);
+
+// How a credited answer's bonus is earned (see lib/scoring.ts)
+export const scoringStrategyValidator = v.union(
+  v.literal("classic"), // First-answerer bonus
+  v.literal("timeDecay"), // Continuous speed bonus
+  v.literal("minority"), // Bonus for being right when most weren't
+  v.literal("streak") // Multiplier for consecutive correct answers
+);
+
+// How a league turns each session's results into points (see lib/league.ts)
+export const leagueScoringValidator = v.union(
+  v.literal("position"), // Points by finishing place (25, 18, 15...)
+  v.literal("elevation") // Final elevation in meters
+);
+
+// Host review of a free-text answer (see answers.approveTextAnswers)
+export const textModerationValidator = v.union(
+  v.literal("pending"), // Waiting in the queue - not on a rope yet
+  v.literal("approved"), // Grouped into an option (optionIndex is the group)
+  v.literal("rejected") // Hidden and earns nothing
+);
+
+// Screens of an intermission between questions, in play order (see lib/intermission.ts)
+export const intermissionPhaseValidator = v.union(
+  v.literal("intermission_standings"), // Full leaderboard so far
+  v.literal("intermission_podium"), // Top climbers so far
+  v.literal("intermission_countdown") // Countdown back to play - always ends on its own
+);
+
 export default defineSchema({
   // Survey sessions (rooms)
   sessions: defineTable({
     code: v.string(), // Join code like "ABCD"
-    hostId: v.string(), // Anonymous host identifier
+    hostId: v.string(), // Owner's host identifier (private - acts as the host's credential)
     secretToken: v.optional(v.string()), // Secret token for shareable host links
     status: v.union(v.literal("lobby"), v.literal("active"), v.literal("finished")),
     currentQuestionIndex: v.number(), // -1 means no question shown yet
     questionStartedAt: v.optional(v.number()), // When current question was shown (for speed calc)
-    // Question phase for controlling flow: pre_game -> question_shown -> answers_shown -> revealed -> results
+    // Question phase for controlling flow: pre_game -> (round_intro) -> question_shown -> answers_shown -> revealed -> results (-> intermission)
     questionPhase: v.optional(v.union(
       v.literal("pre_game"),        // Game started, players ready at base, no question yet
+      v.literal("round_intro"),     // Intro card for the round the current question opens (question still hidden)
       v.literal("question_shown"),  // Question text visible, answers hidden
       v.literal("answers_shown"),   // Answer options visible, timer starts on first answer
       v.literal("revealed"),        // Correct answer revealed (manual host trigger)
-      v.literal("results")          // Results screen showing stats
+      v.literal("results"),         // Results screen showing stats
+      intermissionPhaseValidator    // Break after the results (the current question stays the one just played)
     )),
     summitThreshold: v.optional(v.number()), // Percentage of correct answers needed to summit (0-1, default 0.75)
+    teamScoring: v.optional(v.union(v.literal("average"), v.literal("sum"))), // How team elevation aggregates members (default "average")
+    penaltyMode: v.optional(penaltyModeValidator), // What a wrong answer costs (default "none")
+    scoringStrategy: v.optional(scoringStrategyValidator), // How correct answers earn bonus elevation (default "classic")
+    streakStep: v.optional(v.number()), // Streak strategy: multiplier added per correct answer in a row (default 0.1)
+    // "live" (default): the host drives every question. "async": players go at their own pace until asyncDeadline
+    mode: v.optional(v.union(v.literal("live"), v.literal("async"))),
+    asyncDeadline: v.optional(v.number()), // Async only: when the game ends and results are revealed to everyone
+    anonymous: v.optional(v.boolean()), // Hide who answered what from hosts and spectators - only aggregates are shared
+    autoReveal: v.optional(v.boolean()), // Server deadline: answers close and reveal when the time limit runs out
+    autoAdvance: v.optional(v.boolean()), // Move through reveal -> results -> next question without host clicks
+    intermissionEvery: v.optional(v.number()), // Start an intermission after every N questions (unset = never)
+    intermissionBetweenRounds: v.optional(v.boolean()), // Start an intermission whenever a round ends or begins
+    intermissionPhases: v.optional(v.array(intermissionPhaseValidator)), // Intermission screens to play (unset = all)
+    answerDeadline: v.optional(v.number()), // When answers close for the current question (autoReveal only)
+    phaseEndsAt: v.optional(v.number()), // When the server will leave the current phase on its own (a scheduled timer is pending)
+    audioReplayedAt: v.optional(v.number()), // Host asked the big screen to replay the current question's clip
+    quizTitle: v.optional(v.string()), // Library quiz the questions were copied from (shown in the archive)
+    leagueId: v.optional(v.id("leagues")), // League whose table this session's results count towards
     createdAt: v.number(),
   })
     .index("by_code", ["code"])
+    .index("by_hostId", ["hostId"])
+    .index("by_league", ["leagueId"]),
+
+  // Named host accounts. An account claims a hostId so the host can sign in on other devices.
+  hosts: defineTable({
+    name: v.string(), // Display name shown to co-hosts and in the audit trail
+    nameKey: v.string(), // Lowercased name for unique lookups
+    hostId: v.string(), // The credential this account signs in as
+    passwordHash: v.string(), // PBKDF2-SHA256, hex
+    passwordSalt: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_nameKey", ["nameKey"])
+    .index("by_hostId", ["hostId"]),
+
+  // Co-hosts invited to help run a session, with limited permissions
+  coHosts: defineTable({
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    permissions: v.array(hostPermissionValidator),
+    addedAt: v.number(),
+  })
+    .index("by_session", ["sessionId"])
     .index("by_hostId", ["hostId"]),
 
+  // Audit trail: which host triggered sensitive actions in a session
+  hostActions: defineTable({
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    hostName: v.string(), // Snapshot of the account name (or "Host" for anonymous owners)
+    action: hostActionValidator,
+    detail: v.optional(v.string()), // e.g. the question revealed or the player kicked
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId"]),
+
   // Questions in a session
   questions: defineTable({
     sessionId: v.id("sessions"),
     text: v.string(),
-    options: v.array(v.object({ text: v.string() })),
+    imageId: v.optional(v.id("_storage")), // Uploaded picture shown with the question
+    imageUrl: v.optional(v.string()), // External picture (imported questions) - ignored when imageId is set
+    audioId: v.optional(v.id("_storage")), // Uploaded clip played on the big screen when answers are shown
+    audioUrl: v.optional(v.string()), // External clip (imported questions) - ignored when audioId is set
+    options: v.array(questionOptionValidator),
     correctOptionIndex: v.optional(v.number()), // Optional: for quiz mode
+    correctOptionIndices: v.optional(v.array(v.number())), // "Select all that apply": set of correct options (players pick several)
+    partialCredit: v.optional(v.boolean()), // Select-all only: partially correct picks earn a share of elevation (default false)
+    numericAnswer: v.optional(v.number()), // Estimation ("closest guess") question: the true value (options is empty)
+    freeText: v.optional(v.boolean()), // Open-ended question: players type answers, options are the groups the host approves
+    ratingScale: v.optional(ratingScaleValidator), // Survey: players rate on a scale (options is empty)
+    wordCloud: v.optional(v.boolean()), // Survey: players type a word or two, shown as a word cloud (options is empty)
+    surveyScored: v.optional(v.boolean()), // Rating/word cloud only: answering earns poll-style elevation (default false)
     order: v.number(),
     timeLimit: v.number(), // Seconds to answer
     enabled: v.optional(v.boolean()), // Whether question is active (default true if undefined)
+    roundId: v.optional(v.id("rounds")), // Round this question belongs to (rounds are runs of consecutive questions)
     followUpText: v.optional(v.string()), // Fun fact / educational content shown after reveal
   }).index("by_session", ["sessionId"]),
 
+  // Host-owned quiz library: reusable question sets that can seed new sessions.
+  // Questions are copied in and out, so editing a quiz never touches a session (or vice versa).
+  quizzes: defineTable({
+    hostId: v.string(),
+    title: v.string(),
+    questions: v.array(quizQuestionValidator),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_hostId", ["hostId"]),
+
+  // Host-owned leagues: a season of sessions with one running table, shared at /league/:code
+  leagues: defineTable({
+    hostId: v.string(),
+    name: v.string(),
+    code: v.string(), // Share code for the public league table
+    scoring: leagueScoringValidator,
+    createdAt: v.number(),
+  })
+    .index("by_hostId", ["hostId"])
+    .index("by_code", ["code"]),
+
+  // Named rounds in a session ("Round 1: Company history") - questions join one through roundId
+  rounds: defineTable({
+    sessionId: v.id("sessions"),
+    name: v.string(),
+    timeLimit: v.optional(v.number()), // Seconds to answer, applied to every question in the round
+    multiplier: v.optional(v.number()), // Elevation multiplier for the round's questions (default 1)
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId"]),
+
+  // Teams in a session (team mode is on when a session has at least one team)
+  teams: defineTable({
+    sessionId: v.id("sessions"),
+    name: v.string(),
+    color: v.string(), // Hex color used to tint team members on the mountain
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId"]),
+
   // Players in a session
   players: defineTable({
     sessionId: v.id("sessions"),
     name: v.string(),
+    teamId: v.optional(v.id("teams")), // Team the player climbs with (team mode only)
+    secretToken: v.optional(v.string()), // Per-player secret proving "this device is this player"
+    deviceId: v.optional(v.string()), // Random id the player's browser keeps across sessions, so leagues recognise them
     elevation: v.number(), // 0+ meters, summit at 1000m (can exceed for bonus)
     lastSeenAt: v.optional(v.number()), // Heartbeat timestamp for presence tracking
     lastOptionIndex: v.optional(v.number()), // Cached last answer's option index for column positioning
     summitPlace: v.optional(v.number()), // Locked placement (1, 2, 3...) when player crossed 1000m
     summitElevation: v.optional(v.number()), // Elevation when crossed 1000m threshold
-  }).index("by_session", ["sessionId"]),
+    summitQuestionId: v.optional(v.id("questions")), // Question whose reveal locked in summitPlace (so undoing it can release the place)
+    currentStreak: v.optional(v.number()), // Correct answers in a row up to the last revealed question
+    bestStreak: v.optional(v.number()), // Longest run of correct answers this game
+    // Self-paced (async) progress: index into the enabled questions and when this player's timer started
+    asyncQuestionIndex: v.optional(v.number()),
+    asyncQuestionStartedAt: v.optional(v.number()),
+  })
+    .index("by_session", ["sessionId"])
+    .index("by_team", ["teamId"]),
+
+  // Power-ups in players' inventories. Unused until usedOnQuestionId is set.
+  powerUps: defineTable({
+    sessionId: v.id("sessions"),
+    playerId: v.id("players"),
+    kind: powerUpKindValidator,
+    checkpoint: v.number(), // Elevation checkpoint that awarded it
+    earnedOnQuestionId: v.id("questions"), // Question whose reveal carried the player past the checkpoint
+    usedOnQuestionId: v.optional(v.id("questions")),
+    targetPlayerId: v.optional(v.id("players")), // Freeze: the rival whose rope is frozen
+    removedOptions: v.optional(v.array(v.number())), // 50/50: original option indices hidden from the player
+    usedAt: v.optional(v.number()),
+  })
+    .index("by_session", ["sessionId"])
+    .index("by_player", ["playerId"])
+    .index("by_used_question", ["usedOnQuestionId"])
+    .index("by_earned_question", ["earnedOnQuestionId"]),
 
   // Player answers
   answers: defineTable({
     questionId: v.id("questions"),
     playerId: v.id("players"),
-    optionIndex: v.number(),
+    optionIndex: v.number(), // Rope the player climbs (first pick for select-all questions, -1 for estimation)
+    optionIndices: v.optional(v.array(v.number())), // All picks for "select all that apply" questions
+    numericGuess: v.optional(v.number()), // Estimation questions: the player's guess (optionIndex is -1)
+    textAnswer: v.optional(v.string()), // Free-text and word-cloud questions: what the player typed (optionIndex is -1 until approved into a group)
+    moderation: v.optional(textModerationValidator), // Free-text questions: where the answer is in the host's moderation queue
+    rating: v.optional(v.number()), // Rating-scale questions: the value picked (optionIndex is -1)
     answeredAt: v.number(), // Timestamp for speed bonus
     elevationAtAnswer: v.number(), // Player's elevation when they grabbed the rope
+    wager: v.optional(v.number()), // Meters staked on this answer - won or lost on reveal
     // Scoring components (calculated on reveal)
     baseScore: v.optional(v.number()), // Base elevation for correct answer
-    speedBonus: v.optional(v.number()), // First-answerer bonus (top 20% of correct answerers)
-    elevationGain: v.optional(v.number()), // Total elevation gain (baseScore + speedBonus)
+    speedBonus: v.optional(v.number()), // First-answerer bonus (classic) or continuous speed bonus (timeDecay)
+    minorityBonus: v.optional(v.number()), // Bonus for being right when most weren't (minority)
+    streakBonus: v.optional(v.number()), // Extra from the streak multiplier (streak)
+    elevationGain: v.optional(v.number()), // Total elevation change (base + bonuses + wager, after power-ups - negative on a lost wager)
   })
     .index("by_question", ["questionId"])
     .index("by_player", ["playerId"])
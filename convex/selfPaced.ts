@@ -0,0 +1,256 @@
+import { internalMutation, mutation, query, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import {
+  applyElevationGain,
+  calculateSlip,
+  DEFAULT_PENALTY_MODE,
+  DEFAULT_SUMMIT_THRESHOLD,
+  SUMMIT,
+} from "../lib/elevation";
+import { scoreAnswer } from "../lib/scoring";
+import { getAnswerCredit, getEnabledQuestions, getStreaks, isEstimation, isFreeText, isMultiSelect, isPoll, isSurvey, isValidPlayerToken, parseAnswerInput, withMediaUrls } from "./helpers";
+
+/**
+ * Self-paced ("async") sessions: each player works through the enabled questions on
+ * their own timer and every answer is scored as soon as it's submitted. Standings stay
+ * hidden until the session's deadline, when the game finishes for everyone.
+ */
+
+// Load the player making a request and their self-paced session
+async function getAsyncPlayer(ctx: QueryCtx, playerId: Id<"players">, secretToken: string) {
+  const player = await ctx.db.get(playerId);
+  if (!player) throw new Error("Player not found");
+  if (!isValidPlayerToken(player, secretToken)) throw new Error("Invalid player token");
+
+  const session = await ctx.db.get(player.sessionId);
+  if (!session) throw new Error("Session not found");
+  if (session.mode !== "async") throw new Error("This session is not self-paced");
+  return { player, session };
+}
+
+// A player's own view of their progress: the question in progress (without its answer)
+// and how they did on it once answered. Correct answers are only shown after the deadline
+// so players can't pass them on to colleagues who haven't played yet.
+export const getMyProgress = query({
+  args: { playerId: v.id("players"), secretToken: v.string() },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player || !isValidPlayerToken(player, args.secretToken)) return null;
+    const session = await ctx.db.get(player.sessionId);
+    if (!session || session.mode !== "async") return null;
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const questionIndex = player.asyncQuestionIndex ?? -1;
+    const question = enabledQuestions[questionIndex];
+
+    let current = null;
+    if (question && player.asyncQuestionStartedAt !== undefined) {
+      const answer = await ctx.db
+        .query("answers")
+        .withIndex("by_question_and_player", (q) => q.eq("questionId", question._id).eq("playerId", player._id))
+        .first();
+      const withMedia = await withMediaUrls(ctx, question);
+      current = {
+        _id: question._id,
+        text: question.text,
+        imageUrl: withMedia.imageUrl,
+        audioUrl: withMedia.audioUrl,
+        options: withMedia.options,
+        timeLimit: question.timeLimit,
+        multiSelect: isMultiSelect(question),
+        estimation: isEstimation(question),
+        freeText: isFreeText(question),
+        ratingScale: question.ratingScale ?? null,
+        wordCloud: question.wordCloud === true,
+        startedAt: player.asyncQuestionStartedAt,
+        result: answer
+          ? {
+              elevationGain: answer.elevationGain ?? 0,
+              isCorrect: isSurvey(question) ? null : (answer.elevationGain ?? 0) > 0, // Survey answers aren't right or wrong
+            }
+          : null,
+      };
+    }
+
+    return {
+      questionIndex,
+      totalQuestions: enabledQuestions.length,
+      deadline: session.asyncDeadline ?? null,
+      finished: questionIndex >= enabledQuestions.length,
+      current,
+    };
+  },
+});
+
+// Move on to the player's next question and start their timer for it
+export const startNextQuestion = mutation({
+  args: { playerId: v.id("players"), secretToken: v.string() },
+  handler: async (ctx, args) => {
+    const { player, session } = await getAsyncPlayer(ctx, args.playerId, args.secretToken);
+    if (session.status !== "active") throw new Error("Session not active");
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const questionIndex = player.asyncQuestionIndex ?? -1;
+    const now = Date.now();
+
+    // The question in progress must be answered or timed out before moving on
+    const question = enabledQuestions[questionIndex];
+    if (question && player.asyncQuestionStartedAt !== undefined) {
+      const answer = await ctx.db
+        .query("answers")
+        .withIndex("by_question_and_player", (q) => q.eq("questionId", question._id).eq("playerId", player._id))
+        .first();
+      if (!answer && now - player.asyncQuestionStartedAt < question.timeLimit * 1000) {
+        throw new Error("Answer the current question first");
+      }
+    }
+
+    const nextIndex = Math.min(questionIndex + 1, enabledQuestions.length);
+    const finished = nextIndex >= enabledQuestions.length;
+    await ctx.db.patch(player._id, {
+      asyncQuestionIndex: nextIndex,
+      asyncQuestionStartedAt: finished ? undefined : now,
+    });
+    return { finished };
+  },
+});
+
+// Answer the player's current question - scored immediately, with a speed bonus
+// for how much of their own timer was left
+export const submitAnswer = mutation({
+  args: {
+    playerId: v.id("players"),
+    secretToken: v.string(),
+    optionIndex: v.optional(v.number()),
+    optionIndices: v.optional(v.array(v.number())),
+    numericGuess: v.optional(v.number()),
+    text: v.optional(v.string()), // Free text (nobody moderates live here - typed answers stay in the queue) or a word-cloud word
+    rating: v.optional(v.number()), // Rating-scale questions
+  },
+  handler: async (ctx, args) => {
+    const { player, session } = await getAsyncPlayer(ctx, args.playerId, args.secretToken);
+    if (session.status !== "active") throw new Error("Session not active");
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const question = enabledQuestions[player.asyncQuestionIndex ?? -1];
+    if (!question || player.asyncQuestionStartedAt === undefined) throw new Error("Question not found");
+
+    const existing = await ctx.db
+      .query("answers")
+      .withIndex("by_question_and_player", (q) => q.eq("questionId", question._id).eq("playerId", player._id))
+      .first();
+    if (existing) throw new Error("Already answered this question");
+
+    const answeredAt = Date.now();
+    const elapsed = answeredAt - player.asyncQuestionStartedAt;
+    if (elapsed >= question.timeLimit * 1000) {
+      throw new Error("Time's up! Answer not accepted.");
+    }
+
+    const answer = parseAnswerInput(question, args);
+    const credit = getAnswerCredit(question, answer);
+    // Nobody answers side by side here, so there's no first answerer or room-wide share to
+    // score against - streaks still work, every other strategy becomes a speed bonus on the player's own timer
+    const scoringStrategy = session.scoringStrategy === "streak" ? "streak" : "timeDecay";
+    // Recounted from earlier answers rather than trusting the stored streak, since questions
+    // the player's timer ran out on never came through here
+    const streak = (await getStreaks(ctx, enabledQuestions.slice(0, player.asyncQuestionIndex), [player._id])).get(player._id)!;
+    const round = question.roundId ? await ctx.db.get(question.roundId) : null;
+    const scoring = scoreAnswer(scoringStrategy, {
+      credit,
+      answerPosition: 1,
+      answerTimeMs: elapsed,
+      timeLimit: question.timeLimit,
+      correctShare: 1,
+      streak: streak.current,
+      streakStep: session.streakStep,
+      totalPlayers: 1,
+      totalQuestions: enabledQuestions.length,
+      summitThreshold: session.summitThreshold ?? DEFAULT_SUMMIT_THRESHOLD,
+      roundMultiplier: round?.multiplier,
+    });
+    // Wrong answers slip per the session's penalty mode (survey answers are never wrong).
+    // Anonymous sessions move nobody, so a player's climb can't give their answers away.
+    const slip = credit > 0 || isSurvey(question) ? 0 : calculateSlip(session.penaltyMode ?? DEFAULT_PENALTY_MODE, player.elevation);
+    const elevationGain = session.anonymous ? 0 : scoring.total - slip;
+
+    await ctx.db.insert("answers", {
+      questionId: question._id,
+      playerId: player._id,
+      ...answer,
+      answeredAt,
+      elevationAtAnswer: player.elevation,
+      baseScore: scoring.base,
+      speedBonus: scoring.speedBonus,
+      streakBonus: scoring.streakBonus,
+      elevationGain,
+    });
+
+    const newElevation = applyElevationGain(player.elevation, elevationGain);
+    const patch: Partial<typeof player> = { elevation: newElevation };
+    if (answer.optionIndex >= 0 && !session.anonymous) patch.lastOptionIndex = answer.optionIndex;
+    if (!isPoll(question) && !session.anonymous) {
+      patch.currentStreak = credit > 0 ? streak.current + 1 : 0;
+      patch.bestStreak = Math.max(streak.best, patch.currentStreak);
+    }
+
+    // Players summit one at a time here, so places simply go in order of arrival
+    // (a summiter who slipped back down keeps the place they earned first)
+    if (player.elevation < SUMMIT && newElevation >= SUMMIT && player.summitPlace === undefined) {
+      const players = await ctx.db
+        .query("players")
+        .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+        .collect();
+      const places = players.map((p) => p.summitPlace ?? 0);
+      patch.summitPlace = Math.max(0, ...places) + 1;
+      patch.summitElevation = newElevation;
+      patch.summitQuestionId = question._id;
+    }
+    await ctx.db.patch(player._id, patch);
+
+    return { elevationGain, isCorrect: isSurvey(question) ? null : credit > 0 };
+  },
+});
+
+// How far along everyone is (no scores - those stay hidden until the deadline)
+export const getSessionProgress = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.mode !== "async") return null;
+
+    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    const totalQuestions = enabledQuestions.length;
+    const progress = players.map((p) => {
+      const index = p.asyncQuestionIndex ?? -1;
+      // The question in progress counts once the player has moved past it
+      const questionsDone = Math.max(0, Math.min(index, totalQuestions));
+      return { _id: p._id, name: p.name, questionsDone, finished: index >= totalQuestions };
+    });
+
+    return {
+      totalQuestions,
+      deadline: session.asyncDeadline ?? null,
+      finishedCount: progress.filter((p) => p.finished).length,
+      players: progress.sort((a, b) => b.questionsDone - a.questionsDone || a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+// Scheduled at start: end the game and reveal results once the deadline passes.
+// Ignored if the host ended the game early or restarted it with a different deadline.
+export const finishAtDeadline = internalMutation({
+  args: { sessionId: v.id("sessions"), deadline: v.number() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "active" || session.asyncDeadline !== args.deadline) return;
+
+    await ctx.db.patch(args.sessionId, { status: "finished" });
+  },
+});
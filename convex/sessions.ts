@@ -1,5 +1,8 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { intermissionPhaseValidator, penaltyModeValidator, scoringStrategyValidator } from "./schema";
 import {
   getRandomQuestions,
   ALL_CATEGORIES,
@@ -8,8 +11,42 @@ import {
   getTotalQuestionCount,
   type QuestionCategory,
 } from "./sampleQuestions";
-import { calculateElevationGain, SUMMIT, DEFAULT_SUMMIT_THRESHOLD } from "../lib/elevation";
-import { getEnabledQuestions } from "./helpers";
+import {
+  calculateBaseElevation,
+  applyElevationGain,
+  calculateSlip,
+  rankEstimates,
+  resolveWager,
+  SUMMIT,
+  DEFAULT_PENALTY_MODE,
+  DEFAULT_SUMMIT_THRESHOLD,
+} from "../lib/elevation";
+import {
+  getNextIntermissionPhase,
+  getPreviousIntermissionPhase,
+  INTERMISSION_COUNTDOWN_SECONDS,
+  getUpcomingIntermissionPhase,
+  INTERMISSION_PHASE_LABELS,
+  isIntermissionPhase,
+  type IntermissionPhase,
+} from "../lib/intermission";
+import { rankFinishers } from "../lib/finale";
+import { applyPowerUps } from "../lib/powerUps";
+import { DEFAULT_ROUND_MULTIPLIER, startsRound } from "../lib/rounds";
+import { DEFAULT_SCORING_STRATEGY, MAX_STREAK_STEP, MIN_STREAK_STEP, scoreAnswer } from "../lib/scoring";
+import {
+  awardCheckpointPowerUps,
+  getAnswerCredit,
+  refreshStreaks,
+  getEnabledQuestions,
+  getPowerUpEffects,
+  insertQuizQuestions,
+  isSurvey,
+  recordHostAction,
+  requireSessionHost,
+  toPublicSession,
+  toQuizQuestion,
+} from "./helpers";
 
 // Validator for question categories
 const categoryValidator = v.union(
@@ -38,30 +75,80 @@ function generateCode(): string {
   return code;
 }
 
+// A join code no session has used yet (finished sessions keep theirs for the archive)
+async function generateUniqueCode(ctx: MutationCtx): Promise<string> {
+  let code = generateCode();
+  let existing = await ctx.db
+    .query("sessions")
+    .withIndex("by_code", (q) => q.eq("code", code))
+    .first();
+
+  // Keep generating until we find a unique one
+  while (existing) {
+    code = generateCode();
+    existing = await ctx.db
+      .query("sessions")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+  }
+  return code;
+}
+
+type QuestionPhase = NonNullable<Doc<"sessions">["questionPhase"]>;
+
+// How long the server holds each phase before moving on when auto-advance is on
+const AUTO_ADVANCE_DELAYS_MS: Partial<Record<QuestionPhase, number>> = {
+  round_intro: 5_000, // Time to read the round's intro card
+  question_shown: 5_000, // Reading time before the answer options appear
+  revealed: 5_000, // Let the rope-snipping reveal play out
+  results: 8_000, // Time to take in the results screen
+  intermission_standings: 10_000, // Time to find yourself on the full standings
+  intermission_podium: 8_000, // Let the podium celebration play
+};
+
+// Schedule the server timer for a phase that ends on its own, returning when it fires
+// (undefined if the host advances this phase manually). Answers close on the question's
+// time limit with autoReveal, and an intermission's countdown always runs out; the other
+// phases use fixed delays with autoAdvance.
+async function schedulePhaseTimer(
+  ctx: MutationCtx,
+  session: Doc<"sessions">,
+  phase: QuestionPhase,
+  answerDeadline?: number
+): Promise<number | undefined> {
+  const phaseEndsAt = phase === "answers_shown"
+    ? answerDeadline
+    : phase === "intermission_countdown"
+    ? Date.now() + INTERMISSION_COUNTDOWN_SECONDS * 1000
+    : session.autoAdvance && AUTO_ADVANCE_DELAYS_MS[phase] !== undefined
+      ? Date.now() + AUTO_ADVANCE_DELAYS_MS[phase]
+      : undefined;
+  if (phaseEndsAt === undefined) return undefined;
+
+  await ctx.scheduler.runAt(phaseEndsAt, internal.sessions.advanceOnTimer, {
+    sessionId: session._id,
+    phaseEndsAt,
+  });
+  return phaseEndsAt;
+}
+
 export const create = mutation({
   args: {
     hostId: v.string(),
     categories: v.optional(v.array(categoryValidator)),
     questionCount: v.optional(v.number()),
     summitThreshold: v.optional(v.number()), // 0-1, percentage of correct answers needed to summit
+    quizId: v.optional(v.id("quizzes")), // Seed questions from the host's quiz library instead of random samples
   },
   handler: async (ctx, args) => {
-    // Generate unique code
-    let code = generateCode();
-    let existing = await ctx.db
-      .query("sessions")
-      .withIndex("by_code", (q) => q.eq("code", code))
-      .first();
-
-    // Keep generating until we find a unique one
-    while (existing) {
-      code = generateCode();
-      existing = await ctx.db
-        .query("sessions")
-        .withIndex("by_code", (q) => q.eq("code", code))
-        .first();
+    const quiz = args.quizId ? await ctx.db.get(args.quizId) : null;
+    if (args.quizId) {
+      if (!quiz) throw new Error("Quiz not found");
+      if (args.hostId !== quiz.hostId) throw new Error("Unauthorized: not the quiz owner");
     }
 
+    const code = await generateUniqueCode(ctx);
+
     // Generate secret token for shareable host link
     const secretToken = crypto.randomUUID();
 
@@ -72,10 +159,16 @@ export const create = mutation({
       status: "lobby",
       currentQuestionIndex: -1,
       summitThreshold: args.summitThreshold, // Will be undefined if not provided (defaults to 0.75)
+      quizTitle: quiz?.title,
       createdAt: Date.now(),
     });
 
-    // Add random sample questions from the question bank
+    // Copy the chosen quiz's questions, or add random sample questions from the question bank
+    if (quiz) {
+      await insertQuizQuestions(ctx, sessionId, quiz.questions);
+      return { sessionId, code, secretToken };
+    }
+
     const count = args.questionCount ?? 10;
     const categories = args.categories as QuestionCategory[] | undefined;
     const sampleQuestions = getRandomQuestions(count, categories);
@@ -99,10 +192,11 @@ export const create = mutation({
 export const getByCode = query({
   args: { code: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const session = await ctx.db
       .query("sessions")
       .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
       .first();
+    return session ? toPublicSession(session) : null;
   },
 });
 
@@ -122,14 +216,15 @@ export const getByCodeAndToken = query({
     // Validate secret token matches
     if (session.secretToken !== args.secretToken) return null;
 
-    return session;
+    return toPublicSession(session);
   },
 });
 
 export const get = query({
   args: { sessionId: v.id("sessions") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.sessionId);
+    const session = await ctx.db.get(args.sessionId);
+    return session ? toPublicSession(session) : null;
   },
 });
 
@@ -138,7 +233,7 @@ export const start = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "lobby") throw new Error("Session already started");
 
     // Check there's at least one enabled question
@@ -148,6 +243,25 @@ export const start = mutation({
       throw new Error("Add at least one enabled question before starting");
     }
 
+    // Self-paced: no shared phases - players start on their own and the deadline ends the game
+    if (session.mode === "async") {
+      const deadline = session.asyncDeadline;
+      if (deadline === undefined || deadline <= Date.now()) {
+        throw new Error("Pick a deadline in the future");
+      }
+      await ctx.db.patch(args.sessionId, {
+        status: "active",
+        currentQuestionIndex: -1,
+        questionStartedAt: undefined,
+        questionPhase: undefined,
+      });
+      await ctx.scheduler.runAt(deadline, internal.selfPaced.finishAtDeadline, {
+        sessionId: args.sessionId,
+        deadline,
+      });
+      return;
+    }
+
     await ctx.db.patch(args.sessionId, {
       status: "active",
       currentQuestionIndex: -1, // Pre-game hype phase before first question
@@ -162,25 +276,81 @@ export const nextQuestion = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") throw new Error("Session not active");
+    if (session.mode === "async") throw new Error("Players advance themselves in self-paced games");
 
-    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
-
-    const nextIndex = session.currentQuestionIndex + 1;
+    return await advanceToNextQuestion(ctx, session);
+  },
+});
 
-    if (nextIndex >= enabledQuestions.length) {
-      // No more questions, finish the session
-      await ctx.db.patch(args.sessionId, { status: "finished", questionPhase: undefined });
-      return { finished: true };
-    }
+async function advanceToNextQuestion(ctx: MutationCtx, session: Doc<"sessions">) {
+  const enabledQuestions = await getEnabledQuestions(ctx, session._id);
 
-    await ctx.db.patch(args.sessionId, {
-      currentQuestionIndex: nextIndex,
+  // The round intro card is up - its first question comes next
+  if (session.questionPhase === "round_intro") {
+    await ctx.db.patch(session._id, {
       questionStartedAt: Date.now(),
-      questionPhase: "question_shown", // Reset to question_shown phase
+      questionPhase: "question_shown",
+      phaseEndsAt: await schedulePhaseTimer(ctx, session, "question_shown"),
     });
     return { finished: false };
+  }
+
+  // Intermission screens play in order after the results, then the game picks up again
+  const intermissionPhase = getUpcomingIntermissionPhase(session, enabledQuestions);
+  if (intermissionPhase) {
+    await enterIntermissionPhase(ctx, session, intermissionPhase);
+    return { finished: false };
+  }
+
+  const nextIndex = session.currentQuestionIndex + 1;
+
+  if (nextIndex >= enabledQuestions.length) {
+    // No more questions, finish the session
+    await ctx.db.patch(session._id, {
+      status: "finished",
+      questionPhase: undefined,
+      answerDeadline: undefined,
+      phaseEndsAt: undefined,
+    });
+    return { finished: true };
+  }
+
+  // A question that opens a round waits behind the round's intro card
+  const phase = startsRound(enabledQuestions, nextIndex) ? "round_intro" : "question_shown";
+  await ctx.db.patch(session._id, {
+    currentQuestionIndex: nextIndex,
+    questionStartedAt: Date.now(),
+    questionPhase: phase, // Reset to question_shown (or round_intro) phase
+    answerDeadline: undefined,
+    phaseEndsAt: await schedulePhaseTimer(ctx, session, phase),
+  });
+  return { finished: false };
+}
+
+async function enterIntermissionPhase(ctx: MutationCtx, session: Doc<"sessions">, phase: IntermissionPhase) {
+  await ctx.db.patch(session._id, {
+    questionPhase: phase,
+    phaseEndsAt: await schedulePhaseTimer(ctx, session, phase),
+  });
+}
+
+// Insert an intermission after the current question's results, whether or not one is due
+export const startIntermission = mutation({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "active") throw new Error("Session not active");
+    if (session.questionPhase !== "results") {
+      throw new Error("Can only start an intermission from results phase");
+    }
+
+    const phase = getNextIntermissionPhase(session);
+    if (!phase) throw new Error("Turn on at least one intermission screen");
+    await enterIntermissionPhase(ctx, session, phase);
   },
 });
 
@@ -189,8 +359,8 @@ export const finish = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
-    await ctx.db.patch(args.sessionId, { status: "finished" });
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    await ctx.db.patch(args.sessionId, { status: "finished", phaseEndsAt: undefined });
   },
 });
 
@@ -200,32 +370,162 @@ export const endGameEarly = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") {
       throw new Error("Can only end an active game");
     }
 
-    // Set status to finished and clear question phase
+    // Set status to finished and clear question phase (any pending server timer goes stale)
     await ctx.db.patch(args.sessionId, {
       status: "finished",
       questionPhase: undefined,
+      phaseEndsAt: undefined,
     });
+    await recordHostAction(ctx, session, args.hostId, "endGameEarly", `After question ${session.currentQuestionIndex + 1}`);
   },
 });
 
-// Get all sessions for a host (not finished)
+// Sessions a host owns or co-hosts, tagged with which, newest first
+async function listHostSessions(ctx: QueryCtx, hostId: string) {
+  const owned = await ctx.db
+    .query("sessions")
+    .withIndex("by_hostId", (q) => q.eq("hostId", hostId))
+    .collect();
+
+  const coHostings = await ctx.db
+    .query("coHosts")
+    .withIndex("by_hostId", (q) => q.eq("hostId", hostId))
+    .collect();
+  const coHosted = [];
+  for (const coHosting of coHostings) {
+    const session = await ctx.db.get(coHosting.sessionId);
+    if (session) coHosted.push(session);
+  }
+
+  return [
+    ...owned.map((s) => ({ ...toPublicSession(s), isCoHost: false })),
+    ...coHosted.map((s) => ({ ...toPublicSession(s), isCoHost: true })),
+  ].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Get all sessions for a host (not finished), including ones they co-host
 export const listByHost = query({
   args: { hostId: v.string() },
   handler: async (ctx, args) => {
-    const sessions = await ctx.db
-      .query("sessions")
-      .withIndex("by_hostId", (q) => q.eq("hostId", args.hostId))
+    // Finished sessions live in the archive
+    const sessions = await listHostSessions(ctx, args.hostId);
+    return sessions.filter((s) => s.status !== "finished");
+  },
+});
+
+// The host's finished sessions for the archive: when, how many played, who won and what was asked
+export const listArchived = query({
+  args: { hostId: v.string() },
+  handler: async (ctx, args) => {
+    const sessions = await listHostSessions(ctx, args.hostId);
+
+    const archived = [];
+    for (const session of sessions.filter((s) => s.status === "finished")) {
+      const players = await ctx.db
+        .query("players")
+        .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+        .collect();
+      const questions = await getEnabledQuestions(ctx, session._id);
+      const winner = rankFinishers(players)[0];
+
+      archived.push({
+        _id: session._id,
+        code: session.code,
+        createdAt: session.createdAt,
+        isCoHost: session.isCoHost,
+        quizTitle: session.quizTitle,
+        leagueId: session.leagueId,
+        questionCount: questions.length,
+        firstQuestion: questions[0]?.text,
+        playerCount: players.length,
+        winner: winner ? { name: winner.name, elevation: winner.elevation } : null,
+      });
+    }
+    return archived;
+  },
+});
+
+// Start a new lobby with a finished session's questions, rounds, teams and settings (no players).
+// Only the owner can - the rematch is theirs, so a co-host can't walk off with the session.
+export const rematch = mutation({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    if (session.status !== "finished") throw new Error("Can only rematch a finished session");
+
+    // The rematch counts towards the same league when the host owns the league
+    const league = session.leagueId ? await ctx.db.get(session.leagueId) : null;
+
+    const code = await generateUniqueCode(ctx);
+    const secretToken = crypto.randomUUID();
+    const sessionId = await ctx.db.insert("sessions", {
+      code,
+      hostId: args.hostId,
+      secretToken,
+      status: "lobby",
+      currentQuestionIndex: -1,
+      summitThreshold: session.summitThreshold,
+      teamScoring: session.teamScoring,
+      penaltyMode: session.penaltyMode,
+      scoringStrategy: session.scoringStrategy,
+      streakStep: session.streakStep,
+      mode: session.mode, // Self-paced games need a new deadline before they start
+      anonymous: session.anonymous,
+      autoReveal: session.autoReveal,
+      autoAdvance: session.autoAdvance,
+      intermissionEvery: session.intermissionEvery,
+      intermissionBetweenRounds: session.intermissionBetweenRounds,
+      intermissionPhases: session.intermissionPhases,
+      quizTitle: session.quizTitle,
+      leagueId: league?.hostId === args.hostId ? league._id : undefined,
+      createdAt: Date.now(),
+    });
+
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
       .collect();
+    const roundIds = new Map<string, Id<"rounds">>();
+    for (const round of rounds) {
+      roundIds.set(round._id, await ctx.db.insert("rounds", {
+        sessionId,
+        name: round.name,
+        timeLimit: round.timeLimit,
+        multiplier: round.multiplier,
+        createdAt: round.createdAt,
+      }));
+    }
 
-    // Filter out finished sessions and sort by creation date (newest first)
-    return sessions
-      .filter((s) => s.status !== "finished")
-      .sort((a, b) => b.createdAt - a.createdAt);
+    const questions = await ctx.db
+      .query("questions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const question of questions.sort((a, b) => a.order - b.order)) {
+      await ctx.db.insert("questions", {
+        ...toQuizQuestion(question),
+        sessionId,
+        order: question.order,
+        enabled: question.enabled,
+        roundId: question.roundId && roundIds.get(question.roundId),
+      });
+    }
+
+    const teams = await ctx.db
+      .query("teams")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const team of teams) {
+      await ctx.db.insert("teams", { sessionId, name: team.name, color: team.color, createdAt: team.createdAt });
+    }
+
+    return { sessionId, code, secretToken };
   },
 });
 
@@ -264,6 +564,50 @@ export const remove = mutation({
       await ctx.db.delete(player._id);
     }
 
+    // Delete all teams in this session
+    const teams = await ctx.db
+      .query("teams")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    for (const team of teams) {
+      await ctx.db.delete(team._id);
+    }
+
+    // Delete all rounds in this session
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const round of rounds) {
+      await ctx.db.delete(round._id);
+    }
+
+    // Delete all power-ups in this session
+    const powerUps = await ctx.db
+      .query("powerUps")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const powerUp of powerUps) {
+      await ctx.db.delete(powerUp._id);
+    }
+
+    // Delete co-host invitations and the audit trail
+    const coHosts = await ctx.db
+      .query("coHosts")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const coHost of coHosts) {
+      await ctx.db.delete(coHost._id);
+    }
+    const hostActions = await ctx.db
+      .query("hostActions")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const hostAction of hostActions) {
+      await ctx.db.delete(hostAction._id);
+    }
+
     // Delete the session itself
     await ctx.db.delete(args.sessionId);
   },
@@ -275,154 +619,239 @@ export const showAnswers = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") throw new Error("Session not active");
     if (session.questionPhase !== "question_shown") {
       throw new Error("Can only show answers from question_shown phase");
     }
 
-    await ctx.db.patch(args.sessionId, {
-      questionPhase: "answers_shown",
-    });
+    await openAnswers(ctx, session);
+  },
+});
+
+// With autoReveal the countdown starts now, rather than on the first answer
+async function openAnswers(ctx: MutationCtx, session: Doc<"sessions">) {
+  const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+  const question = enabledQuestions[session.currentQuestionIndex];
+  const answerDeadline = session.autoReveal && question
+    ? Date.now() + question.timeLimit * 1000
+    : undefined;
+
+  await ctx.db.patch(session._id, {
+    questionPhase: "answers_shown",
+    answerDeadline,
+    phaseEndsAt: await schedulePhaseTimer(ctx, session, "answers_shown", answerDeadline),
+  });
+}
+
+// Ask the big screen to play the current question's audio clip again
+export const replayAudio = mutation({
+  args: { sessionId: v.id("sessions"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "active") throw new Error("Session not active");
+    if (session.questionPhase === "pre_game" || session.questionPhase === "question_shown") {
+      throw new Error("The clip plays once answers are shown");
+    }
+
+    const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+    const question = enabledQuestions[session.currentQuestionIndex];
+    if (!question?.audioId && !question?.audioUrl) throw new Error("This question has no audio clip");
+
+    await ctx.db.patch(args.sessionId, { audioReplayedAt: Date.now() });
   },
 });
 
-// Transition to revealed phase (manual host trigger to show correct answer)
+// Transition to revealed phase (host trigger to show correct answer - advanceOnTimer does the same at the server deadline)
 // This is when we calculate final scores using simplified scoring:
 // - Base elevation = SUMMIT / (totalQuestions * summitThreshold)
-// - First-answerer bonus = top 20% of correct answerers get linear bonus from 20% bonus pool
+// - Bonus from the session's scoring strategy (classic: top 20% of correct answerers get a
+//   linear bonus from a 20% bonus pool - see lib/scoring.ts for the others)
 export const revealAnswer = mutation({
   args: { sessionId: v.id("sessions"), hostId: v.string() },
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") throw new Error("Session not active");
     if (session.questionPhase !== "answers_shown") {
       throw new Error("Can only reveal from answers_shown phase");
     }
 
-    // Get the current question
-    const enabledQuestions = await getEnabledQuestions(ctx, args.sessionId);
-
-    const question = enabledQuestions[session.currentQuestionIndex];
-    if (!question) throw new Error("Current question not found");
-
-    // Get all answers for this question
-    const answers = await ctx.db
-      .query("answers")
-      .withIndex("by_question", (q) => q.eq("questionId", question._id))
-      .collect();
-
-    // Get all players for this session (for total player count)
-    const players = await ctx.db
-      .query("players")
-      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
-      .collect();
+    const question = await revealAndScore(ctx, session);
+    await recordHostAction(ctx, session, args.hostId, "revealAnswer", `Q${session.currentQuestionIndex + 1}: ${question.text}`);
+  },
+});
 
-    const totalPlayers = players.length;
-    const totalQuestions = enabledQuestions.length;
-    const summitThreshold = session.summitThreshold ?? DEFAULT_SUMMIT_THRESHOLD;
-
-    // Identify correct answers and sort by answer time
-    const correctAnswers = answers
-      .filter((a) => {
-        const isCorrect = question.correctOptionIndex !== undefined
-          ? a.optionIndex === question.correctOptionIndex
-          : true; // Poll mode - all answers are "correct"
-        return isCorrect;
-      })
-      .sort((a, b) => a.answeredAt - b.answeredAt);
-
-    // Create a map of answer position for correct answers (1-indexed)
-    const answerPositions = new Map<string, number>();
-    correctAnswers.forEach((a, index) => {
-      answerPositions.set(a._id, index + 1);
+// Close answers and score the current question - shared by the host's reveal and the server deadline
+async function revealAndScore(ctx: MutationCtx, session: Doc<"sessions">) {
+  // Get the current question
+  const enabledQuestions = await getEnabledQuestions(ctx, session._id);
+
+  const question = enabledQuestions[session.currentQuestionIndex];
+  if (!question) throw new Error("Current question not found");
+
+  // Get all answers for this question
+  const answers = await ctx.db
+    .query("answers")
+    .withIndex("by_question", (q) => q.eq("questionId", question._id))
+    .collect();
+
+  // Get all players for this session (for total player count)
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+    .collect();
+
+  const totalPlayers = players.length;
+  const totalQuestions = enabledQuestions.length;
+  const summitThreshold = session.summitThreshold ?? DEFAULT_SUMMIT_THRESHOLD;
+  const penaltyMode = session.penaltyMode ?? DEFAULT_PENALTY_MODE;
+
+  const answerCredit = (answer: typeof answers[0]) => getAnswerCredit(question, answer);
+
+  // Identify correct (or partially correct) answers and sort by answer time -
+  // estimation guesses are ranked by closeness instead, so the closest gets the top bonus
+  const numericAnswer = question.numericAnswer;
+  const correctAnswers = numericAnswer !== undefined
+    ? rankEstimates(
+        answers
+          .filter((a) => answerCredit(a) > 0)
+          .map((a) => ({ ...a, guess: a.numericGuess! })),
+        numericAnswer
+      )
+    : answers
+        .filter((a) => answerCredit(a) > 0)
+        .sort((a, b) => a.answeredAt - b.answeredAt);
+
+  // Create a map of answer position for correct answers (1-indexed)
+  const answerPositions = new Map<string, number>();
+  correctAnswers.forEach((a, index) => {
+    answerPositions.set(a._id, index + 1);
+  });
+
+  // Inputs the session's scoring strategy may need: when the clock started (the server
+  // deadline's start, else the first answer) and how much of the room got it right
+  // (streaks coming into this question are stored on the players)
+  const scoringStrategy = session.scoringStrategy ?? DEFAULT_SCORING_STRATEGY;
+  const timerStartedAt = session.answerDeadline !== undefined
+    ? session.answerDeadline - question.timeLimit * 1000
+    : Math.min(...answers.map((a) => a.answeredAt));
+  const correctShare = answers.length > 0 ? correctAnswers.length / answers.length : 0;
+
+  // Questions in a round are worth the round's multiplier
+  const round = question.roundId ? await ctx.db.get(question.roundId) : null;
+  const roundMultiplier = round?.multiplier ?? DEFAULT_ROUND_MULTIPLIER;
+
+  // Power-ups players (or their rivals) used on this question
+  const powerUpEffects = await getPowerUpEffects(ctx, question._id);
+  const fullBaseElevation = Math.round(calculateBaseElevation(totalQuestions, summitThreshold) * roundMultiplier);
+  const playersById = new Map(players.map((p) => [p._id, p]));
+
+  // Track players who will summit this turn
+  const newSummiters: { playerId: typeof answers[0]["playerId"]; finalElevation: number }[] = [];
+
+  // Calculate and apply scores. Anonymous sessions move nobody up or down: a named player's
+  // climb (or streak) would show everyone how they answered - results keep the aggregates.
+  for (const answer of session.anonymous ? [] : answers) {
+    const credit = answerCredit(answer);
+
+    const scoring = scoreAnswer(scoringStrategy, {
+      credit,
+      answerPosition: answerPositions.get(answer._id) ?? 1,
+      answerTimeMs: answer.answeredAt - timerStartedAt,
+      timeLimit: question.timeLimit,
+      correctShare,
+      streak: playersById.get(answer.playerId)?.currentStreak ?? 0,
+      streakStep: session.streakStep,
+      totalPlayers,
+      totalQuestions,
+      summitThreshold,
+      roundMultiplier,
     });
+    // Stakes are won or lost on top of normal scoring, wrong answers slip per the penalty mode
+    // (survey answers are never wrong), then power-ups apply to the lot (losses stop at the base,
+    // so the recorded gain is what actually changed)
+    const wagerResult = resolveWager(answer.wager ?? 0, credit);
+    const currentElevation = answer.elevationAtAnswer;
+    const slip = credit > 0 || isSurvey(question) ? 0 : calculateSlip(penaltyMode, currentElevation);
+    const newElevation = applyElevationGain(
+      currentElevation,
+      applyPowerUps(scoring.total + wagerResult - slip, fullBaseElevation, powerUpEffects.get(answer.playerId) ?? [], wagerResult)
+    );
+    const elevationGain = newElevation - currentElevation;
+
+    // Update the answer record with scoring details
+    await ctx.db.patch(answer._id, {
+      baseScore: scoring.base,
+      speedBonus: scoring.speedBonus,
+      minorityBonus: scoring.minorityBonus,
+      streakBonus: scoring.streakBonus,
+      elevationGain,
+    });
+    if (elevationGain === 0) continue; // Wrong (or frozen) - no elevation change
 
-    // Track players who will summit this turn
-    const newSummiters: { playerId: typeof answers[0]["playerId"]; finalElevation: number }[] = [];
-
-    // Calculate and apply scores
-    for (const answer of answers) {
-      const isCorrect = question.correctOptionIndex !== undefined
-        ? answer.optionIndex === question.correctOptionIndex
-        : true; // Poll mode
-
-      if (isCorrect) {
-        const answerPosition = answerPositions.get(answer._id) ?? 1;
-        const scoring = calculateElevationGain(
-          true,
-          answerPosition,
-          totalPlayers,
-          totalQuestions,
-          summitThreshold
-        );
-
-        // Update the answer record with scoring details
-        await ctx.db.patch(answer._id, {
-          baseScore: scoring.base,
-          speedBonus: scoring.bonus,
-          elevationGain: scoring.total,
-        });
-
-        // Update player elevation
-        const currentElevation = answer.elevationAtAnswer;
-        const newElevation = currentElevation + scoring.total;
-
-        await ctx.db.patch(answer.playerId, {
-          elevation: newElevation,
-        });
+    // Update player elevation (a lost wager can drop them back down the mountain)
+    await ctx.db.patch(answer.playerId, {
+      elevation: newElevation,
+    });
 
-        // Track if this player just crossed 1000m this turn
-        if (currentElevation < SUMMIT && newElevation >= SUMMIT) {
-          newSummiters.push({ playerId: answer.playerId, finalElevation: newElevation });
-        }
-      } else {
-        // Wrong answer - no elevation gain
-        await ctx.db.patch(answer._id, {
-          baseScore: 0,
-          speedBonus: 0,
-          elevationGain: 0,
-        });
-      }
+    const player = playersById.get(answer.playerId);
+    if (player) {
+      await awardCheckpointPowerUps(ctx, player, question._id, currentElevation, newElevation);
     }
 
-    // Assign summit places using DENSE RANKING
-    if (newSummiters.length > 0) {
-      // Count existing summiters to know starting place number
-      const existingSummiters = players.filter((p) => p.summitPlace !== undefined);
-      const nextPlaceNumber = existingSummiters.length > 0
-        ? Math.max(...existingSummiters.map((p) => p.summitPlace!)) + 1
-        : 1;
-
-      // Sort new summiters by final elevation (descending)
-      newSummiters.sort((a, b) => b.finalElevation - a.finalElevation);
-
-      // Apply DENSE RANKING: same elevation = same place, next different = next place
-      let currentPlace = nextPlaceNumber;
-      let lastElevation: number | null = null;
+    // Track if this player just crossed 1000m this turn. A place is locked in for good, so a
+    // summiter who slipped back down and climbs over again keeps the one they earned first.
+    if (currentElevation < SUMMIT && newElevation >= SUMMIT && player?.summitPlace === undefined) {
+      newSummiters.push({ playerId: answer.playerId, finalElevation: newElevation });
+    }
+  }
 
-      for (const summiter of newSummiters) {
-        // If elevation is different from previous, increment place
-        if (lastElevation !== null && summiter.finalElevation !== lastElevation) {
-          currentPlace++;
-        }
+  // Assign summit places using DENSE RANKING
+  if (newSummiters.length > 0) {
+    // Count existing summiters to know starting place number
+    const existingSummiters = players.filter((p) => p.summitPlace !== undefined);
+    const nextPlaceNumber = existingSummiters.length > 0
+      ? Math.max(...existingSummiters.map((p) => p.summitPlace!)) + 1
+      : 1;
+
+    // Sort new summiters by final elevation (descending)
+    newSummiters.sort((a, b) => b.finalElevation - a.finalElevation);
+
+    // Apply DENSE RANKING: same elevation = same place, next different = next place
+    let currentPlace = nextPlaceNumber;
+    let lastElevation: number | null = null;
+
+    for (const summiter of newSummiters) {
+      // If elevation is different from previous, increment place
+      if (lastElevation !== null && summiter.finalElevation !== lastElevation) {
+        currentPlace++;
+      }
 
-        await ctx.db.patch(summiter.playerId, {
-          summitPlace: currentPlace,
-          summitElevation: summiter.finalElevation,
-        });
+      await ctx.db.patch(summiter.playerId, {
+        summitPlace: currentPlace,
+        summitElevation: summiter.finalElevation,
+        summitQuestionId: question._id,
+      });
 
-        lastElevation = summiter.finalElevation;
-      }
+      lastElevation = summiter.finalElevation;
     }
+  }
 
-    await ctx.db.patch(args.sessionId, {
-      questionPhase: "revealed",
-    });
-  },
-});
+  // Extend (or break) everyone's streak - players who didn't answer lose theirs too
+  if (!session.anonymous) {
+    await refreshStreaks(ctx, enabledQuestions.slice(0, session.currentQuestionIndex + 1), players);
+  }
+
+  await ctx.db.patch(session._id, {
+    questionPhase: "revealed",
+    phaseEndsAt: await schedulePhaseTimer(ctx, session, "revealed"),
+  });
+  return question;
+}
 
 // Transition to results phase (shows detailed stats after reveal)
 export const showResults = mutation({
@@ -430,7 +859,7 @@ export const showResults = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") throw new Error("Session not active");
     if (session.questionPhase !== "revealed") {
       throw new Error("Can only show results from revealed phase");
@@ -438,10 +867,45 @@ export const showResults = mutation({
 
     await ctx.db.patch(args.sessionId, {
       questionPhase: "results",
+      phaseEndsAt: await schedulePhaseTimer(ctx, session, "results"),
     });
   },
 });
 
+// Fires when a phase's server timer runs out. The host may have moved on (or back)
+// in the meantime - then phaseEndsAt no longer matches and the timer is stale.
+export const advanceOnTimer = internalMutation({
+  args: { sessionId: v.id("sessions"), phaseEndsAt: v.number() },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "active" || session.phaseEndsAt !== args.phaseEndsAt) return;
+
+    switch (session.questionPhase) {
+      case "round_intro":
+        await advanceToNextQuestion(ctx, session);
+        break;
+      case "question_shown":
+        await openAnswers(ctx, session);
+        break;
+      case "answers_shown":
+        await revealAndScore(ctx, session);
+        break;
+      case "revealed":
+        await ctx.db.patch(session._id, {
+          questionPhase: "results",
+          phaseEndsAt: await schedulePhaseTimer(ctx, session, "results"),
+        });
+        break;
+      case "results":
+      case "intermission_standings":
+      case "intermission_podium":
+      case "intermission_countdown":
+        await advanceToNextQuestion(ctx, session);
+        break;
+    }
+  },
+});
+
 // Navigate backward through the question phases
 // Returns { isDestructive: boolean, targetDescription: string }
 export const previousPhase = mutation({
@@ -449,7 +913,7 @@ export const previousPhase = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
     if (session.status !== "active") throw new Error("Session not active");
 
     const phase = session.questionPhase;
@@ -467,66 +931,99 @@ export const previousPhase = mutation({
         currentQuestionIndex: -1,
         questionStartedAt: undefined,
         questionPhase: undefined,
+        phaseEndsAt: undefined,
       });
       return { isDestructive: false, targetDescription: "Lobby" };
     }
 
+    // From an intermission screen -> the one before it, or back to the results (safe)
+    if (isIntermissionPhase(phase)) {
+      const previous = getPreviousIntermissionPhase(session, phase);
+      await ctx.db.patch(args.sessionId, {
+        questionPhase: previous ?? "results",
+        phaseEndsAt: undefined,
+      });
+      return {
+        isDestructive: false,
+        targetDescription: previous ? INTERMISSION_PHASE_LABELS[previous] : "Results",
+      };
+    }
+
     // From results -> revealed (safe: just hide results)
     if (phase === "results") {
-      await ctx.db.patch(args.sessionId, { questionPhase: "revealed" });
+      await ctx.db.patch(args.sessionId, { questionPhase: "revealed", phaseEndsAt: undefined });
       return { isDestructive: false, targetDescription: "Revealed" };
     }
 
-    // From revealed -> answers_shown (safe: just un-reveal)
+    // From revealed -> answers_shown (safe: un-reveal - revealing again scores the same answers the same way)
     if (phase === "revealed") {
-      await ctx.db.patch(args.sessionId, { questionPhase: "answers_shown" });
+      if (currentQuestion) await undoQuestionScoring(ctx, session, enabledQuestions);
+      await ctx.db.patch(args.sessionId, { questionPhase: "answers_shown", phaseEndsAt: undefined });
       return { isDestructive: false, targetDescription: "Hide Answer" };
     }
 
     // From answers_shown -> question_shown (DESTRUCTIVE: delete current question's answers)
     if (phase === "answers_shown") {
       if (currentQuestion) {
-        // Delete all answers for this question
-        const answers = await ctx.db
-          .query("answers")
-          .withIndex("by_question", (q) => q.eq("questionId", currentQuestion._id))
-          .collect();
-
-        // Revert player elevations - for each answer, subtract the elevation gain
-        // We can compute the gain by comparing current elevation to elevationAtAnswer
+        // Revert player elevations (in case the question was scored), then delete all answers
+        const answers = await undoQuestionScoring(ctx, session, enabledQuestions);
         for (const answer of answers) {
-          const player = await ctx.db.get(answer.playerId);
-          if (player) {
-            // Reset player to their elevation when they grabbed the rope
-            await ctx.db.patch(answer.playerId, { elevation: answer.elevationAtAnswer });
-          }
+          await ctx.db.delete(answer._id);
         }
+        // Free-text groups were built from those answers
+        if (currentQuestion.freeText) await ctx.db.patch(currentQuestion._id, { options: [] });
 
-        // Now delete the answers
-        for (const answer of answers) {
-          await ctx.db.delete(answer._id);
+        // Hand back power-ups used on this question
+        const usedPowerUps = await ctx.db
+          .query("powerUps")
+          .withIndex("by_used_question", (q) => q.eq("usedOnQuestionId", currentQuestion._id))
+          .collect();
+        for (const powerUp of usedPowerUps) {
+          await ctx.db.patch(powerUp._id, {
+            usedOnQuestionId: undefined,
+            targetPlayerId: undefined,
+            removedOptions: undefined,
+            usedAt: undefined,
+          });
         }
       }
 
-      await ctx.db.patch(args.sessionId, { questionPhase: "question_shown" });
+      await ctx.db.patch(args.sessionId, {
+        questionPhase: "question_shown",
+        answerDeadline: undefined,
+        phaseEndsAt: undefined,
+      });
       return { isDestructive: true, targetDescription: "Clear Answers" };
     }
 
-    // From question_shown on Q2+ -> previous question's results (safe)
-    if (phase === "question_shown" && currentIndex > 0) {
+    // From question_shown on a round's first question -> the round's intro card (safe)
+    if (phase === "question_shown" && startsRound(enabledQuestions, currentIndex)) {
+      await ctx.db.patch(args.sessionId, {
+        questionPhase: "round_intro",
+        answerDeadline: undefined,
+        phaseEndsAt: undefined,
+      });
+      return { isDestructive: false, targetDescription: "Round Intro" };
+    }
+
+    // From question_shown (or a round intro) on Q2+ -> previous question's results (safe)
+    if ((phase === "question_shown" || phase === "round_intro") && currentIndex > 0) {
       await ctx.db.patch(args.sessionId, {
         currentQuestionIndex: currentIndex - 1,
         questionPhase: "results",
+        answerDeadline: undefined,
+        phaseEndsAt: undefined,
       });
       return { isDestructive: false, targetDescription: `Q${currentIndex} Results` };
     }
 
-    // From question_shown on Q1 -> pre_game (safe: go back to pre-game hype phase)
-    if (phase === "question_shown" && currentIndex === 0) {
+    // From question_shown (or a round intro) on Q1 -> pre_game (safe: go back to pre-game hype phase)
+    if ((phase === "question_shown" || phase === "round_intro") && currentIndex === 0) {
       await ctx.db.patch(args.sessionId, {
         currentQuestionIndex: -1,
         questionStartedAt: undefined,
         questionPhase: "pre_game",
+        phaseEndsAt: undefined,
       });
       return { isDestructive: false, targetDescription: "Pre-Game" };
     }
@@ -535,6 +1032,59 @@ export const previousPhase = mutation({
   },
 });
 
+// Reverse the current question's reveal: every answerer goes back to the elevation they
+// answered at (whether the reveal climbed them, slipped them or summited them), streaks go
+// back to where they stood after the previous question and the power-ups the reveal awarded
+// are taken back. Returns the question's answers.
+async function undoQuestionScoring(
+  ctx: MutationCtx,
+  session: Doc<"sessions">,
+  enabledQuestions: Doc<"questions">[]
+) {
+  const question = enabledQuestions[session.currentQuestionIndex]!;
+  const answers = await ctx.db
+    .query("answers")
+    .withIndex("by_question", (q) => q.eq("questionId", question._id))
+    .collect();
+
+  for (const answer of answers) {
+    const player = await ctx.db.get(answer.playerId);
+    if (!player) continue;
+    // Reset player to their elevation when they grabbed the rope
+    // Only release a summit place this question's reveal handed out
+    const summitedHere = player.summitQuestionId === question._id;
+    await ctx.db.patch(player._id, {
+      elevation: answer.elevationAtAnswer,
+      ...(summitedHere ? { summitPlace: undefined, summitElevation: undefined, summitQuestionId: undefined } : {}),
+    });
+    await ctx.db.patch(answer._id, {
+      baseScore: undefined,
+      speedBonus: undefined,
+      minorityBonus: undefined,
+      streakBonus: undefined,
+      elevationGain: undefined,
+    });
+  }
+
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+    .collect();
+  if (!session.anonymous) {
+    await refreshStreaks(ctx, enabledQuestions.slice(0, session.currentQuestionIndex), players);
+  }
+
+  const earnedPowerUps = await ctx.db
+    .query("powerUps")
+    .withIndex("by_earned_question", (q) => q.eq("earnedOnQuestionId", question._id))
+    .collect();
+  for (const powerUp of earnedPowerUps) {
+    await ctx.db.delete(powerUp._id);
+  }
+
+  return answers;
+}
+
 // Go back to lobby state (from active or finished) to allow editing questions
 export const backToLobby = mutation({
   args: { sessionId: v.id("sessions"), hostId: v.string() },
@@ -552,6 +1102,8 @@ export const backToLobby = mutation({
       currentQuestionIndex: -1,
       questionStartedAt: undefined,
       questionPhase: undefined,
+      answerDeadline: undefined,
+      phaseEndsAt: undefined,
     });
 
     // Reset all player elevations to 0
@@ -566,6 +1118,11 @@ export const backToLobby = mutation({
         lastOptionIndex: undefined,
         summitPlace: undefined,
         summitElevation: undefined,
+        summitQuestionId: undefined,
+        currentStreak: undefined,
+        bestStreak: undefined,
+        asyncQuestionIndex: undefined,
+        asyncQuestionStartedAt: undefined,
       });
     }
 
@@ -583,6 +1140,17 @@ export const backToLobby = mutation({
       for (const answer of answers) {
         await ctx.db.delete(answer._id);
       }
+      // Free-text groups were built from those answers
+      if (question.freeText) await ctx.db.patch(question._id, { options: [] });
+    }
+
+    // Everyone starts over with an empty inventory
+    const powerUps = await ctx.db
+      .query("powerUps")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const powerUp of powerUps) {
+      await ctx.db.delete(powerUp._id);
     }
   },
 });
@@ -598,7 +1166,7 @@ export const regenerateQuestions = mutation({
   handler: async (ctx, args) => {
     const session = await ctx.db.get(args.sessionId);
     if (!session) throw new Error("Session not found");
-    if (args.hostId !== session.hostId) throw new Error("Unauthorized: not the session host");
+    await requireSessionHost(ctx, session, args.hostId, "editQuestions");
     if (session.status !== "lobby") {
       throw new Error("Can only regenerate questions in lobby state");
     }
@@ -673,3 +1241,172 @@ export const updateSummitThreshold = mutation({
     });
   },
 });
+
+// Choose how correct answers earn bonus elevation (only in lobby)
+export const updateScoringStrategy = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    scoringStrategy: scoringStrategyValidator,
+    streakStep: v.optional(v.number()), // Streak strategy: multiplier added per correct answer in a row
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change scoring strategy in lobby");
+    }
+    if (args.streakStep !== undefined && (args.streakStep < MIN_STREAK_STEP || args.streakStep > MAX_STREAK_STEP)) {
+      throw new Error(`Streak step must be between ${MIN_STREAK_STEP} and ${MAX_STREAK_STEP}`);
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      scoringStrategy: args.scoringStrategy,
+      streakStep: args.streakStep ?? session.streakStep,
+    });
+  },
+});
+
+// Choose what a wrong answer costs (only in lobby)
+export const updatePenaltyMode = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    penaltyMode: penaltyModeValidator,
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change penalty mode in lobby");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      penaltyMode: args.penaltyMode,
+    });
+  },
+});
+
+// Turn anonymous answers on or off (only in lobby - players should know before they answer)
+export const updateAnonymous = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    anonymous: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change anonymity in lobby");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      anonymous: args.anonymous,
+    });
+  },
+});
+
+// Update how team elevation is aggregated (only in lobby)
+export const updateTeamScoring = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    teamScoring: v.union(v.literal("average"), v.literal("sum")),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "managePlayers");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change team scoring in lobby");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      teamScoring: args.teamScoring,
+    });
+  },
+});
+
+// Turn the server-side question timer and auto-advance on or off (only in lobby)
+export const updateTimerSettings = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    autoReveal: v.boolean(),
+    autoAdvance: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change timer settings in lobby");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      autoReveal: args.autoReveal,
+      autoAdvance: args.autoAdvance,
+    });
+  },
+});
+
+// Configure when intermissions start on their own and which screens they play (only in lobby)
+export const updateIntermissionSettings = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    intermissionEvery: v.union(v.number(), v.null()), // null = never on a schedule
+    intermissionBetweenRounds: v.boolean(),
+    intermissionPhases: v.array(intermissionPhaseValidator),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change intermission settings in lobby");
+    }
+    if (args.intermissionEvery !== null && (!Number.isInteger(args.intermissionEvery) || args.intermissionEvery < 1)) {
+      throw new Error("Intermissions must come every 1 or more questions");
+    }
+    if (args.intermissionPhases.length === 0) {
+      throw new Error("Turn on at least one intermission screen");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      intermissionEvery: args.intermissionEvery ?? undefined,
+      intermissionBetweenRounds: args.intermissionBetweenRounds,
+      intermissionPhases: args.intermissionPhases,
+    });
+  },
+});
+
+// Switch between host-driven and self-paced play (only in lobby)
+export const updateMode = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    mode: v.union(v.literal("live"), v.literal("async")),
+    asyncDeadline: v.optional(v.number()), // Required for async: when results are revealed
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "runGame");
+    if (session.status !== "lobby") {
+      throw new Error("Can only change game mode in lobby");
+    }
+    if (args.mode === "async" && (args.asyncDeadline === undefined || args.asyncDeadline <= Date.now())) {
+      throw new Error("Pick a deadline in the future");
+    }
+
+    await ctx.db.patch(args.sessionId, {
+      mode: args.mode,
+      asyncDeadline: args.mode === "async" ? args.asyncDeadline : undefined,
+    });
+  },
+});
@@ -0,0 +1,138 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { isSelfPacedInProgress, requireSessionHost } from "./helpers";
+import { calculateTeamElevation, DEFAULT_TEAM_SCORING } from "../lib/elevation";
+
+// Palette for team colors - assigned in creation order, cycling if exhausted
+const TEAM_COLORS = [
+  "#ef4444", // Red
+  "#3b82f6", // Blue
+  "#22c55e", // Green
+  "#f59e0b", // Amber
+  "#a855f7", // Purple
+  "#ec4899", // Pink
+  "#14b8a6", // Teal
+  "#f97316", // Orange
+];
+
+const MAX_TEAM_NAME_LENGTH = 30;
+
+// Create a team in a session (only in lobby)
+export const create = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    hostId: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "managePlayers");
+    if (session.status !== "lobby") throw new Error("Can only add teams in lobby");
+
+    const trimmedName = args.name.trim();
+    if (!trimmedName) throw new Error("Team name is required");
+    if (trimmedName.length > MAX_TEAM_NAME_LENGTH) {
+      throw new Error(`Team name must be ${MAX_TEAM_NAME_LENGTH} characters or less`);
+    }
+
+    const existingTeams = await ctx.db
+      .query("teams")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    if (existingTeams.some((t) => t.name.toLowerCase() === trimmedName.toLowerCase())) {
+      throw new Error("A team with that name already exists");
+    }
+
+    return await ctx.db.insert("teams", {
+      sessionId: args.sessionId,
+      name: trimmedName,
+      color: TEAM_COLORS[existingTeams.length % TEAM_COLORS.length]!,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Delete a team (only in lobby) - members become teamless
+export const remove = mutation({
+  args: { teamId: v.id("teams"), hostId: v.string() },
+  handler: async (ctx, args) => {
+    const team = await ctx.db.get(args.teamId);
+    if (!team) throw new Error("Team not found");
+
+    const session = await ctx.db.get(team.sessionId);
+    if (!session) throw new Error("Session not found");
+    await requireSessionHost(ctx, session, args.hostId, "managePlayers");
+    if (session.status !== "lobby") throw new Error("Can only remove teams in lobby");
+
+    const members = await ctx.db
+      .query("players")
+      .withIndex("by_team", (q) => q.eq("teamId", args.teamId))
+      .collect();
+
+    for (const member of members) {
+      await ctx.db.patch(member._id, { teamId: undefined });
+    }
+
+    await ctx.db.delete(args.teamId);
+  },
+});
+
+export const listBySession = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const teams = await ctx.db
+      .query("teams")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    return teams.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+/**
+ * Team leaderboard - teams sorted by aggregated elevation (highest first).
+ * Team elevation is derived from member elevations using the session's teamScoring mode,
+ * so it always reflects reveals, undos and resets without separate bookkeeping.
+ */
+export const getLeaderboard = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return [];
+    // Team standings are scores too - hidden until a self-paced session's deadline
+    if (isSelfPacedInProgress(session)) return [];
+
+    const teams = await ctx.db
+      .query("teams")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    if (teams.length === 0) return [];
+
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    const scoring = session.teamScoring ?? DEFAULT_TEAM_SCORING;
+
+    const standings = teams.map((team) => {
+      const members = players
+        .filter((p) => p.teamId === team._id)
+        .sort((a, b) => b.elevation - a.elevation);
+
+      return {
+        _id: team._id,
+        name: team.name,
+        color: team.color,
+        elevation: calculateTeamElevation(members.map((m) => m.elevation), scoring),
+        memberCount: members.length,
+        members: members.map((m) => ({ _id: m._id, name: m.name, elevation: m.elevation })),
+      };
+    });
+
+    return standings.sort((a, b) => b.elevation - a.elevation);
+  },
+});
@@ -11,11 +11,16 @@
  *    - 2nd correct = 2nd highest bonus
  *    - Bonus pool per question is 20% of base elevation
  *    - Example: if base is 50m, bonus pool is 10m, first gets 4m, second 3m, etc.
+ *
+ * That's the "classic" strategy - sessions can pick other bonuses (see lib/scoring.ts).
  */
 
 // Elevation constants
 export const SUMMIT = 1000; // Max elevation (game ends)
 
+// Checkpoints every 100m from 0 to 1000 (marked on the mountain, and a safe ledge to slip back to)
+export const CHECKPOINT_INTERVAL = 100;
+
 // Default summit threshold (75% = player needs 75% correct to summit)
 export const DEFAULT_SUMMIT_THRESHOLD = 0.75;
 
@@ -85,6 +90,32 @@ export function calculateFirstAnswererBonus(
   return Math.round(bonusPool * bonusRatio);
 }
 
+/**
+ * Calculate a continuous speed bonus - used by the "timeDecay" scoring strategy and by
+ * self-paced (async) games, where players never answer side by side so there's no
+ * "first answerer".
+ *
+ * Uses the same bonus pool (20% of base), scaled by how much of the timer was left
+ * when the player answered.
+ *
+ * Example with base 50m, 30s limit: answer after 6s = 80% left = 8m bonus
+ *
+ * @param elapsedMs - Time from the player seeing the question to answering
+ * @param timeLimit - Question time limit in seconds
+ * @param baseElevation - Base elevation for the answer
+ * @returns Speed bonus in meters
+ */
+export function calculateSpeedBonus(
+  elapsedMs: number,
+  timeLimit: number,
+  baseElevation: number
+): number {
+  if (timeLimit <= 0 || baseElevation <= 0) return 0;
+
+  const remaining = Math.min(1, Math.max(0, 1 - elapsedMs / (timeLimit * 1000)));
+  return Math.round(baseElevation * BONUS_POOL_PERCENTAGE * remaining);
+}
+
 /**
  * Calculate total elevation gain for a correct answer.
  *
@@ -95,6 +126,8 @@ export function calculateFirstAnswererBonus(
  * @param totalPlayers - Total number of players in the session
  * @param totalQuestions - Total number of questions in the game
  * @param summitThreshold - Percentage of correct answers needed to summit (0-1, default 0.75)
+ * @param credit - Fraction of full elevation earned (0-1, default 1). Less than 1 for
+ *                 partially correct "select all that apply" answers (see calculateMultiSelectCredit)
  * @returns Object with base, bonus, and total elevation gain
  */
 export function calculateElevationGain(
@@ -102,17 +135,18 @@ export function calculateElevationGain(
   answerPosition: number,
   totalPlayers: number,
   totalQuestions: number,
-  summitThreshold: number = DEFAULT_SUMMIT_THRESHOLD
+  summitThreshold: number = DEFAULT_SUMMIT_THRESHOLD,
+  credit: number = 1
 ): {
   base: number;
   bonus: number;
   total: number;
 } {
-  if (!isCorrect) {
+  if (!isCorrect || credit <= 0) {
     return { base: 0, bonus: 0, total: 0 };
   }
 
-  const base = Math.round(calculateBaseElevation(totalQuestions, summitThreshold));
+  const base = Math.round(calculateBaseElevation(totalQuestions, summitThreshold) * Math.min(1, credit));
   const bonus = calculateFirstAnswererBonus(answerPosition, totalPlayers, base);
 
   return {
@@ -123,12 +157,189 @@ export function calculateElevationGain(
 }
 
 /**
- * Calculate new elevation after gaining.
+ * Calculate credit for a "select all that apply" answer.
+ *
+ * - Full-credit mode: 1 only when the selection exactly matches the correct set, else 0
+ * - Partial-credit mode: (correct picks - wrong picks) / number of correct options,
+ *   floored at 0 so guessing everything doesn't pay off
+ *
+ * Examples with correct set {0, 2, 3}:
+ * - picks {0, 2, 3}: 1 (either mode)
+ * - picks {0, 2}: 0.67 partial, 0 full
+ * - picks {0, 1, 2}: 0.33 partial (2 right - 1 wrong), 0 full
+ *
+ * @param selected - Option indices the player picked
+ * @param correct - Option indices that are correct
+ * @param partialCredit - Whether partially correct selections earn a share of elevation
+ * @returns Credit between 0 and 1
+ */
+export function calculateMultiSelectCredit(
+  selected: number[],
+  correct: number[],
+  partialCredit: boolean
+): number {
+  if (correct.length === 0) return 0;
+
+  const correctSet = new Set(correct);
+  const picks = new Set(selected);
+  let right = 0;
+  let wrong = 0;
+  for (const pick of picks) {
+    if (correctSet.has(pick)) right++;
+    else wrong++;
+  }
+
+  if (!partialCredit) {
+    return right === correctSet.size && wrong === 0 ? 1 : 0;
+  }
+
+  return Math.max(0, (right - wrong) / correctSet.size);
+}
+
+/**
+ * Relative error at which an estimation ("closest guess") answer stops earning elevation.
+ * 1.0 = a guess off by 100% of the true answer (or more) earns nothing.
+ */
+export const ESTIMATION_ZERO_CREDIT_ERROR = 1.0;
+
+/**
+ * Calculate credit for an estimation guess - scales linearly with closeness.
+ *
+ * Examples with true answer 500:
+ * - guess 500: 1 (exact)
+ * - guess 400 or 600: 0.8 (20% off)
+ * - guess 250: 0.5 (50% off)
+ * - guess 1000 or 0: 0 (100% off)
+ *
+ * @param guess - The player's number
+ * @param answer - The true answer
+ * @returns Credit between 0 and 1
+ */
+export function calculateEstimationCredit(guess: number, answer: number): number {
+  const scale = Math.abs(answer) || 1; // Fall back to absolute error when the answer is 0
+  const relativeError = Math.abs(guess - answer) / scale;
+  return Math.max(0, 1 - relativeError / ESTIMATION_ZERO_CREDIT_ERROR);
+}
+
+/**
+ * Rank estimation guesses by distance to the true answer (closest first).
+ * Equal distances share a rank; earlier guesses sort first within a tie,
+ * so the returned order doubles as the bonus order.
+ *
+ * @param guesses - Guesses with the time they were submitted
+ * @param answer - The true answer
+ * @returns Guesses sorted closest-first, each with its rank (1 = closest)
+ */
+export function rankEstimates<T extends { guess: number; answeredAt: number }>(
+  guesses: T[],
+  answer: number
+): Array<T & { rank: number }> {
+  const sorted = [...guesses].sort((a, b) => {
+    const distanceDiff = Math.abs(a.guess - answer) - Math.abs(b.guess - answer);
+    return distanceDiff !== 0 ? distanceDiff : a.answeredAt - b.answeredAt;
+  });
+
+  let rank = 0;
+  let lastDistance: number | null = null;
+  return sorted.map((g, index) => {
+    const distance = Math.abs(g.guess - answer);
+    if (distance !== lastDistance) {
+      rank = index + 1;
+      lastDistance = distance;
+    }
+    return { ...g, rank };
+  });
+}
+
+/**
+ * What happens to a player's elevation on a wrong answer.
+ * - none: nothing, they just don't climb
+ * - fixedSlip: slide down a fixed distance (FIXED_SLIP)
+ * - percentSlip: slide down a share of their current elevation (PERCENT_SLIP)
+ * - checkpoint: slide back to the last checkpoint they passed
+ */
+export type PenaltyMode = "none" | "fixedSlip" | "percentSlip" | "checkpoint";
+
+export const DEFAULT_PENALTY_MODE: PenaltyMode = "none";
+
+// Distance lost on a wrong answer in fixedSlip mode
+export const FIXED_SLIP = 50;
+
+// Share of current elevation lost on a wrong answer in percentSlip mode
+export const PERCENT_SLIP = 0.1;
+
+/**
+ * Calculate how far a player slips for a wrong answer.
+ *
+ * Examples at 350m:
+ * - none: 0
+ * - fixedSlip: 50
+ * - percentSlip: 35
+ * - checkpoint: 50 (back to 300m - standing right on a checkpoint loses nothing)
+ *
+ * @param mode - The session's penalty mode
+ * @param elevation - The player's elevation when they answered
+ * @returns Meters lost (never more than the player has)
+ */
+export function calculateSlip(mode: PenaltyMode, elevation: number): number {
+  const current = Math.max(0, elevation);
+  switch (mode) {
+    case "fixedSlip":
+      return Math.min(current, FIXED_SLIP);
+    case "percentSlip":
+      return Math.round(current * PERCENT_SLIP);
+    case "checkpoint":
+      return current - Math.floor(current / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Largest share of their current elevation a player can stake on one answer.
+ */
+export const MAX_WAGER_FRACTION = 0.5;
+
+/**
+ * Calculate the most a player can wager (whole meters).
+ *
+ * @param elevation - The player's current elevation
+ * @returns Maximum wager in meters, 0 at the bottom of the mountain
+ */
+export function getMaxWager(elevation: number): number {
+  return Math.max(0, Math.floor(elevation * MAX_WAGER_FRACTION));
+}
+
+/**
+ * Resolve a wager once the answer is scored - scales with credit.
+ *
+ * - credit 1 (fully right): win the stake
+ * - credit 0 (wrong): lose the stake
+ * - partial credit (select-all, estimation): in between, breaking even at 0.5
+ *
+ * Examples with a 100m stake:
+ * - credit 1: +100
+ * - credit 0.75: +50
+ * - credit 0: -100
+ *
+ * @param wager - Meters the player staked
+ * @param credit - Fraction of full elevation the answer earned (0-1)
+ * @returns Elevation won (positive) or lost (negative)
+ */
+export function resolveWager(wager: number, credit: number): number {
+  if (wager <= 0) return 0;
+  const clamped = Math.min(1, Math.max(0, credit));
+  return Math.round(wager * (2 * clamped - 1));
+}
+
+/**
+ * Calculate new elevation after gaining (or losing, on a lost wager).
  * NOTE: Elevation is NOT capped at summit - players can exceed 1000m for bonus elevation.
  * Summit placement is determined by when players first cross the 1000m threshold.
+ * Losses can drop a player back past checkpoints, but never below the base (0m).
  */
 export function applyElevationGain(currentElevation: number, gain: number): number {
-  return currentElevation + gain;
+  return Math.max(0, currentElevation + gain);
 }
 
 /**
@@ -137,3 +348,34 @@ export function applyElevationGain(currentElevation: number, gain: number): numb
 export function hasReachedSummit(elevation: number): boolean {
   return elevation >= SUMMIT;
 }
+
+/**
+ * How a team's elevation is derived from its members.
+ * - average: mean of member elevations (fair for uneven team sizes)
+ * - sum: total of member elevations (rewards bigger teams)
+ */
+export type TeamScoringMode = "average" | "sum";
+
+export const DEFAULT_TEAM_SCORING: TeamScoringMode = "average";
+
+/**
+ * Calculate a team's elevation from its members' elevations.
+ *
+ * Player elevation is the running total of their gains, so summing or
+ * averaging member elevations is the same as summing or averaging their gains.
+ *
+ * @param memberElevations - Elevation of each team member
+ * @param mode - Aggregation mode (default "average")
+ * @returns Team elevation in meters (rounded), 0 for an empty team
+ */
+export function calculateTeamElevation(
+  memberElevations: number[],
+  mode: TeamScoringMode = DEFAULT_TEAM_SCORING
+): number {
+  if (memberElevations.length === 0) return 0;
+
+  const total = memberElevations.reduce((sum, elevation) => sum + elevation, 0);
+  if (mode === "sum") return total;
+
+  return Math.round(total / memberElevations.length);
+}
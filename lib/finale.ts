@@ -0,0 +1,49 @@
+/**
+ * The big-screen finale when a live game ends: a time-lapse replay of the whole climb,
+ * then a podium that reveals 3rd, 2nd and 1st place one at a time.
+ */
+
+// How long the replay holds each question's standings before climbing to the next
+export const REPLAY_FRAME_MS = 1_200;
+
+// Pause between podium reveals (3rd, then 2nd, then 1st)
+export const PODIUM_REVEAL_MS = 2_000;
+
+interface ReplayAnswer {
+  playerId: string;
+  elevationAtAnswer: number;
+  elevationGain?: number; // Unset if the question was never revealed
+}
+
+/**
+ * Every player's elevation before the first question and after each one, rebuilt from the
+ * stored answers: an answerer ends a question where they grabbed the rope plus what they
+ * gained, everyone else stays put. Rows follow `answersByQuestion`, columns follow `playerIds`.
+ */
+export function buildClimbReplay(playerIds: string[], answersByQuestion: ReplayAnswer[][]): number[][] {
+  const frames: number[][] = [playerIds.map(() => 0)];
+  for (const answers of answersByQuestion) {
+    const previous = frames[frames.length - 1]!;
+    const answerByPlayer = new Map(answers.map((a) => [a.playerId, a]));
+    frames.push(
+      playerIds.map((playerId, i) => {
+        const answer = answerByPlayer.get(playerId);
+        return answer ? answer.elevationAtAnswer + (answer.elevationGain ?? 0) : previous[i]!;
+      })
+    );
+  }
+  return frames;
+}
+
+/**
+ * Final finishing order: summiters first, in the order they reached the top (summitPlace),
+ * then everyone else by elevation.
+ */
+export function rankFinishers<T extends { elevation: number; summitPlace?: number }>(players: T[]): T[] {
+  return [...players].sort((a, b) => {
+    if (a.summitPlace !== undefined || b.summitPlace !== undefined) {
+      return (a.summitPlace ?? Infinity) - (b.summitPlace ?? Infinity) || b.elevation - a.elevation;
+    }
+    return b.elevation - a.elevation;
+  });
+}
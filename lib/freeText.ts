@@ -0,0 +1,59 @@
+/**
+ * Free-text answer helpers.
+ *
+ * Players type answers to open-ended questions; the host approves them into groups
+ * (which become the question's options, one rope each). Matching here only suggests
+ * groups - the host always decides.
+ */
+
+/** Longest answer a player can type (keeps rope labels readable) */
+export const MAX_TEXT_ANSWER_LENGTH = 80;
+
+/**
+ * Normalize a typed answer for matching: case, accents, punctuation, extra spaces
+ * and a leading article are ignored ("The Beatles!" and "beatles" match).
+ */
+export function normalizeTextAnswer(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(the|a|an) /, "");
+}
+
+/** Answers that normalize to the same text, labelled with the most common spelling */
+export interface TextAnswerCluster<T> {
+  key: string;
+  text: string;
+  items: T[];
+}
+
+/**
+ * Cluster answers that match after normalization, biggest cluster first
+ * (ties keep first-typed order).
+ */
+export function clusterTextAnswers<T extends { text: string }>(answers: T[]): TextAnswerCluster<T>[] {
+  const clusters = new Map<string, T[]>();
+  for (const answer of answers) {
+    const key = normalizeTextAnswer(answer.text);
+    clusters.set(key, [...(clusters.get(key) ?? []), answer]);
+  }
+
+  return [...clusters.entries()]
+    .map(([key, items]) => ({ key, text: mostCommonSpelling(items.map((item) => item.text.trim())), items }))
+    .sort((a, b) => b.items.length - a.items.length);
+}
+
+// The spelling typed most often (first one typed wins ties)
+function mostCommonSpelling(texts: string[]): string {
+  const counts = new Map<string, number>();
+  for (const text of texts) counts.set(text, (counts.get(text) ?? 0) + 1);
+  let best = texts[0]!;
+  for (const [text, count] of counts) {
+    if (count > counts.get(best)!) best = text;
+  }
+  return best;
+}
@@ -0,0 +1,14 @@
+/**
+ * Co-host permissions. The session owner can always do everything; co-hosts get
+ * a subset picked when they're invited. Deleting or resetting a session, changing
+ * the summit threshold and managing co-hosts stay with the owner.
+ */
+export const HOST_PERMISSIONS = ["runGame", "editQuestions", "managePlayers"] as const;
+
+export type HostPermission = (typeof HOST_PERMISSIONS)[number];
+
+export const HOST_PERMISSION_LABELS: Record<HostPermission, string> = {
+  runGame: "Run the game",
+  editQuestions: "Edit questions",
+  managePlayers: "Manage players & teams",
+};
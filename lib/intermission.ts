@@ -0,0 +1,107 @@
+/**
+ * Intermissions - a break from the questions after a question's results.
+ *
+ * An intermission plays a few screens in order on the big screen: the full standings, a
+ * "top climbers so far" podium and a countdown back to play. The host can turn any of them
+ * off, have one start every N questions or whenever a round ends, and insert one by hand
+ * from any results screen. The countdown always runs out on its own.
+ */
+
+import { startsRound } from "./rounds";
+
+// Intermission screens, in the order they play
+export const INTERMISSION_PHASES = [
+  "intermission_standings",
+  "intermission_podium",
+  "intermission_countdown",
+] as const;
+
+export type IntermissionPhase = (typeof INTERMISSION_PHASES)[number];
+
+export const INTERMISSION_PHASE_LABELS: Record<IntermissionPhase, string> = {
+  intermission_standings: "Standings",
+  intermission_podium: "Podium",
+  intermission_countdown: "Countdown",
+};
+
+// "Every N questions" choices offered to the host
+export const INTERMISSION_INTERVALS = [3, 5, 10] as const;
+
+export const INTERMISSION_COUNTDOWN_SECONDS = 5;
+
+// How many climbers stand on the podium
+export const PODIUM_SIZE = 3;
+
+interface IntermissionSettings {
+  intermissionEvery?: number; // Start one after every N questions (unset = never)
+  intermissionBetweenRounds?: boolean; // Start one whenever a round ends or begins
+  intermissionPhases?: IntermissionPhase[]; // Screens to play (unset = all of them)
+}
+
+export function isIntermissionPhase(phase: string | undefined): phase is IntermissionPhase {
+  return (INTERMISSION_PHASES as readonly string[]).includes(phase ?? "");
+}
+
+/** The screens a session's intermissions play, in play order */
+export function getIntermissionPhases(settings: IntermissionSettings): IntermissionPhase[] {
+  const enabled = settings.intermissionPhases ?? INTERMISSION_PHASES;
+  return INTERMISSION_PHASES.filter((phase) => enabled.includes(phase));
+}
+
+/** The screen after `current` (or the first one), null when the intermission is over */
+export function getNextIntermissionPhase(
+  settings: IntermissionSettings,
+  current?: IntermissionPhase
+): IntermissionPhase | null {
+  const phases = getIntermissionPhases(settings);
+  const index = current ? phases.indexOf(current) + 1 : 0;
+  return phases[index] ?? null;
+}
+
+/** The screen before `current`, null when it's the first one */
+export function getPreviousIntermissionPhase(
+  settings: IntermissionSettings,
+  current: IntermissionPhase
+): IntermissionPhase | null {
+  const phases = getIntermissionPhases(settings);
+  return phases[phases.indexOf(current) - 1] ?? null;
+}
+
+/**
+ * Whether an intermission starts on its own after `questionsPlayed` questions. Never after
+ * the last question - the game ends there.
+ */
+export function isIntermissionDue(
+  settings: IntermissionSettings,
+  questions: Array<{ roundId?: string }>,
+  questionsPlayed: number
+): boolean {
+  if (questionsPlayed <= 0 || questionsPlayed >= questions.length) return false;
+  if (getIntermissionPhases(settings).length === 0) return false;
+
+  const every = settings.intermissionEvery;
+  if (every !== undefined && every > 0 && questionsPlayed % every === 0) return true;
+
+  const roundEnds = questions[questionsPlayed - 1]?.roundId !== undefined &&
+    questions[questionsPlayed]?.roundId !== questions[questionsPlayed - 1]?.roundId;
+  return settings.intermissionBetweenRounds === true &&
+    (roundEnds || startsRound(questions, questionsPlayed));
+}
+
+/**
+ * The intermission screen the host's next step leads to: the next screen during an
+ * intermission, or the first one from results when an intermission is due. Null when the
+ * next step is a question (or the end of the game).
+ */
+export function getUpcomingIntermissionPhase(
+  session: IntermissionSettings & { questionPhase?: string; currentQuestionIndex: number },
+  questions: Array<{ roundId?: string }>
+): IntermissionPhase | null {
+  if (isIntermissionPhase(session.questionPhase)) {
+    return getNextIntermissionPhase(session, session.questionPhase);
+  }
+  if (session.questionPhase === "results" && isIntermissionDue(session, questions, session.currentQuestionIndex + 1)) {
+    return getNextIntermissionPhase(session);
+  }
+  return null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Leagues - a season of sessions with one running table ("Friday Trivia, Spring").
+ *
+ * A host groups finished sessions into a league. Players have no accounts, so the same
+ * climber is recognised across sessions by the device id their browser keeps together with
+ * their name (several people can play from one browser). Each session awards league points
+ * by finishing position or by final elevation.
+ */
+
+export const MAX_LEAGUE_NAME_LENGTH = 40;
+
+// How a session's results turn into league points
+export const LEAGUE_SCORING_MODES = ["position", "elevation"] as const;
+
+export type LeagueScoring = (typeof LEAGUE_SCORING_MODES)[number];
+
+export const DEFAULT_LEAGUE_SCORING: LeagueScoring = "position";
+
+export const LEAGUE_SCORING_LABELS: Record<LeagueScoring, string> = {
+  position: "Finishing position",
+  elevation: "Total elevation",
+};
+
+// Points for 1st, 2nd, 3rd... place in a session (everyone further back scores 0)
+export const POSITION_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1] as const;
+
+// League share codes are longer than session join codes so the two never get mixed up
+export const LEAGUE_CODE_LENGTH = 6;
+
+interface SessionFinisher {
+  key: string; // Stable identity across sessions (see getLeagueMemberKey)
+  name: string;
+  elevation: number;
+  summitPlace?: number;
+}
+
+export interface LeagueTableRow {
+  key: string; // Stable identity across sessions
+  name: string; // Spelling from the player's latest session
+  points: number;
+  sessionsPlayed: number;
+  wins: number;
+  bestElevation: number;
+}
+
+/**
+ * The identity a player keeps across a league's sessions: their device id plus their name
+ * (ignoring case and extra spaces). Players who joined without a device id (older clients)
+ * only count as themselves in that one session.
+ */
+export function getLeagueMemberKey(player: { _id: string; name: string; deviceId?: string }): string {
+  if (!player.deviceId) return `player:${player._id}`;
+  return `device:${player.deviceId}:${player.name.trim().replace(/\s+/g, " ").toLowerCase()}`;
+}
+
+/**
+ * Finishing places (1-based) for a session's finishers, already in finishing order, using
+ * DENSE RANKING like summit places: summiters share a place when their summit place matches,
+ * everyone else when their elevation does, and the next different result takes the next place.
+ */
+export function getFinishingPlaces(finishers: { elevation: number; summitPlace?: number }[]): number[] {
+  const places: number[] = [];
+  finishers.forEach((player, i) => {
+    const previous = finishers[i - 1];
+    const tied = previous !== undefined &&
+      previous.summitPlace === player.summitPlace &&
+      (player.summitPlace !== undefined || previous.elevation === player.elevation);
+    places.push(i === 0 ? 1 : tied ? places[i - 1]! : places[i - 1]! + 1);
+  });
+  return places;
+}
+
+/** League points for finishing a session at `place` (1-based) with `elevation` meters */
+export function getLeaguePoints(scoring: LeagueScoring, place: number, elevation: number): number {
+  if (scoring === "elevation") return Math.max(0, Math.round(elevation));
+  return POSITION_POINTS[place - 1] ?? 0;
+}
+
+/**
+ * The league table from each session's finishers, oldest session first, each already in
+ * finishing order. Tied finishers score the same place. Sorted by points, then wins, then best elevation.
+ */
+export function buildLeagueTable(scoring: LeagueScoring, sessions: SessionFinisher[][]): LeagueTableRow[] {
+  const rows = new Map<string, LeagueTableRow>();
+  for (const finishers of sessions) {
+    const places = getFinishingPlaces(finishers);
+    finishers.forEach((player, i) => {
+      const row = rows.get(player.key) ?? { key: player.key, name: player.name, points: 0, sessionsPlayed: 0, wins: 0, bestElevation: 0 };
+      row.name = player.name;
+      row.points += getLeaguePoints(scoring, places[i]!, player.elevation);
+      row.sessionsPlayed += 1;
+      if (places[i] === 1) row.wins += 1;
+      row.bestElevation = Math.max(row.bestElevation, player.elevation);
+      rows.set(player.key, row);
+    });
+  }
+
+  return [...rows.values()].sort(
+    (a, b) => b.points - a.points || b.wins - a.wins || b.bestElevation - a.bestElevation
+  );
+}
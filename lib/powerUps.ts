@@ -0,0 +1,84 @@
+/**
+ * Power-ups earned on the climb.
+ *
+ * Players pick one up the first time they reach each reward checkpoint and can
+ * use it while answers are open. Effects are applied server-side when the
+ * answer is revealed. Shared by the backend (scoring) and frontend (inventory UI).
+ */
+import { hashString, shuffleWithSeed } from "./shuffle";
+
+export const POWER_UP_KINDS = ["double", "shield", "freeze", "fiftyFifty"] as const;
+
+export type PowerUpKind = (typeof POWER_UP_KINDS)[number];
+
+export const POWER_UP_INFO: Record<PowerUpKind, { label: string; icon: string; description: string }> = {
+  double: { label: "Double Up", icon: "⚡", description: "Double your elevation gain this question" },
+  shield: { label: "Shield", icon: "🛡️", description: "A wrong answer doesn't slip and still climbs half the usual amount" },
+  freeze: { label: "Freeze", icon: "🧊", description: "Freeze a rival's rope - they gain nothing this question" },
+  fiftyFifty: { label: "50/50", icon: "✂️", description: "Remove half of the wrong answers" },
+};
+
+/**
+ * Reward checkpoints (meters) and what each one hands out. Each is awarded once
+ * per player per game, the first time they climb past it.
+ */
+export const POWER_UP_CHECKPOINTS: { elevation: number; kind: PowerUpKind }[] = [
+  { elevation: 200, kind: "fiftyFifty" },
+  { elevation: 400, kind: "shield" },
+  { elevation: 600, kind: "freeze" },
+  { elevation: 800, kind: "double" },
+];
+
+/** Share of the base elevation a shielded wrong answer still earns */
+export const SHIELD_CREDIT = 0.5;
+
+/**
+ * Checkpoints crossed climbing from one elevation to another.
+ */
+export function getCheckpointRewards(
+  fromElevation: number,
+  toElevation: number
+): { elevation: number; kind: PowerUpKind }[] {
+  return POWER_UP_CHECKPOINTS.filter((c) => fromElevation < c.elevation && toElevation >= c.elevation);
+}
+
+/**
+ * Apply the power-ups affecting a player on one question to their elevation gain.
+ *
+ * A freeze wins over everything, but only blocks climbing: a frozen player who got it
+ * wrong still takes their slip or lost wager. A shield cancels a loss - the slip and any
+ * lost stake - and a scoreless answer with nothing at stake still climbs a share of the
+ * base elevation. Double applies on top of whatever the player earned - it never doubles a loss.
+ *
+ * @param gain - Elevation gain from normal scoring plus any wager (0 or less for a wrong answer)
+ * @param baseElevation - Full base elevation for a correct answer on this question (round multiplier included)
+ * @param effects - Power-ups active on this player for the question
+ * @param wagerResult - Meters won or lost on the player's wager (already part of `gain`)
+ */
+export function applyPowerUps(gain: number, baseElevation: number, effects: PowerUpKind[], wagerResult = 0): number {
+  if (effects.includes("freeze")) return Math.min(gain, 0);
+
+  let result = gain;
+  if (result <= 0 && effects.includes("shield")) {
+    // A lost stake is only refunded, so wagering under a shield never pays better than answering right
+    result = wagerResult < 0 ? 0 : Math.round(baseElevation * SHIELD_CREDIT);
+  }
+  if (result > 0 && effects.includes("double")) {
+    result *= 2;
+  }
+  return result;
+}
+
+/**
+ * Pick the wrong options a 50/50 removes: half of all options (rounded down),
+ * never the correct one. Deterministic for a given seed.
+ *
+ * @returns Original option indices to hide, sorted
+ */
+export function pickFiftyFiftyRemovals(optionCount: number, correctIndex: number, seed: string): number[] {
+  const wrong = Array.from({ length: optionCount }, (_, i) => i).filter((i) => i !== correctIndex);
+  const removeCount = Math.min(wrong.length, Math.floor(optionCount / 2));
+  return shuffleWithSeed(wrong, hashString(seed))
+    .slice(0, removeCount)
+    .sort((a, b) => a - b);
+}
@@ -0,0 +1,373 @@
+/**
+ * CSV / TSV import and export for question sets.
+ *
+ * Content authors write questions in spreadsheets; this converts between a sheet
+ * (one question per row) and the JSON question shape used by `importQuestions`
+ * and `/api/add-questions`.
+ *
+ * Columns (header row required, names are case-insensitive, spaces/underscores ignored):
+ *   text, option1..optionN, correctIndex, timeLimit, followUpText
+ * Optional: numericAnswer (estimation questions), freeText (typed answers - no options), ratingScale
+ * ("1-5" or "nps") and wordCloud (survey questions - no options), surveyScored (survey answers climb),
+ * partialCredit (select-all), imageUrl (question picture), audioUrl (clip for music rounds).
+ * Option pictures only travel in JSON (optionImageUrls).
+ * correctIndex is 0-based; several indices separated by ";" make a select-all question.
+ */
+import { RATING_SCALES, type RatingScale } from "./survey";
+
+/** A question in the JSON import/export shape */
+export interface QuestionRecord {
+  text: string;
+  imageUrl?: string;
+  audioUrl?: string;
+  options: string[];
+  /** Picture per option (null for none) */
+  optionImageUrls?: Array<string | null>;
+  correctIndex: number;
+  correctIndices?: number[];
+  partialCredit?: boolean;
+  numericAnswer?: number;
+  /** Players type answers that the host groups during the game (options are ignored) */
+  freeText?: boolean;
+  /** Survey: players rate on a scale (options are ignored) */
+  ratingScale?: RatingScale;
+  /** Survey: players type a word for the word cloud (options are ignored) */
+  wordCloud?: boolean;
+  /** Survey questions: answering earns elevation */
+  surveyScored?: boolean;
+  timeLimit?: number;
+  followUpText?: string;
+}
+
+/**
+ * Whether an imported picture or clip is a usable http(s) URL.
+ */
+export function isMediaUrl(url: string): boolean {
+  return /^https?:\/\/\S+$/i.test(url.trim());
+}
+
+/** A validation problem tied to a source row (sheet line number, or question number for JSON) */
+export interface RowError {
+  row: number;
+  message: string;
+}
+
+export type SheetDelimiter = "," | "\t";
+
+/**
+ * Pick the delimiter from the file extension, falling back to sniffing the header line.
+ */
+export function detectDelimiter(text: string, fileName?: string): SheetDelimiter {
+  if (fileName?.toLowerCase().endsWith(".tsv")) return "\t";
+  if (fileName?.toLowerCase().endsWith(".csv")) return ",";
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return firstLine.includes("\t") && !firstLine.includes(",") ? "\t" : ",";
+}
+
+/**
+ * Split delimited text into rows of cells (RFC 4180 quoting: "" escapes a quote,
+ * quoted cells may contain delimiters and newlines).
+ */
+export function parseDelimited(text: string, delimiter: SheetDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM (Excel adds one to CSV exports)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last row (no trailing newline)
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Normalize a header cell for matching ("Follow Up Text" -> "followuptext")
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, "");
+}
+
+const HEADER_ALIASES: Record<string, string> = {
+  text: "text",
+  question: "text",
+  correctindex: "correctIndex",
+  correct: "correctIndex",
+  timelimit: "timeLimit",
+  followuptext: "followUpText",
+  followup: "followUpText",
+  numericanswer: "numericAnswer",
+  partialcredit: "partialCredit",
+  freetext: "freeText",
+  ratingscale: "ratingScale",
+  rating: "ratingScale",
+  wordcloud: "wordCloud",
+  surveyscored: "surveyScored",
+  imageurl: "imageUrl",
+  image: "imageUrl",
+  audiourl: "audioUrl",
+  audio: "audioUrl",
+};
+
+/**
+ * Validate one question record. Returns human-readable problems (empty when valid).
+ */
+export function validateQuestionRecord(q: QuestionRecord): string[] {
+  const errors: string[] = [];
+  // JSON files aren't type-checked, so guard the basic shapes too
+  if (typeof q.text !== "string" || !q.text.trim()) errors.push("Question text is required");
+  if (q.imageUrl !== undefined && (typeof q.imageUrl !== "string" || !isMediaUrl(q.imageUrl))) {
+    errors.push("imageUrl must be an http(s) URL");
+  }
+  if (q.audioUrl !== undefined && (typeof q.audioUrl !== "string" || !isMediaUrl(q.audioUrl))) {
+    errors.push("audioUrl must be an http(s) URL");
+  }
+  if (q.timeLimit !== undefined && (!Number.isFinite(q.timeLimit) || q.timeLimit <= 0)) {
+    errors.push("timeLimit must be a positive number of seconds");
+  }
+
+  if (q.numericAnswer !== undefined) {
+    if (!Number.isFinite(q.numericAnswer)) errors.push("numericAnswer must be a number");
+    return errors; // Estimation questions have no options to validate
+  }
+  if (q.freeText) return errors; // Neither do free-text questions
+  if (q.ratingScale !== undefined) {
+    if (!RATING_SCALES.includes(q.ratingScale)) errors.push('ratingScale must be "1-5" (fivePoint) or "nps"');
+    return errors; // ...or survey questions
+  }
+  if (q.wordCloud) return errors;
+
+  if (!Array.isArray(q.options) || q.options.length < 2) {
+    errors.push("Needs at least 2 options");
+    return errors;
+  }
+  if (q.optionImageUrls?.some((url) => url !== null && (typeof url !== "string" || !isMediaUrl(url)))) {
+    errors.push("optionImageUrls must be http(s) URLs");
+  }
+  const indices = q.correctIndices ?? [q.correctIndex];
+  if (indices.some((idx) => !Number.isInteger(idx) || idx < 0 || idx >= q.options.length)) {
+    errors.push(`correctIndex must be between 0 and ${q.options.length - 1}`);
+  }
+  return errors;
+}
+
+/**
+ * Validate parsed JSON questions, one error per problem, numbered by question.
+ */
+export function validateQuestionRecords(questions: QuestionRecord[]): RowError[] {
+  return questions.flatMap((q, i) =>
+    validateQuestionRecord(q).map((message) => ({ row: i + 1, message }))
+  );
+}
+
+/**
+ * Parse a CSV/TSV question sheet. Every row is validated independently so the
+ * host sees all problems at once; invalid rows are left out of `questions`.
+ * Row numbers match the spreadsheet (header is row 1).
+ */
+export function parseQuestionSheet(
+  text: string,
+  delimiter: SheetDelimiter
+): { questions: QuestionRecord[]; errors: RowError[] } {
+  const rows = parseDelimited(text, delimiter);
+  const header = rows[0];
+  if (!header || header.every((cell) => !cell.trim())) {
+    return { questions: [], errors: [{ row: 1, message: "File is empty" }] };
+  }
+
+  // Map each column to a field; optionN columns keep their number for ordering
+  const columns = header.map((cell) => {
+    const name = normalizeHeader(cell);
+    const optionMatch = name.match(/^option(\d+)$/);
+    if (optionMatch) return { field: "option", optionNumber: Number(optionMatch[1]) };
+    return { field: HEADER_ALIASES[name] ?? null, optionNumber: 0 };
+  });
+
+  const headerErrors: RowError[] = [];
+  if (!columns.some((c) => c.field === "text")) {
+    headerErrors.push({ row: 1, message: "Missing required column: text" });
+  }
+  const typedFields = ["option", "numericAnswer", "freeText", "ratingScale", "wordCloud"];
+  if (!columns.some((c) => c.field !== null && typedFields.includes(c.field))) {
+    headerErrors.push({ row: 1, message: "Missing option columns (option1, option2, ...)" });
+  }
+  if (headerErrors.length > 0) return { questions: [], errors: headerErrors };
+
+  const questions: QuestionRecord[] = [];
+  const errors: RowError[] = [];
+
+  for (let r = 1; r < rows.length; r++) {
+    const cells = rows[r]!;
+    const rowNumber = r + 1;
+    if (cells.every((cell) => !cell.trim())) continue; // Skip blank lines
+
+    const options: Array<{ optionNumber: number; text: string }> = [];
+    const values: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      const value = (cells[c] ?? "").trim();
+      if (column.field === "option") options.push({ optionNumber: column.optionNumber, text: value });
+      else if (column.field) values[column.field] = value;
+    });
+
+    const rowErrors: string[] = [];
+    const ordered = options.sort((a, b) => a.optionNumber - b.optionNumber).map((o) => o.text);
+    const lastFilled = ordered.map((o) => o !== "").lastIndexOf(true);
+    const filled = ordered.slice(0, lastFilled + 1);
+    if (filled.includes("")) rowErrors.push("Options must be filled in from option1 with no gaps");
+
+    const record: QuestionRecord = {
+      text: values.text ?? "",
+      options: filled,
+      correctIndex: 0,
+    };
+
+    if (values.numericAnswer) {
+      record.numericAnswer = Number(values.numericAnswer);
+    } else if (values.freeText && /^(true|yes|1)$/i.test(values.freeText)) {
+      record.freeText = true;
+    } else if (values.ratingScale) {
+      record.ratingScale = parseRatingScale(values.ratingScale);
+    } else if (values.wordCloud && /^(true|yes|1)$/i.test(values.wordCloud)) {
+      record.wordCloud = true;
+    } else {
+      const indexParts = (values.correctIndex ?? "").split(";").map((part) => part.trim()).filter(Boolean);
+      if (indexParts.length === 0) {
+        rowErrors.push("correctIndex is required");
+      } else {
+        const indices = indexParts.map(Number);
+        record.correctIndex = indices[0]!;
+        if (indices.length > 1) record.correctIndices = indices;
+      }
+      if (values.partialCredit) record.partialCredit = /^(true|yes|1)$/i.test(values.partialCredit);
+    }
+    if ((record.ratingScale || record.wordCloud) && values.surveyScored) {
+      record.surveyScored = /^(true|yes|1)$/i.test(values.surveyScored);
+    }
+    if (values.timeLimit) record.timeLimit = Number(values.timeLimit);
+    if (values.followUpText) record.followUpText = values.followUpText;
+    if (values.imageUrl) record.imageUrl = values.imageUrl;
+    if (values.audioUrl) record.audioUrl = values.audioUrl;
+
+    rowErrors.push(...validateQuestionRecord(record));
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map((message) => ({ row: rowNumber, message })));
+    } else {
+      questions.push(record);
+    }
+  }
+
+  if (questions.length === 0 && errors.length === 0) {
+    errors.push({ row: 2, message: "No questions found" });
+  }
+
+  return { questions, errors };
+}
+
+// A sheet's rating scale cell: the scale's name, its range or its top value
+// (anything else is kept as typed for validation to report)
+function parseRatingScale(value: string): RatingScale {
+  const normalized = value.trim().toLowerCase().replace(/\s/g, "");
+  if (["fivepoint", "1-5", "5"].includes(normalized)) return "fivePoint";
+  if (["nps", "0-10", "10"].includes(normalized)) return "nps";
+  return value as RatingScale;
+}
+
+// Quote a cell when it contains the delimiter, quotes, newlines or edge whitespace
+function formatCell(value: string, delimiter: SheetDelimiter): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Join rows of cells into CSV/TSV text, quoting where needed.
+ */
+export function formatSheet(rows: string[][], delimiter: SheetDelimiter): string {
+  return rows
+    .map((cells) => cells.map((cell) => formatCell(cell, delimiter)).join(delimiter))
+    .join("\n") + "\n";
+}
+
+/**
+ * Generate a CSV/TSV sheet from questions (round-trips through parseQuestionSheet).
+ */
+export function questionsToSheet(questions: QuestionRecord[], delimiter: SheetDelimiter): string {
+  const optionCount = Math.max(2, ...questions.map((q) => q.options.length));
+  const hasEstimation = questions.some((q) => q.numericAnswer !== undefined);
+  const hasFreeText = questions.some((q) => q.freeText);
+  const hasRating = questions.some((q) => q.ratingScale !== undefined);
+  const hasWordCloud = questions.some((q) => q.wordCloud);
+  const hasSurveyScored = questions.some((q) => q.surveyScored !== undefined);
+  const hasPartialCredit = questions.some((q) => q.partialCredit !== undefined);
+  const hasImages = questions.some((q) => q.imageUrl);
+  const hasAudio = questions.some((q) => q.audioUrl);
+
+  const header = [
+    "text",
+    ...Array.from({ length: optionCount }, (_, i) => `option${i + 1}`),
+    "correctIndex",
+    "timeLimit",
+    "followUpText",
+    ...(hasEstimation ? ["numericAnswer"] : []),
+    ...(hasFreeText ? ["freeText"] : []),
+    ...(hasRating ? ["ratingScale"] : []),
+    ...(hasWordCloud ? ["wordCloud"] : []),
+    ...(hasSurveyScored ? ["surveyScored"] : []),
+    ...(hasPartialCredit ? ["partialCredit"] : []),
+    ...(hasImages ? ["imageUrl"] : []),
+    ...(hasAudio ? ["audioUrl"] : []),
+  ];
+
+  const rows = questions.map((q) => {
+    const isEstimation = q.numericAnswer !== undefined;
+    const isTyped = isEstimation || q.freeText || q.ratingScale !== undefined || q.wordCloud;
+    return [
+      q.text,
+      ...Array.from({ length: optionCount }, (_, i) => q.options[i] ?? ""),
+      isTyped ? "" : (q.correctIndices?.length ? q.correctIndices : [q.correctIndex]).join(";"),
+      q.timeLimit !== undefined ? String(q.timeLimit) : "",
+      q.followUpText ?? "",
+      ...(hasEstimation ? [isEstimation ? String(q.numericAnswer) : ""] : []),
+      ...(hasFreeText ? [q.freeText ? "true" : ""] : []),
+      ...(hasRating ? [q.ratingScale ?? ""] : []),
+      ...(hasWordCloud ? [q.wordCloud ? "true" : ""] : []),
+      ...(hasSurveyScored ? [q.surveyScored !== undefined ? String(q.surveyScored) : ""] : []),
+      ...(hasPartialCredit ? [q.partialCredit !== undefined ? String(q.partialCredit) : ""] : []),
+      ...(hasImages ? [q.imageUrl ?? ""] : []),
+      ...(hasAudio ? [q.audioUrl ?? ""] : []),
+    ];
+  });
+
+  return formatSheet([header, ...rows], delimiter);
+}
@@ -0,0 +1,122 @@
+/**
+ * Post-game analytics report types and helpers.
+ *
+ * The report itself is built by `reports.getSessionReport`; these helpers are kept
+ * free of Convex imports so they can be unit tested and shared with the frontend.
+ */
+
+import { formatSheet } from "./questionSheet";
+
+/** Per-question stats for the played questions, in play order */
+export interface QuestionReport {
+  questionId: string;
+  number: number; // 1-based play order
+  text: string;
+  kind: "choice" | "multiSelect" | "estimation" | "freeText" | "rating" | "wordCloud" | "poll";
+  totalAnswers: number;
+  correctCount: number | null; // null for poll, free-text and survey questions (no correct answer)
+  accuracy: number | null; // correctCount / totalAnswers (0-1), null for polls or no answers
+  // Answers per option (estimation questions bucket guesses by closeness instead, free text counts per approved group,
+  // ratings count per scale value, word clouds list the most popular words)
+  distribution: Array<{ label: string; count: number; isCorrect: boolean | null }>;
+  medianResponseMs: number | null; // Measured from the first answer, when the question timer starts
+}
+
+/** Per-player stats across the played questions */
+export interface PlayerReport {
+  playerId: string;
+  name: string;
+  elevation: number;
+  answered: number;
+  correct: number;
+  accuracy: number | null; // correct / scored questions played (0-1)
+  currentStreak: number; // Correct answers in a row, ending at the last played question
+  bestStreak: number;
+  medianResponseMs: number | null;
+}
+
+export interface SessionReport {
+  sessionCode: string;
+  anonymous: boolean; // Anonymous sessions only report aggregates - players is always empty
+  questions: QuestionReport[];
+  players: PlayerReport[];
+}
+
+/**
+ * Median of a list of numbers (mean of the middle two for even lengths), null when empty.
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/**
+ * Correctness streaks for one player, in question order.
+ * `false` (wrong or unanswered) breaks a streak; `null` (poll question) is skipped.
+ */
+export function calculateStreaks(results: Array<boolean | null>): { current: number; best: number } {
+  let current = 0;
+  let best = 0;
+  for (const result of results) {
+    if (result === null) continue;
+    current = result ? current + 1 : 0;
+    best = Math.max(best, current);
+  }
+  return { current, best };
+}
+
+// Percent with no decimals, blank when not applicable
+function formatPercent(value: number | null): string {
+  return value === null ? "" : String(Math.round(value * 100));
+}
+
+// Seconds with one decimal, blank when not applicable
+function formatSeconds(ms: number | null): string {
+  return ms === null ? "" : (ms / 1000).toFixed(1);
+}
+
+/**
+ * Per-question report as CSV (distribution flattened to "label: count" pairs).
+ */
+export function questionReportToCsv(questions: QuestionReport[]): string {
+  return formatSheet(
+    [
+      ["number", "question", "kind", "answers", "correct", "accuracyPercent", "medianResponseSeconds", "distribution"],
+      ...questions.map((q) => [
+        String(q.number),
+        q.text,
+        q.kind,
+        String(q.totalAnswers),
+        q.correctCount === null ? "" : String(q.correctCount),
+        formatPercent(q.accuracy),
+        formatSeconds(q.medianResponseMs),
+        q.distribution.map((d) => `${d.label}: ${d.count}`).join("; "),
+      ]),
+    ],
+    ","
+  );
+}
+
+/**
+ * Per-player report as CSV.
+ */
+export function playerReportToCsv(players: PlayerReport[]): string {
+  return formatSheet(
+    [
+      ["player", "elevation", "answered", "correct", "accuracyPercent", "currentStreak", "bestStreak", "medianResponseSeconds"],
+      ...players.map((p) => [
+        p.name,
+        String(p.elevation),
+        String(p.answered),
+        String(p.correct),
+        formatPercent(p.accuracy),
+        String(p.currentStreak),
+        String(p.bestStreak),
+        formatSeconds(p.medianResponseMs),
+      ]),
+    ],
+    ","
+  );
+}
@@ -8,6 +8,7 @@
  * so that lib/ has no imports from convex/ (architecture rule).
  * Convex IDs are strings at runtime, so this is safe.
  */
+import type { PowerUpKind } from "./powerUps";
 
 /**
  * Question phase for controlling the flow of each question
@@ -18,6 +19,11 @@
  */
 export type QuestionPhase = "question_shown" | "answers_shown" | "revealed" | "results";
 
+/**
+ * Host review of a free-text answer: waiting in the queue, grouped onto a rope, or hidden
+ */
+export type TextModeration = "pending" | "approved" | "rejected";
+
 /**
  * A player currently on a rope (has answered the question)
  */
@@ -30,6 +36,31 @@ export interface PlayerOnRope {
   answeredAt: number;
   /** Elevation gain from this answer (populated after reveal, includes minority bonus) */
   elevationGain?: number;
+  /** Power-ups affecting this player on the current question (including a rival's freeze) */
+  powerUps?: PowerUpKind[];
+  /** Meters staked on this answer (won or lost on reveal) */
+  wager?: number;
+}
+
+/**
+ * A player's guess on an estimation ("closest guess") question.
+ * Estimation questions have no ropes - blobs are spread along a number line instead.
+ */
+export interface EstimationGuess {
+  playerId: string;
+  playerName: string;
+  /** The number the player typed */
+  guess: number;
+  /** The elevation where they were when they guessed */
+  elevationAtAnswer: number;
+  /** Timestamp when they answered */
+  answeredAt: number;
+  /** Elevation gain from this guess (populated after reveal) */
+  elevationGain?: number;
+  /** Closeness rank, 1 = closest (populated after reveal) */
+  rank?: number;
+  /** Meters staked on this guess (won or lost on reveal) */
+  wager?: number;
 }
 
 /**
@@ -40,9 +71,11 @@ export interface RopeData {
   optionText: string;
   /** Index of this option (0-3 typically) */
   optionIndex: number;
-  /** Players who chose this answer, sorted by answeredAt */
+  /** Players who chose this answer, sorted by answeredAt (empty in anonymous sessions - use playerCount) */
   players: PlayerOnRope[];
-  /** Whether this is the correct answer (revealed after timer) */
+  /** How many players are on this rope */
+  playerCount: number;
+  /** Whether this is a correct answer (revealed after timer). Several ropes can be correct on select-all questions */
   isCorrect: boolean | null;
 }
 
@@ -55,23 +88,43 @@ export interface RopeClimbingState {
     id: string;
     text: string;
     timeLimit: number;
+    /** "Select all that apply" question (players pick several options) */
+    multiSelect: boolean;
   };
   /** Current phase of the question flow */
   questionPhase: QuestionPhase;
-  /** One rope per answer option */
+  /** Anonymous session: ropes carry counts only, and nobody is placed by what they answered */
+  anonymous: boolean;
+  /** One rope per answer option (empty for estimation questions) */
   ropes: RopeData[];
-  /** Players who haven't answered yet (at their current elevation) */
+  /** Estimation question data (null for option-based questions) */
+  estimation: {
+    /** The true answer (null until revealed) */
+    answer: number | null;
+    /** Guesses so far - sorted closest-first once revealed */
+    guesses: EstimationGuess[];
+  } | null;
+  /** Free-text question data (null for other questions) - ropes are the groups the host approved */
+  freeText: {
+    /** Answers waiting in the host's moderation queue */
+    pendingCount: number;
+  } | null;
+  /** Players not on a rope yet: haven't answered, or their typed answer isn't in a group (at their current elevation) */
   notAnswered: {
     playerId: string;
     playerName: string;
     elevation: number;
     /** The option index from their most recent answer (for column positioning) */
     lastOptionIndex: number | null;
+    /** Power-ups affecting this player on the current question */
+    powerUps?: PowerUpKind[];
   }[];
   /** Timing info for the countdown */
   timing: {
     /** When the first person answered (null if no answers yet) */
     firstAnsweredAt: number | null;
+    /** Server deadline when answers close (null unless the session uses autoReveal) */
+    deadline: number | null;
     /** Question time limit in seconds */
     timeLimit: number;
     /** Whether the timer has expired */
@@ -102,7 +155,32 @@ export interface PlayerRopeState {
     text: string;
     options: { text: string }[];
     timeLimit: number;
+    /** "Select all that apply" question (players pick several options) */
+    multiSelect: boolean;
   };
+  /** Estimation question data (null for option-based questions) */
+  estimation: {
+    /** The true answer (null until revealed) */
+    answer: number | null;
+    /** The player's guess (null if not answered) */
+    myGuess: number | null;
+    /** The player's closeness rank, 1 = closest (null until revealed) */
+    myRank: number | null;
+  } | null;
+  /** Free-text question data (null for other questions) */
+  freeText: {
+    /** What the player typed (null if not answered) */
+    myText: string | null;
+    /** Where the player's answer is in the host's moderation queue (null if not answered) */
+    moderation: TextModeration | null;
+  } | null;
+  /** Rating-scale / word-cloud question data (null for other questions) */
+  survey: {
+    /** The value the player rated (null if not answered or a word cloud) */
+    myRating: number | null;
+    /** The word the player typed (null if not answered or a rating) */
+    myWord: string | null;
+  } | null;
   /** Summarized rope data - counts instead of full player lists */
   ropes: {
     optionIndex: number;
@@ -116,18 +194,30 @@ export interface PlayerRopeState {
     hasAnswered: boolean;
     /** Which option index the player selected (null if not answered) */
     optionIndex: number | null;
+    /** Every option the player selected (several on select-all questions, empty if not answered) */
+    optionIndices: number[];
     /** Whether the player's answer was correct (null until revealed) */
     isCorrect: boolean | null;
     /** Player's position in answer order (1 = first, for bonus calculation) */
     position: number | null;
-    /** Elevation gain from this answer (populated after reveal) */
+    /** Elevation change from this answer (populated after reveal, negative on a lost wager) */
     elevationGain: number | null;
+    /** Meters the player staked on this answer (null if no wager) */
+    wager: number | null;
+    /** How the climb was earned - base elevation plus the strategy's bonuses (null until revealed) */
+    scoring: {
+      base: number;
+      speedBonus: number;
+      minorityBonus: number;
+      streakBonus: number;
+    } | null;
   };
   /** Current phase of the question flow */
   phase: QuestionPhase;
   /** Timing info for the countdown */
   timing: {
     firstAnsweredAt: number | null;
+    deadline: number | null;
     timeLimit: number;
     isExpired: boolean;
     isRevealed: boolean;
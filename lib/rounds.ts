@@ -0,0 +1,47 @@
+/**
+ * Rounds - named sections of a session ("Round 1: Company history").
+ *
+ * Questions join a round through their roundId and still play in their `order`, so a round
+ * is a run of consecutive questions. The big screen shows an intro card when a new round
+ * starts. A round can set the time limit for all its questions and multiply the elevation
+ * they're worth.
+ */
+
+export const MAX_ROUND_NAME_LENGTH = 40;
+
+// Elevation multipliers a host can pick for a round (1 = normal scoring)
+export const ROUND_MULTIPLIERS = [1, 1.5, 2, 3] as const;
+
+export const DEFAULT_ROUND_MULTIPLIER = 1;
+export const MAX_ROUND_MULTIPLIER = 3;
+
+// Time limits (seconds) a host can give a whole round, and the range the server accepts
+export const ROUND_TIME_LIMITS = [10, 15, 20, 30, 45, 60] as const;
+export const MIN_ROUND_TIME_LIMIT = 5;
+export const MAX_ROUND_TIME_LIMIT = 300;
+
+/**
+ * Whether the question at this index opens a round: it's in one, and the question before
+ * it isn't in the same one.
+ */
+export function startsRound(questions: Array<{ roundId?: string }>, index: number): boolean {
+  const roundId = questions[index]?.roundId;
+  return roundId !== undefined && questions[index - 1]?.roundId !== roundId;
+}
+
+/**
+ * Round ids in play order (by the first question in each), skipping rounds with no questions.
+ */
+export function getRoundPlayOrder<RoundId extends string>(questions: Array<{ roundId?: RoundId }>): RoundId[] {
+  const order: RoundId[] = [];
+  for (const question of questions) {
+    if (question.roundId !== undefined && !order.includes(question.roundId)) order.push(question.roundId);
+  }
+  return order;
+}
+
+/** "×2 elevation" style label for a multiplier, null for normal scoring */
+export function formatRoundMultiplier(multiplier: number | undefined): string | null {
+  if (multiplier === undefined || multiplier === DEFAULT_ROUND_MULTIPLIER) return null;
+  return `×${multiplier} elevation`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Scoring strategies - how a credited answer's elevation is built up.
+ *
+ * Every strategy pays the same base elevation (see calculateBaseElevation) scaled by
+ * the answer's credit. They differ in the bonus on top:
+ * - classic: first-answerer bonus (top 20% of correct answerers, see calculateFirstAnswererBonus)
+ * - timeDecay: continuous speed bonus - the sooner after the first answer, the bigger
+ * - minority: bonus for being right when most of the room wasn't
+ * - streak: multiplier that grows with consecutive correct answers
+ */
+import {
+  calculateBaseElevation,
+  calculateFirstAnswererBonus,
+  calculateSpeedBonus,
+  DEFAULT_SUMMIT_THRESHOLD,
+} from "./elevation";
+
+export const SCORING_STRATEGIES = ["classic", "timeDecay", "minority", "streak"] as const;
+
+export type ScoringStrategy = (typeof SCORING_STRATEGIES)[number];
+
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = "classic";
+
+export const SCORING_STRATEGY_INFO: Record<ScoringStrategy, { label: string; description: string }> = {
+  classic: { label: "Classic", description: "The first correct answers earn a bonus" },
+  timeDecay: { label: "Speed", description: "The faster you answer, the bigger the bonus" },
+  minority: { label: "Underdog", description: "Being right when most got it wrong earns a bonus" },
+  streak: { label: "Streaks", description: "Correct answers in a row multiply your climb" },
+};
+
+// Largest minority bonus, as a share of base elevation (only one correct answerer in a big room)
+export const MINORITY_BONUS_MAX = 0.5;
+
+// Streak multiplier grows by this much per consecutive correct answer (hosts can pick
+// anywhere from MIN_STREAK_STEP to MAX_STREAK_STEP)...
+export const DEFAULT_STREAK_STEP = 0.1;
+export const MIN_STREAK_STEP = 0.05;
+export const MAX_STREAK_STEP = 0.5;
+// ...and stops growing after this many in a row
+export const MAX_STREAK_LENGTH = 5;
+
+// Streak length at which a player's blob catches fire
+export const STREAK_FLAME_MIN = 3;
+
+/**
+ * Calculate the minority bonus: the smaller the share of answerers who got it right,
+ * the bigger the bonus.
+ *
+ * Examples with base 100m:
+ * - 10% of answerers right: 45m
+ * - 50% right: 25m
+ * - everyone right: 0m
+ *
+ * @param correctShare - Fraction of answerers who earned credit (0-1)
+ * @param baseElevation - Base elevation for the answer
+ * @returns Minority bonus in meters
+ */
+export function calculateMinorityBonus(correctShare: number, baseElevation: number): number {
+  if (baseElevation <= 0) return 0;
+  const share = Math.min(1, Math.max(0, correctShare));
+  return Math.round(baseElevation * MINORITY_BONUS_MAX * (1 - share));
+}
+
+/**
+ * Calculate the streak multiplier for an answer.
+ *
+ * Examples with the default +0.1 step:
+ * - no earlier correct answers in a row: x1
+ * - 2 in a row before this one: x1.2
+ * - 5 or more: x1.5 (cap)
+ *
+ * @param streak - Consecutive correct answers right before this one
+ * @param step - Multiplier added per correct answer in a row (default 0.1)
+ * @returns Multiplier applied to the base elevation
+ */
+export function calculateStreakMultiplier(streak: number, step: number = DEFAULT_STREAK_STEP): number {
+  if (streak <= 0) return 1;
+  return Math.round((1 + Math.min(streak, MAX_STREAK_LENGTH) * step) * 100) / 100;
+}
+
+/**
+ * Everything a strategy may need to score one answer.
+ */
+export interface ScoringInput {
+  /** Fraction of full elevation earned (0-1) */
+  credit: number;
+  /** Position among credited answerers (1 = first, or closest for estimation) */
+  answerPosition: number;
+  /** Milliseconds from the question's first answer (or the player seeing it) to this answer */
+  answerTimeMs: number;
+  /** Question time limit in seconds */
+  timeLimit: number;
+  /** Fraction of answerers who earned credit (0-1) */
+  correctShare: number;
+  /** Consecutive correct answers right before this one */
+  streak: number;
+  /** Streak multiplier step (default DEFAULT_STREAK_STEP) */
+  streakStep?: number;
+  totalPlayers: number;
+  totalQuestions: number;
+  summitThreshold?: number;
+  /** The question's round multiplier - scales base elevation, and so the bonuses built on it (default 1) */
+  roundMultiplier?: number;
+}
+
+/**
+ * An answer's elevation, broken down the way it's stored on `answers`.
+ */
+export interface ScoreBreakdown {
+  base: number;
+  speedBonus: number;
+  minorityBonus: number;
+  streakBonus: number;
+  total: number;
+}
+
+/**
+ * Score one answer with the session's strategy.
+ *
+ * @param strategy - The session's scoring strategy
+ * @param input - The answer and the question it was given on
+ * @returns Base elevation and bonuses (all 0 for an answer without credit)
+ */
+export function scoreAnswer(strategy: ScoringStrategy, input: ScoringInput): ScoreBreakdown {
+  const breakdown: ScoreBreakdown = { base: 0, speedBonus: 0, minorityBonus: 0, streakBonus: 0, total: 0 };
+  if (input.credit <= 0) return breakdown;
+
+  const summitThreshold = input.summitThreshold ?? DEFAULT_SUMMIT_THRESHOLD;
+  breakdown.base = Math.round(
+    calculateBaseElevation(input.totalQuestions, summitThreshold) * Math.min(1, input.credit) * (input.roundMultiplier ?? 1)
+  );
+
+  switch (strategy) {
+    case "timeDecay":
+      breakdown.speedBonus = calculateSpeedBonus(input.answerTimeMs, input.timeLimit, breakdown.base);
+      break;
+    case "minority":
+      breakdown.minorityBonus = calculateMinorityBonus(input.correctShare, breakdown.base);
+      break;
+    case "streak":
+      breakdown.streakBonus = Math.round(breakdown.base * (calculateStreakMultiplier(input.streak, input.streakStep) - 1));
+      break;
+    default:
+      breakdown.speedBonus = calculateFirstAnswererBonus(input.answerPosition, input.totalPlayers, breakdown.base);
+  }
+
+  breakdown.total = breakdown.base + breakdown.speedBonus + breakdown.minorityBonus + breakdown.streakBonus;
+  return breakdown;
+}
@@ -0,0 +1,66 @@
+/**
+ * Survey question helpers - rating scales and word clouds.
+ *
+ * Survey answers are opinions, not right or wrong: nobody is on a rope and nobody climbs,
+ * unless the host opts the question into scoring (then every answer counts like a poll vote).
+ * The aggregates here feed `answers.getResults` and the big-screen charts.
+ */
+import { clusterTextAnswers } from "./freeText";
+
+export const RATING_SCALES = ["fivePoint", "nps"] as const;
+
+export type RatingScale = (typeof RATING_SCALES)[number];
+
+export const RATING_SCALE_INFO: Record<RatingScale, { label: string; min: number; max: number }> = {
+  fivePoint: { label: "1-5 rating", min: 1, max: 5 },
+  nps: { label: "0-10 (NPS)", min: 0, max: 10 },
+};
+
+/** Longest word-cloud entry a player can type (a word or two, not a sentence) */
+export const MAX_WORD_LENGTH = 24;
+
+/** Every value on a rating scale, lowest first */
+export function getRatingValues(scale: RatingScale): number[] {
+  const { min, max } = RATING_SCALE_INFO[scale];
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+export interface RatingSummary {
+  counts: Array<{ value: number; count: number }>; // One entry per scale value, lowest first
+  average: number | null; // null with no ratings
+  npsScore: number | null; // NPS only: % promoters (9-10) minus % detractors (0-6), -100 to 100
+}
+
+/**
+ * Tally ratings on a scale. Values off the scale are ignored.
+ */
+export function summarizeRatings(scale: RatingScale, ratings: number[]): RatingSummary {
+  const values = getRatingValues(scale);
+  const valid = ratings.filter((r) => values.includes(r));
+  const counts = values.map((value) => ({ value, count: valid.filter((r) => r === value).length }));
+  const average = valid.length > 0 ? valid.reduce((sum, r) => sum + r, 0) / valid.length : null;
+
+  let npsScore: number | null = null;
+  if (scale === "nps" && valid.length > 0) {
+    const promoters = valid.filter((r) => r >= 9).length;
+    const detractors = valid.filter((r) => r <= 6).length;
+    npsScore = Math.round(((promoters - detractors) / valid.length) * 100);
+  }
+
+  return { counts, average, npsScore };
+}
+
+export interface WordCloudEntry {
+  text: string; // Most common spelling
+  count: number;
+}
+
+/**
+ * Group word-cloud entries that match after normalization (case, accents, punctuation),
+ * most popular first.
+ */
+export function buildWordCloud(words: string[]): WordCloudEntry[] {
+  return clusterTextAnswers(words.map((text) => ({ text })))
+    .filter((cluster) => cluster.key !== "")
+    .map((cluster) => ({ text: cluster.text, count: cluster.items.length }));
+}
@@ -2,10 +2,11 @@ import { useState, useEffect } from "react";
 import { AdminView } from "./views/AdminView";
 import { PlayerView } from "./views/PlayerView";
 import { SpectatorView, SpectatorJoin } from "./views/SpectatorView";
+import { LeagueView } from "./views/LeagueView";
 import { BlobGallery } from "./components/BlobGallery";
 import { MuteToggle } from "./components/MuteToggle";
 
-type Mode = "select" | "admin" | "player" | "spectator" | "spectator-join" | "blobs";
+type Mode = "select" | "admin" | "player" | "spectator" | "spectator-join" | "blobs" | "league";
 
 // Check URL for routes
 function getInitialMode(): {
@@ -13,8 +14,10 @@ function getInitialMode(): {
   spectatorCode?: string;
   playCode?: string;
   playName?: string;
+  playToken?: string;
   hostCode?: string;
   hostToken?: string;
+  leagueCode?: string;
 } {
   const path = window.location.pathname;
 
@@ -34,6 +37,23 @@ function getInitialMode(): {
     return { mode: "spectator", spectatorCode: spectateMatch[1]!.toUpperCase() };
   }
 
+  // /league/:code - League table
+  const leagueMatch = path.match(/^\/league\/([A-Za-z]{6})$/);
+  if (leagueMatch) {
+    return { mode: "league", leagueCode: leagueMatch[1]!.toUpperCase() };
+  }
+
+  // /play/:code/:name/:token - Rejoin link the host issued after resetting a player's link
+  const playRejoinMatch = path.match(/^\/play\/([A-Za-z]{4})\/([^/]+)\/([a-f0-9-]{36})$/i);
+  if (playRejoinMatch) {
+    return {
+      mode: "player",
+      playCode: playRejoinMatch[1]!.toUpperCase(),
+      playName: decodeURIComponent(playRejoinMatch[2]!),
+      playToken: playRejoinMatch[3]!,
+    };
+  }
+
   // /play/:code/:name - Player view with code and name from URL
   const playCodeNameMatch = path.match(/^\/play\/([A-Za-z]{4})\/(.+)$/);
   if (playCodeNameMatch) {
@@ -76,8 +96,10 @@ export function App() {
   const [spectatorCode, setSpectatorCode] = useState<string | null>(initialState.spectatorCode ?? null);
   const [playCode, setPlayCode] = useState<string | null>(initialState.playCode ?? null);
   const [playName, setPlayName] = useState<string | null>(initialState.playName ?? null);
+  const [playToken] = useState<string | null>(initialState.playToken ?? null);
   const [hostCode, setHostCode] = useState<string | null>(initialState.hostCode ?? null);
   const [hostToken, setHostToken] = useState<string | null>(initialState.hostToken ?? null);
+  const [leagueCode] = useState<string | null>(initialState.leagueCode ?? null);
 
   // Update URL when mode changes (but not on initial render)
   const [isInitialRender, setIsInitialRender] = useState(true);
@@ -106,7 +128,7 @@ export function App() {
   }
 
   if (mode === "player") {
-    return <PlayerView onBack={goHome} initialCode={playCode} initialName={playName} />;
+    return <PlayerView onBack={goHome} initialCode={playCode} initialName={playName} initialToken={playToken} />;
   }
 
   if (mode === "spectator" && spectatorCode) {
@@ -134,6 +156,10 @@ export function App() {
     );
   }
 
+  if (mode === "league" && leagueCode) {
+    return <LeagueView leagueCode={leagueCode} onBack={goHome} />;
+  }
+
   if (mode === "blobs") {
     return (
       <div>
@@ -0,0 +1,64 @@
+import { useRef } from "react";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useMediaUpload } from "../hooks/useMediaUpload";
+import "./ImageAttachment.css";
+
+// Clips are short music snippets - anything bigger is probably a whole album track
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+/** A question's audio clip as the editor holds it (audioUrl is for the preview player) */
+export interface AudioRef {
+  audioId?: Id<"_storage">;
+  audioUrl?: string;
+}
+
+interface AudioClipAttachmentProps {
+  sessionId: Id<"sessions">;
+  hostId: string;
+  clip: AudioRef | null;
+  onChange: (clip: AudioRef | null) => void;
+}
+
+/**
+ * Attach, preview and remove a question's audio clip (played on the big screen
+ * when answers are shown).
+ */
+export function AudioClipAttachment({ sessionId, hostId, clip, onChange }: AudioClipAttachmentProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { upload, isUploading, error } = useMediaUpload({
+    sessionId,
+    hostId,
+    accept: "audio/",
+    maxBytes: MAX_AUDIO_BYTES,
+  });
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Let the same file be picked again
+    if (!file) return;
+
+    const audioId = await upload(file);
+    if (audioId) onChange({ audioId, audioUrl: URL.createObjectURL(file) });
+  }
+
+  return (
+    <div className="image-attachment">
+      {clip?.audioUrl && <audio src={clip.audioUrl} controls className="audio-attachment-preview" />}
+      <input ref={inputRef} type="file" accept="audio/*" onChange={handleFile} hidden />
+      <button
+        type="button"
+        className="image-attachment-btn"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+      >
+        {isUploading ? "Uploading..." : clip ? "🎵 Replace clip" : "🎵 Add audio clip"}
+      </button>
+      {clip && !isUploading && (
+        <button type="button" className="image-attachment-btn remove" onClick={() => onChange(null)}>
+          Remove
+        </button>
+      )}
+      {error && <span className="image-attachment-error">{error}</span>}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { BlobConfig, BlobShape, EyeStyle, HairStyle, Accessory } from "../lib/blobGenerator";
+import type { PowerUpKind } from "../../lib/powerUps";
 import "./Blob.css";
 
 interface BlobProps {
@@ -6,12 +7,16 @@ interface BlobProps {
   size?: number;
   state?: "idle" | "climbing" | "falling" | "celebrating";
   className?: string;
+  /** Power-ups affecting this blob on the current question (frozen, shielded, doubled) */
+  powerUps?: PowerUpKind[];
+  /** Wager pack size (0-1, share of the max stake) - bigger bets carry a bigger pack */
+  wagerPack?: number;
 }
 
 /**
  * SVG Blob Creature Component
  */
-export function Blob({ config, size = 60, state = "idle", className = "" }: BlobProps) {
+export function Blob({ config, size = 60, state = "idle", className = "", powerUps, wagerPack }: BlobProps) {
   const { body, eyes, features, accessory } = config;
   const bodyPath = getBodyPath(body.shape);
   const eyePositions = getEyePositions(body.shape);
@@ -28,6 +33,9 @@ export function Blob({ config, size = 60, state = "idle", className = "" }: Blob
       {/* Shadow */}
       <ellipse cx="50" cy="92" rx="25" ry="6" fill="rgba(0,0,0,0.15)" />
 
+      {/* Wager pack (behind the body, so it peeks out the back) */}
+      {wagerPack !== undefined && wagerPack > 0 && <WagerPack fill={wagerPack} />}
+
       {/* Body */}
       <path d={bodyPath} fill={body.color} />
 
@@ -54,10 +62,52 @@ export function Blob({ config, size = 60, state = "idle", className = "" }: Blob
 
       {/* Accessory (on top) */}
       <AccessoryComponent type={accessory} bodyShape={body.shape} topY={topY} eyePositions={eyePositions} />
+
+      {/* Power-up effects (over everything) */}
+      {powerUps && powerUps.length > 0 && <PowerUpEffects powerUps={powerUps} bodyPath={bodyPath} />}
     </svg>
   );
 }
 
+function WagerPack({ fill }: { fill: number }) {
+  // 0-1 stake share -> 0.7x-1.3x pack
+  const scale = 0.7 + Math.min(1, fill) * 0.6;
+  return (
+    <g transform={`translate(20 56) scale(${scale}) translate(-20 -56)`}>
+      <g className="blob-wager-pack">
+        <rect x="2" y="38" width="28" height="36" rx="8" fill="#92400e" stroke="#78350f" strokeWidth="2" />
+        <rect x="6" y="44" width="20" height="10" rx="3" fill="#b45309" />
+        <circle cx="16" cy="63" r="4" fill="#fbbf24" />
+      </g>
+    </g>
+  );
+}
+
+function PowerUpEffects({ powerUps, bodyPath }: { powerUps: PowerUpKind[]; bodyPath: string }) {
+  return (
+    <g className="blob-power-ups">
+      {/* Frozen by a rival: the blob is encased in ice */}
+      {powerUps.includes("freeze") && (
+        <g className="blob-frozen">
+          <path d={bodyPath} fill="rgba(186, 230, 253, 0.55)" stroke="#7dd3fc" strokeWidth="3" />
+          <path d="M30 30 L38 22 M62 26 L70 34 M40 70 L48 62" stroke="white" strokeWidth="2.5" strokeLinecap="round" />
+        </g>
+      )}
+      {/* Shield: a bubble that pulses around the blob */}
+      {powerUps.includes("shield") && (
+        <circle className="blob-shield" cx="50" cy="52" r="46" fill="rgba(96, 165, 250, 0.12)" stroke="#60a5fa" strokeWidth="3" />
+      )}
+      {/* Double up: a x2 badge over the blob's head */}
+      {powerUps.includes("double") && (
+        <g className="blob-double">
+          <circle cx="80" cy="16" r="14" fill="#f59e0b" stroke="white" strokeWidth="2" />
+          <text x="80" y="21" textAnchor="middle" fontSize="14" fontWeight="bold" fill="white">×2</text>
+        </g>
+      )}
+    </g>
+  );
+}
+
 function getBodyPath(shape: BlobShape): string {
   switch (shape) {
     case "round":
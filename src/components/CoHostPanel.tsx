@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { HOST_PERMISSIONS, HOST_PERMISSION_LABELS, type HostPermission } from "../../lib/hostPermissions";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import { ErrorMessage } from "./ErrorMessage";
+import "./CoHostPanel.css";
+
+const ACTION_LABELS: Record<string, string> = {
+  revealAnswer: "revealed the answer",
+  kick: "kicked",
+  endGameEarly: "ended the game early",
+};
+
+function togglePermission(permissions: HostPermission[], permission: HostPermission): HostPermission[] {
+  return permissions.includes(permission)
+    ? permissions.filter((p) => p !== permission)
+    : [...permissions, permission];
+}
+
+function PermissionCheckboxes({
+  permissions,
+  onChange,
+}: {
+  permissions: HostPermission[];
+  onChange: (permissions: HostPermission[]) => void;
+}) {
+  return (
+    <div className="cohost-permissions">
+      {HOST_PERMISSIONS.map((permission) => (
+        <label key={permission} className="cohost-permission">
+          <input
+            type="checkbox"
+            checked={permissions.includes(permission)}
+            onChange={() => onChange(togglePermission(permissions, permission))}
+          />
+          {HOST_PERMISSION_LABELS[permission]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Owner-only: invite other host accounts to help run this session with limited permissions.
+ */
+export function CoHostPanel({ sessionId, hostId }: { sessionId: Id<"sessions">; hostId: string }) {
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState<HostPermission[]>(["runGame"]);
+  const [coHostError, setCoHostError] = useState<string | null>(null);
+  const coHosts = useQuery(api.hosts.listCoHosts, { sessionId, hostId });
+  const addCoHost = useMutation(api.hosts.addCoHost);
+  const updateCoHost = useMutation(api.hosts.updateCoHost);
+  const removeCoHost = useMutation(api.hosts.removeCoHost);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await addCoHost({ sessionId, hostId, name, permissions });
+      setName("");
+      setCoHostError(null);
+    } catch (err) {
+      setCoHostError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleUpdate(coHostId: Id<"coHosts">, next: HostPermission[]) {
+    try {
+      await updateCoHost({ coHostId, hostId, permissions: next });
+      setCoHostError(null);
+    } catch (err) {
+      setCoHostError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleRemove(coHostId: Id<"coHosts">) {
+    try {
+      await removeCoHost({ coHostId, hostId });
+      setCoHostError(null);
+    } catch (err) {
+      setCoHostError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  return (
+    <section className="admin-section cohost-section">
+      <div className="section-header">
+        <h2>Co-hosts ({coHosts?.length ?? 0})</h2>
+      </div>
+      <form onSubmit={handleAdd} className="add-cohost-form">
+        <input
+          type="text"
+          placeholder="Host account name"
+          value={name}
+          maxLength={40}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <PermissionCheckboxes permissions={permissions} onChange={setPermissions} />
+        <button type="submit" disabled={!name.trim() || permissions.length === 0}>+ Invite</button>
+      </form>
+      {coHostError && (
+        <ErrorMessage
+          message={coHostError}
+          onDismiss={() => setCoHostError(null)}
+          variant="inline"
+        />
+      )}
+      {coHosts && coHosts.length > 0 ? (
+        <ul className="cohost-list">
+          {coHosts.map((coHost) => (
+            <li key={coHost._id} className="cohost-item">
+              <strong>{coHost.name}</strong>
+              <PermissionCheckboxes
+                permissions={coHost.permissions}
+                onChange={(next) => handleUpdate(coHost._id, next)}
+              />
+              <button
+                onClick={() => handleRemove(coHost._id)}
+                className="kick-btn"
+                title="Remove co-host"
+              >
+                X
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="empty-message">No co-hosts. Invite someone by their host account name.</p>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Who revealed answers, kicked players or ended the game - visible to every host of the session.
+ */
+export function HostActivityLog({ sessionId, hostId }: { sessionId: Id<"sessions">; hostId: string }) {
+  const actions = useQuery(api.hosts.listActions, { sessionId, hostId });
+
+  if (!actions || actions.length === 0) return null;
+
+  return (
+    <section className="admin-section host-activity-section">
+      <div className="section-header">
+        <h2>Host Activity</h2>
+      </div>
+      <ul className="host-activity-list">
+        {actions.map((a) => (
+          <li key={a._id}>
+            <span className="host-activity-time">{new Date(a.createdAt).toLocaleTimeString()}</span>
+            <strong>{a.hostName}</strong> {ACTION_LABELS[a.action] ?? a.action}
+            {a.detail && <span className="host-activity-detail"> - {a.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
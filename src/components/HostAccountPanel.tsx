@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import "./HostAccountPanel.css";
+
+interface HostAccountPanelProps {
+  hostId: string;
+  /** Switch this device to another hostId (after signing in or out) */
+  onHostIdChange: (hostId: string) => void;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Named host account for this device. Creating one lets the host sign in elsewhere
+ * and be invited as a co-host; anonymous hosting keeps working without one.
+ */
+export function HostAccountPanel({ hostId, onHostIdChange, onError }: HostAccountPanelProps) {
+  const [mode, setMode] = useState<"closed" | "register" | "signIn">("closed");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const account = useQuery(api.hosts.getAccount, { hostId });
+  const register = useMutation(api.hosts.register);
+  const signIn = useMutation(api.hosts.signIn);
+
+  function resetForm() {
+    setMode("closed");
+    setName("");
+    setPassword("");
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      if (mode === "register") {
+        await register({ hostId, name, password });
+      } else {
+        const result = await signIn({ name, password });
+        onHostIdChange(result.hostId);
+      }
+      resetForm();
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  function handleSignOut() {
+    // A fresh anonymous id - the account's sessions stay with the account
+    onHostIdChange(crypto.randomUUID());
+    onError(null);
+  }
+
+  if (account === undefined) return null;
+
+  if (account) {
+    return (
+      <div className="host-account">
+        <span>Signed in as <strong>{account.name}</strong></span>
+        <button onClick={handleSignOut} className="host-account-link">Sign out</button>
+      </div>
+    );
+  }
+
+  if (mode === "closed") {
+    return (
+      <div className="host-account">
+        <span>Hosting anonymously on this device.</span>
+        <button onClick={() => setMode("register")} className="host-account-link">Create host account</button>
+        <button onClick={() => setMode("signIn")} className="host-account-link">Sign in</button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="host-account host-account-form">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Host name"
+        maxLength={40}
+        autoFocus
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete={mode === "register" ? "new-password" : "current-password"}
+      />
+      <button type="submit" className="primary" disabled={!name.trim() || !password}>
+        {mode === "register" ? "Create Account" : "Sign In"}
+      </button>
+      <button type="button" onClick={resetForm}>Cancel</button>
+      {mode === "register" && (
+        <p className="note">Your current sessions and quizzes move into the new account.</p>
+      )}
+    </form>
+  );
+}
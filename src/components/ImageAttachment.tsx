@@ -0,0 +1,72 @@
+import { useRef } from "react";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useMediaUpload } from "../hooks/useMediaUpload";
+import "./ImageAttachment.css";
+
+// Larger pictures make slow phones wait before they can answer
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** A question or option picture as the editor holds it (imageUrl is for display) */
+export interface ImageRef {
+  imageId?: Id<"_storage">;
+  imageUrl?: string;
+}
+
+interface ImageAttachmentProps {
+  sessionId: Id<"sessions">;
+  hostId: string;
+  image: ImageRef | null;
+  onChange: (image: ImageRef | null) => void;
+  /** Compact thumbnail for option rows */
+  small?: boolean;
+}
+
+/**
+ * Attach, preview and remove a picture in the question editor. Files go straight
+ * to Convex file storage; the editor saves the returned storage id.
+ */
+export function ImageAttachment({ sessionId, hostId, image, onChange, small = false }: ImageAttachmentProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { upload, isUploading, error } = useMediaUpload({
+    sessionId,
+    hostId,
+    accept: "image/",
+    maxBytes: MAX_IMAGE_BYTES,
+  });
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Let the same file be picked again
+    if (!file) return;
+
+    const imageId = await upload(file);
+    if (imageId) onChange({ imageId, imageUrl: URL.createObjectURL(file) });
+  }
+
+  return (
+    <div className={`image-attachment ${small ? "small" : ""}`}>
+      {image?.imageUrl && <img src={image.imageUrl} alt="" className="image-attachment-preview" />}
+      <input ref={inputRef} type="file" accept="image/*" onChange={handleFile} hidden />
+      <button
+        type="button"
+        className="image-attachment-btn"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+        title={image ? "Replace picture" : "Add a picture"}
+      >
+        {isUploading ? "Uploading..." : small ? "🖼️" : image ? "🖼️ Replace picture" : "🖼️ Add picture"}
+      </button>
+      {image && !isUploading && (
+        <button
+          type="button"
+          className="image-attachment-btn remove"
+          onClick={() => onChange(null)}
+          title="Remove picture"
+        >
+          {small ? "✕" : "Remove"}
+        </button>
+      )}
+      {error && <span className="image-attachment-error">{error}</span>}
+    </div>
+  );
+}
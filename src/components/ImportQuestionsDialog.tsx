@@ -0,0 +1,86 @@
+import type { QuestionRecord, RowError } from "../../lib/questionSheet";
+import "./ImportQuestionsDialog.css";
+
+export interface ImportPreview {
+  fileName: string;
+  questions: QuestionRecord[];
+  errors: RowError[];
+  /** "Row" for spreadsheets (matches the sheet's line numbers), "Question" for JSON */
+  rowLabel: "Row" | "Question";
+}
+
+interface ImportQuestionsDialogProps {
+  preview: ImportPreview | null;
+  isImporting: boolean;
+  /** Error from the server when the import itself fails */
+  importError: string | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Preview of a question file before it replaces the session's questions.
+ * Lists every validation problem by row so the file can be fixed in one pass.
+ */
+export function ImportQuestionsDialog({
+  preview,
+  isImporting,
+  importError,
+  onConfirm,
+  onClose,
+}: ImportQuestionsDialogProps) {
+  if (!preview) return null;
+
+  const { fileName, questions, errors, rowLabel } = preview;
+  const canImport = errors.length === 0 && questions.length > 0 && !isImporting;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content import-questions-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import Questions</h2>
+          <button onClick={onClose} className="modal-close">
+            X
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <p className="modal-description">
+            <strong>{fileName}</strong>: {questions.length} valid question{questions.length !== 1 ? "s" : ""}
+            {errors.length > 0 && `, ${errors.length} problem${errors.length !== 1 ? "s" : ""} to fix`}
+          </p>
+
+          {errors.length > 0 ? (
+            <ul className="import-errors">
+              {errors.map((error, i) => (
+                <li key={i}>
+                  <span className="import-error-row">{rowLabel} {error.row}</span>
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <ol className="import-preview">
+              {questions.map((q, i) => (
+                <li key={i}>{q.text}</li>
+              ))}
+            </ol>
+          )}
+
+          {importError && <p className="import-errors-server">{importError}</p>}
+
+          <p className="note">
+            Importing replaces all current questions in this session.
+          </p>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={onConfirm} className="primary" disabled={!canImport}>
+            {isImporting ? "Importing..." : `Import ${questions.length} Question${questions.length !== 1 ? "s" : ""}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,8 +11,15 @@ interface LeaderboardPlayer {
   summitElevation?: number;
 }
 
+// Elevation each player gained per round, in play order
+interface RoundSubtotals {
+  rounds: Array<{ name: string }>;
+  players: Array<{ playerId: string; totals: number[] }>;
+}
+
 interface LeaderboardProps {
   players: LeaderboardPlayer[];
+  roundSubtotals?: RoundSubtotals | null;
   maxDisplay?: number;
   currentPlayerId?: string;
   compact?: boolean;
@@ -25,9 +32,11 @@ interface LeaderboardProps {
  * Shows top players sorted by elevation with blob avatars.
  * Highlights current player if provided.
  * Shows special styling for top 3 (gold/silver/bronze).
+ * With round subtotals, each row lists what the player gained per round.
  */
 export function Leaderboard({
   players,
+  roundSubtotals,
   maxDisplay = 10,
   currentPlayerId,
   compact = false,
@@ -52,6 +61,12 @@ export function Leaderboard({
     ? sortedPlayers.findIndex((p) => p._id === currentPlayerId) + 1
     : 0;
 
+  function getRoundTotals(playerId: string) {
+    if (!roundSubtotals) return undefined;
+    const totals = roundSubtotals.players.find((p) => p.playerId === playerId)?.totals;
+    return roundSubtotals.rounds.map((round, i) => ({ name: round.name, elevation: totals?.[i] ?? 0 }));
+  }
+
   if (players.length === 0) {
     return (
       <div className={`leaderboard leaderboard-empty ${className}`}>
@@ -68,6 +83,7 @@ export function Leaderboard({
             key={player._id}
             player={player}
             rank={index + 1}
+            roundTotals={getRoundTotals(player._id)}
             isCurrentPlayer={player._id === currentPlayerId}
             compact={compact}
           />
@@ -84,6 +100,7 @@ export function Leaderboard({
             <LeaderboardRow
               player={currentPlayerData}
               rank={currentPlayerRank}
+              roundTotals={getRoundTotals(currentPlayerData._id)}
               isCurrentPlayer={true}
               compact={compact}
             />
@@ -97,6 +114,7 @@ export function Leaderboard({
 interface LeaderboardRowProps {
   player: LeaderboardPlayer;
   rank: number;
+  roundTotals?: Array<{ name: string; elevation: number }>;
   isCurrentPlayer: boolean;
   compact: boolean;
 }
@@ -116,7 +134,7 @@ function formatElevation(elevation: number): React.ReactNode {
   );
 }
 
-function LeaderboardRow({ player, rank, isCurrentPlayer, compact }: LeaderboardRowProps) {
+function LeaderboardRow({ player, rank, roundTotals, isCurrentPlayer, compact }: LeaderboardRowProps) {
   const blobConfig = generateBlob(player.name);
   const atSummit = player.elevation >= SUMMIT;
 
@@ -131,7 +149,16 @@ function LeaderboardRow({ player, rank, isCurrentPlayer, compact }: LeaderboardR
       <div className="leaderboard-avatar">
         <Blob config={blobConfig} size={compact ? 32 : 40} state="idle" />
       </div>
-      <span className="leaderboard-name">{player.name}</span>
+      <span className="leaderboard-name">
+        {player.name}
+        {roundTotals && roundTotals.length > 0 && (
+          <span className="leaderboard-round-totals">
+            {roundTotals.map((round, i) => (
+              <span key={i} title={round.name}>R{i + 1} +{round.elevation}m</span>
+            ))}
+          </span>
+        )}
+      </span>
       <span className="leaderboard-elevation">
         {formatElevation(player.elevation)}
         {atSummit && player.summitPlace && (
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { ConfirmationModal, useConfirmation } from "./ConfirmationModal";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import {
+  DEFAULT_LEAGUE_SCORING,
+  LEAGUE_SCORING_LABELS,
+  LEAGUE_SCORING_MODES,
+  MAX_LEAGUE_NAME_LENGTH,
+  type LeagueScoring,
+} from "../../lib/league";
+import "./LeaguePanel.css";
+
+interface LeaguePanelProps {
+  hostId: string;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Host's leagues: create a season, open its public table, or delete it. Sessions join a
+ * league from the Past Sessions list.
+ */
+export function LeaguePanel({ hostId, onError }: LeaguePanelProps) {
+  const [name, setName] = useState("");
+  const [scoring, setScoring] = useState<LeagueScoring>(DEFAULT_LEAGUE_SCORING);
+  const leagues = useQuery(api.leagues.listByHost, { hostId });
+  const createLeague = useMutation(api.leagues.create);
+  const removeLeague = useMutation(api.leagues.remove);
+  const confirmation = useConfirmation();
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await createLeague({ hostId, name, scoring });
+      setName("");
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  function handleDelete(leagueId: Id<"leagues">, leagueName: string) {
+    confirmation.confirm({
+      title: "Delete League",
+      message: `Delete "${leagueName}"? Its sessions are kept, but the league table is gone.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "danger",
+      onConfirm: async () => {
+        try {
+          await removeLeague({ leagueId, hostId });
+          onError(null);
+        } catch (err) {
+          onError(getFriendlyErrorMessage(err));
+        }
+      },
+    });
+  }
+
+  return (
+    <section className="admin-sessions-section league-panel">
+      <h2>Leagues</h2>
+      <form onSubmit={handleCreate} className="league-form">
+        <input
+          type="text"
+          placeholder="League name (e.g. Friday Trivia)"
+          value={name}
+          maxLength={MAX_LEAGUE_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select value={scoring} onChange={(e) => setScoring(e.target.value as LeagueScoring)}>
+          {LEAGUE_SCORING_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {LEAGUE_SCORING_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={!name.trim()}>+ Add League</button>
+      </form>
+      {leagues && leagues.length > 0 && (
+        <ul className="session-list">
+          {leagues.map((league) => (
+            <li key={league._id} className="session-item league-item">
+              <div className="session-info">
+                <strong>{league.name}</strong>
+                <span className="session-meta">
+                  {league.sessionCount} sessions | {LEAGUE_SCORING_LABELS[league.scoring]}
+                </span>
+              </div>
+              <div className="league-item-actions">
+                <a href={`/league/${league.code}`} target="_blank" rel="noopener noreferrer">
+                  League Table
+                </a>
+                <button
+                  onClick={() => handleDelete(league._id, league.name)}
+                  className="delete-btn"
+                  title="Delete league"
+                >
+                  X
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <ConfirmationModal
+        isOpen={confirmation.state.isOpen}
+        onConfirm={confirmation.handleConfirm}
+        onCancel={confirmation.handleCancel}
+        title={confirmation.state.title}
+        message={confirmation.state.message}
+        confirmText={confirmation.state.confirmText}
+        cancelText={confirmation.state.cancelText}
+        variant={confirmation.state.variant}
+      />
+    </section>
+  );
+}
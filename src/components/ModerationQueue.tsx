@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import "./ModerationQueue.css";
+
+interface ModerationQueueProps {
+  questionId: Id<"questions">;
+  hostId: string;
+  /** Answers are open - groups can still change */
+  isOpen: boolean;
+}
+
+/**
+ * Host's live queue for a free-text question. Typed answers arrive clustered by similar
+ * spelling; approving a cluster makes it a rope (or adds it to one), and groups can be
+ * merged when players said the same thing two ways.
+ */
+export function ModerationQueue({ questionId, hostId, isOpen }: ModerationQueueProps) {
+  const queue = useQuery(api.answers.getModerationQueue, { questionId, hostId });
+  const approve = useMutation(api.answers.approveTextAnswers);
+  const reject = useMutation(api.answers.rejectTextAnswers);
+  const mergeGroups = useMutation(api.answers.mergeTextGroups);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!queue) return null;
+
+  async function run(action: () => Promise<unknown>) {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  const groupLabel = (index: number) => `${String.fromCharCode(65 + index)}. ${queue.groups[index]?.text ?? ""}`;
+
+  return (
+    <section className="admin-section moderation-queue">
+      <div className="section-header">
+        <h2>Answer Queue</h2>
+        <span className="moderation-summary">
+          {queue.pending.reduce((count, cluster) => count + cluster.answerIds.length, 0)} waiting
+        </span>
+      </div>
+      {!isOpen && <p className="moderation-note">Answers are closed - the ropes are final.</p>}
+      {error && <p className="moderation-error">{error}</p>}
+
+      {queue.pending.length > 0 ? (
+        <ul className="moderation-list">
+          {queue.pending.map((cluster) => (
+            <li key={cluster.answerIds[0]} className="moderation-pending">
+              <span className="moderation-text">
+                {cluster.text}
+                {cluster.answerIds.length > 1 && <span className="moderation-count">×{cluster.answerIds.length}</span>}
+              </span>
+              <div className="moderation-actions">
+                {cluster.suggestedOptionIndex !== null ? (
+                  <button
+                    disabled={!isOpen}
+                    onClick={() => run(() => approve({ questionId, hostId, answerIds: cluster.answerIds, optionIndex: cluster.suggestedOptionIndex! }))}
+                    title="Add to the matching rope"
+                  >
+                    ✓ {groupLabel(cluster.suggestedOptionIndex)}
+                  </button>
+                ) : (
+                  <button
+                    disabled={!isOpen}
+                    onClick={() => run(() => approve({ questionId, hostId, answerIds: cluster.answerIds, label: cluster.text }))}
+                    title="Approve as a new rope"
+                  >
+                    ✓ New rope
+                  </button>
+                )}
+                {queue.groups.length > 0 && (
+                  <select
+                    value=""
+                    disabled={!isOpen}
+                    onChange={(e) => run(() => approve({ questionId, hostId, answerIds: cluster.answerIds, optionIndex: Number(e.target.value) }))}
+                    aria-label="Add to a rope"
+                  >
+                    <option value="" disabled>Add to...</option>
+                    {queue.groups.map((group) => (
+                      <option key={group.optionIndex} value={group.optionIndex}>{groupLabel(group.optionIndex)}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  className="moderation-reject"
+                  disabled={!isOpen}
+                  onClick={() => run(() => reject({ questionId, hostId, answerIds: cluster.answerIds }))}
+                  title="Hide - earns nothing"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="empty-message">{isOpen ? "Waiting for answers..." : "No answers left to sort"}</p>
+      )}
+
+      {queue.groups.length > 0 && (
+        <>
+          <h3>Ropes</h3>
+          <ul className="moderation-list">
+            {queue.groups.map((group) => (
+              <li key={group.optionIndex} className="moderation-group">
+                <span className="moderation-text">
+                  {groupLabel(group.optionIndex)}
+                  <span className="moderation-count">{group.answers.length}</span>
+                </span>
+                <span className="moderation-spellings">
+                  {group.answers.map((a) => (
+                    <button
+                      key={a.answerId}
+                      className="moderation-spelling"
+                      disabled={!isOpen}
+                      onClick={() => run(() => reject({ questionId, hostId, answerIds: [a.answerId] }))}
+                      title="Reject this answer"
+                    >
+                      {a.text} ✕
+                    </button>
+                  ))}
+                </span>
+                {queue.groups.length > 1 && (
+                  <select
+                    value=""
+                    disabled={!isOpen}
+                    onChange={(e) => run(() => mergeGroups({ questionId, hostId, fromIndex: group.optionIndex, intoIndex: Number(e.target.value) }))}
+                    aria-label="Merge into another rope"
+                  >
+                    <option value="" disabled>Merge into...</option>
+                    {queue.groups
+                      .filter((other) => other.optionIndex !== group.optionIndex)
+                      .map((other) => (
+                        <option key={other.optionIndex} value={other.optionIndex}>{groupLabel(other.optionIndex)}</option>
+                      ))}
+                  </select>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {queue.rejected.length > 0 && (
+        <details className="moderation-rejected">
+          <summary>Rejected ({queue.rejected.length})</summary>
+          <ul className="moderation-list">
+            {queue.rejected.map((a) => (
+              <li key={a.answerId}>
+                <span className="moderation-text">{a.text}</span>
+                <button
+                  disabled={!isOpen}
+                  onClick={() => run(() => approve({ questionId, hostId, answerIds: [a.answerId], label: a.text }))}
+                  title="Approve after all"
+                >
+                  ↩ Approve
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { Blob } from "./Blob";
+import { generateBlob } from "../lib/blobGenerator";
+import "./Podium.css";
+
+interface PodiumPlayer {
+  _id: string;
+  name: string;
+  elevation: number;
+}
+
+interface PodiumProps {
+  /** Top finishers, best first (up to 3) */
+  players: PodiumPlayer[];
+  title: string;
+  /** How many places are showing, counting up from the lowest step (default: all) */
+  revealedCount?: number;
+}
+
+/**
+ * Podium Component
+ *
+ * Top climbers on podium steps, first place in the middle. Places can be revealed one at a
+ * time from the lowest step up - hidden steps show a question mark.
+ */
+export function Podium({ players, title, revealedCount = players.length }: PodiumProps) {
+  // Visual order: 2nd, 1st, 3rd
+  const podiumOrder = [1, 0, 2].filter((place) => players[place]);
+
+  return (
+    <div className="podium">
+      <h1 className="podium-title">{title}</h1>
+      <div className="podium-steps">
+        {podiumOrder.map((place) => {
+          const player = players[place]!;
+          const isRevealed = place >= players.length - revealedCount;
+          return (
+            <div key={player._id} className={`podium-step podium-place-${place + 1} ${isRevealed ? "revealed" : ""}`}>
+              {isRevealed ? (
+                <>
+                  <Blob config={generateBlob(player.name)} size={place === 0 ? 120 : 90} state="celebrating" />
+                  <span className="podium-name">{player.name}</span>
+                  <span className="podium-elevation">{player.elevation}m</span>
+                </>
+              ) : (
+                <span className="podium-mystery">?</span>
+              )}
+              <div className="podium-block">{place + 1}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { POWER_UP_INFO, type PowerUpKind } from "../../lib/powerUps";
+import { useSoundManager } from "../hooks/useSoundManager";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import "./PowerUpBar.css";
+
+/** A player's power-ups, as returned by powerUps.getMine */
+export interface MyPowerUps {
+  inventory: { _id: Id<"powerUps">; kind: PowerUpKind; checkpoint: number }[];
+  usedThisQuestion: { kind: PowerUpKind; targetName: string | null } | null;
+  frozenBy: string[];
+  rivals: { _id: Id<"players">; name: string }[];
+}
+
+interface PowerUpBarProps {
+  playerId: Id<"players">;
+  secretToken: string;
+  powerUps: MyPowerUps;
+  /** Answers are open - power-ups can only be used then */
+  canUse: boolean;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Player's power-up inventory. Shows what's in play this question and lets the
+ * player use one item while answers are open (freeze asks which rival to target).
+ */
+export function PowerUpBar({ playerId, secretToken, powerUps, canUse, onError }: PowerUpBarProps) {
+  const activatePowerUp = useMutation(api.powerUps.use);
+  const { play } = useSoundManager();
+  const [pickingRivalFor, setPickingRivalFor] = useState<Id<"powerUps"> | null>(null);
+
+  const { inventory, usedThisQuestion, frozenBy, rivals } = powerUps;
+  if (inventory.length === 0 && !usedThisQuestion && frozenBy.length === 0) return null;
+
+  async function handleUse(powerUpId: Id<"powerUps">, targetPlayerId?: Id<"players">) {
+    try {
+      await activatePowerUp({ playerId, secretToken, powerUpId, targetPlayerId });
+      play("pop");
+      setPickingRivalFor(null);
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  return (
+    <div className="power-up-bar">
+      {frozenBy.length > 0 && (
+        <p className="power-up-notice frozen">🧊 {frozenBy.join(" and ")} froze your rope this question!</p>
+      )}
+      {usedThisQuestion && (
+        <p className="power-up-notice">
+          {POWER_UP_INFO[usedThisQuestion.kind].icon} {POWER_UP_INFO[usedThisQuestion.kind].label} active
+          {usedThisQuestion.targetName && ` on ${usedThisQuestion.targetName}`}
+        </p>
+      )}
+
+      {pickingRivalFor ? (
+        <div className="power-up-rivals">
+          <span>Freeze whose rope?</span>
+          {rivals.map((rival) => (
+            <button key={rival._id} onClick={() => handleUse(pickingRivalFor, rival._id)}>
+              {rival.name}
+            </button>
+          ))}
+          <button className="power-up-cancel" onClick={() => setPickingRivalFor(null)}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        inventory.length > 0 && (
+          <div className="power-up-items">
+            {inventory.map((item) => {
+              const info = POWER_UP_INFO[item.kind];
+              return (
+                <button
+                  key={item._id}
+                  className="power-up-item"
+                  title={info.description}
+                  disabled={!canUse || usedThisQuestion !== null}
+                  onClick={() => (item.kind === "freeze" ? setPickingRivalFor(item._id) : handleUse(item._id))}
+                >
+                  <span className="power-up-icon">{info.icon}</span>
+                  <span className="power-up-label">{info.label}</span>
+                </button>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { ConfirmationModal, useConfirmation } from "./ConfirmationModal";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import { RATING_SCALE_INFO } from "../../lib/survey";
+import "./QuizLibrary.css";
+
+type QuizQuestion = Doc<"quizzes">["questions"][number];
+
+interface QuizLibraryProps {
+  hostId: string;
+  onStartSession: (quizId: Id<"quizzes">) => void;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Host's saved quizzes: start a session from one, or duplicate, edit and delete them.
+ */
+export function QuizLibrary({ hostId, onStartSession, onError }: QuizLibraryProps) {
+  const [editingQuizId, setEditingQuizId] = useState<Id<"quizzes"> | null>(null);
+  const quizzes = useQuery(api.quizzes.listByHost, { hostId });
+  const duplicateQuiz = useMutation(api.quizzes.duplicate);
+  const removeQuiz = useMutation(api.quizzes.remove);
+  const confirmation = useConfirmation();
+
+  if (!quizzes || quizzes.length === 0) return null;
+
+  const editingQuiz = quizzes.find((q) => q._id === editingQuizId) ?? null;
+
+  async function handleDuplicate(quizId: Id<"quizzes">) {
+    try {
+      await duplicateQuiz({ quizId, hostId });
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  function handleDelete(quiz: Doc<"quizzes">) {
+    confirmation.confirm({
+      title: "Delete Quiz",
+      message: `Delete "${quiz.title}" from your library? Sessions already using it keep their questions.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "danger",
+      onConfirm: async () => {
+        try {
+          await removeQuiz({ quizId: quiz._id, hostId });
+          if (editingQuizId === quiz._id) setEditingQuizId(null);
+          onError(null);
+        } catch (err) {
+          onError(getFriendlyErrorMessage(err));
+        }
+      },
+    });
+  }
+
+  return (
+    <section className="admin-sessions-section quiz-library">
+      <h2>Quiz Library</h2>
+      {editingQuiz ? (
+        <QuizEditor
+          key={editingQuiz._id}
+          quiz={editingQuiz}
+          hostId={hostId}
+          onClose={() => setEditingQuizId(null)}
+          onError={onError}
+        />
+      ) : (
+        <ul className="session-list">
+          {quizzes.map((quiz) => (
+            <li key={quiz._id} className="session-item quiz-item">
+              <div className="session-info">
+                <strong>{quiz.title}</strong>
+                <span className="session-meta">
+                  {quiz.questions.length} questions | updated {new Date(quiz.updatedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="quiz-item-actions">
+                <button onClick={() => onStartSession(quiz._id)} className="primary">
+                  New Session
+                </button>
+                <button onClick={() => setEditingQuizId(quiz._id)}>Edit</button>
+                <button onClick={() => handleDuplicate(quiz._id)}>Duplicate</button>
+                <button onClick={() => handleDelete(quiz)} className="delete-btn" title="Delete quiz">
+                  X
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <ConfirmationModal
+        isOpen={confirmation.state.isOpen}
+        onConfirm={confirmation.handleConfirm}
+        onCancel={confirmation.handleCancel}
+        title={confirmation.state.title}
+        message={confirmation.state.message}
+        confirmText={confirmation.state.confirmText}
+        cancelText={confirmation.state.cancelText}
+        variant={confirmation.state.variant}
+      />
+    </section>
+  );
+}
+
+/**
+ * Edit a quiz's title and questions. Changes only affect the library copy,
+ * never sessions that were already created from it.
+ */
+function QuizEditor({
+  quiz,
+  hostId,
+  onClose,
+  onError,
+}: {
+  quiz: Doc<"quizzes">;
+  hostId: string;
+  onClose: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [title, setTitle] = useState(quiz.title);
+  const [questions, setQuestions] = useState<QuizQuestion[]>(quiz.questions);
+  const [isSaving, setIsSaving] = useState(false);
+  const updateQuiz = useMutation(api.quizzes.update);
+
+  function updateQuestion(index: number, changes: Partial<QuizQuestion>) {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  }
+
+  function updateOption(questionIndex: number, optionIndex: number, text: string) {
+    const question = questions[questionIndex]!;
+    updateQuestion(questionIndex, {
+      options: question.options.map((o, i) => (i === optionIndex ? { text } : o)),
+    });
+  }
+
+  function toggleCorrect(questionIndex: number, optionIndex: number) {
+    const question = questions[questionIndex]!;
+    if (question.correctOptionIndices?.length) {
+      const indices = question.correctOptionIndices.includes(optionIndex)
+        ? question.correctOptionIndices.filter((i) => i !== optionIndex)
+        : [...question.correctOptionIndices, optionIndex].sort((a, b) => a - b);
+      // Keep at least one correct option so the question stays select-all
+      if (indices.length > 0) updateQuestion(questionIndex, { correctOptionIndices: indices });
+    } else {
+      updateQuestion(questionIndex, { correctOptionIndex: optionIndex });
+    }
+  }
+
+  function addQuestion() {
+    setQuestions((prev) => [
+      ...prev,
+      { text: "", options: [{ text: "" }, { text: "" }], correctOptionIndex: 0, timeLimit: 30 },
+    ]);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      await updateQuiz({
+        quizId: quiz._id,
+        hostId,
+        title,
+        questions: questions.map((q) => ({
+          ...q,
+          text: q.text.trim(),
+          options: q.options.map((o) => ({ text: o.text.trim() })),
+        })),
+      });
+      onError(null);
+      onClose();
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="quiz-editor">
+      <input
+        type="text"
+        className="quiz-title-input"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Quiz title"
+      />
+      <ol className="quiz-editor-questions">
+        {questions.map((question, qi) => {
+          const isSelectAll = (question.correctOptionIndices?.length ?? 0) > 0;
+          return (
+            <li key={qi} className="quiz-editor-question">
+              <div className="quiz-editor-question-header">
+                <input
+                  type="text"
+                  value={question.text}
+                  onChange={(e) => updateQuestion(qi, { text: e.target.value })}
+                  placeholder="Question text"
+                />
+                <button
+                  type="button"
+                  className="remove-option"
+                  onClick={() => setQuestions(questions.filter((_, i) => i !== qi))}
+                  title="Remove question"
+                >
+                  X
+                </button>
+              </div>
+              {question.numericAnswer !== undefined ? (
+                <label className="quiz-editor-numeric">
+                  Answer
+                  <input
+                    type="number"
+                    step="any"
+                    value={question.numericAnswer}
+                    onChange={(e) => updateQuestion(qi, { numericAnswer: Number(e.target.value) })}
+                  />
+                </label>
+              ) : question.freeText ? (
+                <p className="free-text-note">Free text - players type their answers</p>
+              ) : question.ratingScale ? (
+                <p className="free-text-note">Survey - {RATING_SCALE_INFO[question.ratingScale].label}</p>
+              ) : question.wordCloud ? (
+                <p className="free-text-note">Survey - word cloud</p>
+              ) : (
+                question.options.map((option, oi) => (
+                  <div key={oi} className="option-row">
+                    <input
+                      type="text"
+                      value={option.text}
+                      onChange={(e) => updateOption(qi, oi, e.target.value)}
+                      placeholder={`Option ${oi + 1}`}
+                    />
+                    <label>
+                      <input
+                        type={isSelectAll ? "checkbox" : "radio"}
+                        name={`quiz-correct-${qi}`}
+                        checked={isSelectAll
+                          ? question.correctOptionIndices!.includes(oi)
+                          : question.correctOptionIndex === oi}
+                        onChange={() => toggleCorrect(qi, oi)}
+                      />
+                      Correct
+                    </label>
+                  </div>
+                ))
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <button type="button" onClick={addQuestion}>
+        + Add Question
+      </button>
+      <div className="edit-actions">
+        <button onClick={handleSave} className="primary" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Quiz"}
+        </button>
+        <button onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Toolbar button that saves the current session's questions as a new library quiz.
+ */
+export function SaveToLibraryButton({
+  sessionId,
+  hostId,
+  onError,
+}: {
+  sessionId: Id<"sessions">;
+  hostId: string;
+  onError: (message: string | null) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [saved, setSaved] = useState(false);
+  const saveFromSession = useMutation(api.quizzes.saveFromSession);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      await saveFromSession({ sessionId, hostId, title });
+      setIsOpen(false);
+      setTitle("");
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="export-button"
+        title="Save these questions as a reusable quiz"
+      >
+        {saved ? "✓ Saved!" : "💾 Save to Library"}
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="save-quiz-form">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Quiz title"
+        autoFocus
+      />
+      <button type="submit" className="primary" disabled={!title.trim()}>
+        Save
+      </button>
+      <button type="button" onClick={() => setIsOpen(false)}>
+        Cancel
+      </button>
+    </form>
+  );
+}
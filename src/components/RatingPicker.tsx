@@ -0,0 +1,33 @@
+import { getRatingValues, RATING_SCALE_INFO, type RatingScale } from "../../lib/survey";
+import "./RatingPicker.css";
+
+interface RatingPickerProps {
+  scale: RatingScale;
+  onRate: (rating: number) => void;
+}
+
+/**
+ * One button per value on a rating scale - tapping a value submits it.
+ * NPS scales are labelled at both ends so players know which way is good.
+ */
+export function RatingPicker({ scale, onRate }: RatingPickerProps) {
+  const { min, max } = RATING_SCALE_INFO[scale];
+
+  return (
+    <div className={`rating-picker rating-picker-${scale}`}>
+      <div className="rating-values">
+        {getRatingValues(scale).map((value) => (
+          <button key={value} className="rating-value" onClick={() => onRate(value)}>
+            {scale === "fivePoint" ? `${value}★` : value}
+          </button>
+        ))}
+      </div>
+      {scale === "nps" && (
+        <div className="rating-ends">
+          <span>{min} - Not likely</span>
+          <span>{max} - Very likely</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { memo, useMemo } from "react";
 import { Blob } from "./Blob";
 import { generateBlob } from "../lib/blobGenerator";
 import type { QuestionPhase } from "../../lib/ropeTypes";
+import type { PowerUpKind } from "../../lib/powerUps";
 
 export interface RopePlayer {
   id: string;
@@ -44,6 +45,8 @@ interface RopeProps {
   revealPhase?: RevealPhase;
   /** Current question phase - used to hide answer labels during question_shown */
   questionPhase?: QuestionPhase;
+  /** Removed by the current player's 50/50 - fades out of play */
+  eliminated?: boolean;
 }
 
 /**
@@ -62,6 +65,7 @@ export const Rope = memo(function Rope({
   cutY,
   revealPhase = "pending",
   questionPhase,
+  eliminated = false,
 }: RopeProps) {
   const ropeHeight = bottomY - topY;
 
@@ -97,7 +101,10 @@ export const Rope = memo(function Rope({
   const isTensionPhase = revealPhase === "scissors";
 
   return (
-    <g className={`rope ${isCorrect ? "rope-correct" : ""} ${isTensionPhase ? "rope-tension-wobble" : ""}`} data-rope-label={label}>
+    <g
+      className={`rope ${isCorrect ? "rope-correct" : ""} ${isTensionPhase ? "rope-tension-wobble" : ""} ${eliminated ? "rope-eliminated" : ""}`}
+      data-rope-label={label}
+    >
       {/* Rope SVG elements */}
       <defs>
         {/* Rope texture gradient */}
@@ -484,6 +491,8 @@ export const RopeClimber = memo(function RopeClimber({
   revealState = "climbing",
   fallDistance = 0,
   climbDistance = 0,
+  powerUps,
+  wagerPack,
 }: {
   player: RopePlayer;
   x: number;
@@ -498,6 +507,10 @@ export const RopeClimber = memo(function RopeClimber({
   fallDistance?: number;
   /** Distance to climb up (in pixels) for correct answers */
   climbDistance?: number;
+  /** Power-ups affecting this climber on the current question */
+  powerUps?: PowerUpKind[];
+  /** Wager pack size (0-1, share of the max stake) */
+  wagerPack?: number;
 }) {
   const blobConfig = useMemo(() => generateBlob(player.name), [player.name]);
 
@@ -583,7 +596,7 @@ export const RopeClimber = memo(function RopeClimber({
           }}
         />
       )}
-      <Blob config={blobConfig} size={size} state={getBlobState()} />
+      <Blob config={blobConfig} size={size} state={getBlobState()} powerUps={powerUps} wagerPack={wagerPack} />
       {showName && (
         <div
           style={{
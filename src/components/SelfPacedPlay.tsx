@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { Timer } from "./Timer";
+import { useSoundManager } from "../hooks/useSoundManager";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import { MAX_TEXT_ANSWER_LENGTH } from "../../lib/freeText";
+import { MAX_WORD_LENGTH } from "../../lib/survey";
+import { RatingPicker } from "./RatingPicker";
+import "./SelfPacedPlay.css";
+
+interface SelfPacedPlayProps {
+  playerId: Id<"players">;
+  secretToken: string;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Player's side of a self-paced (async) game: one question at a time on their own
+ * timer, scored as they go. Standings are revealed when the host's deadline passes.
+ */
+export function SelfPacedPlay({ playerId, secretToken, onError }: SelfPacedPlayProps) {
+  const progress = useQuery(api.selfPaced.getMyProgress, { playerId, secretToken });
+  const startNextQuestion = useMutation(api.selfPaced.startNextQuestion);
+  const submitAnswer = useMutation(api.selfPaced.submitAnswer);
+  const { play } = useSoundManager();
+
+  const [timerExpired, setTimerExpired] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [guessInput, setGuessInput] = useState("");
+  const [textInput, setTextInput] = useState("");
+
+  const current = progress?.current ?? null;
+
+  // Fresh answer state for each question
+  useEffect(() => {
+    setTimerExpired(false);
+    setSelectedOptions([]);
+    setGuessInput("");
+    setTextInput("");
+  }, [current?._id]);
+
+  if (!progress) {
+    return (
+      <div className="skeleton-question">
+        <div className="skeleton-line skeleton-line-wide" />
+        <div className="skeleton-option" />
+        <div className="skeleton-option" />
+      </div>
+    );
+  }
+
+  const deadlineText = progress.deadline ? new Date(progress.deadline).toLocaleString() : null;
+
+  async function handleNext() {
+    try {
+      await startNextQuestion({ playerId, secretToken });
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleSubmit(answer: { optionIndex?: number; optionIndices?: number[]; numericGuess?: number; text?: string; rating?: number }) {
+    play("boop");
+    navigator.vibrate?.(30);
+    try {
+      const result = await submitAnswer({ playerId, secretToken, ...answer });
+      play(result.isCorrect === false ? "blobSad" : "blobHappy");
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  function handleSubmitGuess(e: React.FormEvent) {
+    e.preventDefault();
+    const numericGuess = Number(guessInput);
+    if (guessInput.trim() === "" || !Number.isFinite(numericGuess)) return;
+    void handleSubmit({ numericGuess });
+  }
+
+  function handleSubmitText(e: React.FormEvent) {
+    e.preventDefault();
+    if (textInput.trim() === "") return;
+    void handleSubmit({ text: textInput });
+  }
+
+  if (progress.finished) {
+    return (
+      <div className="self-paced-panel">
+        <h2>You've reached the end!</h2>
+        <p>All {progress.totalQuestions} questions answered.</p>
+        {deadlineText && <p className="self-paced-deadline">Final standings are revealed {deadlineText}</p>}
+      </div>
+    );
+  }
+
+  if (!current) {
+    return (
+      <div className="self-paced-panel">
+        <h2>Climb at your own pace</h2>
+        <p>
+          {progress.totalQuestions} question{progress.totalQuestions !== 1 ? "s" : ""}. Each question's timer starts
+          when you open it - answer quickly for a speed bonus.
+        </p>
+        {deadlineText && <p className="self-paced-deadline">Finish before {deadlineText}</p>}
+        <button className="primary" onClick={handleNext}>
+          {progress.questionIndex < 0 ? "Start climbing" : "Continue"}
+        </button>
+      </div>
+    );
+  }
+
+  const isLast = progress.questionIndex + 1 >= progress.totalQuestions;
+  const isDone = current.result !== null || timerExpired;
+
+  return (
+    <div className="question">
+      <p className="self-paced-count">
+        Question {progress.questionIndex + 1} of {progress.totalQuestions}
+      </p>
+      {!isDone && (
+        <div className="question-timer">
+          <Timer
+            key={current._id}
+            firstAnsweredAt={current.startedAt}
+            timeLimit={current.timeLimit}
+            onExpire={() => setTimerExpired(true)}
+            size="medium"
+          />
+        </div>
+      )}
+
+      <h2>{current.text}</h2>
+      {current.imageUrl && <img src={current.imageUrl} alt="" className="question-image" />}
+      {/* No big screen when everyone plays on their own time - the clip plays here */}
+      {current.audioUrl && <audio src={current.audioUrl} controls autoPlay className="self-paced-audio" />}
+      {current.multiSelect && !isDone && <p className="multi-select-hint">Select all that apply</p>}
+
+      {current.result ? (
+        <div className={`result-banner ${current.result.isCorrect === false ? "wrong" : "correct"}`}>
+          <span className="result-text">
+            {current.result.isCorrect === null ? "THANKS!" : current.result.isCorrect ? "CORRECT!" : "WRONG!"}
+          </span>
+          <span className="elevation-gain">
+            {current.result.elevationGain < 0 ? "" : "+"}{current.result.elevationGain}m
+          </span>
+        </div>
+      ) : timerExpired ? (
+        <div className="result-banner no-answer">
+          <span className="result-text">Time's up!</span>
+          <span className="elevation-gain">+0m</span>
+        </div>
+      ) : current.estimation ? (
+        <form className="estimation-form" onSubmit={handleSubmitGuess}>
+          <input
+            type="number"
+            inputMode="decimal"
+            step="any"
+            placeholder="Your best guess"
+            value={guessInput}
+            onChange={(e) => setGuessInput(e.target.value)}
+            autoFocus
+          />
+          <button type="submit" disabled={guessInput.trim() === ""}>
+            Lock in guess
+          </button>
+        </form>
+      ) : current.ratingScale ? (
+        <RatingPicker scale={current.ratingScale} onRate={(rating) => handleSubmit({ rating })} />
+      ) : current.wordCloud ? (
+        <form className="estimation-form free-text-form" onSubmit={handleSubmitText}>
+          <input
+            type="text"
+            placeholder="A word or two"
+            maxLength={MAX_WORD_LENGTH}
+            value={textInput}
+            onChange={(e) => setTextInput(e.target.value)}
+            autoFocus
+          />
+          <button type="submit" disabled={textInput.trim() === ""}>
+            Send word
+          </button>
+        </form>
+      ) : current.freeText ? (
+        <form className="estimation-form free-text-form" onSubmit={handleSubmitText}>
+          <input
+            type="text"
+            placeholder="Type your answer"
+            maxLength={MAX_TEXT_ANSWER_LENGTH}
+            value={textInput}
+            onChange={(e) => setTextInput(e.target.value)}
+            autoFocus
+          />
+          <button type="submit" disabled={textInput.trim() === ""}>
+            Send answer
+          </button>
+        </form>
+      ) : current.multiSelect ? (
+        <div className="options multi-select">
+          {current.options.map((opt, i) => {
+            const isSelected = selectedOptions.includes(i);
+            return (
+              <button
+                key={i}
+                className={isSelected ? "selected" : ""}
+                aria-pressed={isSelected}
+                onClick={() => setSelectedOptions((prev) =>
+                  prev.includes(i) ? prev.filter((p) => p !== i) : [...prev, i]
+                )}
+              >
+                <span className="option-check">{isSelected ? "☑" : "☐"}</span>
+                <span className="option-label">{String.fromCharCode(65 + i)}.</span>
+                {opt.imageUrl && <img src={opt.imageUrl} alt="" className="option-image" />}
+                {opt.text}
+              </button>
+            );
+          })}
+          <button
+            className="submit-selections"
+            disabled={selectedOptions.length === 0}
+            onClick={() => handleSubmit({ optionIndices: selectedOptions })}
+          >
+            Lock in {selectedOptions.length} answer{selectedOptions.length !== 1 ? "s" : ""}
+          </button>
+        </div>
+      ) : (
+        <div className="options">
+          {current.options.map((opt, i) => (
+            <button key={i} onClick={() => handleSubmit({ optionIndex: i })}>
+              <span className="option-label">{String.fromCharCode(65 + i)}.</span>
+              {opt.imageUrl && <img src={opt.imageUrl} alt="" className="option-image" />}
+              {opt.text}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isDone && (
+        <button className="primary self-paced-next" onClick={handleNext}>
+          {isLast ? "Finish" : "Next question"}
+        </button>
+      )}
+    </div>
+  );
+}
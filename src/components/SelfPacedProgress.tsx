@@ -0,0 +1,51 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import "./SelfPacedProgress.css";
+
+/**
+ * Host's view of a running self-paced game: how far each player has got and when
+ * results will be revealed. Scores stay hidden here too until the game finishes.
+ */
+export function SelfPacedProgress({ sessionId }: { sessionId: Id<"sessions"> }) {
+  const progress = useQuery(api.selfPaced.getSessionProgress, { sessionId });
+
+  if (!progress) return null;
+
+  return (
+    <section className="admin-section self-paced-progress">
+      <div className="section-header">
+        <h2>Self-Paced Progress</h2>
+        <span className="self-paced-summary">
+          {progress.finishedCount} / {progress.players.length} finished
+        </span>
+      </div>
+      {progress.deadline && (
+        <p className="self-paced-deadline-note">
+          Results are revealed to everyone at {new Date(progress.deadline).toLocaleString()}.
+          End the game early to reveal them now.
+        </p>
+      )}
+      {progress.players.length > 0 ? (
+        <ul className="self-paced-player-list">
+          {progress.players.map((p) => (
+            <li key={p._id} className={p.finished ? "finished" : ""}>
+              <span className="self-paced-player-name">{p.name}</span>
+              <div className="self-paced-bar">
+                <div
+                  className="self-paced-bar-fill"
+                  style={{ width: `${progress.totalQuestions > 0 ? (p.questionsDone / progress.totalQuestions) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="self-paced-player-count">
+                {p.finished ? "Done" : `${p.questionsDone} / ${progress.totalQuestions}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="empty-message">No players have joined yet</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { Mountain } from "./mountain";
+import { Leaderboard } from "./Leaderboard";
+import { TeamLeaderboard } from "./TeamLeaderboard";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import "./SessionArchive.css";
+
+interface SessionArchiveProps {
+  hostId: string;
+  onView: (sessionId: Id<"sessions">) => void;
+  onRematch: (sessionId: Id<"sessions">) => void;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Host's finished sessions: look back at any final mountain, count one towards a league,
+ * or start a rematch with the same questions and settings (both for sessions the host owns).
+ */
+export function SessionArchive({ hostId, onView, onRematch, onError }: SessionArchiveProps) {
+  const sessions = useQuery(api.sessions.listArchived, { hostId });
+  const leagues = useQuery(api.leagues.listByHost, { hostId });
+  const rematch = useMutation(api.sessions.rematch);
+  const setSessionLeague = useMutation(api.leagues.setSessionLeague);
+
+  if (!sessions || sessions.length === 0) return null;
+
+  async function handleRematch(sessionId: Id<"sessions">) {
+    try {
+      const result = await rematch({ sessionId, hostId });
+      onError(null);
+      onRematch(result.sessionId);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleLeagueChange(sessionId: Id<"sessions">, leagueId: string) {
+    try {
+      await setSessionLeague({ sessionId, hostId, leagueId: leagueId ? (leagueId as Id<"leagues">) : null });
+      onError(null);
+    } catch (err) {
+      onError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  return (
+    <section className="admin-sessions-section session-archive">
+      <h2>Past Sessions</h2>
+      <ul className="session-list">
+        {sessions.map((s) => (
+          <li key={s._id} className="session-item archive-item">
+            <div className="session-info" onClick={() => onView(s._id)}>
+              <strong>{s.code}</strong>
+              <span className="session-meta">
+                {new Date(s.createdAt).toLocaleDateString()} | {s.playerCount} players
+                {s.winner && ` | Winner: ${s.winner.name} (${s.winner.elevation}m)`}
+              </span>
+              <span className="archive-question-set">
+                {s.quizTitle ?? s.firstQuestion ?? "No questions"} - {s.questionCount} questions
+              </span>
+            </div>
+            <div className="archive-item-actions">
+              {!s.isCoHost && leagues && leagues.length > 0 && (
+                <select
+                  value={s.leagueId ?? ""}
+                  onChange={(e) => handleLeagueChange(s._id, e.target.value)}
+                  title="League this session counts towards"
+                >
+                  <option value="">No league</option>
+                  {leagues.map((league) => (
+                    <option key={league._id} value={league._id}>
+                      {league.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button onClick={() => onView(s._id)}>View</button>
+              {!s.isCoHost && (
+                <button onClick={() => handleRematch(s._id)} className="primary">
+                  Rematch
+                </button>
+              )}
+              {s.isCoHost && <span className="cohost-badge">Co-host</span>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * Read-only final mountain for an archived session: everyone where they finished,
+ * with the final standings beside it.
+ */
+export function ArchivedSessionView({ sessionId }: { sessionId: Id<"sessions"> }) {
+  const leaderboard = useQuery(api.players.getLeaderboard, { sessionId });
+  const teams = useQuery(api.teams.listBySession, { sessionId });
+  const teamLeaderboard = useQuery(
+    api.teams.getLeaderboard,
+    teams && teams.length > 0 ? { sessionId } : "skip"
+  );
+  const roundSubtotals = useQuery(api.rounds.getSubtotals, { sessionId });
+  const teamColors = useMemo(
+    () => new Map((teams ?? []).map((t) => [t._id as string, t.color])),
+    [teams]
+  );
+
+  if (leaderboard === undefined) {
+    return <p className="empty-message">Loading final mountain...</p>;
+  }
+  if (leaderboard.length === 0) {
+    return <p className="empty-message">Nobody played this session</p>;
+  }
+
+  return (
+    <div className="archived-session">
+      <div className="archived-mountain">
+        <Mountain
+          players={leaderboard.map((p) => ({
+            id: p._id,
+            name: p.name,
+            elevation: p.elevation,
+            teamId: p.teamId,
+            teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+          }))}
+          mode="spectator"
+          width={640}
+          height={560}
+          ropeClimbingState={null}
+          skyQuestion={null}
+        />
+      </div>
+      <div className="archived-standings">
+        <h2>Final Standings</h2>
+        <Leaderboard players={leaderboard} roundSubtotals={roundSubtotals} maxDisplay={leaderboard.length} />
+        {teamLeaderboard && teamLeaderboard.length > 0 && (
+          <>
+            <h2>Team Standings</h2>
+            <TeamLeaderboard teams={teamLeaderboard} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
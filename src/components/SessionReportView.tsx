@@ -0,0 +1,152 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { playerReportToCsv, questionReportToCsv, type QuestionReport } from "../../lib/report";
+import { downloadFile, fileTimestamp } from "../lib/download";
+import "./SessionReportView.css";
+
+function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+const KIND_LABELS: Record<QuestionReport["kind"], string> = {
+  choice: "Multiple choice",
+  multiSelect: "Select all",
+  estimation: "Estimate",
+  freeText: "Free text",
+  rating: "Rating",
+  wordCloud: "Word cloud",
+  poll: "Poll",
+};
+
+/**
+ * Post-game analytics for the host: which questions stumped people, how answers
+ * split, how fast people answered, and each player's correctness streaks.
+ */
+export function SessionReportView({ sessionId }: { sessionId: Id<"sessions"> }) {
+  const report = useQuery(api.reports.getSessionReport, { sessionId });
+
+  if (report === undefined) {
+    return <p className="empty-message">Loading report...</p>;
+  }
+  if (report === null || report.questions.length === 0) {
+    return <p className="empty-message">No questions have been revealed yet</p>;
+  }
+
+  function handleExport(kind: "json" | "questions" | "players") {
+    if (!report) return;
+    const baseName = `report-${report.sessionCode}-${fileTimestamp()}`;
+    if (kind === "json") {
+      downloadFile(JSON.stringify(report, null, 2), "application/json", `${baseName}.json`);
+    } else if (kind === "questions") {
+      downloadFile(questionReportToCsv(report.questions), "text/csv", `${baseName}-questions.csv`);
+    } else {
+      downloadFile(playerReportToCsv(report.players), "text/csv", `${baseName}-players.csv`);
+    }
+  }
+
+  // Hardest questions first makes "what stumped people" obvious at a glance
+  const hardest = report.questions
+    .filter((q) => q.accuracy !== null)
+    .sort((a, b) => a.accuracy! - b.accuracy!)
+    .slice(0, 3);
+
+  return (
+    <div className="session-report">
+      <div className="report-export-actions">
+        <button onClick={() => handleExport("json")} className="export-button">📥 JSON</button>
+        <button onClick={() => handleExport("questions")} className="export-button">📥 Questions CSV</button>
+        {!report.anonymous && (
+          <button onClick={() => handleExport("players")} className="export-button">📥 Players CSV</button>
+        )}
+      </div>
+      {report.anonymous && (
+        <p className="report-anonymous-note">🔒 Anonymous session - the report only includes totals, never who answered what.</p>
+      )}
+
+      {hardest.length > 0 && (
+        <section className="admin-section">
+          <h2>Toughest Questions</h2>
+          <ol className="report-hardest">
+            {hardest.map((q) => (
+              <li key={q.questionId}>
+                <span className="report-hardest-text">{q.text}</span>
+                <span className="report-accuracy">{formatPercent(q.accuracy)} correct</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <section className="admin-section">
+        <h2>Questions</h2>
+        <div className="report-questions">
+          {report.questions.map((q) => {
+            const maxCount = Math.max(1, ...q.distribution.map((d) => d.count));
+            return (
+              <div key={q.questionId} className="report-question">
+                <div className="report-question-header">
+                  <span className="question-number">{q.number}.</span>
+                  <span className="report-question-text">{q.text}</span>
+                  <span className="report-kind">{KIND_LABELS[q.kind]}</span>
+                </div>
+                <div className="report-question-stats">
+                  <span>Accuracy <strong>{formatPercent(q.accuracy)}</strong></span>
+                  <span>Answers <strong>{q.totalAnswers}</strong></span>
+                  <span>Median time <strong>{formatSeconds(q.medianResponseMs)}</strong></span>
+                </div>
+                <ul className="report-distribution">
+                  {q.distribution.map((d, i) => (
+                    <li key={i} className={d.isCorrect ? "correct" : ""}>
+                      <span className="report-distribution-label">{d.label}</span>
+                      <span className="report-distribution-bar">
+                        <span style={{ width: `${(d.count / maxCount) * 100}%` }} />
+                      </span>
+                      <span className="report-distribution-count">{d.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {!report.anonymous && (
+        <section className="admin-section">
+          <h2>Players</h2>
+          <table className="report-players">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Elevation</th>
+                <th>Correct</th>
+                <th>Accuracy</th>
+                <th>Best streak</th>
+                <th>Current streak</th>
+                <th>Median time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.players.map((p) => (
+                <tr key={p.playerId}>
+                  <td>{p.name}</td>
+                  <td>{p.elevation}m</td>
+                  <td>{p.correct}/{p.answered}</td>
+                  <td>{formatPercent(p.accuracy)}</td>
+                  <td>{p.bestStreak > 0 ? `🔥 ${p.bestStreak}` : "0"}</td>
+                  <td>{p.currentStreak}</td>
+                  <td>{formatSeconds(p.medianResponseMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ interface ShareResultsProps {
   elevation: number;
   rank: number | null;
   totalPlayers: number;
+  bestStreak?: number; // Longest run of correct answers this game
 }
 
 /**
@@ -25,20 +26,21 @@ function getRankText(rank: number | null, elevation: number): string {
   return `${getOrdinal(rank)} place`;
 }
 
-function getShareText(playerName: string, elevation: number, rank: number | null): string {
+function getShareText(playerName: string, elevation: number, rank: number | null, bestStreak: number): string {
   const summited = elevation >= SUMMIT;
+  const streakStr = bestStreak >= 2 ? ` with ${bestStreak} right in a row` : "";
   if (summited) {
-    return `I summited at ${elevation}m in Blobby: Summit! Can you reach the top?`;
+    return `I summited at ${elevation}m${streakStr} in Blobby: Summit! Can you reach the top?`;
   }
   const rankStr = rank ? ` and placed ${getOrdinal(rank)}` : "";
-  return `I reached ${elevation}m${rankStr} in Blobby: Summit! Can you beat me?`;
+  return `I reached ${elevation}m${rankStr}${streakStr} in Blobby: Summit! Can you beat me?`;
 }
 
-export function ShareResults({ playerName, elevation, rank, totalPlayers }: ShareResultsProps) {
+export function ShareResults({ playerName, elevation, rank, totalPlayers, bestStreak = 0 }: ShareResultsProps) {
   const [copied, setCopied] = useState(false);
   const blobConfig = generateBlob(playerName);
   const rankText = getRankText(rank, elevation);
-  const shareText = getShareText(playerName, elevation, rank);
+  const shareText = getShareText(playerName, elevation, rank, bestStreak);
   const shareUrl = window.location.origin;
 
   const handleShare = useCallback(async () => {
@@ -98,6 +100,9 @@ export function ShareResults({ playerName, elevation, rank, totalPlayers }: Shar
         {totalPlayers > 1 && rank && elevation < SUMMIT && (
           <div className="share-card-total">of {totalPlayers} players</div>
         )}
+        {bestStreak >= 2 && (
+          <div className="share-card-streak">🔥 {bestStreak} in a row</div>
+        )}
       </div>
       <div className="share-actions">
         <button onClick={handleShare} className="share-btn primary">
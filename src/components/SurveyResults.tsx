@@ -0,0 +1,78 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import "./SurveyResults.css";
+
+// Word-cloud font sizes (rem) for the least and most popular words
+const MIN_WORD_SIZE = 1;
+const MAX_WORD_SIZE = 3.2;
+// Words shown at once - the long tail of one-offs would just be noise
+const MAX_WORDS = 40;
+
+interface SurveyResultsProps {
+  questionId: Id<"questions">;
+}
+
+/**
+ * Live big-screen chart for a survey question: a bar per rating value (with the average,
+ * and the score for NPS), or a word cloud sized by how many players typed each word.
+ */
+export function SurveyResults({ questionId }: SurveyResultsProps) {
+  const results = useQuery(api.answers.getResults, { questionId });
+  if (!results) return null;
+
+  if (results.ratings) {
+    const { counts, average, npsScore } = results.ratings;
+    const maxCount = Math.max(1, ...counts.map((c) => c.count));
+    return (
+      <div className="survey-results">
+        <div className="rating-chart">
+          {counts.map(({ value, count }) => (
+            <div key={value} className="rating-bar">
+              <span className="rating-bar-count">{count}</span>
+              <div className="rating-bar-fill" style={{ height: `${(count / maxCount) * 100}%` }} />
+              <span className="rating-bar-label">{results.ratingScale === "fivePoint" ? `${value}★` : value}</span>
+            </div>
+          ))}
+        </div>
+        <div className="survey-summary">
+          {average === null ? (
+            "No ratings yet"
+          ) : (
+            <>
+              Average <strong>{average.toFixed(1)}</strong>
+              {npsScore !== null && <> · NPS <strong>{npsScore > 0 ? `+${npsScore}` : npsScore}</strong></>}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (results.words) {
+    const words = results.words.slice(0, MAX_WORDS);
+    const maxCount = Math.max(1, ...words.map((w) => w.count));
+    return (
+      <div className="survey-results">
+        {words.length === 0 ? (
+          <div className="survey-summary">Waiting for words...</div>
+        ) : (
+          <div className="word-cloud">
+            {words.map((word) => (
+              <span
+                key={word.text}
+                className="word-cloud-word"
+                style={{ fontSize: `${MIN_WORD_SIZE + ((word.count - 1) / Math.max(1, maxCount - 1)) * (MAX_WORD_SIZE - MIN_WORD_SIZE)}rem` }}
+                title={`${word.count} player${word.count !== 1 ? "s" : ""}`}
+              >
+                {word.text}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,65 @@
+import "./Leaderboard.css";
+
+interface TeamStanding {
+  _id: string;
+  name: string;
+  color: string;
+  elevation: number;
+  memberCount: number;
+}
+
+interface TeamLeaderboardProps {
+  teams: TeamStanding[];
+  /** Team of the viewing player (highlighted) */
+  currentTeamId?: string;
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * TeamLeaderboard Component
+ *
+ * Shows team standings from teams.getLeaderboard, using the same row styling
+ * as the player Leaderboard. Teams are already sorted by the query.
+ */
+export function TeamLeaderboard({
+  teams,
+  currentTeamId,
+  compact = false,
+  className = "",
+}: TeamLeaderboardProps) {
+  if (teams.length === 0) return null;
+
+  return (
+    <div className={`leaderboard team-leaderboard ${compact ? "leaderboard-compact" : ""} ${className}`}>
+      <ol className="leaderboard-list">
+        {teams.map((team, index) => {
+          const rank = index + 1;
+          const rankClass =
+            rank === 1 ? "rank-1" : rank === 2 ? "rank-2" : rank === 3 ? "rank-3" : "";
+
+          return (
+            <li
+              key={team._id}
+              className={`leaderboard-row ${rankClass} ${team._id === currentTeamId ? "current-player" : ""}`}
+            >
+              <span className="leaderboard-rank">{rank}</span>
+              <span
+                className="team-color-swatch"
+                style={{ background: team.color }}
+                aria-hidden="true"
+              />
+              <span className="leaderboard-name">
+                {team.name}
+                <span className="team-member-count">
+                  {team.memberCount} climber{team.memberCount !== 1 ? "s" : ""}
+                </span>
+              </span>
+              <span className="leaderboard-elevation">{team.elevation}m</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
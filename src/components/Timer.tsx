@@ -4,6 +4,8 @@ import "./Timer.css";
 interface TimerProps {
   /** When the first answer was submitted (starts the timer) */
   firstAnsweredAt: number | null;
+  /** Server deadline when answers close - when set, the countdown runs to it instead */
+  deadline?: number | null;
   /** Time limit in seconds */
   timeLimit: number;
   /** Called when timer reaches 0 */
@@ -25,6 +27,7 @@ const REVEAL_ANIMATION_DURATION = 3500; // 1.5s scissors + ~2s snipping sequence
 
 export function Timer({
   firstAnsweredAt,
+  deadline = null,
   timeLimit,
   onExpire,
   size = "medium",
@@ -38,9 +41,12 @@ export function Timer({
   const [revealComplete, setRevealComplete] = useState(false);
   const revealStartTimeRef = useRef<number | null>(null);
 
+  // A server deadline starts the clock when answers open; otherwise the first answer does
+  const startedAt = deadline !== null ? deadline - timeLimit * 1000 : firstAnsweredAt;
+
   useEffect(() => {
     // If no first answer yet, timer hasn't started
-    if (firstAnsweredAt === null) {
+    if (startedAt === null) {
       setTimeRemaining(null);
       setFrozenTime(null);
       setRevealComplete(false);
@@ -62,7 +68,7 @@ export function Timer({
 
     function updateTimer() {
       const now = Date.now();
-      const elapsed = now - firstAnsweredAt!;
+      const elapsed = now - startedAt!;
       const remaining = Math.max(0, timeLimit * 1000 - elapsed);
       setTimeRemaining(remaining);
 
@@ -78,7 +84,7 @@ export function Timer({
     const interval = setInterval(updateTimer, 100);
 
     return () => clearInterval(interval);
-  }, [firstAnsweredAt, timeLimit, onExpire, isRevealed, frozenTime]);
+  }, [startedAt, timeLimit, onExpire, isRevealed, frozenTime]);
 
   // Track reveal animation completion
   useEffect(() => {
@@ -0,0 +1,41 @@
+import { getMaxWager } from "../../lib/elevation";
+import "./WagerPicker.css";
+
+// Stake choices as a share of the max wager
+const WAGER_STEPS = [0, 0.25, 0.5, 1];
+
+interface WagerPickerProps {
+  /** The player's current elevation - caps how much they can stake */
+  elevation: number;
+  /** Meters currently staked (0 = no bet) */
+  wager: number;
+  onChange: (wager: number) => void;
+}
+
+/**
+ * Lets a player stake some of their elevation before answering.
+ * Right answers win the stake on top of the normal climb; wrong ones lose it.
+ */
+export function WagerPicker({ elevation, wager, onChange }: WagerPickerProps) {
+  const maxWager = getMaxWager(elevation);
+  if (maxWager === 0) return null;
+
+  // Distinct amounts (small elevations can round several steps to the same value)
+  const amounts = [...new Set(WAGER_STEPS.map((step) => Math.round(maxWager * step)))];
+
+  return (
+    <div className="wager-picker">
+      <span className="wager-label">🎒 Wager</span>
+      {amounts.map((amount) => (
+        <button
+          key={amount}
+          className={`wager-option ${wager === amount ? "selected" : ""}`}
+          aria-pressed={wager === amount}
+          onClick={() => onChange(amount)}
+        >
+          {amount === 0 ? "No bet" : `${amount}m`}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { SummitDecoration } from "./SummitDecoration";
 import { CheckpointMarker } from "./CheckpointMarker";
 import { MemoizedPlayerBlob } from "./PlayerBlob";
 import { RopesOverlay } from "./RopesOverlay";
+import { NumberLineOverlay } from "./NumberLineOverlay";
 
 const NUM_CHECKPOINTS = Math.floor(SUMMIT / CHECKPOINT_INTERVAL) + 1;
 
@@ -37,6 +38,10 @@ interface MountainProps {
    * If not provided, answers are shown in original order.
    */
   answerShuffleOrder?: number[];
+  /** Original option indices removed by the current player's 50/50 (faded out in player view) */
+  eliminatedOptions?: number[];
+  /** Set off fireworks over the summit (finale) */
+  celebrating?: boolean;
 }
 
 /**
@@ -61,6 +66,8 @@ export function Mountain({
   ropeClimbingState,
   skyQuestion,
   answerShuffleOrder,
+  eliminatedOptions,
+  celebrating = false,
 }: MountainProps) {
   // Determine if ropes should be shown
   // Show ropes during answers_shown and revealed phases (not during question_shown or results)
@@ -95,6 +102,10 @@ export function Mountain({
               break;
             }
           }
+          const myGuess = ropeClimbingState.estimation?.guesses.find(g => g.playerId === currentPlayerId);
+          if (myGuess) {
+            baseElevation = myGuess.elevationAtAnswer;
+          }
 
           // CRITICAL FIX: During reveal/results, we must include ALL player elevations in the viewport
           // This prevents blobs at 0m from rendering below the visible area
@@ -108,6 +119,11 @@ export function Mountain({
             }
           }
 
+          // Add elevationAtAnswer for all estimation guessers (number line questions)
+          for (const guess of ropeClimbingState.estimation?.guesses ?? []) {
+            allElevations.push(guess.elevationAtAnswer);
+          }
+
           // Add elevations for players who haven't answered yet
           for (const player of ropeClimbingState.notAnswered) {
             allElevations.push(player.elevation);
@@ -206,6 +222,12 @@ export function Mountain({
       bands.push(currentBand);
     }
 
+    // Within each band, keep teammates next to each other (team mode).
+    // Teamless players keep their elevation order after the teams.
+    for (const band of bands) {
+      band.sort((a, b) => (a.teamId ?? "\uffff").localeCompare(b.teamId ?? "\uffff"));
+    }
+
     // Process each band
     for (const band of bands) {
       if (band.length <= maxPerRow) {
@@ -273,6 +295,7 @@ export function Mountain({
             topY={0}
             mode={mode}
             skyQuestion={skyQuestion}
+            fireworks={celebrating}
           />
         )}
 
@@ -321,7 +344,18 @@ export function Mountain({
       </svg>
 
       {/* When question is active, show ropes and climbers instead of normal player positions */}
-      {showRopes ? (
+      {showRopes && ropeClimbingState.estimation ? (
+        <NumberLineOverlay
+          ropeClimbingState={ropeClimbingState}
+          width={width}
+          height={height}
+          elevationToY={elevationToY}
+          elevationToYCapped={elevationToYCapped}
+          sizeConfig={sizeConfig}
+          currentPlayerId={currentPlayerId}
+          mode={mode}
+        />
+      ) : showRopes ? (
         <RopesOverlay
           ropeClimbingState={ropeClimbingState}
           width={width}
@@ -336,6 +370,7 @@ export function Mountain({
           questionPhase={ropeClimbingState.questionPhase}
           currentPlayerElevation={currentPlayerElevation}
           answerShuffleOrder={answerShuffleOrder}
+          eliminatedOptions={eliminatedOptions}
         />
       ) : (
         /* Player blobs (positioned absolutely over SVG) */
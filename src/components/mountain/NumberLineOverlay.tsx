@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useRef } from "react";
+import { SUMMIT } from "../../../lib/elevation";
+import { RopeClimber, type ClimberRevealState } from "../Rope";
+import type { RopeClimbingState } from "../../../lib/ropeTypes";
+import { playSound } from "../../lib/soundManager";
+import { getWagerPack, ThinkingPlayer } from "./RopesOverlay";
+import type { MountainMode, SizeConfig } from "./types";
+
+/**
+ * Format a guess/answer for axis labels (thousands separators, max 2 decimals)
+ */
+function formatValue(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Number line overlay for estimation ("closest guess") questions.
+ * Replaces the ropes: each blob sits at its guess along a horizontal number line
+ * (at its current elevation), and the reveal drops a marker at the true answer.
+ */
+export function NumberLineOverlay({
+  ropeClimbingState,
+  width,
+  height,
+  elevationToY,
+  elevationToYCapped,
+  sizeConfig,
+  currentPlayerId,
+  mode,
+}: {
+  ropeClimbingState: RopeClimbingState;
+  width: number;
+  height: number;
+  elevationToY: (elevation: number) => number;
+  /** Capped version for player blob positioning - caps elevation at SUMMIT */
+  elevationToYCapped: (elevation: number) => number;
+  sizeConfig: SizeConfig;
+  currentPlayerId?: string;
+  mode: MountainMode;
+}) {
+  const { notAnswered, timing } = ropeClimbingState;
+  const guesses = ropeClimbingState.estimation?.guesses ?? [];
+  const answer = ropeClimbingState.estimation?.answer ?? null;
+  const isRevealed = timing.isRevealed && answer !== null;
+
+  // Play celebration once per question when the answer is revealed and someone scored
+  const celebratedQuestionRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isRevealed || celebratedQuestionRef.current === ropeClimbingState.question.id) return;
+    celebratedQuestionRef.current = ropeClimbingState.question.id;
+    if (guesses.some((g) => (g.elevationGain ?? 0) > 0)) {
+      setTimeout(() => playSound("celebration"), 200);
+    }
+  }, [isRevealed, ropeClimbingState.question.id, guesses]);
+
+  // Number line range covers every guess (and the answer once revealed), padded on both sides
+  const { minValue, maxValue } = useMemo(() => {
+    const values = guesses.map((g) => g.guess);
+    if (answer !== null) values.push(answer);
+    if (values.length === 0) return { minValue: 0, maxValue: 1 };
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const spread = max - min || Math.max(Math.abs(max) * 0.2, 1);
+    return { minValue: min - spread * 0.08, maxValue: max + spread * 0.08 };
+  }, [guesses, answer]);
+
+  const padding = width * 0.1;
+  const usableWidth = width - padding * 2;
+  const valueToX = (value: number): number =>
+    padding + ((value - minValue) / (maxValue - minValue)) * usableWidth;
+
+  // Axis sits at the summit line, or the top of the view when the summit is off-screen (player view)
+  const axisY = Math.max(elevationToY(SUMMIT), mode === "player" ? 28 : 40);
+
+  // Stack blobs whose guesses land on (nearly) the same spot so they don't hide each other
+  const stackOffsets = new Map<string, number>();
+  const placedXs: number[] = [];
+  for (const g of guesses) {
+    const x = valueToX(g.guess);
+    const overlapping = placedXs.filter((px) => Math.abs(px - x) < sizeConfig.size / 2).length;
+    stackOffsets.set(g.playerId, -overlapping * 8);
+    placedXs.push(x);
+  }
+
+  const getRevealState = (elevationGain: number | undefined): ClimberRevealState => {
+    if (!isRevealed) return "climbing";
+    return (elevationGain ?? 0) > 0 ? "celebrating" : "landed";
+  };
+
+  return (
+    <>
+      <svg
+        width={width}
+        height={height}
+        style={{ position: "absolute", top: 0, left: 0, pointerEvents: "none" }}
+      >
+        {/* Guide lines from the number line down to each blob */}
+        {guesses.map((g) => (
+          <line
+            key={`guide-${g.playerId}`}
+            x1={valueToX(g.guess)}
+            y1={axisY}
+            x2={valueToX(g.guess)}
+            y2={elevationToYCapped(g.elevationAtAnswer) - sizeConfig.size}
+            stroke="rgba(255,255,255,0.35)"
+            strokeWidth={1}
+            strokeDasharray="3 4"
+          />
+        ))}
+
+        {/* The number line */}
+        <line
+          x1={padding}
+          y1={axisY}
+          x2={width - padding}
+          y2={axisY}
+          stroke="white"
+          strokeWidth={3}
+          strokeLinecap="round"
+        />
+        {[minValue, (minValue + maxValue) / 2, maxValue].map((value, i) => (
+          <g key={i}>
+            <line
+              x1={valueToX(value)}
+              y1={axisY - 6}
+              x2={valueToX(value)}
+              y2={axisY + 6}
+              stroke="white"
+              strokeWidth={2}
+            />
+            {guesses.length > 0 && (
+              <text
+                x={valueToX(value)}
+                y={axisY + 20}
+                textAnchor="middle"
+                fontSize={sizeConfig.nameSize + 2}
+                fill="white"
+                stroke="rgba(0,0,0,0.6)"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {formatValue(value)}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {/* True answer marker (after reveal) */}
+        {isRevealed && (
+          <g className="number-line-answer">
+            <line
+              x1={valueToX(answer)}
+              y1={axisY - 18}
+              x2={valueToX(answer)}
+              y2={elevationToYCapped(0)}
+              stroke="#fbbf24"
+              strokeWidth={3}
+            />
+            <rect
+              x={valueToX(answer) - 40}
+              y={axisY - 42}
+              width={80}
+              height={24}
+              rx={12}
+              fill="#fbbf24"
+            />
+            <text
+              x={valueToX(answer)}
+              y={axisY - 25}
+              textAnchor="middle"
+              fontSize={13}
+              fontWeight="bold"
+              fill="#1e293b"
+            >
+              {formatValue(answer)}
+            </text>
+          </g>
+        )}
+      </svg>
+
+      {/* Guessers on the number line */}
+      {guesses.map((g) => {
+        let climbDistance = 0;
+        if (isRevealed && g.elevationGain !== undefined && g.elevationGain > 0) {
+          const startY = elevationToYCapped(g.elevationAtAnswer);
+          const endY = elevationToYCapped(g.elevationAtAnswer + g.elevationGain);
+          climbDistance = Math.max(startY - endY, 10);
+        }
+        // A lost wager drops the guesser back down
+        let fallDistance = 0;
+        if (isRevealed && g.elevationGain !== undefined && g.elevationGain < 0) {
+          fallDistance = elevationToYCapped(g.elevationAtAnswer + g.elevationGain) - elevationToYCapped(g.elevationAtAnswer);
+        }
+
+        return (
+          <RopeClimber
+            key={g.playerId}
+            player={{ id: g.playerId, name: g.playerName, elevation: g.elevationAtAnswer }}
+            x={valueToX(g.guess)}
+            y={elevationToYCapped(g.elevationAtAnswer)}
+            size={sizeConfig.size}
+            showName={sizeConfig.showName}
+            isCurrentPlayer={g.playerId === currentPlayerId}
+            climbOffset={stackOffsets.get(g.playerId) ?? 0}
+            revealState={getRevealState(g.elevationGain)}
+            climbDistance={climbDistance}
+            fallDistance={fallDistance}
+            wagerPack={getWagerPack(g.wager, g.elevationAtAnswer)}
+          />
+        );
+      })}
+
+      {/* Closeness podium badges (after reveal) */}
+      {isRevealed &&
+        guesses
+          .filter((g) => g.rank !== undefined && g.rank <= 3)
+          .map((g) => (
+            <div
+              key={`rank-${g.playerId}`}
+              className={`number-line-rank rank-${g.rank}`}
+              style={{
+                left: valueToX(g.guess),
+                top: elevationToYCapped(g.elevationAtAnswer) - sizeConfig.size - 22,
+              }}
+            >
+              #{g.rank}
+            </div>
+          ))}
+
+      {/* Players who haven't guessed yet - spread along the bottom of the line */}
+      {notAnswered.map((player, index) => (
+        <ThinkingPlayer
+          key={player.playerId}
+          playerId={player.playerId}
+          playerName={player.playerName}
+          x={notAnswered.length <= 1 ? width / 2 : padding + (index / (notAnswered.length - 1)) * usableWidth}
+          y={elevationToYCapped(player.elevation)}
+          size={sizeConfig.size}
+          showName={sizeConfig.showName}
+          nameSize={sizeConfig.nameSize}
+          isCurrentPlayer={player.playerId === currentPlayerId}
+          isRevealed={timing.isRevealed}
+        />
+      ))}
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 import { memo, useMemo } from "react";
 import { Blob } from "../Blob";
 import { generateBlob } from "../../lib/blobGenerator";
+import { STREAK_FLAME_MIN } from "../../../lib/scoring";
 import type { MountainPlayer } from "./types";
 
 /**
@@ -58,6 +59,24 @@ export const MemoizedPlayerBlob = memo(function PlayerBlob({
         />
       )}
       <Blob config={blobConfig} size={size} state="idle" />
+      {/* Streak flame - on fire after several correct answers in a row */}
+      {(player.streak ?? 0) >= STREAK_FLAME_MIN && (
+        <div
+          className="player-streak-flame"
+          title={`${player.streak} correct in a row`}
+          style={{
+            position: "absolute",
+            top: -size * 0.3,
+            right: -size * 0.25,
+            fontSize: `${Math.max(8, size * 0.35)}px`,
+            lineHeight: 1,
+            whiteSpace: "nowrap",
+            pointerEvents: "none",
+          }}
+        >
+          🔥{player.streak}
+        </div>
+      )}
       {/* Name label - optimized for dark rock background */}
       {showName && (
         <div
@@ -79,7 +98,11 @@ export const MemoizedPlayerBlob = memo(function PlayerBlob({
             maxWidth: size * 3,
             overflow: "hidden",
             textOverflow: "ellipsis",
-            border: isCurrentPlayer ? "1px solid rgba(255,215,0,0.4)" : "1px solid rgba(255,255,255,0.2)",
+            border: isCurrentPlayer
+              ? "1px solid rgba(255,215,0,0.4)"
+              : player.teamColor
+                ? `2px solid ${player.teamColor}`
+                : "1px solid rgba(255,255,255,0.2)",
           }}
         >
           {player.name}
@@ -1,12 +1,31 @@
 import { useMemo, memo, useState, useEffect, useRef } from "react";
 import { Blob } from "../Blob";
 import { generateBlob } from "../../lib/blobGenerator";
-import { SUMMIT } from "../../../lib/elevation";
+import { getMaxWager, SUMMIT } from "../../../lib/elevation";
 import { Rope, RopeClimber, type RopeRevealState, type ClimberRevealState, type RevealPhase } from "../Rope";
-import type { RopeClimbingState, RopeData, QuestionPhase } from "../../../lib/ropeTypes";
+import type { RopeClimbingState, RopeData, PlayerOnRope, QuestionPhase } from "../../../lib/ropeTypes";
+import type { PowerUpKind } from "../../../lib/powerUps";
 import { playSound } from "../../lib/soundManager";
 import type { MountainMode, SizeConfig } from "./types";
 
+/**
+ * Whether a climber earned elevation on reveal.
+ * Single-choice: follows the rope they're on. Select-all: a player's picks span several
+ * ropes but their blob sits on one, so it follows their own elevationGain (full or partial credit).
+ */
+function isClimberCorrect(rope: RopeData, player: PlayerOnRope, multiSelect: boolean): boolean | null {
+  if (!multiSelect) return rope.isCorrect;
+  return (player.elevationGain ?? 0) > 0;
+}
+
+/**
+ * Wager pack size for a climber: their stake as a share of the most they could have bet.
+ */
+export function getWagerPack(wager: number | undefined, elevationAtAnswer: number): number | undefined {
+  if (!wager) return undefined;
+  return Math.min(1, wager / Math.max(1, getMaxWager(elevationAtAnswer)));
+}
+
 /**
  * Ropes overlay component - renders 4 vertical ropes with climbers
  */
@@ -24,6 +43,7 @@ export function RopesOverlay({
   questionPhase,
   currentPlayerElevation,
   answerShuffleOrder,
+  eliminatedOptions,
 }: {
   ropeClimbingState: RopeClimbingState;
   width: number;
@@ -41,9 +61,12 @@ export function RopesOverlay({
   currentPlayerElevation?: number;
   /** Shuffled order - array of original indices in visual order. If provided, ropes are displayed in this order. */
   answerShuffleOrder?: number[];
+  /** Original option indices removed by the current player's 50/50 */
+  eliminatedOptions?: number[];
 }) {
   const { ropes, notAnswered, timing } = ropeClimbingState;
   const isRevealed = timing.isRevealed;
+  const multiSelect = ropeClimbingState.question.multiSelect;
 
   // Reveal phase state machine
   const [revealPhase, setRevealPhase] = useState<RevealPhase>("pending");
@@ -86,8 +109,8 @@ export function RopesOverlay({
       .filter(({ rope }) => rope.isCorrect === false)
       .sort((a, b) => {
         // Sort by player count ascending (least populated first)
-        const countA = a.rope.players.length;
-        const countB = b.rope.players.length;
+        const countA = a.rope.playerCount;
+        const countB = b.rope.playerCount;
         if (countA !== countB) {
           return countA - countB;
         }
@@ -97,6 +120,13 @@ export function RopesOverlay({
       .map(({ index }) => index);
   }, [ropes]);
 
+  // Number of climbers who earned elevation, across every correct rope
+  const countCelebratingClimbers = () =>
+    ropes.reduce(
+      (count, rope) => count + rope.players.filter((p) => isClimberCorrect(rope, p, multiSelect) === true).length,
+      0
+    );
+
   // Orchestrate the reveal sequence
   useEffect(() => {
     // Reset state when question changes
@@ -127,14 +157,14 @@ export function RopesOverlay({
         if (sortedWrongRopesByPopulation.length === 0) {
           // No wrong ropes to snip - go straight to complete
           setRevealPhase("complete");
-          // Play celebration for correct answers
-          const correctRope = ropes.find((rope) => rope.isCorrect === true);
-          if (correctRope && correctRope.players.length > 0) {
+          // Play celebration for correct answers (select-all questions can have several correct ropes)
+          const celebratingCount = countCelebratingClimbers();
+          if (celebratingCount > 0) {
             // Play celebration fanfare first
             setTimeout(() => playSound("celebration"), 200);
 
             // Then play blobHappy sounds for each correct player
-            const numHappySounds = Math.min(correctRope.players.length, 4); // Cap at 4 sounds
+            const numHappySounds = Math.min(celebratingCount, 4); // Cap at 4 sounds
             for (let j = 0; j < numHappySounds; j++) {
               setTimeout(() => playSound("blobHappy"), 400 + j * 80);
             }
@@ -165,10 +195,10 @@ export function RopesOverlay({
 
             // Play sad blob sounds for players on this specific rope (staggered)
             const rope = ropes[ropeIndex];
-            if (rope && rope.players.length > 0) {
+            if (rope && rope.playerCount > 0) {
               // Play blobSad sounds for each player falling from this rope
               // Stagger them slightly for a "chorus of disappointment" effect
-              const numSadSounds = Math.min(rope.players.length, 4); // Cap at 4 sounds
+              const numSadSounds = Math.min(rope.playerCount, 4); // Cap at 4 sounds
               for (let j = 0; j < numSadSounds; j++) {
                 setTimeout(() => playSound("blobSad"), 150 + j * 100);
               }
@@ -186,13 +216,13 @@ export function RopesOverlay({
           setRevealPhase("complete");
 
           // Play happy blob sounds for correct players (staggered celebration)
-          const correctRope = ropes.find((rope) => rope.isCorrect === true);
-          if (correctRope && correctRope.players.length > 0) {
+          const celebratingCount = countCelebratingClimbers();
+          if (celebratingCount > 0) {
             // Play celebration fanfare first
             setTimeout(() => playSound("celebration"), 200);
 
             // Then play blobHappy sounds for each correct player
-            const numHappySounds = Math.min(correctRope.players.length, 4); // Cap at 4 sounds
+            const numHappySounds = Math.min(celebratingCount, 4); // Cap at 4 sounds
             for (let j = 0; j < numHappySounds; j++) {
               setTimeout(() => playSound("blobHappy"), 400 + j * 80);
             }
@@ -242,6 +272,10 @@ export function RopesOverlay({
     return getXForVisualPosition(visualPos);
   };
 
+  // Whether a waiting player has a rope column to stand under
+  const hasColumn = (player: RopeClimbingState["notAnswered"][number]) =>
+    ropeCount > 0 && player.lastOptionIndex !== null && player.lastOptionIndex >= 0;
+
   // Legacy ropeXPositions for backward compatibility - maps original index to X position
   const ropeXPositions = ropes.map((_, originalIndex) => getXForOriginalIndex(originalIndex));
 
@@ -330,6 +364,7 @@ export function RopesOverlay({
             cutY={getCutY(rope, i)}
             revealPhase={revealPhase}
             questionPhase={questionPhase}
+            eliminated={!isRevealed && (eliminatedOptions?.includes(rope.optionIndex) ?? false)}
           />
         ))}
       </svg>
@@ -399,15 +434,29 @@ export function RopesOverlay({
           ropeIndex={ropeIndex}
           revealPhase={revealPhase}
           isSnipped={snippedRopes.has(ropeIndex)}
+          multiSelect={multiSelect}
         />
       ))}
 
+      {/* Anonymous sessions: nobody climbs, so each rope just shows how many picked it */}
+      {ropeClimbingState.anonymous &&
+        ropes.map((rope, ropeIndex) => (
+          <div
+            key={`count-${ropeIndex}`}
+            className="rope-anonymous-count"
+            style={{ left: ropeXPositions[ropeIndex] ?? width / 2, top: ropeBottomY }}
+          >
+            {rope.playerCount}
+          </div>
+        ))}
+
       {/* Players who haven't answered yet - show at their last column position */}
       {notAnswered.map((player, index) => {
         const y = elevationToYCapped(player.elevation);
         // Position based on last answer's column, or spread out if no previous answer
+        // (or no ropes to line up with - free-text questions start with none)
         let x: number;
-        if (player.lastOptionIndex !== null && player.lastOptionIndex >= 0) {
+        if (hasColumn(player) && player.lastOptionIndex !== null) {
           // Player has a previous answer - use lastOptionIndex to position them
           // (mod by ropeCount to handle different numbers of options between questions)
           // IMPORTANT: lastOptionIndex is an ORIGINAL answer index, not a visual position!
@@ -417,8 +466,8 @@ export function RopesOverlay({
         } else {
           // New player with no previous answer - spread evenly across available space
           // Position them between the ropes, using index for distribution
-          const newPlayerCount = notAnswered.filter(p => p.lastOptionIndex === null).length;
-          const newPlayerIndex = notAnswered.filter((p, i) => p.lastOptionIndex === null && i < index).length;
+          const newPlayerCount = notAnswered.filter(p => !hasColumn(p)).length;
+          const newPlayerIndex = notAnswered.filter((p, i) => !hasColumn(p) && i < index).length;
           const spreadWidth = width * 0.6; // Use 60% of width for new players
           const startX = (width - spreadWidth) / 2; // Center the spread
           if (newPlayerCount <= 1) {
@@ -439,12 +488,13 @@ export function RopesOverlay({
             nameSize={sizeConfig.nameSize}
             isCurrentPlayer={player.playerId === currentPlayerId}
             isRevealed={isRevealed}
+            powerUps={player.powerUps}
           />
         );
       })}
 
       {/* Celebration particles for correct rope - only during complete phase */}
-      {revealPhase === "complete" && <CelebrationParticles ropes={ropes} ropeXPositions={ropeXPositions} elevationToYCapped={elevationToYCapped} />}
+      {revealPhase === "complete" && <CelebrationParticles ropes={ropes} multiSelect={multiSelect} ropeXPositions={ropeXPositions} elevationToYCapped={elevationToYCapped} />}
     </>
   );
 }
@@ -454,10 +504,12 @@ export function RopesOverlay({
  */
 function CelebrationParticles({
   ropes,
+  multiSelect,
   ropeXPositions,
   elevationToYCapped,
 }: {
   ropes: RopeData[];
+  multiSelect: boolean;
   ropeXPositions: number[];
   elevationToYCapped: (elevation: number) => number;
 }) {
@@ -471,9 +523,9 @@ function CelebrationParticles({
     let particleId = 0;
 
     ropes.forEach((rope, ropeIndex) => {
-      if (rope.isCorrect !== true) return;
-
       rope.players.forEach((player) => {
+        if (isClimberCorrect(rope, player, multiSelect) !== true) return;
+
         const x = ropeXPositions[ropeIndex] ?? 0;
         const y = elevationToYCapped(player.elevationAtAnswer);
 
@@ -534,6 +586,7 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
   ropeIndex,
   revealPhase = "pending",
   isSnipped = false,
+  multiSelect = false,
 }: {
   ropeData: RopeData;
   ropeX: number;
@@ -543,6 +596,8 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
   ropeIndex: number;
   revealPhase?: RevealPhase;
   isSnipped?: boolean;
+  /** Select-all question: each climber's outcome follows their own credit, not the rope */
+  multiSelect?: boolean;
 }) {
   const { players, isCorrect } = ropeData;
 
@@ -564,21 +619,22 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
   }, [isSnipped, isCorrect, revealPhase]);
 
   // Determine climber reveal state based on reveal phase
-  const getClimberRevealState = (): ClimberRevealState => {
+  const getClimberRevealState = (climberCorrect: boolean | null): ClimberRevealState => {
     // During pending or scissors phase, everyone is still climbing
     if (revealPhase === "pending" || revealPhase === "scissors") return "climbing";
 
     // During snipping phase
     if (revealPhase === "snipping") {
-      // Wrong ropes that have been snipped start falling
-      if (isCorrect === false && isSnipped) return animationPhase;
+      // Wrong ropes that have been snipped start falling (select-all climbers with credit hang on)
+      if (isCorrect === false && isSnipped && climberCorrect === false) return animationPhase;
       // Everything else still climbing (including correct ropes)
       return "climbing";
     }
 
     // Complete phase - show final states
-    if (isCorrect === true) return "celebrating";
-    if (isCorrect === false) return animationPhase;
+    if (climberCorrect === true) return "celebrating";
+    // Select-all climbers who earned nothing on a correct rope just drop back to where they were
+    if (climberCorrect === false) return isCorrect === false ? animationPhase : "landed";
     // Poll mode (isCorrect === null) - just keep climbing look
     return "climbing";
   };
@@ -586,7 +642,8 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
   // IMPORTANT: Blobs should NEVER appear above their final elevation!
   // Before reveal: blob is at elevationAtAnswer (where they grabbed the rope)
   // After reveal (correct): blob climbs UP by their actual elevationGain
-  // After reveal (wrong): blob stays at elevationAtAnswer
+  // After reveal (wrong): blob stays at elevationAtAnswer, or slides down by its negative
+  // elevationGain (penalty-mode slip or a lost wager)
   //
   // We use a small visual offset just for player stacking (when multiple players on same rope)
   // but NO large "climb up" animation that would make them appear higher than they'll end up.
@@ -594,6 +651,8 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
   return (
     <>
       {players.map((player, playerIndex) => {
+        const climberCorrect = isClimberCorrect(ropeData, player, multiSelect);
+
         // Calculate Y position based on elevation when they answered
         const baseY = elevationToYCapped(player.elevationAtAnswer);
 
@@ -610,14 +669,17 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
         // Slight horizontal offset for visual separation
         const xOffset = (playerIndex % 2 === 0 ? -1 : 1) * (playerIndex > 0 ? 8 : 0);
 
-        // Fall distance: for wrong answers, they just stay at their position (no fall needed)
-        // since we're not artificially elevating them anymore
-        const fallDistance = 0;
+        // Fall distance: wrong answers stay at their position (no fall needed) since we're
+        // not artificially elevating them anymore - unless a slip or lost wager drops them down
+        let fallDistance = 0;
+        if (player.elevationGain !== undefined && player.elevationGain < 0) {
+          fallDistance = elevationToYCapped(player.elevationAtAnswer + player.elevationGain) - baseY;
+        }
 
         // Climb distance for correct answers: this is the ACTUAL elevation gain!
         // This is the only upward movement - it represents real scoring
         let climbDistance = 0;
-        if (isCorrect === true) {
+        if (climberCorrect === true) {
           if (player.elevationGain !== undefined && player.elevationGain > 0) {
             // Convert elevation gain (meters) to visual climb distance (pixels)
             // Y increases downward, so startY > endY when climbing up
@@ -649,9 +711,11 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
             showName={sizeConfig.showName}
             isCurrentPlayer={player.playerId === currentPlayerId}
             climbOffset={climbOffset}
-            revealState={getClimberRevealState()}
+            revealState={getClimberRevealState(climberCorrect)}
             fallDistance={fallDistance}
             climbDistance={climbDistance}
+            powerUps={player.powerUps}
+            wagerPack={getWagerPack(player.wager, player.elevationAtAnswer)}
           />
         );
       })}
@@ -662,7 +726,7 @@ const RopeClimbersGroup = memo(function RopeClimbersGroup({
 /**
  * Player who hasn't answered yet - shows "thinking" animation
  */
-const ThinkingPlayer = memo(function ThinkingPlayer({
+export const ThinkingPlayer = memo(function ThinkingPlayer({
   playerId,
   playerName,
   x,
@@ -672,6 +736,7 @@ const ThinkingPlayer = memo(function ThinkingPlayer({
   nameSize,
   isCurrentPlayer,
   isRevealed = false,
+  powerUps,
 }: {
   playerId: string;
   playerName: string;
@@ -682,6 +747,7 @@ const ThinkingPlayer = memo(function ThinkingPlayer({
   nameSize: number;
   isCurrentPlayer: boolean;
   isRevealed?: boolean;
+  powerUps?: PowerUpKind[];
 }) {
   const blobConfig = useMemo(() => generateBlob(playerName), [playerName]);
 
@@ -719,7 +785,7 @@ const ThinkingPlayer = memo(function ThinkingPlayer({
           }}
         />
       )}
-      <Blob config={blobConfig} size={size} state="idle" />
+      <Blob config={blobConfig} size={size} state="idle" powerUps={powerUps} />
       {showName && (
         <div
           style={{
@@ -4,6 +4,7 @@ import { wrapText } from "./terrain";
 /**
  * Decorative summit area - sunshine, clouds, distant mountains, victory flag
  * In spectator full-screen mode, also displays the current question in the sky
+ * (or fireworks over the peak for the finale)
  */
 export function SummitDecoration({
   width,
@@ -11,12 +12,14 @@ export function SummitDecoration({
   topY,
   mode,
   skyQuestion,
+  fireworks = false,
 }: {
   width: number;
   summitY: number;
   topY: number;
   mode: MountainMode;
   skyQuestion?: SkyQuestion | null;
+  fireworks?: boolean;
 }) {
   const sunSize = mode === "admin-preview" ? 15 : mode === "spectator" ? 35 : 25;
   const cloudScale = mode === "admin-preview" ? 0.4 : mode === "spectator" ? 1 : 0.7;
@@ -135,6 +138,22 @@ export function SummitDecoration({
         />
       )}
 
+      {/* Fireworks bursting over the peak */}
+      {fireworks && (
+        <g className="summit-fireworks">
+          {FIREWORK_BURSTS.map((burst, i) => (
+            <Firework
+              key={i}
+              x={width * burst.x}
+              y={topY + skyHeight * burst.y}
+              radius={(mode === "spectator" ? 70 : 40) * burst.scale}
+              color={burst.color}
+              delay={burst.delay}
+            />
+          ))}
+        </g>
+      )}
+
       {/* Victory flag at the peak */}
       <SummitFlag
         x={midX}
@@ -363,3 +382,54 @@ function Cloud({ x, y, scale, opacity = 0.95 }: { x: number; y: number; scale: n
     </g>
   );
 }
+
+// Where fireworks burst (fractions of the sky), staggered so they keep going
+const FIREWORK_BURSTS = [
+  { x: 0.25, y: 0.3, scale: 1, color: "#fbbf24", delay: 0 },
+  { x: 0.72, y: 0.22, scale: 1.2, color: "#f472b6", delay: 0.5 },
+  { x: 0.5, y: 0.12, scale: 0.9, color: "#60a5fa", delay: 1 },
+  { x: 0.15, y: 0.55, scale: 0.7, color: "#34d399", delay: 1.4 },
+  { x: 0.85, y: 0.5, scale: 0.8, color: "#a78bfa", delay: 1.8 },
+];
+
+const FIREWORK_SPARKS = 12;
+
+/**
+ * One firework: sparks flying out from a point, looping
+ */
+function Firework({
+  x,
+  y,
+  radius,
+  color,
+  delay,
+}: {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+  delay: number;
+}) {
+  return (
+    <g transform={`translate(${x}, ${y})`}>
+      <g className="summit-firework" style={{ animationDelay: `${delay}s` }}>
+        {Array.from({ length: FIREWORK_SPARKS }, (_, i) => {
+          const angle = (i / FIREWORK_SPARKS) * Math.PI * 2;
+          return (
+            <line
+              key={i}
+              x1={Math.cos(angle) * radius * 0.3}
+              y1={Math.sin(angle) * radius * 0.3}
+              x2={Math.cos(angle) * radius}
+              y2={Math.sin(angle) * radius}
+              stroke={color}
+              strokeWidth={3}
+              strokeLinecap="round"
+            />
+          );
+        })}
+        <circle r={radius * 0.12} fill="white" />
+      </g>
+    </g>
+  );
+}
@@ -4,6 +4,12 @@ export interface MountainPlayer {
   id: string;
   name: string;
   elevation: number;
+  /** Team the player climbs with (team mode) - teammates are grouped side by side */
+  teamId?: string;
+  /** Team color used to tint the name label */
+  teamColor?: string;
+  /** Correct answers in a row - a flame shows once it's long enough */
+  streak?: number;
 }
 
 export type MountainMode = "spectator" | "player" | "admin-preview";
@@ -11,6 +17,8 @@ export type MountainMode = "spectator" | "player" | "admin-preview";
 /** Question data for sky display in spectator mode */
 export interface SkyQuestion {
   text: string;
+  /** Picture shown with the question */
+  imageUrl?: string;
   questionNumber: number;
   totalQuestions: number;
   phase: "question_shown" | "answers_shown" | "revealed" | "results";
@@ -20,6 +28,7 @@ export interface SkyQuestion {
   /** Timer info */
   timer?: {
     firstAnsweredAt: number | null;
+    deadline: number | null;
     timeLimit: number;
     isRevealed: boolean;
     correctAnswer?: string;
@@ -29,7 +38,7 @@ export interface SkyQuestion {
 }
 
 // Number of checkpoints (every 100m from 0 to 1000)
-export const CHECKPOINT_INTERVAL = 100;
+export { CHECKPOINT_INTERVAL } from "../../../lib/elevation";
 
 // Checkpoint names for flavor
 export const CHECKPOINT_NAMES: Record<number, string> = {
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from "react";
+import { PODIUM_REVEAL_MS, REPLAY_FRAME_MS } from "../../lib/finale";
+
+export type FinaleStage = "replay" | "podium" | "done";
+
+/**
+ * Hook that steps the spectator's end-of-game finale along on timers: the climb replay
+ * plays one frame per question, then the podium reveals its places from the lowest step
+ * up, holds on the full podium, and hands over to the final standings.
+ *
+ * Nothing moves until `ready` (the replay data has loaded).
+ */
+export function useFinaleSequence({
+  frameCount,
+  podiumSize,
+  ready,
+}: {
+  frameCount: number;
+  podiumSize: number;
+  ready: boolean;
+}): {
+  stage: FinaleStage;
+  frameIndex: number;
+  revealedCount: number;
+  skip: () => void;
+  restart: () => void;
+} {
+  const [stage, setStage] = useState<FinaleStage>("replay");
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [revealedCount, setRevealedCount] = useState(0);
+
+  useEffect(() => {
+    if (!ready || stage === "done") return;
+
+    // The full podium holds a little longer before the standings take over
+    const delay = stage === "replay"
+      ? REPLAY_FRAME_MS
+      : revealedCount === podiumSize ? PODIUM_REVEAL_MS * 2 : PODIUM_REVEAL_MS;
+    const timer = setTimeout(() => {
+      if (stage === "replay") {
+        if (frameIndex < frameCount - 1) setFrameIndex(frameIndex + 1);
+        else setStage("podium");
+      } else if (revealedCount < podiumSize) {
+        setRevealedCount(revealedCount + 1);
+      } else {
+        setStage("done");
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [ready, stage, frameIndex, frameCount, revealedCount, podiumSize]);
+
+  const skip = useCallback(() => setStage("done"), []);
+
+  const restart = useCallback(() => {
+    setFrameIndex(0);
+    setRevealedCount(0);
+    setStage("replay");
+  }, []);
+
+  return { stage, frameIndex, revealedCount, skip, restart };
+}
@@ -13,9 +13,11 @@ import { shuffleOptions } from "../../lib/shuffle";
 export function useGameSubscriptions({
   sessionId,
   playerId,
+  secretToken,
 }: {
   sessionId: Id<"sessions"> | null;
   playerId: Id<"players"> | null;
+  secretToken: string | null;
 }) {
   const session = useQuery(
     api.sessions.get,
@@ -39,7 +41,7 @@ export function useGameSubscriptions({
   // Lightweight player-specific rope state for UI logic
   const playerRopeState = useQuery(
     api.answers.getPlayerRopeState,
-    sessionId && playerId ? { sessionId, playerId } : "skip"
+    sessionId && playerId ? { sessionId, playerId, secretToken: secretToken ?? undefined } : "skip"
   ) as PlayerRopeState | null | undefined;
 
   // Fetch full player list for lobby (shows all other players)
@@ -57,6 +59,14 @@ export function useGameSubscriptions({
       : "skip"
   );
 
+  // Power-up inventory and effects on the current question (live games only)
+  const myPowerUps = useQuery(
+    api.powerUps.getMine,
+    playerId && secretToken && session?.status === "active" && session.mode !== "async"
+      ? { playerId, secretToken }
+      : "skip"
+  );
+
   // Only fetch leaderboard when needed (results phase or game finished)
   const questionPhaseFromState = playerRopeState?.phase ?? null;
   const needsLeaderboard = questionPhaseFromState === "results" || session?.status === "finished";
@@ -67,6 +77,18 @@ export function useGameSubscriptions({
       : "skip"
   );
 
+  // Teams for this session (empty array when team mode is off)
+  const teams = useQuery(
+    api.teams.listBySession,
+    sessionId ? { sessionId } : "skip"
+  );
+  const hasTeams = (teams?.length ?? 0) > 0;
+
+  const teamLeaderboard = useQuery(
+    api.teams.getLeaderboard,
+    sessionId && hasTeams && needsLeaderboard ? { sessionId } : "skip"
+  );
+
   // Derived state
   const hasAnswered = useMemo(() => {
     return playerRopeState?.myAnswer.hasAnswered ?? false;
@@ -76,6 +98,7 @@ export function useGameSubscriptions({
     if (!playerRopeState) return null;
     return {
       firstAnsweredAt: playerRopeState.timing.firstAnsweredAt,
+      deadline: playerRopeState.timing.deadline,
       timeLimit: playerRopeState.timing.timeLimit,
       totalAnswers: playerRopeState.answeredCount,
     };
@@ -85,7 +108,8 @@ export function useGameSubscriptions({
 
   // Compute shuffled options for deterministic randomization
   const shuffledAnswers = useMemo(() => {
-    if (!currentQuestion || !session?.code || session.currentQuestionIndex < 0) {
+    // Free-text groups keep the order the host approved them in
+    if (!currentQuestion || currentQuestion.freeText || !session?.code || session.currentQuestionIndex < 0) {
       return null;
     }
     return shuffleOptions(
@@ -104,6 +128,9 @@ export function useGameSubscriptions({
     players,
     playerContext,
     leaderboardSummary,
+    teams,
+    teamLeaderboard,
+    myPowerUps,
     hasAnswered,
     timingInfo,
     questionPhase,
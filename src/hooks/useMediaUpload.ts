@@ -0,0 +1,62 @@
+import { useCallback, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { getFriendlyErrorMessage } from "../lib/errorMessages";
+
+/**
+ * Hook that uploads question media (pictures, audio clips) to Convex file storage.
+ * `upload` checks the file's type and size, then resolves to the storage id to save
+ * on the question - or null when the upload failed (the reason is in `error`).
+ */
+export function useMediaUpload({
+  sessionId,
+  hostId,
+  accept,
+  maxBytes,
+}: {
+  sessionId: Id<"sessions">;
+  hostId: string;
+  /** MIME type prefix the file must have, e.g. "image/" */
+  accept: string;
+  maxBytes: number;
+}) {
+  const generateUploadUrl = useMutation(api.questions.generateUploadUrl);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = useCallback(
+    async (file: File): Promise<Id<"_storage"> | null> => {
+      if (!file.type.startsWith(accept)) {
+        setError(`Pick ${accept === "image/" ? "an image" : "an audio"} file.`);
+        return null;
+      }
+      if (file.size > maxBytes) {
+        setError(`Files must be under ${Math.round(maxBytes / (1024 * 1024))}MB.`);
+        return null;
+      }
+
+      setIsUploading(true);
+      setError(null);
+      try {
+        const uploadUrl = await generateUploadUrl({ sessionId, hostId });
+        const response = await fetch(uploadUrl, {
+          method: "POST",
+          headers: { "Content-Type": file.type },
+          body: file,
+        });
+        if (!response.ok) throw new Error("Upload failed");
+        const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+        return storageId;
+      } catch (err) {
+        setError(getFriendlyErrorMessage(err));
+        return null;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [generateUploadUrl, sessionId, hostId, accept, maxBytes]
+  );
+
+  return { upload, isUploading, error };
+}
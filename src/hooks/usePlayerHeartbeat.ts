@@ -32,16 +32,16 @@ function getConvexSiteUrl(): string {
  *
  * The backend considers a player "active" if their lastSeenAt is within 60 seconds.
  */
-export function usePlayerHeartbeat(playerId: Id<"players"> | null) {
+export function usePlayerHeartbeat(playerId: Id<"players"> | null, secretToken: string | null) {
   const heartbeat = useMutation(api.players.heartbeat);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Memoize the heartbeat sender to avoid recreating on every render
   const sendHeartbeat = useCallback(() => {
-    if (playerId) {
-      heartbeat({ playerId });
+    if (playerId && secretToken) {
+      heartbeat({ playerId, secretToken });
     }
-  }, [playerId, heartbeat]);
+  }, [playerId, secretToken, heartbeat]);
 
   // Start heartbeat interval
   const startHeartbeat = useCallback(() => {
@@ -93,7 +93,7 @@ export function usePlayerHeartbeat(playerId: Id<"players"> | null) {
 
   // Unload listener effect for immediate disconnect detection
   useEffect(() => {
-    if (!playerId) return;
+    if (!playerId || !secretToken) return;
 
     const handleUnload = () => {
       const siteUrl = getConvexSiteUrl();
@@ -103,7 +103,7 @@ export function usePlayerHeartbeat(playerId: Id<"players"> | null) {
       // This is fire-and-forget but designed to survive page unload
       navigator.sendBeacon(
         `${siteUrl}/api/player-disconnect`,
-        JSON.stringify({ playerId })
+        JSON.stringify({ playerId, secretToken })
       );
     };
 
@@ -117,5 +117,5 @@ export function usePlayerHeartbeat(playerId: Id<"players"> | null) {
       window.removeEventListener("beforeunload", handleUnload);
       window.removeEventListener("pagehide", handleUnload);
     };
-  }, [playerId]);
+  }, [playerId, secretToken]);
 }
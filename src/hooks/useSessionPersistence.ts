@@ -9,12 +9,14 @@ import { getFriendlyErrorMessage } from "../lib/errorMessages";
 // Stores multiple sessions keyed by code+name to support multiple tabs with different players
 const STORAGE_KEY = "blobby_player_sessions";
 const OLD_STORAGE_KEY = "blobby_player"; // Legacy single-session key
+const DEVICE_ID_KEY = "blobby_device_id";
 
 interface StoredSession {
   playerId: string;
   sessionId: string;
   sessionCode: string;
   playerName: string;
+  secretToken?: string; // Missing for sessions stored before player tokens existed
 }
 
 // Storage format: { "CODE:name": StoredSession, ... }
@@ -47,10 +49,16 @@ function loadAllSessions(): StoredSessions {
   }
 }
 
-function saveSession(playerId: Id<"players">, sessionId: Id<"sessions">, sessionCode: string, playerName: string) {
+function saveSession(
+  playerId: Id<"players">,
+  sessionId: Id<"sessions">,
+  sessionCode: string,
+  playerName: string,
+  secretToken: string
+) {
   const sessions = loadAllSessions();
   const key = getSessionKey(sessionCode, playerName);
-  sessions[key] = { playerId, sessionId, sessionCode, playerName };
+  sessions[key] = { playerId, sessionId, sessionCode, playerName, secretToken };
   localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
 }
 
@@ -86,6 +94,16 @@ function clearSession(code?: string, name?: string) {
   }
 }
 
+// Get or create this browser's device id, which links its players across a league's sessions
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
 function clearCurrentSession(session: StoredSession | null) {
   if (session) {
     clearSession(session.sessionCode, session.playerName);
@@ -99,10 +117,13 @@ export interface UseSessionPersistenceReturn {
   playerName: string;
   setPlayerName: (name: string) => void;
   nameInputRef: React.RefObject<HTMLInputElement | null>;
+  selectedTeamId: Id<"teams"> | null;
+  setSelectedTeamId: (teamId: Id<"teams"> | null) => void;
 
   // Session identity
   playerId: Id<"players"> | null;
   sessionId: Id<"sessions"> | null;
+  secretToken: string | null; // Proves this device is the player - sent with answers and heartbeats
 
   // Restore/rejoin state
   isRestoring: boolean;
@@ -120,6 +141,8 @@ export interface UseSessionPersistenceReturn {
 
   // Session lookup (for the join form)
   getByCode: { _id: Id<"sessions">; code: string } | null | undefined;
+  // Teams available in the looked-up session (empty when team mode is off)
+  teams: { _id: Id<"teams">; name: string; color: string }[] | undefined;
 
   // Actions
   handleJoin: (e: React.FormEvent) => Promise<void>;
@@ -138,15 +161,19 @@ export interface UseSessionPersistenceReturn {
 export function useSessionPersistence({
   initialCode,
   initialName,
+  initialToken,
 }: {
   initialCode?: string | null;
   initialName?: string | null;
+  initialToken?: string | null; // From a rejoin link the host issued with "Reset link"
 }): UseSessionPersistenceReturn {
   const [joinCode, setJoinCode] = useState(initialCode ?? "");
   const [playerName, setPlayerName] = useState("");
   const nameInputRef = useRef<HTMLInputElement>(null);
+  const [selectedTeamId, setSelectedTeamId] = useState<Id<"teams"> | null>(null);
   const [playerId, setPlayerId] = useState<Id<"players"> | null>(null);
   const [sessionId, setSessionId] = useState<Id<"sessions"> | null>(null);
+  const [secretToken, setSecretToken] = useState<string | null>(null);
   const [error, setError] = useState("");
   const [isRestoring, setIsRestoring] = useState(true);
   const [storedSession, setStoredSession] = useState<StoredSession | null>(null);
@@ -172,16 +199,27 @@ export function useSessionPersistence({
     joinCode.length === 4 ? { code: joinCode.toUpperCase() } : "skip"
   );
 
+  const teams = useQuery(
+    api.teams.listBySession,
+    getByCode ? { sessionId: getByCode._id } : "skip"
+  );
+
   const joinSession = useMutation(api.players.join);
 
+  // Team choices belong to one session - clear the pick when the code changes
+  useEffect(() => {
+    setSelectedTeamId(null);
+  }, [getByCode?._id]);
+
   // Try to restore session from localStorage on mount
+  // (skipped for rejoin links - the link's token supersedes whatever this device stored)
   useEffect(() => {
     const stored = loadSession(initialCode ?? undefined, initialName ?? undefined);
-    if (stored) {
+    if (stored && !initialToken) {
       setStoredSession(stored);
     }
     setIsRestoring(false);
-  }, [initialCode, initialName]);
+  }, [initialCode, initialName, initialToken]);
 
   // Handle the result of checking stored session
   useEffect(() => {
@@ -211,9 +249,11 @@ export function useSessionPersistence({
     try {
       await reactivatePlayer({
         playerId: storedSession.playerId as Id<"players">,
+        secretToken: storedSession.secretToken ?? "",
       });
       setPlayerId(storedSession.playerId as Id<"players">);
       setSessionId(storedSession.sessionId as Id<"sessions">);
+      setSecretToken(storedSession.secretToken ?? null);
       window.history.replaceState({}, "", `/play/${storedSession.sessionCode}/${encodeURIComponent(storedSession.playerName)}`);
       setStoredSession(null);
     } catch (err) {
@@ -244,6 +284,32 @@ export function useSessionPersistence({
     }
   }, [initialCode, initialName, storedSession, checkStoredSession, isRejoining, playerId, handleRejoin]);
 
+  // Join (or rejoin) as a player, saving the issued token so this device can come back later
+  const joinAs = useCallback(async (
+    session: { _id: Id<"sessions">; code: string },
+    name: string,
+    teamId: Id<"teams"> | undefined,
+    token: string | undefined
+  ) => {
+    const result = await joinSession({ sessionId: session._id, name, teamId, secretToken: token, deviceId: getDeviceId() });
+    setPlayerId(result.playerId);
+    setSessionId(session._id);
+    setSecretToken(result.secretToken);
+    setStoredSession(null);
+    saveSession(result.playerId, session._id, session.code, name, result.secretToken);
+    window.history.replaceState({}, "", `/play/${session.code}/${encodeURIComponent(name)}`);
+  }, [joinSession]);
+
+  // Rejoin links from the host carry the player's new token - use it once the session loads
+  const hasTriedLinkRejoin = useRef(false);
+  useEffect(() => {
+    if (!initialToken || !initialName || !getByCode || playerId || hasTriedLinkRejoin.current) return;
+    hasTriedLinkRejoin.current = true;
+    joinAs(getByCode, initialName, undefined, initialToken).catch((err) => {
+      setError(getFriendlyErrorMessage(err));
+    });
+  }, [initialToken, initialName, getByCode, playerId, joinAs]);
+
   async function handleJoin(e: React.FormEvent) {
     e.preventDefault();
     setError("");
@@ -253,17 +319,16 @@ export function useSessionPersistence({
       return;
     }
 
+    if (teams && teams.length > 0 && !selectedTeamId) {
+      setError("Pick a team to climb with.");
+      return;
+    }
+
     try {
       const trimmedName = playerName.trim();
-      const id = await joinSession({
-        sessionId: getByCode._id,
-        name: trimmedName,
-      });
-      setPlayerId(id);
-      setSessionId(getByCode._id);
-      setStoredSession(null);
-      saveSession(id, getByCode._id, getByCode.code, trimmedName);
-      window.history.replaceState({}, "", `/play/${getByCode.code}/${encodeURIComponent(trimmedName)}`);
+      // Reuse this device's token for the name, if it has played as them before
+      const previous = loadSession(getByCode.code, trimmedName);
+      await joinAs(getByCode, trimmedName, selectedTeamId ?? undefined, previous?.secretToken);
     } catch (err) {
       setError(getFriendlyErrorMessage(err));
     }
@@ -274,6 +339,7 @@ export function useSessionPersistence({
     setStoredSession(null);
     setJoinCode(initialCode ?? "");
     setPlayerName("");
+    setSelectedTeamId(null);
   }
 
   function handleLeave() {
@@ -281,8 +347,10 @@ export function useSessionPersistence({
     setStoredSession(null);
     setPlayerId(null);
     setSessionId(null);
+    setSecretToken(null);
     setJoinCode("");
     setPlayerName("");
+    setSelectedTeamId(null);
     setShowLeaveConfirm(false);
   }
 
@@ -296,8 +364,11 @@ export function useSessionPersistence({
     playerName,
     setPlayerName,
     nameInputRef,
+    selectedTeamId,
+    setSelectedTeamId,
     playerId,
     sessionId,
+    secretToken,
     isRestoring,
     isRejoining,
     storedSession,
@@ -307,6 +378,7 @@ export function useSessionPersistence({
     showLeaveConfirm,
     setShowLeaveConfirm,
     getByCode,
+    teams,
     handleJoin,
     handleRejoin,
     handleStartFresh,
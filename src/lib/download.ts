@@ -0,0 +1,19 @@
+/**
+ * Trigger a browser download of generated text content (exports, reports).
+ */
+export function downloadFile(content: string, mimeType: string, fileName: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Filename-safe timestamp, e.g. "2024-05-01T12-30-00".
+ */
+export function fileTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+}
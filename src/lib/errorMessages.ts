@@ -13,6 +13,7 @@ const ERROR_MESSAGE_MAP: Record<string, string> = {
   // Answer submission errors
   "Question not found": "This question is no longer available.",
   "Player not found": "Your session has expired. Please rejoin the game.",
+  "Invalid player token": "This device is no longer signed in as you. Ask the host for a new link.",
   "Answers are not being accepted right now": "Wait for the host to show the answers first!",
   "Already answered this question": "You've already submitted your answer!",
   "Time's up! Answer not accepted.": "Time's up! Your answer wasn't submitted in time.",
@@ -26,6 +27,37 @@ const ERROR_MESSAGE_MAP: Record<string, string> = {
   "Can only show results from revealed phase": "Reveal the answer first before showing results.",
   "Can only go back to lobby from active state": "You can only reset from an active game.",
   "Cannot go back from current state": "Cannot go back any further.",
+
+  // Power-ups
+  "Power-ups can only be used while answers are open": "Power-ups can only be used while answers are open.",
+  "Only one power-up per question": "You've already used a power-up this question.",
+  "Power-up already used": "That power-up has already been used.",
+  "Pick a rival to freeze": "Pick another player to freeze.",
+  "Use 50/50 before answering": "Use 50/50 before you answer!",
+
+  // Wagers
+  "Wager must be a whole number of meters": "Pick how many meters to wager.",
+  "Can't wager on a poll question": "There's no right answer to bet on here!",
+  "Summiters can't wager": "You've already summited - no need to bet!",
+
+  // Free-text answers
+  "Type an answer": "Type your answer first!",
+  "Can only moderate answers while they're open": "Answers can only be grouped while they're open.",
+
+  // Survey questions
+  "Pick a rating": "Tap a rating first!",
+  "Type a word": "Type a word first!",
+
+  // Self-paced games
+  "Answer the current question first": "Answer this question before moving on!",
+  "Pick a deadline in the future": "The results deadline has to be in the future.",
+
+  // Host accounts and co-hosts
+  "Unauthorized: not the session host": "Only the session's host can do that.",
+  "Unauthorized: missing co-host permission": "The session owner hasn't given you permission to do that.",
+  "Invalid host name or password": "That host name and password don't match.",
+  "Host name already taken": "That host name is taken. Try another!",
+  "No host account with that name": "No host account has that name. Ask them to create one first.",
 };
 
 /**
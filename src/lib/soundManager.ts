@@ -2,7 +2,8 @@
  * Sound Manager for Blobby
  *
  * Uses Web Audio API for low-latency sound playback.
- * All sounds are generated procedurally using oscillators and noise.
+ * All sounds are generated procedurally using oscillators and noise, and go
+ * through one effects bus so they can be ducked under question audio clips.
  * Mute state is persisted to localStorage.
  */
 
@@ -27,10 +28,17 @@ export type SoundType =
 
 const MUTE_STORAGE_KEY = "blobby_muted";
 
+// Game sound volume while a question's audio clip plays
+const DUCKED_SFX_GAIN = 0.2;
+// Seconds to fade game sounds down/up around a clip
+const DUCK_FADE_SECONDS = 0.3;
+
 interface SoundManagerState {
   audioContext: AudioContext | null;
   isMuted: boolean;
   isInitialized: boolean;
+  sfxBus: GainNode | null; // All game sounds connect here (ducked while a clip plays)
+  clip: AudioBufferSourceNode | null; // Question audio clip currently playing
 }
 
 // Singleton state
@@ -38,8 +46,13 @@ const state: SoundManagerState = {
   audioContext: null,
   isMuted: loadMuteState(),
   isInitialized: false,
+  sfxBus: null,
+  clip: null,
 };
 
+// Decoded question clips by URL, so replays start instantly
+const clipCache = new Map<string, Promise<AudioBuffer>>();
+
 // Event listeners for mute state changes
 const muteListeners = new Set<(muted: boolean) => void>();
 
@@ -107,6 +120,7 @@ export function isMuted(): boolean {
  */
 export function setMuted(muted: boolean): void {
   state.isMuted = muted;
+  if (muted) stopAudioClip();
   saveMuteState(muted);
   muteListeners.forEach((listener) => listener(muted));
 }
@@ -127,6 +141,80 @@ export function onMuteChange(listener: (muted: boolean) => void): () => void {
   return () => muteListeners.delete(listener);
 }
 
+/**
+ * Output node for game sounds (created on first use)
+ */
+function getSfxOutput(ctx: AudioContext): AudioNode {
+  if (!state.sfxBus) {
+    state.sfxBus = ctx.createGain();
+    state.sfxBus.connect(ctx.destination);
+  }
+  return state.sfxBus;
+}
+
+/**
+ * Fade game sounds down (while a clip plays) or back up
+ */
+function duckSfx(ctx: AudioContext, ducked: boolean): void {
+  const gain = (getSfxOutput(ctx) as GainNode).gain;
+  gain.cancelScheduledValues(ctx.currentTime);
+  gain.setValueAtTime(gain.value, ctx.currentTime);
+  gain.linearRampToValueAtTime(ducked ? DUCKED_SFX_GAIN : 1, ctx.currentTime + DUCK_FADE_SECONDS);
+}
+
+/**
+ * Play a question's audio clip from the start (stopping any clip already playing).
+ * Game sounds are ducked until it ends. Does nothing while muted.
+ */
+export async function playAudioClip(url: string): Promise<void> {
+  if (state.isMuted) return;
+  await ensureAudioResumed();
+  const ctx = state.audioContext;
+  if (!ctx) return;
+
+  let buffer = clipCache.get(url);
+  if (!buffer) {
+    buffer = fetch(url)
+      .then((response) => response.arrayBuffer())
+      .then((data) => ctx.decodeAudioData(data));
+    clipCache.set(url, buffer);
+  }
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await buffer;
+  } catch (e) {
+    clipCache.delete(url); // Let a replay try again
+    console.warn("Could not load audio clip:", e);
+    return;
+  }
+
+  stopAudioClip();
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  source.connect(ctx.destination);
+  source.onended = () => {
+    if (state.clip !== source) return;
+    state.clip = null;
+    duckSfx(ctx, false);
+  };
+  state.clip = source;
+  duckSfx(ctx, true);
+  source.start();
+}
+
+/**
+ * Stop the question audio clip, if one is playing, and bring game sounds back up
+ */
+export function stopAudioClip(): void {
+  const clip = state.clip;
+  if (!clip) return;
+  state.clip = null;
+  clip.onended = null;
+  clip.stop();
+  if (state.audioContext) duckSfx(state.audioContext, false);
+}
+
 /**
  * Create white noise buffer for various sound effects
  */
@@ -171,7 +259,7 @@ async function playSqueak(): Promise<void> {
   gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.1);
 
   oscillator.connect(gainNode);
-  gainNode.connect(ctx.destination);
+  gainNode.connect(getSfxOutput(ctx));
 
   oscillator.start(now);
   oscillator.stop(now + 0.1);
@@ -199,7 +287,7 @@ async function playBoop(): Promise<void> {
   gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.15);
 
   oscillator.connect(gainNode);
-  gainNode.connect(ctx.destination);
+  gainNode.connect(getSfxOutput(ctx));
 
   oscillator.start(now);
   oscillator.stop(now + 0.15);
@@ -241,7 +329,7 @@ async function playRopeTension(): Promise<void> {
 
   oscillator1.connect(gainNode);
   oscillator2.connect(gainNode);
-  gainNode.connect(ctx.destination);
+  gainNode.connect(getSfxOutput(ctx));
 
   oscillator1.start(now);
   oscillator2.start(now);
@@ -277,7 +365,7 @@ async function playSnip(): Promise<void> {
 
   noiseSource.connect(noiseFilter);
   noiseFilter.connect(noiseGain);
-  noiseGain.connect(ctx.destination);
+  noiseGain.connect(getSfxOutput(ctx));
 
   // Falling tone
   const fallOsc = ctx.createOscillator();
@@ -291,7 +379,7 @@ async function playSnip(): Promise<void> {
   fallGain.gain.exponentialRampToValueAtTime(0.01, now + 0.4);
 
   fallOsc.connect(fallGain);
-  fallGain.connect(ctx.destination);
+  fallGain.connect(getSfxOutput(ctx));
 
   noiseSource.start(now);
   fallOsc.start(now + 0.05);
@@ -325,7 +413,7 @@ async function playCelebration(): Promise<void> {
     gain.gain.exponentialRampToValueAtTime(0.01, now + delays[i]! + 0.3);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + delays[i]!);
     osc.stop(now + delays[i]! + 0.3);
@@ -343,7 +431,7 @@ async function playCelebration(): Promise<void> {
   shimmerGain.gain.exponentialRampToValueAtTime(0.01, now + 0.5);
 
   shimmer.connect(shimmerGain);
-  shimmerGain.connect(ctx.destination);
+  shimmerGain.connect(getSfxOutput(ctx));
 
   shimmer.start(now + 0.3);
   shimmer.stop(now + 0.5);
@@ -378,7 +466,7 @@ async function playScream(): Promise<void> {
   gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
 
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getSfxOutput(ctx));
 
   osc.start(now);
   osc.stop(now + 0.3);
@@ -395,7 +483,7 @@ async function playScream(): Promise<void> {
   warbleGain.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
 
   warble.connect(warbleGain);
-  warbleGain.connect(ctx.destination);
+  warbleGain.connect(getSfxOutput(ctx));
 
   warble.start(now);
   warble.stop(now + 0.2);
@@ -443,7 +531,7 @@ async function playGibberish(): Promise<void> {
 
     osc.connect(filter);
     filter.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + offset);
     osc.stop(now + offset + 0.1);
@@ -478,7 +566,7 @@ async function playPop(): Promise<void> {
   gain.gain.exponentialRampToValueAtTime(0.01, now + 0.15);
 
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getSfxOutput(ctx));
 
   osc.start(now);
   osc.stop(now + 0.15);
@@ -522,7 +610,7 @@ async function playGiggle(): Promise<void> {
     gain.gain.exponentialRampToValueAtTime(0.01, now + i * noteDuration + noteDuration);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + i * noteDuration);
     osc.stop(now + i * noteDuration + noteDuration);
@@ -561,7 +649,7 @@ async function playQuestionReveal(): Promise<void> {
 
   noiseSource.connect(noiseFilter);
   noiseFilter.connect(noiseGain);
-  noiseGain.connect(ctx.destination);
+  noiseGain.connect(getSfxOutput(ctx));
 
   noiseSource.start(now);
   noiseSource.stop(now + 0.3);
@@ -581,7 +669,7 @@ async function playQuestionReveal(): Promise<void> {
   toneGain.gain.exponentialRampToValueAtTime(0.01, now + 0.35);
 
   toneOsc.connect(toneGain);
-  toneGain.connect(ctx.destination);
+  toneGain.connect(getSfxOutput(ctx));
 
   toneOsc.start(now + 0.05);
   toneOsc.stop(now + 0.35);
@@ -598,7 +686,7 @@ async function playQuestionReveal(): Promise<void> {
   accentGain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
 
   accentOsc.connect(accentGain);
-  accentGain.connect(ctx.destination);
+  accentGain.connect(getSfxOutput(ctx));
 
   accentOsc.start(now + 0.15);
   accentOsc.stop(now + 0.3);
@@ -639,7 +727,7 @@ async function playGetReady(): Promise<void> {
 
     osc.connect(filter);
     filter.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + fanfareDelays[i]!);
     osc.stop(now + fanfareDelays[i]! + 0.5);
@@ -662,7 +750,7 @@ async function playGetReady(): Promise<void> {
 
   finalOsc.connect(finalFilter);
   finalFilter.connect(finalGain);
-  finalGain.connect(ctx.destination);
+  finalGain.connect(getSfxOutput(ctx));
 
   finalOsc.start(now + 0.45);
   finalOsc.stop(now + 1.0);
@@ -679,7 +767,7 @@ async function playGetReady(): Promise<void> {
   shimmerGain.gain.exponentialRampToValueAtTime(0.01, now + 0.8);
 
   shimmer.connect(shimmerGain);
-  shimmerGain.connect(ctx.destination);
+  shimmerGain.connect(getSfxOutput(ctx));
 
   shimmer.start(now + 0.5);
   shimmer.stop(now + 0.8);
@@ -726,7 +814,7 @@ async function playChitter(pitchSeed?: number): Promise<void> {
     gain.gain.exponentialRampToValueAtTime(0.01, now + i * noteDuration + noteDuration);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + i * noteDuration);
     osc.stop(now + i * noteDuration + noteDuration + 0.01);
@@ -768,7 +856,7 @@ async function playBlobSad(): Promise<void> {
     gain.gain.exponentialRampToValueAtTime(0.01, now + start + 0.15);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + start);
     osc.stop(now + start + 0.15);
@@ -786,7 +874,7 @@ async function playBlobSad(): Promise<void> {
   warbleGain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
 
   warble.connect(warbleGain);
-  warbleGain.connect(ctx.destination);
+  warbleGain.connect(getSfxOutput(ctx));
 
   warble.start(now);
   warble.stop(now + 0.3);
@@ -827,7 +915,7 @@ async function playBlobHappy(): Promise<void> {
     gain.gain.exponentialRampToValueAtTime(0.01, now + start + 0.08);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getSfxOutput(ctx));
 
     osc.start(now + start);
     osc.stop(now + start + 0.08);
@@ -845,7 +933,7 @@ async function playBlobHappy(): Promise<void> {
   sparkleGain.gain.exponentialRampToValueAtTime(0.01, now + 0.25);
 
   sparkle.connect(sparkleGain);
-  sparkleGain.connect(ctx.destination);
+  sparkleGain.connect(getSfxOutput(ctx));
 
   sparkle.start(now + 0.15);
   sparkle.stop(now + 0.25);
@@ -885,7 +973,7 @@ async function playBlobAmbient(): Promise<void> {
       gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
 
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getSfxOutput(ctx));
 
       osc.start(now);
       osc.stop(now + 0.08);
@@ -907,7 +995,7 @@ async function playBlobAmbient(): Promise<void> {
       gain.gain.exponentialRampToValueAtTime(0.001, now + 0.1);
 
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getSfxOutput(ctx));
 
       osc.start(now);
       osc.stop(now + 0.1);
@@ -928,7 +1016,7 @@ async function playBlobAmbient(): Promise<void> {
       gain.gain.exponentialRampToValueAtTime(0.001, now + 0.1);
 
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getSfxOutput(ctx));
 
       osc.start(now);
       osc.stop(now + 0.1);
@@ -954,7 +1042,7 @@ async function playBlobAmbient(): Promise<void> {
       gain.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
 
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getSfxOutput(ctx));
 
       osc.start(now);
       osc.stop(now + 0.15);
@@ -977,7 +1065,7 @@ async function playBlobAmbient(): Promise<void> {
       gain.gain.exponentialRampToValueAtTime(0.001, now + 0.07);
 
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getSfxOutput(ctx));
 
       osc.start(now);
       osc.stop(now + 0.07);
@@ -1012,7 +1100,7 @@ async function playScissorsSafe(): Promise<void> {
   gain.gain.exponentialRampToValueAtTime(0.01, now + 0.4);
 
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getSfxOutput(ctx));
 
   osc.start(now);
   osc.stop(now + 0.4);
@@ -1029,7 +1117,7 @@ async function playScissorsSafe(): Promise<void> {
   shimmerGain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
 
   shimmer.connect(shimmerGain);
-  shimmerGain.connect(ctx.destination);
+  shimmerGain.connect(getSfxOutput(ctx));
 
   shimmer.start(now + 0.02);
   shimmer.stop(now + 0.3);
@@ -1196,7 +1284,7 @@ export async function preloadSounds(): Promise<void> {
   const gain = ctx.createGain();
   gain.gain.setValueAtTime(0, ctx.currentTime);
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getSfxOutput(ctx));
   osc.start();
   osc.stop(ctx.currentTime + 0.001);
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Fragment, useState, useEffect, useCallback, useRef } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id, Doc } from "../../convex/_generated/dataModel";
@@ -7,10 +7,57 @@ import { Timer } from "../components/Timer";
 import type { RopeClimbingState } from "../../lib/ropeTypes";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import { downloadFile, fileTimestamp } from "../lib/download";
 import { PRESENCE_TIMEOUT_MS } from "../../lib/constants";
 import { ConfirmationModal, useConfirmation } from "../components/ConfirmationModal";
 import { AIQuestionModal } from "../components/AIQuestionModal";
+import { TeamLeaderboard } from "../components/TeamLeaderboard";
+import { QuizLibrary, SaveToLibraryButton } from "../components/QuizLibrary";
+import { HostAccountPanel } from "../components/HostAccountPanel";
+import { CoHostPanel, HostActivityLog } from "../components/CoHostPanel";
+import { ImportQuestionsDialog, type ImportPreview } from "../components/ImportQuestionsDialog";
+import { SessionReportView } from "../components/SessionReportView";
+import { ArchivedSessionView, SessionArchive } from "../components/SessionArchive";
+import { LeaguePanel } from "../components/LeaguePanel";
+import { SelfPacedProgress } from "../components/SelfPacedProgress";
+import { ModerationQueue } from "../components/ModerationQueue";
+import { ImageAttachment, type ImageRef } from "../components/ImageAttachment";
+import { AudioClipAttachment, type AudioRef } from "../components/AudioClipAttachment";
 import type { QuestionCategory } from "../../lib/sampleQuestions";
+import { DEFAULT_PENALTY_MODE, FIXED_SLIP, PERCENT_SLIP, type PenaltyMode } from "../../lib/elevation";
+import {
+  DEFAULT_SCORING_STRATEGY,
+  DEFAULT_STREAK_STEP,
+  MAX_STREAK_LENGTH,
+  SCORING_STRATEGIES,
+  SCORING_STRATEGY_INFO,
+  type ScoringStrategy,
+} from "../../lib/scoring";
+import {
+  detectDelimiter,
+  parseQuestionSheet,
+  questionsToSheet,
+  validateQuestionRecords,
+  type QuestionRecord,
+} from "../../lib/questionSheet";
+import { RATING_SCALE_INFO, RATING_SCALES, type RatingScale } from "../../lib/survey";
+import {
+  DEFAULT_ROUND_MULTIPLIER,
+  MAX_ROUND_NAME_LENGTH,
+  ROUND_MULTIPLIERS,
+  ROUND_TIME_LIMITS,
+  startsRound,
+} from "../../lib/rounds";
+import {
+  getIntermissionPhases,
+  getPreviousIntermissionPhase,
+  getUpcomingIntermissionPhase,
+  INTERMISSION_INTERVALS,
+  INTERMISSION_PHASE_LABELS,
+  INTERMISSION_PHASES,
+  isIntermissionPhase,
+  type IntermissionPhase,
+} from "../../lib/intermission";
 
 // Helper to check if a player is currently active based on heartbeat
 function isPlayerActive(player: { lastSeenAt?: number }): boolean {
@@ -21,7 +68,7 @@ function isPlayerActive(player: { lastSeenAt?: number }): boolean {
 
 // Types for host action button
 type SessionStatus = "lobby" | "active" | "finished";
-type QuestionPhase = "pre_game" | "question_shown" | "answers_shown" | "revealed" | "results" | undefined;
+type QuestionPhase = "pre_game" | "round_intro" | "question_shown" | "answers_shown" | "revealed" | "results" | IntermissionPhase | undefined;
 
 interface HostActionConfig {
   label: string;
@@ -39,6 +86,8 @@ function useHostAction(
   questionPhase: QuestionPhase,
   enabledQuestionCount: number,
   currentQuestionIndex: number,
+  nextStartsRound: boolean,
+  nextIntermissionPhase: IntermissionPhase | null,
   onBeforeStart?: () => Promise<void>
 ): HostActionConfig | null {
   const startSession = useMutation(api.sessions.start);
@@ -51,6 +100,7 @@ function useHostAction(
   if (!sessionId || !sessionStatus) return null;
 
   const isLastQuestion = currentQuestionIndex >= enabledQuestionCount - 1;
+  const nextLabel = isLastQuestion ? "End Game" : nextStartsRound ? "Next Round" : "Next Question";
 
   switch (sessionStatus) {
     case "lobby":
@@ -69,7 +119,13 @@ function useHostAction(
       switch (questionPhase) {
         case "pre_game":
           return {
-            label: "First Question",
+            label: nextStartsRound ? "First Round" : "First Question",
+            action: async () => { await nextQuestion({ sessionId, hostId }); },
+            disabled: false,
+          };
+        case "round_intro":
+          return {
+            label: "Start Round",
             action: async () => { await nextQuestion({ sessionId, hostId }); },
             disabled: false,
           };
@@ -93,10 +149,19 @@ function useHostAction(
           };
         case "results":
           return {
-            label: isLastQuestion ? "End Game" : "Next Question",
+            label: nextIntermissionPhase ? "Intermission" : nextLabel,
+            action: async () => { await nextQuestion({ sessionId, hostId }); },
+            disabled: false,
+            isDestructive: isLastQuestion && !nextIntermissionPhase,
+          };
+        case "intermission_standings":
+        case "intermission_podium":
+        case "intermission_countdown":
+          return {
+            label: nextIntermissionPhase ? `Show ${INTERMISSION_PHASE_LABELS[nextIntermissionPhase]}` : nextLabel,
             action: async () => { await nextQuestion({ sessionId, hostId }); },
             disabled: false,
-            isDestructive: isLastQuestion,
+            isDestructive: isLastQuestion && !nextIntermissionPhase,
           };
         default:
           return null;
@@ -123,7 +188,9 @@ function useBackAction(
   hostId: string,
   sessionStatus: SessionStatus | undefined,
   questionPhase: QuestionPhase,
-  currentQuestionIndex: number
+  currentQuestionIndex: number,
+  currentStartsRound: boolean,
+  previousIntermissionPhase: IntermissionPhase | null
 ): HostActionConfig | null {
   const previousPhase = useMutation(api.sessions.previousPhase);
 
@@ -142,6 +209,15 @@ function useBackAction(
         disabled: false,
         isDestructive: false, // No answers or progress to lose yet
       };
+    case "intermission_standings":
+    case "intermission_podium":
+    case "intermission_countdown":
+      return {
+        label: `<- ${previousIntermissionPhase ? INTERMISSION_PHASE_LABELS[previousIntermissionPhase] : "Results"}`,
+        action: async () => { await previousPhase({ sessionId, hostId }); },
+        disabled: false,
+        isDestructive: false,
+      };
     case "results":
       return {
         label: "<- Revealed",
@@ -167,6 +243,15 @@ function useBackAction(
         confirmMessage: "This will delete all answers for this question. Continue?",
       };
     case "question_shown":
+    case "round_intro":
+      if (questionPhase === "question_shown" && currentStartsRound) {
+        return {
+          label: "<- Round Intro",
+          action: async () => { await previousPhase({ sessionId, hostId }); },
+          disabled: false,
+          isDestructive: false,
+        };
+      }
       if (currentQuestionIndex > 0) {
         return {
           label: `<- Q${currentQuestionIndex} Results`,
@@ -196,6 +281,10 @@ function HostActionButton({
   questionPhase,
   enabledQuestionCount,
   currentQuestionIndex,
+  currentStartsRound,
+  nextStartsRound,
+  nextIntermissionPhase,
+  previousIntermissionPhase,
   onBeforeStart,
 }: {
   sessionId: Id<"sessions">;
@@ -204,6 +293,12 @@ function HostActionButton({
   questionPhase: QuestionPhase;
   enabledQuestionCount: number;
   currentQuestionIndex: number;
+  /** The current question opens a round / the one after it does */
+  currentStartsRound: boolean;
+  nextStartsRound: boolean;
+  /** The intermission screen advancing leads to / going back leads to, if any */
+  nextIntermissionPhase: IntermissionPhase | null;
+  previousIntermissionPhase: IntermissionPhase | null;
   onBeforeStart?: () => Promise<void>;
 }) {
   const [isLoading, setIsLoading] = useState(false);
@@ -218,6 +313,8 @@ function HostActionButton({
     questionPhase,
     enabledQuestionCount,
     currentQuestionIndex,
+    nextStartsRound,
+    nextIntermissionPhase,
     onBeforeStart
   );
 
@@ -226,7 +323,9 @@ function HostActionButton({
     hostId,
     sessionStatus,
     questionPhase,
-    currentQuestionIndex
+    currentQuestionIndex,
+    currentStartsRound,
+    previousIntermissionPhase
   );
 
   const executeAction = useCallback(async () => {
@@ -375,20 +474,42 @@ interface Props {
   initialToken?: string | null;
 }
 
+// Default window for a self-paced game when the host first switches it on
+const DEFAULT_ASYNC_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Wrong-answer penalty choices for the lobby settings
+const PENALTY_MODE_OPTIONS: { value: PenaltyMode; label: string }[] = [
+  { value: "none", label: "No penalty - just no climb" },
+  { value: "fixedSlip", label: `Slip ${FIXED_SLIP}m` },
+  { value: "percentSlip", label: `Slip ${PERCENT_SLIP * 100}% of elevation` },
+  { value: "checkpoint", label: "Slip back to the last checkpoint" },
+];
+
+// Streak multiplier steps offered to hosts (multiplier added per correct answer in a row)
+const STREAK_STEP_OPTIONS = [0.05, 0.1, 0.2, 0.3];
+
+// Format a timestamp for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+const HOST_ID_KEY = "blobby-host-id";
+
 // Get or create a persistent hostId from localStorage
 function getHostId(): string {
-  const key = "blobby-host-id";
-  let hostId = localStorage.getItem(key);
+  let hostId = localStorage.getItem(HOST_ID_KEY);
   if (!hostId) {
     hostId = crypto.randomUUID();
-    localStorage.setItem(key, hostId);
+    localStorage.setItem(HOST_ID_KEY, hostId);
   }
   return hostId;
 }
 
 export function AdminView({ onBack, initialCode, initialToken }: Props) {
   const [sessionId, setSessionId] = useState<Id<"sessions"> | null>(null);
-  const [hostId] = useState(getHostId);
+  const [hostId, setHostId] = useState(getHostId);
   const [copiedCode, setCopiedCode] = useState(false);
   const [copiedPlayLink, setCopiedPlayLink] = useState(false);
   const [copiedHostLink, setCopiedHostLink] = useState(false);
@@ -398,22 +519,40 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
   const [questionCount, setQuestionCount] = useState(10);
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [shuffleOnStart, setShuffleOnStart] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [archivedSessionId, setArchivedSessionId] = useState<Id<"sessions"> | null>(null);
   const confirmation = useConfirmation();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const createSession = useMutation(api.sessions.create);
   const deleteSession = useMutation(api.sessions.remove);
   const backToLobby = useMutation(api.sessions.backToLobby);
+  const updateTimerSettings = useMutation(api.sessions.updateTimerSettings);
+  const replayAudio = useMutation(api.sessions.replayAudio);
+  const updateMode = useMutation(api.sessions.updateMode);
+  const updatePenaltyMode = useMutation(api.sessions.updatePenaltyMode);
+  const updateAnonymous = useMutation(api.sessions.updateAnonymous);
+  const updateIntermissionSettings = useMutation(api.sessions.updateIntermissionSettings);
+  const startIntermission = useMutation(api.sessions.startIntermission);
+  const updateScoringStrategy = useMutation(api.sessions.updateScoringStrategy);
   const regenerateQuestions = useMutation(api.sessions.regenerateQuestions);
   const shuffleQuestionsMutation = useMutation(api.questions.shuffleQuestions);
   const exportQuestionsQuery = useQuery(
     api.questions.exportQuestions,
-    sessionId ? { sessionId } : "skip"
+    sessionId ? { sessionId, hostId } : "skip"
   );
   const importQuestionsMutation = useMutation(api.questions.importQuestions);
   const categoryInfo = useQuery(api.sessions.getCategoryInfo);
 
   const existingSessions = useQuery(api.sessions.listByHost, { hostId });
+  const myRole = useQuery(
+    api.hosts.getMyRole,
+    sessionId ? { sessionId, hostId } : "skip"
+  );
+  const isOwner = myRole?.role === "owner";
 
   // Validate session from shareable host link if provided
   const sessionFromLink = useQuery(
@@ -433,8 +572,20 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
   );
   const questions = useQuery(
     api.questions.listBySession,
+    sessionId ? { sessionId, hostId } : "skip"
+  );
+  const teams = useQuery(
+    api.teams.listBySession,
+    sessionId ? { sessionId } : "skip"
+  );
+  const rounds = useQuery(
+    api.rounds.listBySession,
     sessionId ? { sessionId } : "skip"
   );
+  const currentRound = useQuery(
+    api.rounds.getCurrentRound,
+    sessionId && session?.status === "active" ? { sessionId } : "skip"
+  );
   // Rope climbing state for active question visualization
   // Only subscribe when game is active (session exists and not in lobby/finished)
   const ropeClimbingState = useQuery(
@@ -446,6 +597,7 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
   const timingInfo = ropeClimbingState
     ? {
         firstAnsweredAt: ropeClimbingState.timing.firstAnsweredAt,
+        deadline: ropeClimbingState.timing.deadline,
         timeLimit: ropeClimbingState.question.timeLimit,
         totalAnswers: ropeClimbingState.answeredCount,
       }
@@ -484,9 +636,16 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     }
   }, [session, sessionId]);
 
-  async function handleCreate() {
+  // Signing in or out swaps which hostId this device acts as
+  function handleHostIdChange(nextHostId: string) {
+    localStorage.setItem(HOST_ID_KEY, nextHostId);
+    setHostId(nextHostId);
+    setSessionId(null);
+  }
+
+  async function handleCreate(quizId?: Id<"quizzes">) {
     try {
-      const result = await createSession({ hostId });
+      const result = await createSession({ hostId, quizId });
       setSessionId(result.sessionId);
       setAdminError(null);
     } catch (err) {
@@ -515,6 +674,90 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     });
   }
 
+  async function handleReplayAudio() {
+    if (!sessionId) return;
+    try {
+      await replayAudio({ sessionId, hostId });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleTimerSettingsChange(settings: { autoReveal: boolean; autoAdvance: boolean }) {
+    if (!sessionId) return;
+    try {
+      await updateTimerSettings({ sessionId, hostId, ...settings });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleScoringStrategyChange(scoringStrategy: ScoringStrategy, streakStep?: number) {
+    if (!sessionId) return;
+    try {
+      await updateScoringStrategy({ sessionId, hostId, scoringStrategy, streakStep });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handlePenaltyModeChange(penaltyMode: PenaltyMode) {
+    if (!sessionId) return;
+    try {
+      await updatePenaltyMode({ sessionId, hostId, penaltyMode });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleAnonymousChange(anonymous: boolean) {
+    if (!sessionId) return;
+    try {
+      await updateAnonymous({ sessionId, hostId, anonymous });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleIntermissionSettingsChange(settings: {
+    intermissionEvery: number | null;
+    intermissionBetweenRounds: boolean;
+    intermissionPhases: IntermissionPhase[];
+  }) {
+    if (!sessionId) return;
+    try {
+      await updateIntermissionSettings({ sessionId, hostId, ...settings });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleStartIntermission() {
+    if (!sessionId) return;
+    try {
+      await startIntermission({ sessionId, hostId });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleModeChange(mode: "live" | "async", asyncDeadline?: number) {
+    if (!sessionId) return;
+    try {
+      await updateMode({ sessionId, hostId, mode, asyncDeadline });
+      setAdminError(null);
+    } catch (err) {
+      setAdminError(getFriendlyErrorMessage(err));
+    }
+  }
+
   function handleBackToLobby() {
     if (!sessionId) return;
     confirmation.confirm({
@@ -594,25 +837,25 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     }
   }
 
-  function handleExportQuestions() {
+  function handleExportQuestions(format: "json" | "csv") {
     if (!session || !exportQuestionsQuery) return;
 
     try {
-      const jsonString = JSON.stringify(exportQuestionsQuery, null, 2);
-      const blob = new Blob([jsonString], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
-      link.download = `questions-${session.code}-${timestamp}.json`;
-      link.click();
-      URL.revokeObjectURL(url);
+      const content = format === "json"
+        ? JSON.stringify(exportQuestionsQuery, null, 2)
+        : questionsToSheet(exportQuestionsQuery.questions, ",");
+      downloadFile(
+        content,
+        format === "json" ? "application/json" : "text/csv",
+        `questions-${session.code}-${fileTimestamp()}.${format}`
+      );
       setAdminError(null);
     } catch (err) {
       setAdminError(getFriendlyErrorMessage(err));
     }
   }
 
+  // Parse and validate the chosen file, then show the import dialog (nothing is imported yet)
   async function handleImportQuestions(e: React.ChangeEvent<HTMLInputElement>) {
     if (!sessionId) return;
     const file = e.target.files?.[0];
@@ -620,20 +863,27 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
 
     try {
       const text = await file.text();
-      const data = JSON.parse(text) as { questions: Array<{ text: string; options: string[]; correctIndex: number; timeLimit?: number }> };
 
-      // Validate format
-      if (!data.questions || !Array.isArray(data.questions)) {
-        throw new Error("Invalid file format: missing 'questions' array");
-      }
+      if (file.name.toLowerCase().endsWith(".json")) {
+        const data = JSON.parse(text) as { questions: QuestionRecord[] };
 
-      // Import questions
-      await importQuestionsMutation({
-        sessionId,
-        hostId,
-        questions: data.questions,
-      });
+        // Validate format
+        if (!data.questions || !Array.isArray(data.questions)) {
+          throw new Error("Invalid file format: missing 'questions' array");
+        }
+
+        setImportPreview({
+          fileName: file.name,
+          questions: data.questions,
+          errors: validateQuestionRecords(data.questions),
+          rowLabel: "Question",
+        });
+      } else {
+        const { questions, errors } = parseQuestionSheet(text, detectDelimiter(text, file.name));
+        setImportPreview({ fileName: file.name, questions, errors, rowLabel: "Row" });
+      }
 
+      setImportError(null);
       setAdminError(null);
     } catch (err) {
       if (err instanceof SyntaxError) {
@@ -649,6 +899,25 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     }
   }
 
+  async function handleConfirmImport() {
+    if (!sessionId || !importPreview) return;
+
+    setIsImporting(true);
+    try {
+      await importQuestionsMutation({
+        sessionId,
+        hostId,
+        questions: importPreview.questions,
+      });
+      setImportPreview(null);
+      setImportError(null);
+    } catch (err) {
+      setImportError(getFriendlyErrorMessage(err));
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
   async function handleRegenerateQuestions() {
     if (!sessionId || isRegenerating) return;
 
@@ -686,6 +955,19 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     setSelectedCategories([]);
   }
 
+  // Read-only final mountain of a finished session from the archive
+  if (!sessionId && archivedSessionId) {
+    return (
+      <div className="admin-view">
+        <header className="admin-header">
+          <button onClick={() => setArchivedSessionId(null)} className="back-btn">Back to Dashboard</button>
+          <h1>Final Mountain</h1>
+        </header>
+        <ArchivedSessionView sessionId={archivedSessionId} />
+      </div>
+    );
+  }
+
   // Session list view
   if (!sessionId || !session) {
     return (
@@ -704,8 +986,14 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
         </header>
 
         <div className="admin-content">
+          <HostAccountPanel
+            hostId={hostId}
+            onHostIdChange={handleHostIdChange}
+            onError={setAdminError}
+          />
+
           <div className="admin-create-section">
-            <button onClick={handleCreate} className="primary create-session-btn">
+            <button onClick={() => handleCreate()} className="primary create-session-btn">
               + Create New Session
             </button>
           </div>
@@ -719,12 +1007,27 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
                     key={s._id}
                     session={s}
                     onSelect={() => setSessionId(s._id)}
-                    onDelete={() => handleDelete(s._id)}
+                    onDelete={s.isCoHost ? undefined : () => handleDelete(s._id)}
                   />
                 ))}
               </ul>
             </section>
           )}
+
+          <QuizLibrary
+            hostId={hostId}
+            onStartSession={handleCreate}
+            onError={setAdminError}
+          />
+
+          <SessionArchive
+            hostId={hostId}
+            onView={setArchivedSessionId}
+            onRematch={setSessionId}
+            onError={setAdminError}
+          />
+
+          <LeaguePanel hostId={hostId} onError={setAdminError} />
         </div>
         <ConfirmationModal
           isOpen={confirmation.state.isOpen}
@@ -740,7 +1043,21 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
     );
   }
 
+  // Post-game analytics page
+  if (showReport) {
+    return (
+      <div className="admin-view">
+        <header className="admin-header">
+          <button onClick={() => setShowReport(false)} className="back-btn">Back to Dashboard</button>
+          <h1>Game Report: {session.code}</h1>
+        </header>
+        <SessionReportView sessionId={sessionId} />
+      </div>
+    );
+  }
+
   const enabledQuestions = questions?.filter(q => q.enabled !== false) ?? [];
+  const isAsync = session.mode === "async";
 
   // Sort players: active first (by elevation desc), then inactive (by elevation desc)
   const sortedPlayers = [...(players ?? [])].sort((a, b) => {
@@ -768,7 +1085,7 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
       {/* Top bar */}
       <header className="admin-header">
         <div className="header-left">
-          <button onClick={() => setSessionId(null)} className="back-btn">
+          <button onClick={() => { setSessionId(null); setShowReport(false); }} className="back-btn">
             Back to Sessions
           </button>
           <div className="session-code-display">
@@ -796,21 +1113,33 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
               {copiedHostLink ? "✓ Copied!" : "📋 Copy Host Link"}
             </button>
             <span className={`status-badge status-${session.status}`}>{session.status}</span>
+            {myRole?.role === "cohost" && <span className="cohost-badge">Co-host</span>}
           </div>
         </div>
         <div className="header-right">
           <button onClick={openSpectatorView} className="header-btn spectator-btn">
             Spectate
           </button>
+          {session.status !== "lobby" && (
+            <button
+              onClick={() => setShowReport(true)}
+              className="header-btn secondary"
+              title="Per-question and per-player analytics"
+            >
+              📊 Report
+            </button>
+          )}
           {session.status === "active" && (
             <>
-              <button
-                onClick={handleBackToLobby}
-                className="header-btn secondary"
-                title="Reset game and return to editing"
-              >
-                Reset
-              </button>
+              {isOwner && (
+                <button
+                  onClick={handleBackToLobby}
+                  className="header-btn secondary"
+                  title="Reset game and return to editing"
+                >
+                  Reset
+                </button>
+              )}
               <button
                 onClick={handleEndGameEarly}
                 className="header-btn danger"
@@ -820,13 +1149,15 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
               </button>
             </>
           )}
-          <button
-            onClick={() => handleDelete(sessionId)}
-            className="header-btn danger"
-            title="Delete session permanently"
-          >
-            Delete
-          </button>
+          {isOwner && (
+            <button
+              onClick={() => handleDelete(sessionId)}
+              className="header-btn danger"
+              title="Delete session permanently"
+            >
+              Delete
+            </button>
+          )}
         </div>
       </header>
 
@@ -850,76 +1181,255 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
               <span className="info-value">{enabledQuestions.length} enabled</span>
             </div>
           </div>
+          {session.status === "lobby" && (
+            <div className="timer-settings">
+              <label className="timer-setting">
+                <input
+                  type="checkbox"
+                  checked={isAsync}
+                  onChange={(e) => handleModeChange(
+                    e.target.checked ? "async" : "live",
+                    e.target.checked ? session.asyncDeadline ?? Date.now() + DEFAULT_ASYNC_WINDOW_MS : undefined
+                  )}
+                />
+                <span>Self-paced: players answer on their own time, results are revealed at a deadline</span>
+              </label>
+              {isAsync && (
+                <label className="async-deadline-setting">
+                  <span>Reveal results at</span>
+                  <input
+                    type="datetime-local"
+                    value={session.asyncDeadline ? toDateTimeLocal(session.asyncDeadline) : ""}
+                    onChange={(e) => {
+                      const deadline = new Date(e.target.value).getTime();
+                      if (Number.isFinite(deadline)) void handleModeChange("async", deadline);
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          )}
+          {session.status === "lobby" && (
+            <label className="scoring-setting">
+              <span>Bonus elevation</span>
+              <select
+                value={session.scoringStrategy ?? DEFAULT_SCORING_STRATEGY}
+                onChange={(e) => handleScoringStrategyChange(e.target.value as ScoringStrategy)}
+              >
+                {SCORING_STRATEGIES.map((strategy) => (
+                  <option key={strategy} value={strategy}>
+                    {SCORING_STRATEGY_INFO[strategy].label} - {SCORING_STRATEGY_INFO[strategy].description}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {session.status === "lobby" && session.scoringStrategy === "streak" && (
+            <label className="scoring-setting">
+              <span>Streak bonus</span>
+              <select
+                value={session.streakStep ?? DEFAULT_STREAK_STEP}
+                onChange={(e) => handleScoringStrategyChange("streak", Number(e.target.value))}
+              >
+                {STREAK_STEP_OPTIONS.map((step) => (
+                  <option key={step} value={step}>
+                    +{Math.round(step * 100)}% per answer in a row (up to +{Math.round(step * MAX_STREAK_LENGTH * 100)}%)
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {session.status === "lobby" && (
+            <label className="scoring-setting">
+              <span>Wrong answers</span>
+              <select
+                value={session.penaltyMode ?? DEFAULT_PENALTY_MODE}
+                onChange={(e) => handlePenaltyModeChange(e.target.value as PenaltyMode)}
+              >
+                {PENALTY_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {session.status === "lobby" && (
+            <label className="timer-setting anonymous-setting">
+              <input
+                type="checkbox"
+                checked={session.anonymous ?? false}
+                onChange={(e) => handleAnonymousChange(e.target.checked)}
+              />
+              <span>Anonymous answers: ropes show counts instead of names, nobody climbs, and reports only include totals</span>
+            </label>
+          )}
+          {session.status === "lobby" && !isAsync && (
+            <div className="timer-settings">
+              <label className="timer-setting">
+                <input
+                  type="checkbox"
+                  checked={session.autoReveal ?? false}
+                  onChange={(e) => handleTimerSettingsChange({
+                    autoReveal: e.target.checked,
+                    autoAdvance: session.autoAdvance ?? false,
+                  })}
+                />
+                <span>Server timer: start the clock when answers open and reveal automatically when time runs out</span>
+              </label>
+              <label className="timer-setting">
+                <input
+                  type="checkbox"
+                  checked={session.autoAdvance ?? false}
+                  onChange={(e) => handleTimerSettingsChange({
+                    autoReveal: session.autoReveal ?? false,
+                    autoAdvance: e.target.checked,
+                  })}
+                />
+                <span>Auto-advance: move on to results, the next question and its answers without clicking</span>
+              </label>
+            </div>
+          )}
+          {session.status === "lobby" && !isAsync && (
+            <IntermissionSettings session={session} onChange={handleIntermissionSettingsChange} />
+          )}
         </section>
 
+        {/* Self-paced games run themselves - the host just watches progress */}
+        {isAsync && session.status === "active" && <SelfPacedProgress sessionId={sessionId} />}
+
         {/* Main Action Button - Always visible, always in same spot */}
-        <section className="admin-section host-action-section">
-          <HostActionButton
-            sessionId={sessionId}
-            hostId={hostId}
-            sessionStatus={session.status as SessionStatus}
-            questionPhase={
-              // Derive pre_game phase when session is active but hasn't started questions yet
-              session.status === "active" && session.currentQuestionIndex === -1
-                ? "pre_game"
-                : (ropeClimbingState?.questionPhase as QuestionPhase)
-            }
-            enabledQuestionCount={enabledQuestions.length}
-            currentQuestionIndex={session.currentQuestionIndex}
-            onBeforeStart={shuffleOnStart ? async () => {
-              await shuffleQuestionsMutation({ sessionId, hostId });
-            } : undefined}
-          />
+        {!(isAsync && session.status === "active") && (
+          <section className="admin-section host-action-section">
+            <HostActionButton
+              sessionId={sessionId}
+              hostId={hostId}
+              sessionStatus={session.status as SessionStatus}
+              questionPhase={
+                // Derive pre_game phase when session is active but hasn't started questions yet
+                // (the rope state is empty then, and while a round's intro card is up)
+                session.status === "active" && session.currentQuestionIndex === -1
+                  ? "pre_game"
+                  : session.questionPhase === "round_intro" || isIntermissionPhase(session.questionPhase)
+                  ? session.questionPhase
+                  : (ropeClimbingState?.questionPhase as QuestionPhase)
+              }
+              enabledQuestionCount={enabledQuestions.length}
+              currentQuestionIndex={session.currentQuestionIndex}
+              currentStartsRound={startsRound(enabledQuestions, session.currentQuestionIndex)}
+              nextStartsRound={startsRound(enabledQuestions, session.currentQuestionIndex + 1)}
+              nextIntermissionPhase={getUpcomingIntermissionPhase(session, enabledQuestions)}
+              previousIntermissionPhase={
+                isIntermissionPhase(session.questionPhase)
+                  ? getPreviousIntermissionPhase(session, session.questionPhase)
+                  : null
+              }
+              onBeforeStart={shuffleOnStart ? async () => {
+                await shuffleQuestionsMutation({ sessionId, hostId });
+              } : undefined}
+            />
 
-          {/* Pre-game Status - right under action button */}
-          {session.status === "active" && session.currentQuestionIndex === -1 && (
-            <div className="current-question-status-inline pre-game-status">
-              <div className="cqs-header">
-                <h3>Game Started</h3>
-                <span className={`phase-badge phase-pre_game`}>
-                  Get Ready!
-                </span>
+            {/* Pre-game Status - right under action button */}
+            {session.status === "active" && session.currentQuestionIndex === -1 && (
+              <div className="current-question-status-inline pre-game-status">
+                <div className="cqs-header">
+                  <h3>Game Started</h3>
+                  <span className={`phase-badge phase-pre_game`}>
+                    Get Ready!
+                  </span>
+                </div>
+                <p className="pre-game-message">
+                  Players are at the base of the mountain, ready to climb!
+                </p>
               </div>
-              <p className="pre-game-message">
-                Players are at the base of the mountain, ready to climb!
-              </p>
-            </div>
-          )}
+            )}
 
-          {/* Current Question Status - right under action button */}
-          {session.status === "active" && currentQuestion && (
-            <div className="current-question-status-inline">
-              <div className="cqs-header">
-                <h3>Current Question</h3>
-                <span className="question-progress">
-                  Q{session.currentQuestionIndex + 1} / {enabledQuestions.length}
-                </span>
-                <span className={`phase-badge phase-${ropeClimbingState?.questionPhase ?? "unknown"}`}>
-                  {ropeClimbingState?.questionPhase === "question_shown" && "Showing Question"}
-                  {ropeClimbingState?.questionPhase === "answers_shown" && "Accepting Answers"}
-                  {ropeClimbingState?.questionPhase === "revealed" && "Revealed"}
-                  {ropeClimbingState?.questionPhase === "results" && "Results"}
-                </span>
+            {/* Round intro card is up on the big screen */}
+            {session.status === "active" && session.questionPhase === "round_intro" && currentRound && (
+              <div className="current-question-status-inline pre-game-status">
+                <div className="cqs-header">
+                  <h3>Round {currentRound.number} of {currentRound.totalRounds}</h3>
+                  <span className="phase-badge phase-round_intro">Round Intro</span>
+                </div>
+                <p className="pre-game-message">
+                  {currentRound.name} - {currentRound.questionCount} question{currentRound.questionCount !== 1 ? "s" : ""}
+                  {currentRound.multiplier !== 1 && ` worth ×${currentRound.multiplier} elevation`}
+                </p>
               </div>
-              {ropeClimbingState?.questionPhase !== "question_shown" && (
-                <Timer
-                  firstAnsweredAt={timingInfo?.firstAnsweredAt ?? null}
-                  timeLimit={currentQuestion.timeLimit}
-                  size="medium"
-                  isRevealed={ropeClimbingState?.timing.isRevealed ?? false}
-                  correctAnswer={ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.optionText}
-                  correctCount={ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.players.length}
-                  totalAnswered={ropeClimbingState?.answeredCount}
-                />
+            )}
+
+            {/* Intermission on the big screen, or a chance to insert one after these results */}
+            {session.status === "active" && isIntermissionPhase(session.questionPhase) && (
+              <div className="current-question-status-inline pre-game-status">
+                <div className="cqs-header">
+                  <h3>Intermission after Q{session.currentQuestionIndex + 1}</h3>
+                  <span className="phase-badge phase-intermission">
+                    {INTERMISSION_PHASE_LABELS[session.questionPhase]}
+                  </span>
+                </div>
+              </div>
+            )}
+            {session.status === "active" &&
+              session.questionPhase === "results" &&
+              !getUpcomingIntermissionPhase(session, enabledQuestions) && (
+                <button className="insert-intermission-button" onClick={handleStartIntermission}>
+                  ☕ Insert Intermission
+                </button>
               )}
-              <div className="answer-stats">
-                <span className="stat">
-                  {timingInfo?.totalAnswers ?? 0} / {players?.length ?? 0} answered
-                </span>
+
+            {/* Current Question Status - right under action button */}
+            {session.status === "active" && currentQuestion && (
+              <div className="current-question-status-inline">
+                <div className="cqs-header">
+                  <h3>Current Question</h3>
+                  <span className="question-progress">
+                    Q{session.currentQuestionIndex + 1} / {enabledQuestions.length}
+                  </span>
+                  <span className={`phase-badge phase-${ropeClimbingState?.questionPhase ?? "unknown"}`}>
+                    {ropeClimbingState?.questionPhase === "question_shown" && "Showing Question"}
+                    {ropeClimbingState?.questionPhase === "answers_shown" && "Accepting Answers"}
+                    {ropeClimbingState?.questionPhase === "revealed" && "Revealed"}
+                    {ropeClimbingState?.questionPhase === "results" && "Results"}
+                  </span>
+                </div>
+                {ropeClimbingState?.questionPhase !== "question_shown" && (
+                  <Timer
+                    firstAnsweredAt={timingInfo?.firstAnsweredAt ?? null}
+                    deadline={timingInfo?.deadline ?? null}
+                    timeLimit={currentQuestion.timeLimit}
+                    size="medium"
+                    isRevealed={ropeClimbingState?.timing.isRevealed ?? false}
+                    correctAnswer={ropeClimbingState?.estimation
+                      ? ropeClimbingState.estimation.answer?.toLocaleString()
+                      : ropeClimbingState?.ropes.filter(r => r.isCorrect === true).map(r => r.optionText).join(", ") || undefined}
+                    correctCount={ropeClimbingState?.question.multiSelect || ropeClimbingState?.estimation ? undefined : ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.playerCount}
+                    totalAnswered={ropeClimbingState?.answeredCount}
+                  />
+                )}
+                <div className="answer-stats">
+                  <span className="stat">
+                    {timingInfo?.totalAnswers ?? 0} / {players?.length ?? 0} answered
+                  </span>
+                  {session.phaseEndsAt !== undefined && (
+                    <span className="stat auto-advance-stat"> · ⏱ Server advances automatically</span>
+                  )}
+                </div>
+                {(currentQuestion.audioId || currentQuestion.audioUrl) && ropeClimbingState?.questionPhase !== "question_shown" && (
+                  <button className="replay-audio-btn" onClick={handleReplayAudio} title="Play the clip again on the big screen">
+                    🔊 Replay clip
+                  </button>
+                )}
               </div>
-            </div>
-          )}
-        </section>
+            )}
+          </section>
+        )}
+
+        {/* Free-text questions: the host groups typed answers into ropes while answers are open */}
+        {!isAsync && session.status === "active" && currentQuestion?.freeText && ropeClimbingState?.questionPhase !== "question_shown" && (
+          <ModerationQueue
+            questionId={currentQuestion._id}
+            hostId={hostId}
+            isOpen={ropeClimbingState?.questionPhase === "answers_shown"}
+          />
+        )}
 
         {/* Questions section */}
         <section className="admin-section questions-section">
@@ -927,27 +1437,39 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
             <h2>Questions ({questions?.length ?? 0})</h2>
             <div className="question-actions-toolbar">
               {questions && questions.length > 0 && (
-                <button
-                  onClick={handleExportQuestions}
-                  className="export-button"
-                  title="Download questions as JSON file"
-                >
-                  📥 Export Questions
-                </button>
+                <>
+                  <button
+                    onClick={() => handleExportQuestions("json")}
+                    className="export-button"
+                    title="Download questions as JSON file"
+                  >
+                    📥 Export Questions
+                  </button>
+                  <button
+                    onClick={() => handleExportQuestions("csv")}
+                    className="export-button"
+                    title="Download questions as a CSV spreadsheet"
+                  >
+                    📥 Export CSV
+                  </button>
+                </>
+              )}
+              {questions && questions.length > 0 && (
+                <SaveToLibraryButton sessionId={sessionId} hostId={hostId} onError={setAdminError} />
               )}
               {session.status === "lobby" && (
                 <>
                   <button
                     onClick={() => fileInputRef.current?.click()}
                     className="import-button"
-                    title="Import questions from JSON file"
+                    title="Import questions from a JSON, CSV or TSV file"
                   >
                     📤 Import Questions
                   </button>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".json"
+                    accept=".json,.csv,.tsv"
                     style={{ display: "none" }}
                     onChange={handleImportQuestions}
                   />
@@ -1062,18 +1584,23 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
                   currentQuestion !== null &&
                   currentQuestion !== undefined &&
                   q.order < currentQuestion.order;
+                // Rounds are runs of consecutive questions - label where each one starts
+                const round = startsRound(questions, i) ? rounds?.find((r) => r._id === q.roundId) : undefined;
                 return (
-                  <QuestionItem
-                    key={q._id}
-                    question={q}
-                    index={i}
-                    hostId={hostId}
-                    isCurrent={currentQuestion?._id === q._id}
-                    canEdit={session.status === "lobby"}
-                    isFirst={i === 0}
-                    isLast={i === (questions?.length ?? 0) - 1}
-                    isCompleted={isCompleted}
-                  />
+                  <Fragment key={q._id}>
+                    {round && <li className="round-header">🏁 {round.name}</li>}
+                    <QuestionItem
+                      question={q}
+                      index={i}
+                      hostId={hostId}
+                      rounds={rounds ?? []}
+                      isCurrent={currentQuestion?._id === q._id}
+                      canEdit={session.status === "lobby"}
+                      isFirst={i === 0}
+                      isLast={i === (questions?.length ?? 0) - 1}
+                      isCompleted={isCompleted}
+                    />
+                  </Fragment>
                 );
               })}
             </ul>
@@ -1082,6 +1609,17 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
           )}
         </section>
 
+        {/* Rounds section - optional sections with their own settings */}
+        {session.status === "lobby" && <RoundsSection sessionId={sessionId} hostId={hostId} />}
+
+        {/* Teams section - optional team mode */}
+        <TeamsSection
+          sessionId={sessionId}
+          hostId={hostId}
+          isLobby={session.status === "lobby"}
+          teamScoring={session.teamScoring ?? "average"}
+        />
+
         {/* Players section - becomes leaderboard during results phase */}
         <section className={`admin-section players-section ${ropeClimbingState?.questionPhase === "results" ? "results-active" : ""}`}>
           <div className="section-header">
@@ -1106,8 +1644,10 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
                 <PlayerCard
                   key={p._id}
                   player={p}
+                  team={teams?.find((t) => t._id === p.teamId)}
                   rank={i + 1}
                   hostId={hostId}
+                  sessionCode={session.code}
                   isActive={isPlayerActive(p)}
                   showKickButton={session.status === "lobby" || !isPlayerActive(p)}
                 />
@@ -1117,6 +1657,9 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
             <p className="empty-message">No players have joined yet</p>
           )}
         </section>
+
+        {isOwner && <CoHostPanel sessionId={sessionId} hostId={hostId} />}
+        <HostActivityLog sessionId={sessionId} hostId={hostId} />
       </div>
       <ConfirmationModal
         isOpen={confirmation.state.isOpen}
@@ -1128,6 +1671,13 @@ export function AdminView({ onBack, initialCode, initialToken }: Props) {
         cancelText={confirmation.state.cancelText}
         variant={confirmation.state.variant}
       />
+      <ImportQuestionsDialog
+        preview={importPreview}
+        isImporting={isImporting}
+        importError={importError}
+        onConfirm={handleConfirmImport}
+        onClose={() => setImportPreview(null)}
+      />
       <AIQuestionModal
         isOpen={showAIModal}
         onClose={() => setShowAIModal(false)}
@@ -1144,9 +1694,10 @@ function SessionListItem({
   onSelect,
   onDelete
 }: {
-  session: Doc<"sessions">;
+  session: Omit<Doc<"sessions">, "hostId"> & { isCoHost: boolean };
   onSelect: () => void;
-  onDelete: () => void;
+  /** Omitted for co-hosted sessions - only the owner can delete */
+  onDelete?: () => void;
 }) {
   const questions = useQuery(api.questions.listBySession, { sessionId: session._id });
   const players = useQuery(api.players.listBySession, { sessionId: session._id });
@@ -1162,13 +1713,17 @@ function SessionListItem({
           {questions?.length ?? 0} questions | {players?.length ?? 0} players | {createdDate}
         </span>
       </div>
-      <button
-        onClick={(e) => { e.stopPropagation(); onDelete(); }}
-        className="delete-btn"
-        title="Delete session"
-      >
-        X
-      </button>
+      {onDelete ? (
+        <button
+          onClick={(e) => { e.stopPropagation(); onDelete(); }}
+          className="delete-btn"
+          title="Delete session"
+        >
+          X
+        </button>
+      ) : (
+        <span className="cohost-badge">Co-host</span>
+      )}
     </li>
   );
 }
@@ -1177,6 +1732,7 @@ function QuestionItem({
   question,
   index,
   hostId,
+  rounds,
   isCurrent,
   canEdit,
   isFirst,
@@ -1186,6 +1742,7 @@ function QuestionItem({
   question: Doc<"questions">;
   index: number;
   hostId: string;
+  rounds: Doc<"rounds">[];
   isCurrent: boolean;
   canEdit: boolean;
   isFirst: boolean;
@@ -1194,31 +1751,78 @@ function QuestionItem({
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [text, setText] = useState(question.text);
-  const [options, setOptions] = useState(question.options.map(o => o.text));
+  const [image, setImage] = useState<ImageRef | null>(toImageRef(question));
+  const [imageChanged, setImageChanged] = useState(false);
+  const [clip, setClip] = useState<AudioRef | null>(toAudioRef(question));
+  const [clipChanged, setClipChanged] = useState(false);
+  const [options, setOptions] = useState(question.options);
   const [correctIndex, setCorrectIndex] = useState(question.correctOptionIndex);
+  const [multiSelect, setMultiSelect] = useState((question.correctOptionIndices?.length ?? 0) > 0);
+  const [correctIndices, setCorrectIndices] = useState<number[]>(question.correctOptionIndices ?? []);
+  const [partialCredit, setPartialCredit] = useState(question.partialCredit ?? false);
+  const [numericAnswer, setNumericAnswer] = useState(question.numericAnswer?.toString() ?? "");
   const [followUpText, setFollowUpText] = useState(question.followUpText ?? "");
   const confirmation = useConfirmation();
+  const isEstimation = question.numericAnswer !== undefined;
+  const isFreeText = question.freeText === true;
+  const isSurvey = question.ratingScale !== undefined || question.wordCloud === true;
+  const [ratingScale, setRatingScale] = useState(question.ratingScale);
+  const [surveyScored, setSurveyScored] = useState(question.surveyScored ?? false);
 
   const updateQuestion = useMutation(api.questions.update);
   const deleteQuestion = useMutation(api.questions.remove);
   const reorderQuestion = useMutation(api.questions.reorder);
   const setEnabled = useMutation(api.questions.setEnabled);
+  const assignRound = useMutation(api.rounds.assignQuestion);
 
   // Reset form when question changes
   useEffect(() => {
     setText(question.text);
-    setOptions(question.options.map(o => o.text));
+    setImage(toImageRef(question));
+    setImageChanged(false);
+    setClip(toAudioRef(question));
+    setClipChanged(false);
+    setOptions(question.options);
     setCorrectIndex(question.correctOptionIndex);
+    setMultiSelect((question.correctOptionIndices?.length ?? 0) > 0);
+    setCorrectIndices(question.correctOptionIndices ?? []);
+    setPartialCredit(question.partialCredit ?? false);
+    setNumericAnswer(question.numericAnswer?.toString() ?? "");
+    setRatingScale(question.ratingScale);
+    setSurveyScored(question.surveyScored ?? false);
     setFollowUpText(question.followUpText ?? "");
   }, [question]);
 
   async function handleSave() {
+    // Typed-answer and survey questions have no options to save
+    if (isEstimation || isFreeText || isSurvey) {
+      if (isEstimation && (numericAnswer.trim() === "" || !Number.isFinite(Number(numericAnswer)))) return;
+      await updateQuestion({
+        questionId: question._id,
+        hostId,
+        text: text.trim(),
+        imageId: imageChanged ? image?.imageId ?? null : undefined,
+        audioId: clipChanged ? clip?.audioId ?? null : undefined,
+        numericAnswer: isEstimation ? Number(numericAnswer) : undefined,
+        ratingScale,
+        surveyScored: isSurvey ? surveyScored : undefined,
+        followUpText: followUpText.trim() || undefined,
+      });
+      setIsEditing(false);
+      return;
+    }
+
     await updateQuestion({
       questionId: question._id,
       hostId,
       text: text.trim(),
-      options: options.filter(o => o.trim()).map(o => ({ text: o.trim() })),
-      correctOptionIndex: correctIndex,
+      imageId: imageChanged ? image?.imageId ?? null : undefined,
+      audioId: clipChanged ? clip?.audioId ?? null : undefined,
+      options: options.filter(o => o.text.trim()).map(o => ({ ...o, text: o.text.trim() })),
+      correctOptionIndex: multiSelect ? undefined : correctIndex,
+      // Empty set switches a select-all question back to single-choice
+      correctOptionIndices: multiSelect ? correctIndices : [],
+      partialCredit: multiSelect ? partialCredit : undefined,
       followUpText: followUpText.trim() || undefined,
     });
     setIsEditing(false);
@@ -1245,6 +1849,10 @@ function QuestionItem({
     await reorderQuestion({ questionId: question._id, hostId, direction: "down" });
   }
 
+  async function handleRoundChange(roundId: string) {
+    await assignRound({ questionId: question._id, hostId, roundId: roundId ? (roundId as Id<"rounds">) : null });
+  }
+
   async function handleToggleEnabled() {
     const currentEnabled = question.enabled !== false;
     await setEnabled({ questionId: question._id, hostId, enabled: !currentEnabled });
@@ -1262,41 +1870,109 @@ function QuestionItem({
           onChange={(e) => setText(e.target.value)}
           placeholder="Question text"
         />
-        {options.map((opt, i) => (
-          <div key={i} className="option-row">
-            <input
-              type="text"
-              value={opt}
-              onChange={(e) => {
-                const newOpts = [...options];
-                newOpts[i] = e.target.value;
-                setOptions(newOpts);
-              }}
-              placeholder={`Option ${i + 1}`}
-            />
-            <label>
+        <ImageAttachment
+          sessionId={question.sessionId}
+          hostId={hostId}
+          image={image}
+          onChange={(next) => {
+            setImage(next);
+            setImageChanged(true);
+          }}
+        />
+        <AudioClipAttachment
+          sessionId={question.sessionId}
+          hostId={hostId}
+          clip={clip}
+          onChange={(next) => {
+            setClip(next);
+            setClipChanged(true);
+          }}
+        />
+        {isSurvey ? (
+          <SurveyControls
+            kinds={question.wordCloud ? ["wordCloud"] : [...RATING_SCALES]}
+            survey={question.wordCloud ? "wordCloud" : ratingScale ?? ""}
+            onSurveyChange={(value) => setRatingScale(value as RatingScale)}
+            scored={surveyScored}
+            onScoredChange={setSurveyScored}
+          />
+        ) : isFreeText ? (
+          <p className="free-text-note">Players type their answers - there are no options to edit.</p>
+        ) : isEstimation ? (
+          <input
+            type="number"
+            step="any"
+            value={numericAnswer}
+            onChange={(e) => setNumericAnswer(e.target.value)}
+            placeholder="Correct answer (number)"
+          />
+        ) : (
+          <>
+          <MultiSelectControls
+            multiSelect={multiSelect}
+            onMultiSelectChange={setMultiSelect}
+            partialCredit={partialCredit}
+            onPartialCreditChange={setPartialCredit}
+          />
+          {options.map((opt, i) => (
+            <div key={i} className="option-row">
               <input
-                type="radio"
-                name={`correct-${question._id}`}
-                checked={correctIndex === i}
-                onChange={() => setCorrectIndex(i)}
+                type="text"
+                value={opt.text}
+                onChange={(e) => {
+                  const newOpts = [...options];
+                  newOpts[i] = { ...opt, text: e.target.value };
+                  setOptions(newOpts);
+                }}
+                placeholder={`Option ${i + 1}`}
               />
-              Correct
-            </label>
-            {options.length > 2 && (
-              <button
-                type="button"
-                onClick={() => setOptions(options.filter((_, j) => j !== i))}
-                className="remove-option"
-              >
-                X
-              </button>
-            )}
-          </div>
-        ))}
-        <button type="button" onClick={() => setOptions([...options, ""])}>
-          + Add Option
-        </button>
+              <ImageAttachment
+                sessionId={question.sessionId}
+                hostId={hostId}
+                image={toImageRef(opt)}
+                onChange={(next) => {
+                  const newOpts = [...options];
+                  newOpts[i] = { text: opt.text, ...next };
+                  setOptions(newOpts);
+                }}
+                small
+              />
+              <label>
+                {multiSelect ? (
+                  <input
+                    type="checkbox"
+                    checked={correctIndices.includes(i)}
+                    onChange={() => setCorrectIndices(toggleIndex(correctIndices, i))}
+                  />
+                ) : (
+                  <input
+                    type="radio"
+                    name={`correct-${question._id}`}
+                    checked={correctIndex === i}
+                    onChange={() => setCorrectIndex(i)}
+                  />
+                )}
+                Correct
+              </label>
+              {options.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setOptions(options.filter((_, j) => j !== i));
+                    setCorrectIndices(correctIndices.filter((j) => j !== i).map((j) => (j > i ? j - 1 : j)));
+                  }}
+                  className="remove-option"
+                >
+                  X
+                </button>
+              )}
+            </div>
+          ))}
+          <button type="button" onClick={() => setOptions([...options, { text: "" }])}>
+            + Add Option
+          </button>
+          </>
+        )}
         <textarea
           placeholder="Fun Fact / Follow-up (optional) - shown after answer reveal"
           value={followUpText}
@@ -1347,13 +2023,41 @@ function QuestionItem({
       </button>
 
       <span className="question-number">{index + 1}.</span>
-      <span className="question-text">{question.text}</span>
-      <span className="question-options">({question.options.length} options)</span>
+      {question.imageUrl && <img src={question.imageUrl} alt="" className="question-thumbnail" />}
+      <span className="question-text">
+        {(question.audioId || question.audioUrl) && <span title="Has an audio clip">🎵 </span>}
+        {question.text}
+      </span>
+      <span className="question-options">
+        {question.ratingScale
+          ? `(${RATING_SCALE_INFO[question.ratingScale].label}${question.surveyScored ? ", climbs" : ""})`
+          : question.wordCloud
+          ? `(word cloud${question.surveyScored ? ", climbs" : ""})`
+          : isFreeText
+          ? "(free text)"
+          : isEstimation
+          ? `(estimate: ${question.numericAnswer?.toLocaleString()})`
+          : `(${question.options.length} options${question.correctOptionIndices?.length ? `, select ${question.correctOptionIndices.length}` : ""})`}
+      </span>
 
       {isCompleted && (
         <span className="completed-badge">Completed</span>
       )}
 
+      {canEdit && rounds.length > 0 && (
+        <select
+          className="question-round-select"
+          value={question.roundId ?? ""}
+          onChange={(e) => handleRoundChange(e.target.value)}
+          title="Round"
+        >
+          <option value="">No round</option>
+          {rounds.map((round) => (
+            <option key={round._id} value={round._id}>{round.name}</option>
+          ))}
+        </select>
+      )}
+
       {canEdit && !isCompleted && (
         <div className="question-actions">
           <button onClick={() => setIsEditing(true)}>Edit</button>
@@ -1374,30 +2078,190 @@ function QuestionItem({
   );
 }
 
+// The picture on a question or option, if it has one
+function toImageRef(item: { imageId?: Id<"_storage">; imageUrl?: string }): ImageRef | null {
+  return item.imageId || item.imageUrl ? { imageId: item.imageId, imageUrl: item.imageUrl } : null;
+}
+
+// The audio clip on a question, if it has one
+function toAudioRef(question: Doc<"questions">): AudioRef | null {
+  return question.audioId || question.audioUrl ? { audioId: question.audioId, audioUrl: question.audioUrl } : null;
+}
+
+// Add or remove an option index from a "select all that apply" correct set
+function toggleIndex(indices: number[], index: number): number[] {
+  return indices.includes(index)
+    ? indices.filter((i) => i !== index)
+    : [...indices, index].sort((a, b) => a - b);
+}
+
+// Survey kind picked in a question form ("" = not a survey question)
+type SurveyKind = "" | RatingScale | "wordCloud";
+
+const SURVEY_KIND_LABELS: Record<SurveyKind, string> = {
+  "": "Not a survey",
+  fivePoint: RATING_SCALE_INFO.fivePoint.label,
+  nps: RATING_SCALE_INFO.nps.label,
+  wordCloud: "Word cloud",
+};
+
+function SurveyControls({
+  kinds,
+  survey,
+  onSurveyChange,
+  scored,
+  onScoredChange,
+}: {
+  kinds: SurveyKind[];
+  survey: SurveyKind;
+  onSurveyChange: (value: SurveyKind) => void;
+  scored: boolean;
+  onScoredChange: (value: boolean) => void;
+}) {
+  return (
+    <div className="multi-select-controls">
+      {kinds.length > 1 && (
+        <label title="Players rate or type a word - results show live on the big screen">
+          Survey{" "}
+          <select value={survey} onChange={(e) => onSurveyChange(e.target.value as SurveyKind)}>
+            {kinds.map((kind) => (
+              <option key={kind} value={kind}>{SURVEY_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {survey !== "" && (
+        <label title="Every answer climbs like a poll vote (otherwise survey answers don't move anyone)">
+          <input
+            type="checkbox"
+            checked={scored}
+            onChange={(e) => onScoredChange(e.target.checked)}
+          />
+          Climb for answering
+        </label>
+      )}
+    </div>
+  );
+}
+
+function MultiSelectControls({
+  multiSelect,
+  onMultiSelectChange,
+  partialCredit,
+  onPartialCreditChange,
+}: {
+  multiSelect: boolean;
+  onMultiSelectChange: (value: boolean) => void;
+  partialCredit: boolean;
+  onPartialCreditChange: (value: boolean) => void;
+}) {
+  return (
+    <div className="multi-select-controls">
+      <label>
+        <input
+          type="checkbox"
+          checked={multiSelect}
+          onChange={(e) => onMultiSelectChange(e.target.checked)}
+        />
+        Select all that apply
+      </label>
+      {multiSelect && (
+        <label title="Players earn a share of the elevation for partly correct picks (wrong picks cancel right ones)">
+          <input
+            type="checkbox"
+            checked={partialCredit}
+            onChange={(e) => onPartialCreditChange(e.target.checked)}
+          />
+          Partial credit
+        </label>
+      )}
+    </div>
+  );
+}
+
 function AddQuestionForm({ sessionId, hostId }: { sessionId: Id<"sessions">; hostId: string }) {
   const [text, setText] = useState("");
   const [options, setOptions] = useState(["", ""]);
   const [correctIndex, setCorrectIndex] = useState<number | undefined>();
+  const [multiSelect, setMultiSelect] = useState(false);
+  const [correctIndices, setCorrectIndices] = useState<number[]>([]);
+  const [partialCredit, setPartialCredit] = useState(false);
+  const [estimation, setEstimation] = useState(false);
+  const [numericAnswer, setNumericAnswer] = useState("");
+  const [freeText, setFreeText] = useState(false);
+  const [survey, setSurvey] = useState<SurveyKind>("");
+  const [surveyScored, setSurveyScored] = useState(false);
   const [followUpText, setFollowUpText] = useState("");
 
   const createQuestion = useMutation(api.questions.create);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!text.trim() || options.filter((o) => o.trim()).length < 2) return;
+    if (!text.trim()) return;
+
+    if (survey !== "") {
+      await createQuestion({
+        sessionId,
+        hostId,
+        text: text.trim(),
+        options: [],
+        ratingScale: survey === "wordCloud" ? undefined : survey,
+        wordCloud: survey === "wordCloud" || undefined,
+        surveyScored: surveyScored || undefined,
+        followUpText: followUpText.trim() || undefined,
+      });
+      setText("");
+      setFollowUpText("");
+      return;
+    }
+
+    if (freeText) {
+      await createQuestion({
+        sessionId,
+        hostId,
+        text: text.trim(),
+        options: [],
+        freeText: true,
+        followUpText: followUpText.trim() || undefined,
+      });
+      setText("");
+      setFollowUpText("");
+      return;
+    }
+
+    if (estimation) {
+      if (numericAnswer.trim() === "" || !Number.isFinite(Number(numericAnswer))) return;
+      await createQuestion({
+        sessionId,
+        hostId,
+        text: text.trim(),
+        options: [],
+        numericAnswer: Number(numericAnswer),
+        followUpText: followUpText.trim() || undefined,
+      });
+      setText("");
+      setNumericAnswer("");
+      setFollowUpText("");
+      return;
+    }
+
+    if (options.filter((o) => o.trim()).length < 2) return;
 
     await createQuestion({
       sessionId,
       hostId,
       text: text.trim(),
       options: options.filter((o) => o.trim()).map((o) => ({ text: o.trim() })),
-      correctOptionIndex: correctIndex,
+      correctOptionIndex: multiSelect ? undefined : correctIndex,
+      correctOptionIndices: multiSelect && correctIndices.length > 0 ? correctIndices : undefined,
+      partialCredit: multiSelect ? partialCredit : undefined,
       followUpText: followUpText.trim() || undefined,
     });
 
     setText("");
     setOptions(["", ""]);
     setCorrectIndex(undefined);
+    setCorrectIndices([]);
     setFollowUpText("");
   }
 
@@ -1409,32 +2273,109 @@ function AddQuestionForm({ sessionId, hostId }: { sessionId: Id<"sessions">; hos
         value={text}
         onChange={(e) => setText(e.target.value)}
       />
-      {options.map((opt, i) => (
-        <div key={i} className="option-row">
+      <div className="multi-select-controls">
+        <label title="Players type a number; the closest guesses climb highest">
           <input
-            type="text"
-            placeholder={`Option ${i + 1}`}
-            value={opt}
+            type="checkbox"
+            checked={estimation}
+            onChange={(e) => {
+              setEstimation(e.target.checked);
+              if (e.target.checked) {
+                setFreeText(false);
+                setSurvey("");
+              }
+            }}
+          />
+          Estimation (closest guess)
+        </label>
+        <label title="Players type anything; you group their answers into ropes while answers are open">
+          <input
+            type="checkbox"
+            checked={freeText}
             onChange={(e) => {
-              const newOpts = [...options];
-              newOpts[i] = e.target.value;
-              setOptions(newOpts);
+              setFreeText(e.target.checked);
+              if (e.target.checked) {
+                setEstimation(false);
+                setSurvey("");
+              }
             }}
           />
-          <label>
+          Free text (players type answers)
+        </label>
+      </div>
+      <SurveyControls
+        kinds={["", ...RATING_SCALES, "wordCloud"]}
+        survey={survey}
+        onSurveyChange={(value) => {
+          setSurvey(value);
+          if (value !== "") {
+            setEstimation(false);
+            setFreeText(false);
+          }
+        }}
+        scored={surveyScored}
+        onScoredChange={setSurveyScored}
+      />
+      {survey !== "" ? (
+        <p className="free-text-note">
+          No options or right answer - results show live on the big screen.
+        </p>
+      ) : freeText ? (
+        <p className="free-text-note">
+          No options to write - approved answers become the ropes while the question is open.
+        </p>
+      ) : estimation ? (
+        <input
+          type="number"
+          step="any"
+          placeholder="Correct answer (number)"
+          value={numericAnswer}
+          onChange={(e) => setNumericAnswer(e.target.value)}
+        />
+      ) : (
+        <>
+        <MultiSelectControls
+          multiSelect={multiSelect}
+          onMultiSelectChange={setMultiSelect}
+          partialCredit={partialCredit}
+          onPartialCreditChange={setPartialCredit}
+        />
+        {options.map((opt, i) => (
+          <div key={i} className="option-row">
             <input
-              type="radio"
-              name="correct"
-              checked={correctIndex === i}
-              onChange={() => setCorrectIndex(i)}
+              type="text"
+              placeholder={`Option ${i + 1}`}
+              value={opt}
+              onChange={(e) => {
+                const newOpts = [...options];
+                newOpts[i] = e.target.value;
+                setOptions(newOpts);
+              }}
             />
-            Correct
-          </label>
-        </div>
-      ))}
-      <button type="button" onClick={() => setOptions([...options, ""])}>
-        + Add Option
-      </button>
+            <label>
+              {multiSelect ? (
+                <input
+                  type="checkbox"
+                  checked={correctIndices.includes(i)}
+                  onChange={() => setCorrectIndices(toggleIndex(correctIndices, i))}
+                />
+              ) : (
+                <input
+                  type="radio"
+                  name="correct"
+                  checked={correctIndex === i}
+                  onChange={() => setCorrectIndex(i)}
+                />
+              )}
+              Correct
+            </label>
+          </div>
+        ))}
+        <button type="button" onClick={() => setOptions([...options, ""])}>
+          + Add Option
+        </button>
+        </>
+      )}
       <textarea
         placeholder="Fun Fact / Follow-up (optional) - shown after answer reveal"
         value={followUpText}
@@ -1447,23 +2388,353 @@ function AddQuestionForm({ sessionId, hostId }: { sessionId: Id<"sessions">; hos
   );
 }
 
+function TeamsSection({
+  sessionId,
+  hostId,
+  isLobby,
+  teamScoring,
+}: {
+  sessionId: Id<"sessions">;
+  hostId: string;
+  isLobby: boolean;
+  teamScoring: "average" | "sum";
+}) {
+  const [teamName, setTeamName] = useState("");
+  const [teamError, setTeamError] = useState<string | null>(null);
+  const teams = useQuery(api.teams.listBySession, { sessionId });
+  const teamLeaderboard = useQuery(
+    api.teams.getLeaderboard,
+    !isLobby && teams && teams.length > 0 ? { sessionId } : "skip"
+  );
+  const createTeam = useMutation(api.teams.create);
+  const removeTeam = useMutation(api.teams.remove);
+  const updateTeamScoring = useMutation(api.sessions.updateTeamScoring);
+
+  // Team mode is opt-in: hide the section entirely once the game starts without teams
+  if (!isLobby && (!teams || teams.length === 0)) return null;
+
+  async function handleAddTeam(e: React.FormEvent) {
+    e.preventDefault();
+    if (!teamName.trim()) return;
+    try {
+      await createTeam({ sessionId, hostId, name: teamName });
+      setTeamName("");
+      setTeamError(null);
+    } catch (err) {
+      setTeamError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleRemoveTeam(teamId: Id<"teams">) {
+    try {
+      await removeTeam({ teamId, hostId });
+      setTeamError(null);
+    } catch (err) {
+      setTeamError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleScoringChange(value: "average" | "sum") {
+    try {
+      await updateTeamScoring({ sessionId, hostId, teamScoring: value });
+      setTeamError(null);
+    } catch (err) {
+      setTeamError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  return (
+    <section className="admin-section teams-section">
+      <div className="section-header">
+        <h2>Teams ({teams?.length ?? 0})</h2>
+        {isLobby && teams && teams.length > 0 && (
+          <label className="team-scoring-control">
+            Team elevation:
+            <select
+              value={teamScoring}
+              onChange={(e) => handleScoringChange(e.target.value as "average" | "sum")}
+            >
+              <option value="average">Average of members</option>
+              <option value="sum">Sum of members</option>
+            </select>
+          </label>
+        )}
+      </div>
+      {isLobby && (
+        <form onSubmit={handleAddTeam} className="add-team-form">
+          <input
+            type="text"
+            placeholder="Team name"
+            value={teamName}
+            maxLength={30}
+            onChange={(e) => setTeamName(e.target.value)}
+          />
+          <button type="submit" disabled={!teamName.trim()}>+ Add Team</button>
+        </form>
+      )}
+      {teamError && (
+        <ErrorMessage
+          message={teamError}
+          onDismiss={() => setTeamError(null)}
+          variant="inline"
+        />
+      )}
+      {isLobby ? (
+        teams && teams.length > 0 ? (
+          <ul className="team-list">
+            {teams.map((team) => (
+              <li key={team._id} className="team-chip" style={{ borderColor: team.color }}>
+                <span className="team-color-swatch" style={{ background: team.color }} />
+                <span>{team.name}</span>
+                <button
+                  onClick={() => handleRemoveTeam(team._id)}
+                  className="kick-btn"
+                  title="Remove team"
+                >
+                  X
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="empty-message">No teams - players climb solo. Add teams to enable team mode.</p>
+        )
+      ) : (
+        teamLeaderboard && <TeamLeaderboard teams={teamLeaderboard} compact />
+      )}
+    </section>
+  );
+}
+
+// Lobby settings for when intermissions start on their own and which screens they play
+function IntermissionSettings({
+  session,
+  onChange,
+}: {
+  session: Pick<Doc<"sessions">, "intermissionEvery" | "intermissionBetweenRounds" | "intermissionPhases">;
+  onChange: (settings: {
+    intermissionEvery: number | null;
+    intermissionBetweenRounds: boolean;
+    intermissionPhases: IntermissionPhase[];
+  }) => void;
+}) {
+  const settings = {
+    intermissionEvery: session.intermissionEvery ?? null,
+    intermissionBetweenRounds: session.intermissionBetweenRounds ?? false,
+    intermissionPhases: getIntermissionPhases(session),
+  };
+
+  function togglePhase(phase: IntermissionPhase, on: boolean) {
+    const phases = on
+      ? [...settings.intermissionPhases, phase]
+      : settings.intermissionPhases.filter((p) => p !== phase);
+    onChange({ ...settings, intermissionPhases: INTERMISSION_PHASES.filter((p) => phases.includes(p)) });
+  }
+
+  return (
+    <div className="timer-settings intermission-settings">
+      <label className="scoring-setting">
+        <span>Intermissions</span>
+        <select
+          value={settings.intermissionEvery ?? ""}
+          onChange={(e) => onChange({ ...settings, intermissionEvery: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">Only when I insert one</option>
+          {INTERMISSION_INTERVALS.map((every) => (
+            <option key={every} value={every}>Every {every} questions</option>
+          ))}
+        </select>
+      </label>
+      <label className="timer-setting">
+        <input
+          type="checkbox"
+          checked={settings.intermissionBetweenRounds}
+          onChange={(e) => onChange({ ...settings, intermissionBetweenRounds: e.target.checked })}
+        />
+        <span>Between rounds: take a break whenever a round ends</span>
+      </label>
+      <div className="intermission-phase-toggles">
+        {INTERMISSION_PHASES.map((phase) => (
+          <label key={phase} className="timer-setting">
+            <input
+              type="checkbox"
+              checked={settings.intermissionPhases.includes(phase)}
+              disabled={settings.intermissionPhases.length === 1 && settings.intermissionPhases.includes(phase)}
+              onChange={(e) => togglePhase(phase, e.target.checked)}
+            />
+            <span>{INTERMISSION_PHASE_LABELS[phase]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RoundsSection({
+  sessionId,
+  hostId,
+}: {
+  sessionId: Id<"sessions">;
+  hostId: string;
+}) {
+  const [roundName, setRoundName] = useState("");
+  const [roundError, setRoundError] = useState<string | null>(null);
+  const rounds = useQuery(api.rounds.listBySession, { sessionId });
+  const createRound = useMutation(api.rounds.create);
+  const updateRound = useMutation(api.rounds.update);
+  const removeRound = useMutation(api.rounds.remove);
+
+  async function handleAddRound(e: React.FormEvent) {
+    e.preventDefault();
+    if (!roundName.trim()) return;
+    try {
+      await createRound({ sessionId, hostId, name: roundName });
+      setRoundName("");
+      setRoundError(null);
+    } catch (err) {
+      setRoundError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleUpdateRound(
+    roundId: Id<"rounds">,
+    updates: { timeLimit?: number | null; multiplier?: number }
+  ) {
+    try {
+      await updateRound({ roundId, hostId, ...updates });
+      setRoundError(null);
+    } catch (err) {
+      setRoundError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleRemoveRound(roundId: Id<"rounds">) {
+    try {
+      await removeRound({ roundId, hostId });
+      setRoundError(null);
+    } catch (err) {
+      setRoundError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  return (
+    <section className="admin-section rounds-section">
+      <div className="section-header">
+        <h2>Rounds ({rounds?.length ?? 0})</h2>
+      </div>
+      <form onSubmit={handleAddRound} className="add-team-form">
+        <input
+          type="text"
+          placeholder="Round name"
+          value={roundName}
+          maxLength={MAX_ROUND_NAME_LENGTH}
+          onChange={(e) => setRoundName(e.target.value)}
+        />
+        <button type="submit" disabled={!roundName.trim()}>+ Add Round</button>
+      </form>
+      {roundError && (
+        <ErrorMessage
+          message={roundError}
+          onDismiss={() => setRoundError(null)}
+          variant="inline"
+        />
+      )}
+      {rounds && rounds.length > 0 ? (
+        <ul className="round-list">
+          {rounds.map((round) => (
+            <li key={round._id} className="round-row">
+              <span className="round-name">{round.name}</span>
+              <select
+                value={round.timeLimit ?? ""}
+                onChange={(e) => handleUpdateRound(round._id, {
+                  timeLimit: e.target.value ? Number(e.target.value) : null,
+                })}
+                title="Time limit for every question in this round"
+              >
+                <option value="">Question timers</option>
+                {ROUND_TIME_LIMITS.map((seconds) => (
+                  <option key={seconds} value={seconds}>{seconds}s each</option>
+                ))}
+              </select>
+              <select
+                value={round.multiplier ?? DEFAULT_ROUND_MULTIPLIER}
+                onChange={(e) => handleUpdateRound(round._id, { multiplier: Number(e.target.value) })}
+                title="Elevation multiplier"
+              >
+                {ROUND_MULTIPLIERS.map((multiplier) => (
+                  <option key={multiplier} value={multiplier}>×{multiplier}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleRemoveRound(round._id)}
+                className="kick-btn"
+                title="Remove round"
+              >
+                X
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="empty-message">No rounds - questions play as one run. Add rounds to split them into sections.</p>
+      )}
+    </section>
+  );
+}
+
 function PlayerCard({
   player,
+  team,
   rank,
   hostId,
+  sessionCode,
   isActive,
   showKickButton,
 }: {
   player: Doc<"players">;
+  team?: Doc<"teams">;
   rank: number;
   hostId: string;
+  sessionCode: string;
   isActive: boolean;
   showKickButton: boolean;
 }) {
   const [isKicking, setIsKicking] = useState(false);
   const [kickError, setKickError] = useState<string | null>(null);
+  const [rejoinLink, setRejoinLink] = useState<string | null>(null);
+  const [copiedRejoinLink, setCopiedRejoinLink] = useState(false);
   const confirmation = useConfirmation();
   const kickPlayer = useMutation(api.players.kick);
+  const resetPlayerToken = useMutation(api.players.resetToken);
+
+  // Issue a fresh link for a player who lost their device (or whose link leaked).
+  // The old device stops working; the new link rejoins with their progress.
+  function handleResetLink() {
+    confirmation.confirm({
+      title: "Reset Player Link",
+      message: `Make a new rejoin link for ${player.name}? Their current device will be signed out.`,
+      confirmText: "Reset Link",
+      cancelText: "Cancel",
+      variant: "default",
+      onConfirm: async () => {
+        setKickError(null);
+        try {
+          const { secretToken } = await resetPlayerToken({ playerId: player._id, hostId });
+          const link = `${window.location.origin}/play/${sessionCode}/${encodeURIComponent(player.name)}/${secretToken}`;
+          setRejoinLink(link);
+          try {
+            await navigator.clipboard.writeText(link);
+            setCopiedRejoinLink(true);
+            setTimeout(() => setCopiedRejoinLink(false), 2000);
+          } catch {
+            // Link stays on screen to copy by hand
+          }
+        } catch (err) {
+          setKickError(getFriendlyErrorMessage(err));
+        }
+      },
+    });
+  }
 
   function handleKick() {
     if (!player._id) {
@@ -1501,8 +2772,18 @@ function PlayerCard({
       <div className={`player-card ${rankClass} ${!isActive ? "inactive" : ""}`}>
         <span className="player-rank">#{rank}</span>
         <span className="player-name">{player.name}</span>
+        {team && (
+          <span className="team-badge" style={{ background: team.color }}>{team.name}</span>
+        )}
         {!isActive && <span className="inactive-badge">Inactive</span>}
         <span className="player-elevation">{player.elevation}m</span>
+        <button
+          onClick={handleResetLink}
+          className="reset-link-btn"
+          title="Reset this player's link (signs out their current device)"
+        >
+          {copiedRejoinLink ? "Copied!" : "🔗"}
+        </button>
         {showKickButton && (
           <button
             onClick={handleKick}
@@ -1522,6 +2803,12 @@ function PlayerCard({
           />
         )}
       </div>
+      {rejoinLink && (
+        <div className="rejoin-link">
+          <input type="text" readOnly value={rejoinLink} onFocus={(e) => e.target.select()} />
+          <button onClick={() => setRejoinLink(null)} className="kick-btn" title="Hide link">X</button>
+        </div>
+      )}
       <ConfirmationModal
         isOpen={confirmation.state.isOpen}
         onConfirm={confirmation.handleConfirm}
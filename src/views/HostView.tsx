@@ -44,7 +44,7 @@ export function HostView({ onBack }: Props) {
   );
   const questions = useQuery(
     api.questions.listBySession,
-    sessionId ? { sessionId } : "skip"
+    sessionId ? { sessionId, hostId } : "skip"
   );
   const currentQuestion = useQuery(
     api.questions.getCurrentQuestion,
@@ -199,7 +199,7 @@ export function HostView({ onBack }: Props) {
               size="large"
               isRevealed={ropeClimbingState?.timing.isRevealed ?? false}
               correctAnswer={ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.optionText}
-              correctCount={ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.players.length}
+              correctCount={ropeClimbingState?.ropes.find(r => r.isCorrect === true)?.playerCount}
               totalAnswered={ropeClimbingState?.answeredCount}
             />
           </div>
@@ -308,7 +308,7 @@ function SessionListItem({
   onSelect,
   onDelete
 }: {
-  session: Doc<"sessions">;
+  session: Omit<Doc<"sessions">, "hostId">;
   onSelect: () => void;
   onDelete: () => void;
 }) {
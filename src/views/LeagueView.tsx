@@ -0,0 +1,75 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Blob } from "../components/Blob";
+import { generateBlob } from "../lib/blobGenerator";
+import { LEAGUE_SCORING_LABELS } from "../../lib/league";
+import "./LeagueView.css";
+
+/**
+ * Public league table (/league/:code): everyone's points across the league's finished
+ * sessions, for a season leaderboard on the big screen or a shared link.
+ */
+export function LeagueView({ leagueCode, onBack }: { leagueCode: string; onBack: () => void }) {
+  const standings = useQuery(api.leagues.getStandings, { code: leagueCode });
+
+  if (standings === undefined) {
+    return (
+      <div className="league-view">
+        <p className="league-empty">Loading league...</p>
+      </div>
+    );
+  }
+
+  if (standings === null) {
+    return (
+      <div className="league-view">
+        <h1>League Not Found</h1>
+        <p className="league-empty">No league with code "{leagueCode}" exists.</p>
+        <button onClick={onBack} className="league-back-button">Back to Home</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="league-view">
+      <button onClick={onBack} className="league-back-button">Back</button>
+      <h1>{standings.name}</h1>
+      <p className="league-meta">
+        {standings.sessionCount} sessions played | Points: {LEAGUE_SCORING_LABELS[standings.scoring]}
+        {standings.lastPlayedAt && ` | Last played ${new Date(standings.lastPlayedAt).toLocaleDateString()}`}
+      </p>
+
+      {standings.table.length === 0 ? (
+        <p className="league-empty">No finished sessions in this league yet</p>
+      ) : (
+        <table className="league-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Climber</th>
+              <th>Points</th>
+              <th>Played</th>
+              <th>Wins</th>
+              <th>Best</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.table.map((row, index) => (
+              <tr key={index} className={index < 3 ? `rank-${index + 1}` : ""}>
+                <td className="league-rank">{index + 1}</td>
+                <td className="league-climber">
+                  <Blob config={generateBlob(row.name)} size={32} state="idle" />
+                  {row.name}
+                </td>
+                <td className="league-points">{row.points}</td>
+                <td>{row.sessionsPlayed}</td>
+                <td>{row.wins}</td>
+                <td>{row.bestElevation}m</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
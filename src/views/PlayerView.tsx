@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
 import "./PlayerView.css";
 import { Mountain } from "../components/mountain";
 import { Timer } from "../components/Timer";
@@ -16,7 +17,15 @@ import { Blob } from "../components/Blob";
 import { generateBlob } from "../lib/blobGenerator";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { ShareResults } from "../components/ShareResults";
+import { TeamLeaderboard } from "../components/TeamLeaderboard";
+import { SelfPacedPlay } from "../components/SelfPacedPlay";
+import { PowerUpBar } from "../components/PowerUpBar";
+import { WagerPicker } from "../components/WagerPicker";
 import { getFriendlyErrorMessage } from "../lib/errorMessages";
+import { MAX_TEXT_ANSWER_LENGTH } from "../../lib/freeText";
+import { isIntermissionPhase } from "../../lib/intermission";
+import { MAX_WORD_LENGTH, type RatingScale } from "../../lib/survey";
+import { RatingPicker } from "../components/RatingPicker";
 
 /**
  * Get a deterministic idle animation class based on player name
@@ -40,28 +49,30 @@ interface Props {
   onBack: () => void;
   initialCode?: string | null;
   initialName?: string | null;
+  initialToken?: string | null;
 }
 
-export function PlayerView({ onBack, initialCode, initialName }: Props) {
+export function PlayerView({ onBack, initialCode, initialName, initialToken }: Props) {
   // --- Session persistence (join/rejoin/leave, localStorage) ---
-  const persistence = useSessionPersistence({ initialCode, initialName });
+  const persistence = useSessionPersistence({ initialCode, initialName, initialToken });
   const {
     joinCode, setJoinCode, playerName, setPlayerName, nameInputRef,
-    playerId, sessionId, isRestoring, isRejoining, storedSession,
+    selectedTeamId, setSelectedTeamId, teams: joinTeams,
+    playerId, sessionId, secretToken, isRestoring, isRejoining, storedSession,
     checkStoredSession, error, setError, showLeaveConfirm, setShowLeaveConfirm,
     getByCode, handleJoin, handleRejoin, handleStartFresh, handleLeave,
     clearSessionForPlayer,
   } = persistence;
 
   // --- Heartbeat for presence tracking ---
-  usePlayerHeartbeat(playerId);
+  usePlayerHeartbeat(playerId, secretToken);
 
   // --- Game data subscriptions ---
-  const subs = useGameSubscriptions({ sessionId, playerId });
+  const subs = useGameSubscriptions({ sessionId, playerId, secretToken });
   const {
     session, player, currentQuestion, ropeClimbingState, playerRopeState,
-    players, playerContext, leaderboardSummary,
-    hasAnswered, timingInfo, questionPhase, shuffledAnswers,
+    players, playerContext, leaderboardSummary, teams, teamLeaderboard,
+    myPowerUps, hasAnswered, timingInfo, questionPhase, shuffledAnswers,
   } = subs;
 
   // --- Result reveal timing (synced with scissors animation) ---
@@ -86,11 +97,23 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
   // --- Timer and answer state ---
   const [timerExpired, setTimerExpired] = useState(false);
   const [answerError, setAnswerError] = useState<string | null>(null);
-
-  // Reset timerExpired and answerError when question changes
+  // Picks in progress for "select all that apply" questions (original option indices)
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  // Typed guess for estimation questions
+  const [guessInput, setGuessInput] = useState("");
+  // Typed answer for free-text and word-cloud questions
+  const [textInput, setTextInput] = useState("");
+  // Meters staked on the next answer (0 = no bet)
+  const [wager, setWager] = useState(0);
+
+  // Reset timerExpired, answerError, multi-select picks, typed answers and wager when question changes
   useEffect(() => {
     setTimerExpired(false);
     setAnswerError(null);
+    setSelectedOptions([]);
+    setGuessInput("");
+    setTextInput("");
+    setWager(0);
   }, [currentQuestion?._id]);
 
   // If restored session is invalid (player deleted, session gone), clear it
@@ -108,6 +131,7 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
   }, [session?.status, session?.code, player?.name, clearSessionForPlayer]);
 
   const submitAnswer = useMutation(api.answers.submit);
+  const setTeam = useMutation(api.players.setTeam);
 
   // Sound manager for immediate boop on answer submit
   const { play } = useSoundManager();
@@ -120,7 +144,7 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
   }, [joinCode, nameInputRef, playerName]);
 
   async function handleAnswer(optionIndex: number) {
-    if (!currentQuestion || !playerId) return;
+    if (!currentQuestion || !playerId || !secretToken) return;
     play("boop");
     navigator.vibrate?.(30);
 
@@ -128,7 +152,96 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
       await submitAnswer({
         questionId: currentQuestion._id,
         playerId,
+        secretToken,
         optionIndex,
+        wager: wager || undefined,
+      });
+      setAnswerError(null);
+    } catch (err) {
+      setAnswerError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  // Toggle a pick on a "select all that apply" question
+  function handleToggleOption(optionIndex: number) {
+    navigator.vibrate?.(10);
+    setSelectedOptions((prev) =>
+      prev.includes(optionIndex)
+        ? prev.filter((i) => i !== optionIndex)
+        : [...prev, optionIndex]
+    );
+  }
+
+  async function handleSubmitSelections() {
+    if (!currentQuestion || !playerId || !secretToken || selectedOptions.length === 0) return;
+    play("boop");
+    navigator.vibrate?.(30);
+
+    try {
+      await submitAnswer({
+        questionId: currentQuestion._id,
+        playerId,
+        secretToken,
+        optionIndices: selectedOptions,
+        wager: wager || undefined,
+      });
+      setAnswerError(null);
+    } catch (err) {
+      setAnswerError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleSubmitGuess(e: React.FormEvent) {
+    e.preventDefault();
+    const numericGuess = Number(guessInput);
+    if (!currentQuestion || !playerId || !secretToken || guessInput.trim() === "" || !Number.isFinite(numericGuess)) return;
+    play("boop");
+    navigator.vibrate?.(30);
+
+    try {
+      await submitAnswer({
+        questionId: currentQuestion._id,
+        playerId,
+        secretToken,
+        numericGuess,
+        wager: wager || undefined,
+      });
+      setAnswerError(null);
+    } catch (err) {
+      setAnswerError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleRate(rating: number) {
+    if (!currentQuestion || !playerId || !secretToken) return;
+    play("boop");
+    navigator.vibrate?.(30);
+
+    try {
+      await submitAnswer({
+        questionId: currentQuestion._id,
+        playerId,
+        secretToken,
+        rating,
+      });
+      setAnswerError(null);
+    } catch (err) {
+      setAnswerError(getFriendlyErrorMessage(err));
+    }
+  }
+
+  async function handleSubmitText(e: React.FormEvent) {
+    e.preventDefault();
+    if (!currentQuestion || !playerId || !secretToken || textInput.trim() === "") return;
+    play("boop");
+    navigator.vibrate?.(30);
+
+    try {
+      await submitAnswer({
+        questionId: currentQuestion._id,
+        playerId,
+        secretToken,
+        text: textInput,
       });
       setAnswerError(null);
     } catch (err) {
@@ -147,6 +260,44 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
     [player?.name]
   );
 
+  // Team color lookup for tinting blobs on the mountain (team mode)
+  const teamColors = useMemo(() =>
+    new Map((teams ?? []).map((t) => [t._id as string, t.color])),
+    [teams]
+  );
+  const myTeam = teams?.find((t) => t._id === player?.teamId) ?? null;
+
+  // "Select all that apply" questions collect several picks before submitting
+  const isMultiSelect = (currentQuestion?.correctOptionIndices?.length ?? 0) > 0;
+  // Estimation questions take a typed number instead of an option
+  const isEstimation = currentQuestion?.numericAnswer !== undefined;
+  // Free-text questions take a typed answer the host groups into ropes
+  const isFreeText = currentQuestion?.freeText === true;
+  // Survey questions take a rating or a word - opinions, not right or wrong
+  const ratingScale: RatingScale | null = currentQuestion?.ratingScale ?? null;
+  const isWordCloud = currentQuestion?.wordCloud === true;
+  const isSurvey = ratingScale !== null || isWordCloud;
+  // Options removed by this player's 50/50 power-up
+  const hiddenOptions = myPowerUps?.hiddenOptions ?? [];
+  // Wagers need a right answer to bet on and some elevation to stake (summiters are done betting)
+  const canWager = !!currentQuestion && !!player && player.summitPlace === undefined &&
+    (isMultiSelect || isEstimation || currentQuestion.correctOptionIndex !== undefined);
+  const answerOptions = useMemo(() =>
+    shuffledAnswers
+      ? shuffledAnswers.shuffledOptions
+      : (currentQuestion?.options ?? []).map((opt, i) => ({ option: opt, originalIndex: i, shuffledIndex: i })),
+    [shuffledAnswers, currentQuestion?.options]
+  );
+
+  async function handleSwitchTeam(teamId: Id<"teams">) {
+    if (!playerId || !secretToken) return;
+    try {
+      await setTeam({ playerId, secretToken, teamId });
+    } catch (err) {
+      setAnswerError(getFriendlyErrorMessage(err));
+    }
+  }
+
   // ═══════════════════════════════════════════════
   // RENDER
   // ═══════════════════════════════════════════════
@@ -224,12 +375,37 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
               setError("");
             }}
           />
+          {joinTeams && joinTeams.length > 0 && (
+            <div className="team-picker">
+              <p className="team-picker-label">Pick your team</p>
+              <div className="team-picker-options">
+                {joinTeams.map((team) => (
+                  <button
+                    key={team._id}
+                    type="button"
+                    className={`team-picker-option ${selectedTeamId === team._id ? "selected" : ""}`}
+                    style={{ borderColor: team.color }}
+                    onClick={() => {
+                      setSelectedTeamId(team._id);
+                      setError("");
+                    }}
+                  >
+                    <span className="team-color-dot" style={{ background: team.color }} />
+                    {team.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
           <ErrorMessage
             message={error}
             onDismiss={() => setError("")}
             variant="inline"
           />
-          <button type="submit" disabled={!getByCode || !playerName.trim()}>
+          <button
+            type="submit"
+            disabled={!getByCode || !playerName.trim() || (!!joinTeams?.length && !selectedTeamId)}
+          >
             Join
           </button>
         </form>
@@ -250,8 +426,26 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
           elevation={player?.elevation ?? 0}
           rank={leaderboardSummary?.currentRank ?? null}
           totalPlayers={leaderboardSummary?.totalPlayers ?? 0}
+          bestStreak={player?.bestStreak ?? 0}
         />
 
+        {leaderboardSummary?.longestStreak && (
+          <p className="longest-streak">
+            🔥 Longest streak: <strong>{leaderboardSummary.longestStreak.name}</strong>, {leaderboardSummary.longestStreak.streak} in a row
+          </p>
+        )}
+
+        {teamLeaderboard && teamLeaderboard.length > 0 && (
+          <>
+            <h3>Team Standings</h3>
+            <TeamLeaderboard
+              teams={teamLeaderboard}
+              currentTeamId={player?.teamId}
+              className="leaderboard-light"
+            />
+          </>
+        )}
+
         <h3>Leaderboard</h3>
         <Leaderboard
           players={leaderboardPlayers}
@@ -274,6 +468,31 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
             <MuteToggle size={32} />
           </div>
           <p className="session-code">Session: {session.code}</p>
+          {session.anonymous && (
+            <p className="anonymous-notice">🔒 Anonymous game - the host and big screen only see totals, never your answers</p>
+          )}
+
+          {teams && teams.length > 0 && (
+            <div className="team-picker">
+              <p className="team-picker-label">
+                {myTeam ? <>Climbing with <strong style={{ color: myTeam.color }}>{myTeam.name}</strong></> : "Pick your team"}
+              </p>
+              <div className="team-picker-options">
+                {teams.map((team) => (
+                  <button
+                    key={team._id}
+                    type="button"
+                    className={`team-picker-option ${player?.teamId === team._id ? "selected" : ""}`}
+                    style={{ borderColor: team.color }}
+                    onClick={() => handleSwitchTeam(team._id)}
+                  >
+                    <span className="team-color-dot" style={{ background: team.color }} />
+                    {team.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
 
           {otherPlayers.length > 0 && (
             <div className="other-players-blobs">
@@ -332,6 +551,28 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
     );
   }
 
+  // Self-paced game - each player works through the questions on their own clock
+  if (session?.status === "active" && session.mode === "async" && secretToken) {
+    return (
+      <div className="player-view">
+        <ErrorMessage
+          message={answerError}
+          onDismiss={() => setAnswerError(null)}
+          variant="toast"
+          autoDismissMs={4000}
+        />
+
+        <div className="score-bar">
+          <span>{player?.name}</span>
+          <span>{player?.elevation ?? 0}m</span>
+          <MuteToggle size={32} />
+        </div>
+
+        <SelfPacedPlay playerId={playerId} secretToken={secretToken} onError={setAnswerError} />
+      </div>
+    );
+  }
+
   // Game active - show current question
   return (
     <div className="player-view">
@@ -358,6 +599,9 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
             id: p._id,
             name: p.name,
             elevation: p.elevation,
+            teamId: p.teamId,
+            teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+            streak: p.currentStreak,
           }))}
           mode="player"
           currentPlayerElevation={playerContext.currentPlayer?.elevation ?? 0}
@@ -366,6 +610,7 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
           height={250}
           ropeClimbingState={ropeClimbingState}
           answerShuffleOrder={shuffledAnswers?.shuffledOptions.map(o => o.originalIndex)}
+          eliminatedOptions={hiddenOptions}
         />
       )}
 
@@ -385,42 +630,179 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
             </p>
           </div>
         </div>
+      ) : session?.status === "active" && session.questionPhase === "round_intro" ? (
+        <div className="player-pregame">
+          <div className="player-pregame-content">
+            <h2 className="player-pregame-title">New Round!</h2>
+            <p className="player-pregame-subtitle">Watch the big screen...</p>
+            {currentPlayerBlob && (
+              <div className="player-pregame-blob blob-bounce">
+                <Blob config={currentPlayerBlob} size={100} />
+              </div>
+            )}
+          </div>
+        </div>
+      ) : session?.status === "active" && isIntermissionPhase(session.questionPhase) ? (
+        <div className="player-pregame">
+          <div className="player-pregame-content">
+            <h2 className="player-pregame-title">Intermission</h2>
+            <p className="player-pregame-subtitle">Catch your breath - standings are on the big screen</p>
+            {currentPlayerBlob && (
+              <div className="player-pregame-blob blob-bounce">
+                <Blob config={currentPlayerBlob} size={100} />
+              </div>
+            )}
+            {leaderboardSummary?.currentRank && (
+              <p className="player-pregame-players">
+                You are #{leaderboardSummary.currentRank} of {leaderboardSummary.totalPlayers}
+              </p>
+            )}
+          </div>
+        </div>
       ) : currentQuestion ? (
         <div className="question">
           {questionPhase !== "question_shown" && (
             <div className="question-timer">
               <Timer
                 firstAnsweredAt={timingInfo?.firstAnsweredAt ?? null}
+                deadline={timingInfo?.deadline ?? null}
                 timeLimit={currentQuestion.timeLimit}
                 onExpire={() => setTimerExpired(true)}
                 size="medium"
                 isRevealed={playerRopeState?.timing.isRevealed ?? false}
-                correctAnswer={playerRopeState?.ropes.find(r => r.isCorrect === true)?.optionText}
-                correctCount={playerRopeState?.ropes.find(r => r.isCorrect === true)?.playerCount}
+                correctAnswer={isEstimation
+                  ? playerRopeState?.estimation?.answer?.toLocaleString()
+                  : playerRopeState?.ropes.filter(r => r.isCorrect === true).map(r => r.optionText).join(", ") || undefined}
+                correctCount={isMultiSelect || isEstimation ? undefined : playerRopeState?.ropes.find(r => r.isCorrect === true)?.playerCount}
                 totalAnswered={playerRopeState?.answeredCount}
               />
             </div>
           )}
 
           <h2>{currentQuestion.text}</h2>
+          {currentQuestion.imageUrl && (
+            <img src={currentQuestion.imageUrl} alt="" className="question-image" />
+          )}
+          {currentQuestion.audioUrl && questionPhase !== "question_shown" && (
+            <p className="audio-clip-hint">🎵 Listen to the big screen!</p>
+          )}
+          {isMultiSelect && questionPhase !== "question_shown" && (
+            <p className="multi-select-hint">Select all that apply</p>
+          )}
 
           {questionPhase === "question_shown" && (
             <p className="waiting">Waiting for host to show answers...</p>
           )}
 
+          {myPowerUps && playerId && secretToken && (questionPhase === "question_shown" || questionPhase === "answers_shown") && (
+            <PowerUpBar
+              playerId={playerId}
+              secretToken={secretToken}
+              powerUps={myPowerUps}
+              canUse={questionPhase === "answers_shown" && !timerExpired}
+              onError={setAnswerError}
+            />
+          )}
+
+          {questionPhase === "answers_shown" && !hasAnswered && !timerExpired && canWager && (
+            <WagerPicker elevation={player?.elevation ?? 0} wager={wager} onChange={setWager} />
+          )}
+
           {questionPhase === "answers_shown" && (
-            hasAnswered ? (
+            hasAnswered && playerRopeState?.freeText?.moderation === "pending" ? (
+              <p className="waiting">✍️ The host is sorting the answers...</p>
+            ) : hasAnswered && playerRopeState?.freeText?.moderation === "approved" ? (
+              <p className="waiting">
+                You're climbing "{playerRopeState.ropes[playerRopeState.myAnswer.optionIndex ?? -1]?.optionText}"
+              </p>
+            ) : hasAnswered && isSurvey ? (
+              <p className="waiting">Thanks! Watch the big screen 📊</p>
+            ) : hasAnswered ? (
               <p className="waiting">Waiting for results...</p>
             ) : timerExpired ? (
               <p className="waiting time-up">Time's up!</p>
+            ) : isEstimation ? (
+              <form className="estimation-form" onSubmit={handleSubmitGuess}>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="any"
+                  placeholder="Your best guess"
+                  value={guessInput}
+                  onChange={(e) => setGuessInput(e.target.value)}
+                  autoFocus
+                />
+                <button type="submit" disabled={guessInput.trim() === ""}>
+                  Lock in guess
+                </button>
+              </form>
+            ) : ratingScale ? (
+              <RatingPicker scale={ratingScale} onRate={handleRate} />
+            ) : isWordCloud ? (
+              <form className="estimation-form free-text-form" onSubmit={handleSubmitText}>
+                <input
+                  type="text"
+                  placeholder="A word or two"
+                  maxLength={MAX_WORD_LENGTH}
+                  value={textInput}
+                  onChange={(e) => setTextInput(e.target.value)}
+                  autoFocus
+                />
+                <button type="submit" disabled={textInput.trim() === ""}>
+                  Send word
+                </button>
+              </form>
+            ) : isFreeText ? (
+              <form className="estimation-form free-text-form" onSubmit={handleSubmitText}>
+                <input
+                  type="text"
+                  placeholder="Type your answer"
+                  maxLength={MAX_TEXT_ANSWER_LENGTH}
+                  value={textInput}
+                  onChange={(e) => setTextInput(e.target.value)}
+                  autoFocus
+                />
+                <button type="submit" disabled={textInput.trim() === ""}>
+                  Send answer
+                </button>
+              </form>
+            ) : isMultiSelect ? (
+              <div className="options multi-select">
+                {answerOptions.map((item, visualIndex) => {
+                  const isSelected = selectedOptions.includes(item.originalIndex);
+                  return (
+                    <button
+                      key={item.originalIndex}
+                      className={isSelected ? "selected" : ""}
+                      aria-pressed={isSelected}
+                      onClick={() => handleToggleOption(item.originalIndex)}
+                    >
+                      <span className="option-check">{isSelected ? "☑" : "☐"}</span>
+                      <span className="option-label">{String.fromCharCode(65 + visualIndex)}.</span>
+                      {item.option.imageUrl && <img src={item.option.imageUrl} alt="" className="option-image" />}
+                      {item.option.text}
+                    </button>
+                  );
+                })}
+                <button
+                  className="submit-selections"
+                  disabled={selectedOptions.length === 0}
+                  onClick={handleSubmitSelections}
+                >
+                  Lock in {selectedOptions.length} answer{selectedOptions.length !== 1 ? "s" : ""}
+                </button>
+              </div>
             ) : shuffledAnswers ? (
               <div className="options">
                 {shuffledAnswers.shuffledOptions.map((item, visualIndex) => (
                   <button
                     key={item.originalIndex}
+                    className={hiddenOptions.includes(item.originalIndex) ? "eliminated" : ""}
+                    disabled={hiddenOptions.includes(item.originalIndex)}
                     onClick={() => handleAnswer(item.originalIndex)}
                   >
                     <span className="option-label">{String.fromCharCode(65 + visualIndex)}.</span>
+                    {item.option.imageUrl && <img src={item.option.imageUrl} alt="" className="option-image" />}
                     {item.option.text}
                   </button>
                 ))}
@@ -428,8 +810,14 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
             ) : (
               <div className="options">
                 {currentQuestion.options.map((opt, i) => (
-                  <button key={i} onClick={() => handleAnswer(i)}>
+                  <button
+                    key={i}
+                    className={hiddenOptions.includes(i) ? "eliminated" : ""}
+                    disabled={hiddenOptions.includes(i)}
+                    onClick={() => handleAnswer(i)}
+                  >
                     <span className="option-label">{String.fromCharCode(65 + i)}.</span>
+                    {opt.imageUrl && <img src={opt.imageUrl} alt="" className="option-image" />}
                     {opt.text}
                   </button>
                 ))}
@@ -438,14 +826,28 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
           )}
 
           {questionPhase === "revealed" && playerRopeState && (() => {
-            const playerSelectedOriginalIndex = playerRopeState.myAnswer.optionIndex;
-            const isCorrect = playerRopeState.myAnswer.isCorrect === true;
+            const playerSelections = playerRopeState.myAnswer.optionIndices;
+            // Free text has no right answer - anything the host didn't reject climbs
+            const isCorrect = playerRopeState.myAnswer.isCorrect === true ||
+              (isFreeText && (playerRopeState.myAnswer.elevationGain ?? 0) > 0);
             const didAnswer = playerRopeState.myAnswer.hasAnswered;
             const elevationGain = playerRopeState.myAnswer.elevationGain ?? 0;
+            const myWager = playerRopeState.myAnswer.wager;
+            const scoring = playerRopeState.myAnswer.scoring;
+            const bonuses = scoring
+              ? [
+                  { label: "speed", amount: scoring.speedBonus },
+                  { label: "underdog", amount: scoring.minorityBonus },
+                  { label: "streak", amount: scoring.streakBonus },
+                ].filter((b) => b.amount > 0)
+              : [];
+            // Select-all: credit earned but the picks didn't exactly match the correct set
+            const isPartial = isMultiSelect && isCorrect && (
+              playerSelections.some((i) => playerRopeState.ropes[i]?.isCorrect !== true) ||
+              playerRopeState.ropes.some((r) => r.isCorrect === true && !playerSelections.includes(r.optionIndex))
+            );
 
-            const optionsToDisplay = shuffledAnswers
-              ? shuffledAnswers.shuffledOptions
-              : currentQuestion.options.map((opt, i) => ({ option: opt, originalIndex: i, shuffledIndex: i }));
+            const optionsToDisplay = answerOptions;
 
             return (
               <div className="reveal-feedback">
@@ -458,18 +860,32 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
 
                 {playerResultRevealed && (
                   didAnswer ? (
-                    <div className={`result-banner ${isCorrect ? 'correct' : 'wrong'}`}>
-                      {isCorrect ? (
+                    <div className={`result-banner ${isCorrect || isSurvey ? 'correct' : 'wrong'}`}>
+                      {isCorrect || isSurvey ? (
                         <>
-                          <span className="result-text">CORRECT!</span>
+                          <span className="result-text">
+                            {isSurvey ? "THANKS!" : isPartial ? "PARTLY RIGHT!" : isFreeText ? "NICE ONE!" : "CORRECT!"}
+                          </span>
                           <span className="elevation-gain">+{elevationGain}m</span>
+                          {scoring && bonuses.length > 0 && (
+                            <span className="score-breakdown">
+                              {scoring.base}m base{bonuses.map((b) => ` · +${b.amount}m ${b.label}`).join("")}
+                            </span>
+                          )}
                         </>
                       ) : (
                         <>
-                          <span className="result-text">WRONG!</span>
-                          <span className="elevation-gain">+0m</span>
+                          <span className="result-text">
+                            {playerRopeState.freeText?.moderation === "rejected" ? "NOT ACCEPTED" : "WRONG!"}
+                          </span>
+                          <span className="elevation-gain">{elevationGain < 0 ? `${elevationGain}m` : "+0m"}</span>
                         </>
                       )}
+                      {myWager !== null && (
+                        <span className="wager-result">
+                          🎒 {myWager}m wagered
+                        </span>
+                      )}
                     </div>
                   ) : (
                     <div className="result-banner no-answer">
@@ -479,13 +895,40 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
                   )
                 )}
 
-                {playerResultRevealed && (
+                {playerResultRevealed && playerRopeState.estimation && (
+                  <div className="estimation-result">
+                    <p>
+                      Answer: <strong>{playerRopeState.estimation.answer?.toLocaleString()}</strong>
+                    </p>
+                    {playerRopeState.estimation.myGuess !== null && (
+                      <p>
+                        Your guess: <strong>{playerRopeState.estimation.myGuess.toLocaleString()}</strong>
+                        {playerRopeState.estimation.myRank !== null && (
+                          <span className="estimation-rank">#{playerRopeState.estimation.myRank} closest</span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {playerResultRevealed && playerRopeState.freeText?.myText && (
+                  <p className="free-text-result">You wrote: “{playerRopeState.freeText.myText}”</p>
+                )}
+
+                {playerResultRevealed && playerRopeState.survey && playerRopeState.survey.myRating !== null && (
+                  <p className="free-text-result">You rated: {playerRopeState.survey.myRating}{ratingScale === "fivePoint" ? "★" : ""}</p>
+                )}
+                {playerResultRevealed && playerRopeState.survey?.myWord && (
+                  <p className="free-text-result">You said: “{playerRopeState.survey.myWord}”</p>
+                )}
+
+                {playerResultRevealed && !playerRopeState.estimation && (
                   <div className="options revealed">
                     {optionsToDisplay.map((item, visualIndex) => {
                       const originalIndex = item.originalIndex;
                       const rope = playerRopeState.ropes[originalIndex];
                       const isThisCorrect = rope?.isCorrect === true;
-                      const isPlayerSelection = originalIndex === playerSelectedOriginalIndex;
+                      const isPlayerSelection = playerSelections.includes(originalIndex);
 
                       let className = 'option-revealed';
                       if (isThisCorrect) {
@@ -503,6 +946,7 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
                       return (
                         <div key={originalIndex} className={className}>
                           <span className="option-label">{visualLabel}.</span>
+                          {item.option.imageUrl && <img src={item.option.imageUrl} alt="" className="option-image" />}
                           <span className="option-text">{item.option.text}</span>
                           {isPlayerSelection && <span className="your-pick">Your pick</span>}
                           {isThisCorrect && <span className="correct-label">Correct</span>}
@@ -530,6 +974,17 @@ export function PlayerView({ onBack, initialCode, initialName }: Props) {
                 compact
                 className="leaderboard-light"
               />
+              {teamLeaderboard && teamLeaderboard.length > 0 && (
+                <>
+                  <h3>Teams</h3>
+                  <TeamLeaderboard
+                    teams={teamLeaderboard}
+                    currentTeamId={player?.teamId}
+                    compact
+                    className="leaderboard-light"
+                  />
+                </>
+              )}
             </div>
           )}
         </div>
@@ -5,13 +5,20 @@ import type { Id } from "../../convex/_generated/dataModel";
 import "./SpectatorView.css";
 import { Mountain, type SkyQuestion } from "../components/mountain";
 import { Leaderboard } from "../components/Leaderboard";
+import { TeamLeaderboard } from "../components/TeamLeaderboard";
+import { Podium } from "../components/Podium";
+import { SurveyResults } from "../components/SurveyResults";
 import { Blob } from "../components/Blob";
 import { generateBlob } from "../lib/blobGenerator";
 import { SUMMIT } from "../../lib/elevation";
 import type { RopeClimbingState } from "../../lib/ropeTypes";
 import { useSoundManager } from "../hooks/useSoundManager";
-import { playSound } from "../lib/soundManager";
+import { playAudioClip, playSound, stopAudioClip } from "../lib/soundManager";
 import { shuffleOptions } from "../../lib/shuffle";
+import { formatRoundMultiplier } from "../../lib/rounds";
+import { isIntermissionPhase, PODIUM_SIZE } from "../../lib/intermission";
+import { rankFinishers } from "../../lib/finale";
+import { useFinaleSequence } from "../hooks/useFinaleSequence";
 
 interface Props {
   sessionCode: string;
@@ -82,11 +89,22 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
     sessionId ? { sessionId } : "skip"
   );
 
+  // Teams (team mode) - used to tint blobs and show team standings
+  const teams = useQuery(
+    api.teams.listBySession,
+    sessionId ? { sessionId } : "skip"
+  );
+  const teamColors = useMemo(
+    () => new Map((teams ?? []).map((t) => [t._id as string, t.color])),
+    [teams]
+  );
+
   // Derived from ropeClimbingState - replaces separate timingInfo subscription
   const timingInfo = useMemo(() => {
     if (!ropeClimbingState) return null;
     return {
       firstAnsweredAt: ropeClimbingState.timing.firstAnsweredAt,
+      deadline: ropeClimbingState.timing.deadline,
       timeLimit: ropeClimbingState.timing.timeLimit,
       totalAnswers: ropeClimbingState.answeredCount,
     };
@@ -94,11 +112,58 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
 
   // Only fetch leaderboard when needed (results phase or game finished)
   const questionPhaseFromState = ropeClimbingState?.questionPhase ?? null;
+  // (an intermission sits on top of the results, so the rope state reports "results" then)
   const needsLeaderboard = questionPhaseFromState === "results" || session?.status === "finished";
   const leaderboard = useQuery(
     api.players.getLeaderboard,
     sessionId && needsLeaderboard ? { sessionId } : "skip"
   );
+  const teamLeaderboard = useQuery(
+    api.teams.getLeaderboard,
+    sessionId && needsLeaderboard && teams && teams.length > 0 ? { sessionId } : "skip"
+  );
+
+  // Rounds: the intro card and per-round leaderboard subtotals (both null without rounds)
+  const currentRound = useQuery(
+    api.rounds.getCurrentRound,
+    sessionId && session?.status === "active" ? { sessionId } : "skip"
+  );
+  const roundSubtotals = useQuery(
+    api.rounds.getSubtotals,
+    sessionId && needsLeaderboard ? { sessionId } : "skip"
+  );
+
+  // Self-paced games: how many players have finished (scores stay hidden until the deadline)
+  const isAsync = session?.mode === "async";
+  const asyncProgress = useQuery(
+    api.selfPaced.getSessionProgress,
+    sessionId && isAsync && session?.status === "active" ? { sessionId } : "skip"
+  );
+
+  // Finale for live games: a time-lapse replay of the climb, then the podium, then the standings
+  const isLiveFinish = session?.status === "finished" && !isAsync;
+  const climbReplay = useQuery(
+    api.players.getClimbReplay,
+    sessionId && isLiveFinish ? { sessionId } : "skip"
+  );
+  const podiumPlayers = useMemo(() => rankFinishers(leaderboard ?? []).slice(0, PODIUM_SIZE), [leaderboard]);
+  const finale = useFinaleSequence({
+    frameCount: climbReplay?.frames.length ?? 0,
+    podiumSize: podiumPlayers.length,
+    ready: isLiveFinish && !!climbReplay && !!leaderboard,
+  });
+  const { restart: restartFinale } = finale;
+
+  // Start from the top each time a game ends (the host can run another from the lobby)
+  useEffect(() => {
+    if (isLiveFinish) restartFinale();
+  }, [isLiveFinish, restartFinale]);
+
+  // Fanfare once first place is on the podium
+  const podiumComplete = finale.stage === "podium" && podiumPlayers.length > 0 && finale.revealedCount === podiumPlayers.length;
+  useEffect(() => {
+    if (podiumComplete) play("celebration");
+  }, [podiumComplete, play]);
 
   // Play pop/giggle sounds when new players join the lobby
   useEffect(() => {
@@ -136,6 +201,26 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
     prevQuestionPhaseRef.current = currentQuestionPhase;
   }, [currentQuestionPhase, play]);
 
+  // Music rounds: play the question's clip when its answers are shown, and again whenever the
+  // host hits replay. The clip stops when the question changes.
+  const clipUrl = currentQuestion?.audioUrl;
+  const clipQuestionId = currentQuestion?._id;
+  const answersOpen = currentQuestionPhase !== null && currentQuestionPhase !== "question_shown";
+  useEffect(() => {
+    if (!clipUrl || !answersOpen) return;
+    void playAudioClip(clipUrl);
+    return () => stopAudioClip();
+  }, [clipUrl, clipQuestionId, answersOpen]);
+
+  const lastReplayRef = useRef<number | undefined | null>(null); // null until the session loads
+  useEffect(() => {
+    if (!session) return;
+    const lastReplay = lastReplayRef.current;
+    lastReplayRef.current = session.audioReplayedAt;
+    if (lastReplay === null || session.audioReplayedAt === lastReplay) return;
+    if (clipUrl && answersOpen) void playAudioClip(clipUrl);
+  }, [session, clipUrl, answersOpen]);
+
   // NOTE: Reveal sounds (snip, blobSad, blobHappy, celebration) are now orchestrated
   // in Mountain.tsx's RopesOverlay component with proper sequential timing.
   // This useEffect is intentionally removed to avoid duplicate/conflicting sounds.
@@ -220,7 +305,8 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
   // Compute shuffled answer order for deterministic randomization
   // Uses session code + question index as seed so all views see the same order
   const shuffledAnswers = useMemo(() => {
-    if (!currentQuestion || !session?.code || session.currentQuestionIndex < 0) {
+    // Free-text groups keep the order the host approved them in
+    if (!currentQuestion || currentQuestion.freeText || !session?.code || session.currentQuestionIndex < 0) {
       return null;
     }
     return shuffleOptions(
@@ -253,6 +339,119 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
     );
   }
 
+  // Self-paced game over - reveal everyone's final position on the mountain at once
+  if (session.status === "finished" && isAsync) {
+    return (
+      <div className="spectator-fullscreen">
+        {/* Sound toggle button */}
+        <button
+          className="spectator-sound-toggle"
+          onClick={toggleMute}
+          aria-label={muted ? "Unmute sounds" : "Mute sounds"}
+          title={muted ? "Unmute sounds" : "Mute sounds"}
+        >
+          {muted ? "\uD83D\uDD07" : "\uD83D\uDD0A"}
+        </button>
+
+        <div className="spectator-mountain-fullscreen">
+          <Mountain
+            players={
+              players?.map((p) => ({
+                id: p._id,
+                name: p.name,
+                elevation: p.elevation,
+                teamId: p.teamId,
+                teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+                streak: p.currentStreak,
+              })) ?? []
+            }
+            mode="spectator"
+            width={dimensions.width}
+            height={dimensions.height}
+            ropeClimbingState={null}
+            skyQuestion={null}
+          />
+
+          {leaderboard && (
+            <div className="leaderboard-overlay">
+              <div className="leaderboard-overlay-header">
+                <h2>Final Standings</h2>
+                <p>Self-paced climb</p>
+              </div>
+              <Leaderboard players={leaderboard} roundSubtotals={roundSubtotals} maxDisplay={10} />
+              {teamLeaderboard && teamLeaderboard.length > 0 && (
+                <>
+                  <div className="leaderboard-overlay-header">
+                    <h2>Teams</h2>
+                  </div>
+                  <TeamLeaderboard teams={teamLeaderboard} compact />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="spectator-player-indicator">
+          {players?.length ?? 0} climbers
+        </div>
+      </div>
+    );
+  }
+
+  // Session finished - the finale plays first, unless the host's replay data is still loading
+  if (session.status === "finished" && climbReplay && finale.stage !== "done") {
+    const frame = finale.stage === "replay"
+      ? climbReplay.frames[finale.frameIndex]
+      : climbReplay.frames[climbReplay.frames.length - 1];
+    return (
+      <div className="spectator-fullscreen spectator-pregame spectator-finale">
+        <button
+          className="spectator-sound-toggle"
+          onClick={toggleMute}
+          aria-label={muted ? "Unmute sounds" : "Mute sounds"}
+          title={muted ? "Unmute sounds" : "Mute sounds"}
+        >
+          {muted ? "\uD83D\uDD07" : "\uD83D\uDD0A"}
+        </button>
+
+        <div className="spectator-mountain-fullscreen">
+          <Mountain
+            players={climbReplay.players.map((p, i) => ({
+              id: p._id,
+              name: p.name,
+              elevation: frame?.[i] ?? 0,
+              teamId: p.teamId,
+              teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+            }))}
+            mode="spectator"
+            width={dimensions.width}
+            height={dimensions.height}
+            ropeClimbingState={null}
+            skyQuestion={null}
+            celebrating={finale.stage === "podium"}
+          />
+        </div>
+
+        {finale.stage === "replay" && (
+          <div className="finale-replay-banner">
+            <span className="finale-replay-label">Replaying the climb</span>
+            <span>{finale.frameIndex === 0 ? "Base Camp" : `After Q${finale.frameIndex}`}</span>
+          </div>
+        )}
+
+        {finale.stage === "podium" && (
+          <div className="spectator-overlay-podium">
+            <Podium players={podiumPlayers} title="Final Podium" revealedCount={finale.revealedCount} />
+          </div>
+        )}
+
+        <button className="finale-skip-button" onClick={finale.skip}>
+          Skip to Results
+        </button>
+      </div>
+    );
+  }
+
   // Session finished - show final leaderboard
   if (session.status === "finished") {
     return (
@@ -274,7 +473,18 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
             {leaderboard?.slice(0, 10).map((p, index) => (
               <li key={p._id} className={`leaderboard-item rank-${index + 1}`}>
                 <span className="rank">{index + 1}</span>
-                <span className="name">{p.name}</span>
+                <span className="name">
+                  {p.name}
+                  {roundSubtotals && (
+                    <span className="round-totals">
+                      {roundSubtotals.rounds.map((round, i) => (
+                        <span key={round._id} title={round.name}>
+                          R{i + 1} +{roundSubtotals.players.find((s) => s.playerId === p._id)?.totals[i] ?? 0}m
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </span>
                 <span className="elevation">
                   {p.elevation}m
                   {p.elevation >= SUMMIT && " - Summit!"}
@@ -282,10 +492,21 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
               </li>
             ))}
           </ol>
+          {teamLeaderboard && teamLeaderboard.length > 0 && (
+            <>
+              <h2>Team Standings</h2>
+              <TeamLeaderboard teams={teamLeaderboard} />
+            </>
+          )}
         </div>
         <div className="spectator-session-code">
           Session: {session.code}
         </div>
+        {climbReplay && (
+          <button onClick={finale.restart} className="back-to-home-button finale-replay-button">
+            Replay Finale
+          </button>
+        )}
         <button onClick={onBack} className="back-to-home-button">
           Back to Home
         </button>
@@ -337,15 +558,79 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
           <span className="count">{players?.length ?? 0}</span>
           <span className="label">players joined</span>
         </div>
+        {session.anonymous && (
+          <p className="spectator-anonymous-note">🔒 Anonymous answers - nobody sees who picked what</p>
+        )}
         <p className="waiting-text">Waiting for host to start...</p>
       </div>
     );
   }
 
+  // Self-paced game in progress - everyone waits at base camp until the deadline reveal
+  if (session.status === "active" && isAsync) {
+    return (
+      <div className="spectator-fullscreen spectator-pregame">
+        <div className="spectator-session-badge">
+          Join: {session.code}
+        </div>
+
+        {/* Sound toggle button */}
+        <button
+          className="spectator-sound-toggle"
+          onClick={toggleMute}
+          aria-label={muted ? "Unmute sounds" : "Mute sounds"}
+          title={muted ? "Unmute sounds" : "Mute sounds"}
+        >
+          {muted ? "\uD83D\uDD07" : "\uD83D\uDD0A"}
+        </button>
+
+        {/* Elevations are secret until the reveal, so everyone is drawn at the base */}
+        <div className="spectator-mountain-fullscreen">
+          <Mountain
+            players={
+              players?.map((p) => ({
+                id: p._id,
+                name: p.name,
+                elevation: 0,
+                teamId: p.teamId,
+                teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+              })) ?? []
+            }
+            mode="spectator"
+            width={dimensions.width}
+            height={dimensions.height}
+            ropeClimbingState={null}
+            skyQuestion={null}
+          />
+        </div>
+
+        <div className="pregame-overlay">
+          <h1 className="pregame-title">Climbing in progress</h1>
+          <p className="pregame-subtitle">
+            {asyncProgress
+              ? `${asyncProgress.finishedCount} of ${asyncProgress.players.length} climbers finished`
+              : "Everyone climbs at their own pace"}
+          </p>
+          {session.asyncDeadline && (
+            <p className="async-reveal-time">
+              Summit revealed {new Date(session.asyncDeadline).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        <div className="spectator-player-indicator">
+          {players?.length ?? 0} climbers
+        </div>
+      </div>
+    );
+  }
+
   // Pre-game phase - game started but no question shown yet
   const isPreGame = session.status === "active" && session.currentQuestionIndex === -1;
+  // Round intro - a new round is about to start, its first question stays hidden
+  const isRoundIntro = session.status === "active" && session.questionPhase === "round_intro";
 
-  if (isPreGame) {
+  if (isPreGame || isRoundIntro) {
     return (
       <div className="spectator-fullscreen spectator-pregame">
         {/* Session code badge (top-left, for late joiners) */}
@@ -371,6 +656,9 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
                 id: p._id,
                 name: p.name,
                 elevation: p.elevation,
+                teamId: p.teamId,
+                teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+                streak: p.currentStreak,
               })) ?? []
             }
             mode="spectator"
@@ -381,11 +669,25 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
           />
         </div>
 
-        {/* "Get Ready!" overlay */}
-        <div className="pregame-overlay">
-          <h1 className="pregame-title">Get Ready!</h1>
-          <p className="pregame-subtitle">The climb begins...</p>
-        </div>
+        {isRoundIntro && currentRound ? (
+          <div className="pregame-overlay round-intro-overlay">
+            <p className="round-intro-number">Round {currentRound.number} of {currentRound.totalRounds}</p>
+            <h1 className="pregame-title">{currentRound.name}</h1>
+            <p className="pregame-subtitle">
+              {currentRound.questionCount} question{currentRound.questionCount !== 1 ? "s" : ""}
+              {currentRound.timeLimit !== null && ` · ${currentRound.timeLimit}s each`}
+            </p>
+            {formatRoundMultiplier(currentRound.multiplier) && (
+              <p className="round-intro-multiplier">{formatRoundMultiplier(currentRound.multiplier)}</p>
+            )}
+          </div>
+        ) : (
+          /* "Get Ready!" overlay */
+          <div className="pregame-overlay">
+            <h1 className="pregame-title">Get Ready!</h1>
+            <p className="pregame-subtitle">The climb begins...</p>
+          </div>
+        )}
 
         {/* Player count indicator */}
         <div className="spectator-player-indicator">
@@ -395,6 +697,82 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
     );
   }
 
+  // Intermission - a break from the questions with the standings so far
+  if (session.status === "active" && isIntermissionPhase(session.questionPhase)) {
+    const phase = session.questionPhase;
+    return (
+      <div className="spectator-fullscreen spectator-pregame spectator-intermission">
+        <div className="spectator-session-badge">
+          Join: {session.code}
+        </div>
+
+        <button
+          className="spectator-sound-toggle"
+          onClick={toggleMute}
+          aria-label={muted ? "Unmute sounds" : "Mute sounds"}
+          title={muted ? "Unmute sounds" : "Mute sounds"}
+        >
+          {muted ? "\uD83D\uDD07" : "\uD83D\uDD0A"}
+        </button>
+
+        <div className="spectator-mountain-fullscreen">
+          <Mountain
+            players={
+              players?.map((p) => ({
+                id: p._id,
+                name: p.name,
+                elevation: p.elevation,
+                teamId: p.teamId,
+                teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+                streak: p.currentStreak,
+              })) ?? []
+            }
+            mode="spectator"
+            width={dimensions.width}
+            height={dimensions.height}
+            ropeClimbingState={null}
+            skyQuestion={null}
+          />
+        </div>
+
+        {phase === "intermission_standings" && leaderboard && (
+          <div className="leaderboard-overlay">
+            <div className="leaderboard-overlay-header">
+              <h2>Standings</h2>
+              <p>Intermission after Q{session.currentQuestionIndex + 1}</p>
+            </div>
+            <Leaderboard players={leaderboard} roundSubtotals={roundSubtotals} maxDisplay={10} />
+            {teamLeaderboard && teamLeaderboard.length > 0 && (
+              <>
+                <div className="leaderboard-overlay-header">
+                  <h2>Teams</h2>
+                </div>
+                <TeamLeaderboard teams={teamLeaderboard} compact />
+              </>
+            )}
+          </div>
+        )}
+
+        {phase === "intermission_podium" && leaderboard && (
+          <div className="spectator-overlay-podium">
+            <Podium players={leaderboard.slice(0, PODIUM_SIZE)} title="Top Climbers So Far" />
+          </div>
+        )}
+
+        {phase === "intermission_countdown" && (
+          <div className="pregame-overlay">
+            <p className="round-intro-number">Back to the climb in</p>
+            <IntermissionCountdown endsAt={session.phaseEndsAt} />
+          </div>
+        )}
+
+        <div className="spectator-player-indicator">
+          {players?.length ?? 0} climbers
+        </div>
+      </div>
+    );
+  }
+
   // Active game - show mountain and current question
   const enabledQuestionCount = questions?.filter((q) => q.enabled !== false).length ?? 0;
   const questionPhase = ropeClimbingState?.questionPhase ?? "answers_shown";
@@ -403,6 +781,7 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
   const skyQuestion: SkyQuestion | null = currentQuestion
     ? {
         text: currentQuestion.text,
+        imageUrl: currentQuestion.imageUrl,
         questionNumber: session.currentQuestionIndex + 1,
         totalQuestions: enabledQuestionCount,
         phase: questionPhase,
@@ -410,10 +789,15 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
         correctAnswerIndex: currentQuestion.correctOptionIndex,
         timer: {
           firstAnsweredAt: timingInfo?.firstAnsweredAt ?? null,
+          deadline: timingInfo?.deadline ?? null,
           timeLimit: currentQuestion.timeLimit,
           isRevealed: ropeClimbingState?.timing.isRevealed ?? false,
-          correctAnswer: ropeClimbingState?.ropes.find((r) => r.isCorrect === true)?.optionText,
-          correctCount: ropeClimbingState?.ropes.find((r) => r.isCorrect === true)?.players.length,
+          correctAnswer: ropeClimbingState?.estimation
+            ? ropeClimbingState.estimation.answer?.toLocaleString()
+            : ropeClimbingState?.ropes.filter((r) => r.isCorrect === true).map((r) => r.optionText).join(", ") || undefined,
+          correctCount: ropeClimbingState?.question.multiSelect || ropeClimbingState?.estimation
+            ? undefined
+            : ropeClimbingState?.ropes.find((r) => r.isCorrect === true)?.playerCount,
           totalAnswered: ropeClimbingState?.answeredCount,
         },
       }
@@ -424,6 +808,7 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
       {/* Session code badge (top-left, for late joiners) */}
       <div className="spectator-session-badge">
         Join: {session.code}
+        {session.anonymous && " · 🔒 Anonymous"}
       </div>
 
       {/* Sound toggle button */}
@@ -447,9 +832,33 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
           <div className="spectator-question-text">
             {skyQuestion.text}
           </div>
+          {skyQuestion.imageUrl && (
+            <img src={skyQuestion.imageUrl} alt="" className="spectator-question-image" />
+          )}
+          {/* Option pictures, lettered to match the rope labels */}
+          {skyQuestion.phase !== "question_shown" && shuffledAnswers?.shuffledOptions.some((o) => o.option.imageUrl) && (
+            <div className="spectator-option-images">
+              {shuffledAnswers.shuffledOptions.map((item, visualIndex) => (
+                <figure key={item.originalIndex} className="spectator-option-image">
+                  {item.option.imageUrl && <img src={item.option.imageUrl} alt="" />}
+                  <figcaption>{String.fromCharCode(65 + visualIndex)}. {item.option.text}</figcaption>
+                </figure>
+              ))}
+            </div>
+          )}
           {skyQuestion.phase === "question_shown" && (
             <div className="spectator-question-hint">Get ready...</div>
           )}
+          {skyQuestion.phase === "answers_shown" && ropeClimbingState?.freeText && (
+            <div className="spectator-question-hint">
+              Type your answer!
+              {ropeClimbingState.freeText.pendingCount > 0 &&
+                ` ✍️ ${ropeClimbingState.freeText.pendingCount} waiting for the host`}
+            </div>
+          )}
+          {skyQuestion.phase !== "question_shown" && (currentQuestion?.ratingScale !== undefined || currentQuestion?.wordCloud) && (
+            <SurveyResults questionId={currentQuestion._id} />
+          )}
         </div>
       )}
 
@@ -461,6 +870,9 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
               id: p._id,
               name: p.name,
               elevation: p.elevation,
+              teamId: p.teamId,
+              teamColor: p.teamId ? teamColors.get(p.teamId) : undefined,
+              streak: p.currentStreak,
             })) ?? []
           }
           mode="spectator"
@@ -480,8 +892,17 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
             </div>
             <Leaderboard
               players={leaderboard}
+              roundSubtotals={roundSubtotals}
               maxDisplay={10}
             />
+            {teamLeaderboard && teamLeaderboard.length > 0 && (
+              <>
+                <div className="leaderboard-overlay-header">
+                  <h2>Teams</h2>
+                </div>
+                <TeamLeaderboard teams={teamLeaderboard} compact />
+              </>
+            )}
           </div>
         )}
 
@@ -505,6 +926,19 @@ export function SpectatorView({ sessionCode, onBack }: Props) {
   );
 }
 
+// Whole seconds left until the server ends the intermission
+function IntermissionCountdown({ endsAt }: { endsAt: number | undefined }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const secondsLeft = endsAt ? Math.max(0, Math.ceil((endsAt - now) / 1000)) : 0;
+  return <h1 key={secondsLeft} className="pregame-title intermission-countdown">{secondsLeft}</h1>;
+}
+
 /**
  * Derive personality traits deterministically from player name
  * This ensures the same player always has the same "personality"
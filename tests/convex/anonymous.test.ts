@@ -0,0 +1,132 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Anonymous session with one single-choice question (correct option 0) and three players, answers open
+async function setupAnonymousGame() {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  const questionId = await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "Tabs or spaces?",
+    options: [{ text: "Tabs" }, { text: "Spaces" }],
+    correctOptionIndex: 0,
+  });
+
+  const players = [];
+  for (const name of ["Alice", "Bob", "Carol"]) {
+    players.push(await t.mutation(api.players.join, { sessionId, name }));
+  }
+
+  await t.mutation(api.sessions.updateAnonymous, { sessionId, hostId, anonymous: true });
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+  // Alice and Bob pick Tabs, Carol picks Spaces
+  for (const [i, optionIndex] of [0, 0, 1].entries()) {
+    await t.mutation(api.answers.submit, { questionId, ...players[i]!, optionIndex });
+  }
+
+  return { t, hostId, sessionId, questionId, players };
+}
+
+describe("sessions.updateAnonymous", () => {
+  test("can only be changed in the lobby", async () => {
+    const { t, hostId, sessionId } = await setupAnonymousGame();
+
+    const session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.anonymous).toBe(true);
+    await expect(
+      t.mutation(api.sessions.updateAnonymous, { sessionId, hostId, anonymous: false })
+    ).rejects.toThrowError("Can only change anonymity in lobby");
+  });
+});
+
+describe("anonymous sessions", () => {
+  test("ropes show counts without names", async () => {
+    const { t, sessionId } = await setupAnonymousGame();
+
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.anonymous).toBe(true);
+    expect(state?.ropes.map((r) => r.playerCount)).toEqual([2, 1]);
+    expect(state?.ropes.every((r) => r.players.length === 0)).toBe(true);
+    // Everyone stays at base camp, with no column to give their answer away
+    expect(state?.notAnswered).toHaveLength(3);
+    expect(state?.notAnswered.every((p) => p.lastOptionIndex === null)).toBe(true);
+  });
+
+  test("per-answer queries come back empty, but results keep the totals", async () => {
+    const { t, questionId, players } = await setupAnonymousGame();
+
+    expect(await t.query(api.answers.getByQuestion, { questionId })).toEqual([]);
+    expect(await t.query(api.answers.getByPlayer, { playerId: players[0]!.playerId })).toEqual([]);
+    expect(await t.query(api.answers.getPlayerAnswers, { questionId })).toEqual([]);
+    expect(await t.query(api.answers.getPlayersOnRopes, { questionId })).toBeNull();
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results?.optionCounts).toEqual([2, 1]);
+  });
+
+  test("players only see their own answer with their secret token", async () => {
+    const { t, sessionId, players } = await setupAnonymousGame();
+    const [alice, bob] = players;
+
+    expect(
+      await t.query(api.answers.getPlayerRopeState, { sessionId, playerId: alice!.playerId })
+    ).toBeNull();
+    expect(
+      await t.query(api.answers.getPlayerRopeState, { sessionId, playerId: alice!.playerId, secretToken: bob!.secretToken })
+    ).toBeNull();
+
+    const mine = await t.query(api.answers.getPlayerRopeState, { sessionId, ...alice! });
+    expect(mine?.myAnswer.optionIndex).toBe(0);
+  });
+
+  test("the last answer isn't cached on the player", async () => {
+    const { t, players } = await setupAnonymousGame();
+
+    const player = await t.query(api.players.get, { playerId: players[0]!.playerId });
+    expect(player?.lastOptionIndex).toBeUndefined();
+  });
+
+  test("revealing moves nobody, so no query links a player to their choice", async () => {
+    const { t, hostId, sessionId, questionId } = await setupAnonymousGame();
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const leaderboard = await t.query(api.players.getLeaderboard, { sessionId });
+    expect(leaderboard.map((p) => [p.elevation, p.currentStreak])).toEqual([
+      [0, undefined],
+      [0, undefined],
+      [0, undefined],
+    ]);
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(new Set(state?.notAnswered.map((p) => p.elevation))).toEqual(new Set([0]));
+    expect(await t.query(api.answers.getByQuestion, { questionId })).toEqual([]);
+    expect(await t.query(api.rounds.getSubtotals, { sessionId })).toBeNull();
+
+    await t.mutation(api.sessions.finish, { sessionId, hostId });
+    const replay = await t.query(api.players.getClimbReplay, { sessionId });
+    expect(replay?.frames.every((frame) => frame.every((elevation) => elevation === 0))).toBe(true);
+  });
+
+  test("the report only includes aggregates", async () => {
+    const { t, hostId, sessionId } = await setupAnonymousGame();
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.anonymous).toBe(true);
+    expect(report?.players).toEqual([]);
+    expect(report?.questions[0]).toMatchObject({ totalAnswers: 3, correctCount: 2 });
+  });
+});
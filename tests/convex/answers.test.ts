@@ -2,6 +2,7 @@ import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -19,7 +20,7 @@ describe("answers.submit", () => {
     const firstQuestion = questions[0]!;
 
     // Add a player
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -36,6 +37,7 @@ describe("answers.submit", () => {
     const result = await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: firstQuestion.correctOptionIndex!, // Use the correct answer
     });
 
@@ -67,11 +69,11 @@ describe("answers.submit", () => {
     const firstQuestion = questions[0]!;
 
     // Add two players
-    const player1 = await t.mutation(api.players.join, {
+    const { playerId: player1 } = await t.mutation(api.players.join, {
       sessionId,
       name: "FastPlayer",
     });
-    const player2 = await t.mutation(api.players.join, {
+    const { playerId: player2 } = await t.mutation(api.players.join, {
       sessionId,
       name: "SlowPlayer",
     });
@@ -84,6 +86,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: firstQuestion.correctOptionIndex!,
     });
 
@@ -91,6 +94,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId: player2,
+      secretToken: await playerToken(t, player2),
       optionIndex: firstQuestion.correctOptionIndex!,
     });
 
@@ -120,7 +124,7 @@ describe("answers.submit", () => {
     const questions = await t.query(api.questions.listBySession, { sessionId });
     const firstQuestion = questions[0]!;
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -134,6 +138,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: wrongIndex,
     });
 
@@ -161,7 +166,7 @@ describe("answers.submit", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -174,6 +179,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 1,
     });
 
@@ -182,11 +188,48 @@ describe("answers.submit", () => {
       t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0,
       })
     ).rejects.toThrowError("Already answered this question");
   });
 
+  test("rejects answers without the player's token", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, {
+      hostId: "test-host",
+    });
+
+    const questionId = await t.mutation(api.questions.create, {
+      sessionId,
+      hostId: "test-host",
+      text: "What is 2+2?",
+      options: [{ text: "3" }, { text: "4" }],
+      correctOptionIndex: 1,
+      timeLimit: 30,
+    });
+
+    // Player IDs are public (everyone sees the player list), so an ID alone must not be enough
+    const { playerId } = await t.mutation(api.players.join, {
+      sessionId,
+      name: "TestPlayer",
+    });
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
+
+    await expect(
+      t.mutation(api.answers.submit, {
+        questionId,
+        playerId,
+        secretToken: "someone-elses-guess",
+        optionIndex: 1,
+      })
+    ).rejects.toThrowError("Invalid player token");
+  });
+
   test("poll mode (no correct answer) gives participation elevation", async () => {
     const t = convexTest(schema, modules);
 
@@ -209,7 +252,7 @@ describe("answers.submit", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -221,6 +264,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -247,7 +291,7 @@ describe("answers.submit", () => {
     const q1 = questions[0]!;
     const q2 = questions[1]!;
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -260,6 +304,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId: q1._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: q1.correctOptionIndex!,
     });
 
@@ -280,6 +325,7 @@ describe("answers.submit", () => {
     await t.mutation(api.answers.submit, {
       questionId: q2._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: q2.correctOptionIndex!,
     });
 
@@ -308,7 +354,7 @@ describe("answers.hasAnswered", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -337,7 +383,7 @@ describe("answers.hasAnswered", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -349,6 +395,7 @@ describe("answers.hasAnswered", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -379,18 +426,18 @@ describe("answers.getResults", () => {
     });
 
     // Add 3 players
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "P1" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "P2" });
-    const player3 = await t.mutation(api.players.join, { sessionId, name: "P3" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "P1" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "P2" });
+    const { playerId: player3 } = await t.mutation(api.players.join, { sessionId, name: "P3" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
 
     // P1 and P2 vote for option 0, P3 votes for option 1
-    await t.mutation(api.answers.submit, { questionId, playerId: player1, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player2, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player3, optionIndex: 1 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player1, secretToken: await playerToken(t, player1), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player2, secretToken: await playerToken(t, player2), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player3, secretToken: await playerToken(t, player3), optionIndex: 1 });
 
     const results = await t.query(api.answers.getResults, { questionId });
 
@@ -442,7 +489,7 @@ describe("answers.getTimingInfo", () => {
       timeLimit: 15,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -455,6 +502,7 @@ describe("answers.getTimingInfo", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -505,7 +553,7 @@ describe("answers.isQuestionOpen", () => {
       timeLimit: 30, // 30 seconds - plenty of time
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -517,6 +565,7 @@ describe("answers.isQuestionOpen", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -545,19 +594,19 @@ describe("answers.getPlayersOnRopes", () => {
     });
 
     // Add 4 players
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "Alice" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "Bob" });
-    const player3 = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
-    const player4 = await t.mutation(api.players.join, { sessionId, name: "Diana" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    const { playerId: player3 } = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
+    const { playerId: player4 } = await t.mutation(api.players.join, { sessionId, name: "Diana" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
 
     // Players answer different options (Alice and Charlie pick A, Bob picks B, Diana doesn't answer)
-    await t.mutation(api.answers.submit, { questionId, playerId: player1, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player2, optionIndex: 1 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player3, optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player1, secretToken: await playerToken(t, player1), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player2, secretToken: await playerToken(t, player2), optionIndex: 1 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player3, secretToken: await playerToken(t, player3), optionIndex: 0 });
 
     const result = await t.query(api.answers.getPlayersOnRopes, { questionId });
 
@@ -597,7 +646,7 @@ describe("answers.getPlayersOnRopes", () => {
     const q1 = questions[0]!;
     const q2 = questions[1]!;
 
-    const playerId = await t.mutation(api.players.join, { sessionId, name: "TestPlayer" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "TestPlayer" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -608,6 +657,7 @@ describe("answers.getPlayersOnRopes", () => {
     await t.mutation(api.answers.submit, {
       questionId: q1._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: q1.correctOptionIndex!, // Use the correct answer
     });
 
@@ -628,6 +678,7 @@ describe("answers.getPlayersOnRopes", () => {
     await t.mutation(api.answers.submit, {
       questionId: q2._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: (q2.correctOptionIndex! + 1) % q2.options.length, // Pick wrong answer
     });
 
@@ -658,18 +709,18 @@ describe("answers.getPlayersOnRopes", () => {
       timeLimit: 30,
     });
 
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "First" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "Second" });
-    const player3 = await t.mutation(api.players.join, { sessionId, name: "Third" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "First" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "Second" });
+    const { playerId: player3 } = await t.mutation(api.players.join, { sessionId, name: "Third" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
 
     // All pick option A, but in order
-    await t.mutation(api.answers.submit, { questionId, playerId: player1, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player2, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId, playerId: player3, optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player1, secretToken: await playerToken(t, player1), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player2, secretToken: await playerToken(t, player2), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId, playerId: player3, secretToken: await playerToken(t, player3), optionIndex: 0 });
 
     const result = await t.query(api.answers.getPlayersOnRopes, { questionId });
 
@@ -714,8 +765,8 @@ describe("answers.getRopeClimbingState", () => {
     const questions = await t.query(api.questions.listBySession, { sessionId });
     const firstQuestion = questions[0]!;
 
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "Alice" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "Bob" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -725,6 +776,7 @@ describe("answers.getRopeClimbingState", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: firstQuestion.correctOptionIndex!,
     });
 
@@ -776,7 +828,7 @@ describe("answers.getRopeClimbingState", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, { sessionId, name: "TestPlayer" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "TestPlayer" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -794,6 +846,7 @@ describe("answers.getRopeClimbingState", () => {
     await t.mutation(api.answers.submit, {
       questionId: questionId as any, // Cast needed since it's a string in the state
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -819,9 +872,9 @@ describe("answers.getRopeClimbingState", () => {
     });
 
     // Add 3 players
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "Alice" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "Bob" });
-    const player3 = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    const { playerId: player3 } = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -839,16 +892,19 @@ describe("answers.getRopeClimbingState", () => {
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: 0,
     });
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player2,
+      secretToken: await playerToken(t, player2),
       optionIndex: 1,
     });
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player3,
+      secretToken: await playerToken(t, player3),
       optionIndex: 0,
     });
 
@@ -884,16 +940,16 @@ describe("answers.getRopeClimbingState", () => {
     });
 
     // Add 3 players
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "Alice" });
-    const player2 = await t.mutation(api.players.join, { sessionId, name: "Bob" });
-    const player3 = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: player2 } = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    const { playerId: player3 } = await t.mutation(api.players.join, { sessionId, name: "Charlie" });
 
     // Charlie's tab is "closed" - explicitly disconnect them
-    await t.mutation(api.players.disconnect, { playerId: player3 });
+    await t.mutation(api.players.disconnect, { playerId: player3, secretToken: await playerToken(t, player3) });
 
     // Alice and Bob send heartbeats (though they're already active from joining)
-    await t.mutation(api.players.heartbeat, { playerId: player1 });
-    await t.mutation(api.players.heartbeat, { playerId: player2 });
+    await t.mutation(api.players.heartbeat, { playerId: player1, secretToken: await playerToken(t, player1) });
+    await t.mutation(api.players.heartbeat, { playerId: player2, secretToken: await playerToken(t, player2) });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -912,11 +968,13 @@ describe("answers.getRopeClimbingState", () => {
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: 0,
     });
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player2,
+      secretToken: await playerToken(t, player2),
       optionIndex: 1,
     });
 
@@ -952,7 +1010,7 @@ describe("answers.getRopeClimbingState", () => {
     });
 
     // Add a player
-    const player1 = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: player1 } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -965,6 +1023,7 @@ describe("answers.getRopeClimbingState", () => {
     await t.mutation(api.answers.submit, {
       questionId: questionId as any,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: 0,
     });
 
@@ -0,0 +1,91 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// One music question with an uploaded clip, one plain question
+async function setupSession() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  const audioId = await t.run((ctx) => ctx.storage.store(new Blob(["fake mp3"], { type: "audio/mpeg" })));
+  await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "Name that tune",
+    audioId,
+    options: [{ text: "Song A" }, { text: "Song B" }],
+    correctOptionIndex: 0,
+  });
+  await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "No music here",
+    options: [{ text: "Yes" }, { text: "No" }],
+    correctOptionIndex: 0,
+  });
+  await t.mutation(api.players.join, { sessionId, name: "Alice" });
+
+  return { t, hostId, sessionId, audioId };
+}
+
+describe("audio clip questions", () => {
+  test("the current question comes with a playable clip URL", async () => {
+    const { t, hostId, sessionId } = await setupSession();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+
+    const question = await t.query(api.questions.getCurrentQuestion, { sessionId });
+    expect(question!.audioUrl).toEqual(expect.any(String));
+  });
+
+  test("host can replay the clip once answers are shown", async () => {
+    const { t, hostId, sessionId } = await setupSession();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+
+    await expect(
+      t.mutation(api.sessions.replayAudio, { sessionId, hostId })
+    ).rejects.toThrowError("The clip plays once answers are shown");
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await expect(
+      t.mutation(api.sessions.replayAudio, { sessionId, hostId: "someone-else" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await t.mutation(api.sessions.replayAudio, { sessionId, hostId });
+    expect((await t.query(api.sessions.get, { sessionId }))!.audioReplayedAt).toEqual(expect.any(Number));
+  });
+
+  test("questions without a clip can't be replayed", async () => {
+    const { t, hostId, sessionId } = await setupSession();
+    const [music] = await t.query(api.questions.listBySession, { sessionId });
+    await t.mutation(api.questions.update, { questionId: music!._id, hostId, audioId: null });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+    await expect(
+      t.mutation(api.sessions.replayAudio, { sessionId, hostId })
+    ).rejects.toThrowError("This question has no audio clip");
+  });
+
+  test("export and import carry the clip URL", async () => {
+    const { t, hostId, sessionId } = await setupSession();
+    const exported = await t.query(api.questions.exportQuestions, { sessionId });
+    const clipUrl = exported.questions[0]!.audioUrl!;
+    expect(clipUrl).toEqual(expect.any(String));
+    expect(exported.questions[1]!.audioUrl).toBeUndefined();
+
+    const { sessionId: newSessionId } = await t.mutation(api.sessions.create, { hostId });
+    await t.mutation(api.questions.importQuestions, { sessionId: newSessionId, hostId, questions: exported.questions });
+    const [imported] = await t.query(api.questions.listBySession, { sessionId: newSessionId });
+    expect(imported!.audioUrl).toBe(clipUrl);
+  });
+});
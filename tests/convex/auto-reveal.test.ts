@@ -0,0 +1,165 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+async function setupTimedSession(settings: { autoReveal: boolean; autoAdvance: boolean }) {
+  const t = convexTest(schema, modules);
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1", questionCount: 2 });
+  await t.mutation(api.sessions.updateTimerSettings, { sessionId, hostId: "host-1", ...settings });
+  const { playerId, secretToken } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "host-1" });
+  const questions = await t.query(api.questions.listBySession, { sessionId });
+  return { t, sessionId, playerId, secretToken, question: questions[0]! };
+}
+
+async function getSession(t: ReturnType<typeof convexTest>, sessionId: Id<"sessions">) {
+  return (await t.query(api.sessions.get, { sessionId }))!;
+}
+
+describe("server deadline (autoReveal)", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("reveals and scores automatically when the time limit runs out", async () => {
+    const { t, sessionId, playerId, secretToken, question } = await setupTimedSession({
+      autoReveal: true,
+      autoAdvance: false,
+    });
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+    const session = await getSession(t, sessionId);
+    expect(session.answerDeadline).toBe(Date.now() + question.timeLimit * 1000);
+    expect(session.phaseEndsAt).toBe(session.answerDeadline);
+
+    await t.mutation(api.answers.submit, {
+      questionId: question._id,
+      playerId,
+      secretToken,
+      optionIndex: question.correctOptionIndex!,
+    });
+
+    vi.advanceTimersByTime(question.timeLimit * 1000);
+    await t.finishInProgressScheduledFunctions();
+
+    const revealed = await getSession(t, sessionId);
+    expect(revealed.questionPhase).toBe("revealed");
+    // Without autoAdvance the host takes it from here
+    expect(revealed.phaseEndsAt).toBeUndefined();
+    const player = await t.query(api.players.get, { playerId });
+    expect(player!.elevation).toBeGreaterThan(0);
+  });
+
+  test("rejects answers after the deadline even with no earlier answers", async () => {
+    const { t, sessionId, playerId, secretToken, question } = await setupTimedSession({
+      autoReveal: true,
+      autoAdvance: false,
+    });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+
+    // Move the clock without letting the scheduled reveal run
+    vi.setSystemTime(Date.now() + question.timeLimit * 1000);
+    await expect(
+      t.mutation(api.answers.submit, { questionId: question._id, playerId, secretToken, optionIndex: 0 })
+    ).rejects.toThrowError("Time's up! Answer not accepted.");
+  });
+
+  test("a timer left over from a phase the host already moved past does nothing", async () => {
+    const { t, sessionId, question } = await setupTimedSession({ autoReveal: true, autoAdvance: false });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.showResults, { sessionId, hostId: "host-1" });
+
+    vi.advanceTimersByTime(question.timeLimit * 1000);
+    await t.finishInProgressScheduledFunctions();
+
+    const session = await getSession(t, sessionId);
+    expect(session.questionPhase).toBe("results");
+    expect(session.currentQuestionIndex).toBe(0);
+  });
+
+  test("going back a phase cancels the pending timer", async () => {
+    const { t, sessionId, question } = await setupTimedSession({ autoReveal: true, autoAdvance: false });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId: "host-1" });
+
+    vi.advanceTimersByTime(question.timeLimit * 1000);
+    await t.finishInProgressScheduledFunctions();
+
+    const session = await getSession(t, sessionId);
+    expect(session.questionPhase).toBe("question_shown");
+    expect(session.answerDeadline).toBeUndefined();
+  });
+});
+
+describe("auto-advance", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("runs from the reveal through results into the next question without the host", async () => {
+    const { t, sessionId } = await setupTimedSession({ autoReveal: true, autoAdvance: true });
+
+    // question_shown -> answers_shown -> revealed -> results -> next question_shown
+    const expectedPhases = ["answers_shown", "revealed", "results", "question_shown"];
+    for (const phase of expectedPhases) {
+      const { phaseEndsAt } = await getSession(t, sessionId);
+      expect(phaseEndsAt).toBeDefined();
+      vi.setSystemTime(phaseEndsAt!);
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      expect((await getSession(t, sessionId)).questionPhase).toBe(phase);
+    }
+    expect((await getSession(t, sessionId)).currentQuestionIndex).toBe(1);
+  });
+
+  test("finishes the session after the last question's results", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1", questionCount: 1 });
+    await t.mutation(api.sessions.updateTimerSettings, {
+      sessionId,
+      hostId: "host-1",
+      autoReveal: false,
+      autoAdvance: true,
+    });
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+
+    // No server deadline: the reveal stays manual
+    expect((await getSession(t, sessionId)).phaseEndsAt).toBeUndefined();
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "host-1" });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect((await getSession(t, sessionId)).status).toBe("finished");
+  });
+});
+
+describe("sessions.updateTimerSettings", () => {
+  test("only the host can change timer settings, and only in lobby", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    await expect(
+      t.mutation(api.sessions.updateTimerSettings, { sessionId, hostId: "intruder", autoReveal: true, autoAdvance: true })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+    await expect(
+      t.mutation(api.sessions.updateTimerSettings, { sessionId, hostId: "host-1", autoReveal: true, autoAdvance: true })
+    ).rejects.toThrowError("Can only change timer settings in lobby");
+  });
+});
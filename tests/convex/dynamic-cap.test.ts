@@ -2,6 +2,7 @@ import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -46,7 +47,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
       )
     );
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "Player1",
     });
@@ -63,6 +64,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
       await t.mutation(api.answers.submit, {
         questionId: questionIds[i]!,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0, // Correct
       });
       await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "test-host" });
@@ -102,7 +104,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
     });
 
     // Manually set player to 900m to simulate late game
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -117,6 +119,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
     await t.mutation(api.answers.submit, {
       questionId: q1,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -161,7 +164,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
       )
     );
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "Player1",
     });
@@ -174,6 +177,7 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
     await t.mutation(api.answers.submit, {
       questionId: questionIds[0]!,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
     await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "test-host" });
@@ -216,10 +220,10 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
     });
 
     // Create 4 players all close to summit
-    const p1 = await t.mutation(api.players.join, { sessionId, name: "Player1" });
-    const p2 = await t.mutation(api.players.join, { sessionId, name: "Player2" });
-    const p3 = await t.mutation(api.players.join, { sessionId, name: "Player3" });
-    const p4 = await t.mutation(api.players.join, { sessionId, name: "Player4" });
+    const { playerId: p1 } = await t.mutation(api.players.join, { sessionId, name: "Player1" });
+    const { playerId: p2 } = await t.mutation(api.players.join, { sessionId, name: "Player2" });
+    const { playerId: p3 } = await t.mutation(api.players.join, { sessionId, name: "Player3" });
+    const { playerId: p4 } = await t.mutation(api.players.join, { sessionId, name: "Player4" });
 
     // Set elevations so they all summit
     // With 1 question, base = 1333m
@@ -236,10 +240,10 @@ describe("simplified scoring system (replaces dynamic caps)", () => {
     await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
 
     // All answer correctly in order
-    await t.mutation(api.answers.submit, { questionId: q1, playerId: p1, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId: q1, playerId: p2, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId: q1, playerId: p3, optionIndex: 0 });
-    await t.mutation(api.answers.submit, { questionId: q1, playerId: p4, optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId: q1, playerId: p1, secretToken: await playerToken(t, p1), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId: q1, playerId: p2, secretToken: await playerToken(t, p2), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId: q1, playerId: p3, secretToken: await playerToken(t, p3), optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId: q1, playerId: p4, secretToken: await playerToken(t, p4), optionIndex: 0 });
 
     await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "test-host" });
 
@@ -3,6 +3,7 @@ import { convexTest } from "convex-test";
 import schema from "../../convex/schema";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -30,7 +31,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       // Start with 10 players
       const initialPlayers: Id<"players">[] = [];
       for (let i = 0; i < 10; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `Player${i}`,
         });
@@ -48,7 +49,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       // Try to add 5 more players mid-game
       const lateJoiners: Id<"players">[] = [];
       for (let i = 10; i < 15; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `LateJoiner${i}`,
         });
@@ -96,7 +97,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
 
       // Late joiner arrives
-      const latePlayerId = await t.mutation(api.players.join, {
+      const { playerId: latePlayerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "LateJoiner",
       });
@@ -110,6 +111,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         t.mutation(api.answers.submit, {
           questionId: currentQuestion!._id,
           playerId: latePlayerId,
+          secretToken: await playerToken(t, latePlayerId),
           optionIndex: 0,
         })
       ).resolves.toBeDefined();
@@ -118,26 +120,26 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
 
   describe("2. Disconnection/Reconnection", () => {
     test("Player marked inactive after heartbeat timeout", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "DisconnectTest",
       });
 
       // Initial heartbeat
-      await t.mutation(api.players.heartbeat, { playerId });
+      await t.mutation(api.players.heartbeat, { playerId, secretToken: await playerToken(t, playerId) });
 
       const playerBefore = await t.query(api.players.get, { playerId });
       expect(playerBefore?.lastSeenAt).toBeGreaterThan(0);
 
       // Simulate disconnect by setting lastSeenAt to 0
-      await t.mutation(api.players.disconnect, { playerId });
+      await t.mutation(api.players.disconnect, { playerId, secretToken: await playerToken(t, playerId) });
 
       const playerAfter = await t.query(api.players.get, { playerId });
       expect(playerAfter?.lastSeenAt).toBe(0);
     });
 
-    test("Disconnected player can rejoin with same name", async () => {
-      const playerId = await t.mutation(api.players.join, {
+    test("Disconnected player can rejoin with same name and their token", async () => {
+      const { playerId, secretToken } = await t.mutation(api.players.join, {
         sessionId,
         name: "Reconnector",
       });
@@ -149,12 +151,13 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       });
 
       // Disconnect
-      await t.mutation(api.players.disconnect, { playerId });
+      await t.mutation(api.players.disconnect, { playerId, secretToken });
 
-      // Try to rejoin with same name - should reactivate the existing player
-      const rejoinedId = await t.mutation(api.players.join, {
+      // Rejoin with same name and token - should reactivate the existing player
+      const { playerId: rejoinedId } = await t.mutation(api.players.join, {
         sessionId,
         name: "Reconnector",
+        secretToken,
       });
 
       expect(rejoinedId).toBe(playerId);
@@ -181,36 +184,38 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Reconnection works even after game has started", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId, secretToken } = await t.mutation(api.players.join, {
         sessionId,
         name: "ReconnectMidGame",
       });
 
       await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
-      await t.mutation(api.players.disconnect, { playerId });
+      await t.mutation(api.players.disconnect, { playerId, secretToken });
 
       // Rejoin after game started
-      const rejoinedId = await t.mutation(api.players.join, {
+      const { playerId: rejoinedId } = await t.mutation(api.players.join, {
         sessionId,
         name: "ReconnectMidGame",
+        secretToken,
       });
 
       expect(rejoinedId).toBe(playerId);
     });
 
     test("CANNOT rejoin if session is finished", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId, secretToken } = await t.mutation(api.players.join, {
         sessionId,
         name: "FinishedRejoiner",
       });
 
-      await t.mutation(api.players.disconnect, { playerId });
+      await t.mutation(api.players.disconnect, { playerId, secretToken });
       await t.mutation(api.sessions.finish, { sessionId, hostId: "test-host" });
 
       await expect(
         t.mutation(api.players.join, {
           sessionId,
           name: "FinishedRejoiner",
+          secretToken,
         })
       ).rejects.toThrow("Game has ended");
     });
@@ -221,7 +226,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       // Create 20 players
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 20; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `ConcurrentPlayer${i}`,
         });
@@ -235,10 +240,11 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       const questionId = questionIds[0]!;
 
       // Submit all answers "simultaneously" (Promise.all simulates concurrent requests)
-      const submissions = playerIds.map((playerId, i) =>
+      const submissions = playerIds.map(async (playerId, i) =>
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: i % 4, // Distribute across 4 options
         })
       );
@@ -263,7 +269,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Duplicate answer from same player is rejected", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "DuplicateAnswerer",
       });
@@ -278,6 +284,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0,
       });
 
@@ -286,6 +293,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 1,
         })
       ).rejects.toThrow("Already answered");
@@ -294,7 +302,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Answer distribution is accurate with concurrent submissions", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 100; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `DistributionPlayer${i}`,
         });
@@ -308,7 +316,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       const questionId = questionIds[0]!;
 
       // 50 players choose option 0, 30 choose option 1, 20 choose option 2
-      const submissions = playerIds.map((playerId, i) => {
+      const submissions = playerIds.map(async (playerId, i) => {
         let optionIndex: number;
         if (i < 50) optionIndex = 0;
         else if (i < 80) optionIndex = 1;
@@ -317,6 +325,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         return t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex,
         });
       });
@@ -334,7 +343,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Scoring is accurate after concurrent submissions", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 30; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `ScoringPlayer${i}`,
         });
@@ -353,10 +362,11 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       const correctIndex = currentQuestion.correctOptionIndex ?? 0;
 
       // All players submit answers concurrently (all choose correct option)
-      const submissions = playerIds.map((playerId) =>
+      const submissions = playerIds.map(async (playerId) =>
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: correctIndex,
         })
       );
@@ -379,7 +389,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
 
   describe("4. Host Navigation (Backward/Reset)", () => {
     test("Navigate backward from revealed to answers_shown", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "BackwardNav",
       });
@@ -392,6 +402,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0,
       });
 
@@ -412,7 +423,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Navigate backward from answers_shown deletes answers (DESTRUCTIVE)", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "DestructiveNav",
       });
@@ -425,6 +436,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0,
       });
 
@@ -446,7 +458,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Reset session mid-game clears all progress", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 10; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `ResetPlayer${i}`,
         });
@@ -468,6 +480,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         await t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: correctIndex,
         });
       }
@@ -496,7 +509,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Players continue to see correct state during backward navigation", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "StateCheck",
       });
@@ -518,7 +531,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Stepping backward then forward maintains consistency", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "ConsistencyCheck",
       });
@@ -543,7 +556,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
 
   describe("5. Browser Refresh", () => {
     test("Player can reconnect after refresh using stored session", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "RefreshPlayer",
       });
@@ -564,14 +577,14 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       expect(storedSession?.player.elevation).toBe(150);
 
       // Reactivate player
-      await t.mutation(api.players.reactivate, { playerId });
+      await t.mutation(api.players.reactivate, { playerId, secretToken: await playerToken(t, playerId) });
 
       const player = await t.query(api.players.get, { playerId });
       expect(player?.lastSeenAt).toBeGreaterThan(0);
     });
 
     test("Refresh during active game preserves all state", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "RefreshMidGame",
       });
@@ -584,6 +597,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 2,
       });
 
@@ -604,7 +618,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Refresh returns null for finished session", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "RefreshFinished",
       });
@@ -623,7 +637,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
   describe("6. Invalid/Edge Inputs", () => {
     test("Very long player names are trimmed", async () => {
       const longName = "A".repeat(200);
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: longName,
       });
@@ -634,7 +648,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Empty player name (whitespace only) is trimmed", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "   ",
       });
@@ -652,7 +666,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Cannot answer question that doesn't exist", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "InvalidQuestionAnswerer",
       });
@@ -663,13 +677,14 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         t.mutation(api.answers.submit, {
           questionId: fakeQuestionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         })
       ).rejects.toThrow();
     });
 
     test("Cannot answer before answers are shown (wrong phase)", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "EarlyAnswerer",
       });
@@ -684,17 +699,18 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         })
       ).rejects.toThrow("Answers are not being accepted");
     });
 
     test("Cannot answer after time expires", async () => {
-      const playerId1 = await t.mutation(api.players.join, {
+      const { playerId: playerId1 } = await t.mutation(api.players.join, {
         sessionId,
         name: "FastPlayer",
       });
-      const playerId2 = await t.mutation(api.players.join, {
+      const { playerId: playerId2 } = await t.mutation(api.players.join, {
         sessionId,
         name: "SlowPlayer",
       });
@@ -709,6 +725,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId: playerId1,
+        secretToken: await playerToken(t, playerId1),
         optionIndex: 0,
       });
 
@@ -728,7 +745,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Invalid option index is rejected with bounds error", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "InvalidOptionPlayer",
       });
@@ -744,6 +761,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 999, // Way out of bounds
         })
       ).rejects.toThrow("Invalid option index");
@@ -762,7 +780,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       const playerIds: Id<"players">[] = [];
 
       for (let i = 0; i < 50; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `Player${i}`,
         });
@@ -776,7 +794,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("50 players can all answer the same question", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 50; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `Player${i}`,
         });
@@ -789,10 +807,11 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
 
       const questionId = questionIds[0]!;
 
-      const submissions = playerIds.map((playerId, i) =>
+      const submissions = playerIds.map(async (playerId, i) =>
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: i % 4,
         })
       );
@@ -806,7 +825,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Leaderboard correctly ranks 50 players", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 50; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `Player${i}`,
         });
@@ -837,7 +856,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Rope climbing state handles 50 players efficiently", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 50; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `Player${i}`,
         });
@@ -851,10 +870,11 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       const questionId = questionIds[0]!;
 
       // 25 players answer option 0, 25 answer option 1
-      const submissions = playerIds.map((playerId, i) =>
+      const submissions = playerIds.map(async (playerId, i) =>
         t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: i < 25 ? 0 : 1,
         })
       );
@@ -876,7 +896,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Concurrent kicks don't leave orphaned data", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 10; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `KickPlayer${i}`,
         });
@@ -894,6 +914,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         await t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         });
       }
@@ -917,7 +938,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     test("Session deletion cleans up all related data", async () => {
       const playerIds: Id<"players">[] = [];
       for (let i = 0; i < 20; i++) {
-        const playerId = await t.mutation(api.players.join, {
+        const { playerId } = await t.mutation(api.players.join, {
           sessionId,
           name: `CleanupPlayer${i}`,
         });
@@ -934,6 +955,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
         await t.mutation(api.answers.submit, {
           questionId,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         });
       }
@@ -954,7 +976,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
     });
 
     test("Multiple simultaneous reveals don't double-apply elevation", async () => {
-      const playerId = await t.mutation(api.players.join, {
+      const { playerId } = await t.mutation(api.players.join, {
         sessionId,
         name: "DoubleRevealCheck",
       });
@@ -967,6 +989,7 @@ describe("Edge Cases for Live Events with 50+ Players", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: 0,
       });
 
@@ -0,0 +1,175 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 1 question, 75% threshold: full base elevation = round(1000 / 0.75) = 1333m
+async function setupEstimationGame(playerCount = 3) {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  // Delete all auto-generated sample questions
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+
+  const questionId = await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "How many jelly beans are in the jar?",
+    options: [],
+    numericAnswer: 100,
+  });
+
+  const players = [];
+  for (let i = 0; i < playerCount; i++) {
+    players.push((await t.mutation(api.players.join, { sessionId, name: `Player${i + 1}` })).playerId);
+  }
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+  return { t, hostId, sessionId, questionId, players };
+}
+
+describe("estimation questions", () => {
+  test("create stores the numeric answer without options", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+
+    const questionId = await t.mutation(api.questions.create, {
+      sessionId,
+      hostId: "test-host",
+      text: "Height of the Eiffel Tower in meters?",
+      options: [{ text: "ignored" }, { text: "also ignored" }],
+      correctOptionIndex: 0,
+      numericAnswer: 330,
+    });
+
+    const question = await t.query(api.questions.get, { questionId });
+    expect(question?.numericAnswer).toBe(330);
+    expect(question?.options).toEqual([]);
+    expect(question?.correctOptionIndex).toBeUndefined();
+  });
+
+  test("update rejects a numeric answer on option questions", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+
+    await expect(
+      t.mutation(api.questions.update, {
+        questionId: questions[0]!._id,
+        hostId: "test-host",
+        numericAnswer: 5,
+      })
+    ).rejects.toThrowError("Only estimation questions have a numeric answer");
+  });
+
+  test("submit validates guesses", async () => {
+    const { t, questionId, players } = await setupEstimationGame();
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndex: 0 })
+    ).rejects.toThrowError("This question takes a number, not an option");
+    await expect(
+      t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), numericGuess: NaN })
+    ).rejects.toThrowError("Enter a number");
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), numericGuess: 87.5 });
+    const answer = await t.run(async (ctx) =>
+      ctx.db.query("answers").withIndex("by_player", (q) => q.eq("playerId", players[0]!)).first()
+    );
+    expect(answer?.numericGuess).toBe(87.5);
+    expect(answer?.optionIndex).toBe(-1);
+  });
+
+  test("option questions reject numeric guesses", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Solo" });
+    await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
+    const question = await t.query(api.questions.getCurrentQuestion, { sessionId });
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId: question!._id, playerId, secretToken: await playerToken(t, playerId), numericGuess: 3 })
+    ).rejects.toThrowError("This question takes an option, not a number");
+  });
+
+  test("rope state hides the answer and ranks until reveal", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupEstimationGame();
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), numericGuess: 60 });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), numericGuess: 105 });
+
+    const before = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(before?.ropes).toEqual([]);
+    expect(before?.estimation?.answer).toBeNull();
+    expect(before?.estimation?.guesses.map((g) => g.guess)).toEqual([60, 105]);
+    expect(before?.estimation?.guesses.every((g) => g.rank === undefined)).toBe(true);
+    expect(before?.notAnswered).toHaveLength(1);
+
+    const playerBefore = await t.query(api.answers.getPlayerRopeState, {
+      sessionId,
+      playerId: players[0]!,
+    });
+    expect(playerBefore?.estimation).toEqual({ answer: null, myGuess: 60, myRank: null });
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const after = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(after?.estimation?.answer).toBe(100);
+    expect(after?.estimation?.guesses.map((g) => [g.guess, g.rank])).toEqual([[105, 1], [60, 2]]);
+
+    const playerAfter = await t.query(api.answers.getPlayerRopeState, {
+      sessionId,
+      playerId: players[0]!,
+    });
+    expect(playerAfter?.estimation).toEqual({ answer: 100, myGuess: 60, myRank: 2 });
+    expect(playerAfter?.myAnswer.isCorrect).toBe(true);
+  });
+
+  test("reveal scales base elevation by closeness and gives the bonus to the closest guess", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupEstimationGame();
+
+    // Farthest guess answers first - the bonus should still go to the closest
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), numericGuess: 150 });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), numericGuess: 100 });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[2]!, secretToken: await playerToken(t, players[2]!), numericGuess: 250 });
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const answers = await t.run(async (ctx) =>
+      ctx.db.query("answers").withIndex("by_question", (q) => q.eq("questionId", questionId)).collect()
+    );
+    const answerFor = (playerId: string) => answers.find((a) => a.playerId === playerId);
+
+    expect(answerFor(players[1]!)?.baseScore).toBe(1333);
+    expect(answerFor(players[0]!)?.baseScore).toBe(667); // off by 50%
+    expect(answerFor(players[2]!)?.elevationGain).toBe(0); // off by 150%
+
+    expect(answerFor(players[1]!)?.speedBonus ?? 0).toBeGreaterThan(0);
+    expect(answerFor(players[0]!)?.speedBonus ?? 0).toBe(0);
+  });
+
+  test("getResults returns the answer and sorted guesses", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupEstimationGame();
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), numericGuess: 140 });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), numericGuess: 80 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results?.numericAnswer).toBe(100);
+    expect(results?.guesses).toEqual([80, 140]);
+    expect(results?.totalAnswers).toBe(2);
+  });
+});
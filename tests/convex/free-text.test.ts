@@ -0,0 +1,147 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 1 free-text question, answers open, players typed the given answers
+async function setupFreeTextGame(typed: string[]) {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  const questionId = await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "Best pizza topping?",
+    options: [{ text: "ignored" }, { text: "also ignored" }],
+    correctOptionIndex: 0,
+    freeText: true,
+  });
+
+  const players = [];
+  for (let i = 0; i < typed.length; i++) {
+    players.push(await t.mutation(api.players.join, { sessionId, name: `Player${i + 1}` }));
+  }
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  for (let i = 0; i < typed.length; i++) {
+    await t.mutation(api.answers.submit, { questionId, ...players[i]!, text: typed[i] });
+  }
+
+  const getQueue = async () => (await t.query(api.answers.getModerationQueue, { questionId, hostId }))!;
+  return { t, hostId, sessionId, questionId, players, getQueue };
+}
+
+describe("free-text questions", () => {
+  test("typed answers wait in the queue, clustered by spelling, off the ropes", async () => {
+    const { t, sessionId, questionId, players, getQueue } = await setupFreeTextGame(["Pepperoni", "pepperoni!", "Pineapple"]);
+
+    const question = await t.query(api.questions.get, { questionId });
+    expect(question?.options).toEqual([]);
+    expect(question?.correctOptionIndex).toBeUndefined();
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId, ...players[0]!, optionIndex: 0 })
+    ).rejects.toThrowError("This question takes a typed answer");
+
+    const queue = await getQueue();
+    expect(queue.pending.map((c) => [c.text, c.answerIds.length])).toEqual([["Pepperoni", 2], ["Pineapple", 1]]);
+
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.ropes).toEqual([]);
+    expect(state?.freeText).toEqual({ pendingCount: 3 });
+    expect(state?.notAnswered).toHaveLength(3);
+  });
+
+  test("approved answers become ropes, and matching names join the same rope", async () => {
+    const { t, hostId, sessionId, questionId, players, getQueue } = await setupFreeTextGame(["Pepperoni", "Mushroom", "PEPPERONI"]);
+
+    const [pepperoni] = (await getQueue()).pending;
+    const optionIndex = await t.mutation(api.answers.approveTextAnswers, {
+      questionId, hostId, answerIds: pepperoni!.answerIds, label: pepperoni!.text,
+    });
+    expect(optionIndex).toBe(0);
+
+    // A late answer spelled the same way is suggested for the existing rope
+    const late = await t.mutation(api.players.join, { sessionId, name: "Late" });
+    await t.mutation(api.answers.submit, { questionId, ...late, text: "pepperoni" });
+    const lateCluster = (await getQueue()).pending.find((c) => c.text === "pepperoni")!;
+    expect(lateCluster.suggestedOptionIndex).toBe(0);
+    expect(await t.mutation(api.answers.approveTextAnswers, {
+      questionId, hostId, answerIds: lateCluster.answerIds, label: "Pepperoni",
+    })).toBe(0);
+
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.ropes.map((r) => [r.optionText, r.players.length])).toEqual([["Pepperoni", 3]]);
+    expect(state?.freeText).toEqual({ pendingCount: 1 });
+
+    const mine = await t.query(api.answers.getPlayerRopeState, { sessionId, playerId: players[0]!.playerId });
+    expect(mine?.freeText).toEqual({ myText: "Pepperoni", moderation: "approved" });
+    expect((await t.query(api.players.get, { playerId: players[0]!.playerId }))?.lastOptionIndex).toBe(0);
+  });
+
+  test("rejected answers leave their rope and earn nothing", async () => {
+    const { t, hostId, sessionId, questionId, players, getQueue } = await setupFreeTextGame(["Anchovies", "Something rude"]);
+
+    const [first, second] = (await getQueue()).pending;
+    await t.mutation(api.answers.approveTextAnswers, { questionId, hostId, answerIds: first!.answerIds, label: first!.text });
+    await t.mutation(api.answers.rejectTextAnswers, { questionId, hostId, answerIds: second!.answerIds });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const answers = await t.query(api.answers.getByQuestion, { questionId });
+    const gain = (index: number) => answers.find((a) => a.playerId === players[index]!.playerId)!.elevationGain;
+    expect(gain(0)).toBeGreaterThan(0);
+    expect(gain(1)).toBe(0);
+  });
+
+  test("merging ropes moves answers and closes the gap", async () => {
+    const { t, hostId, sessionId, questionId, getQueue } = await setupFreeTextGame(["Ham", "Olives", "Basil"]);
+
+    for (const cluster of (await getQueue()).pending) {
+      await t.mutation(api.answers.approveTextAnswers, { questionId, hostId, answerIds: cluster.answerIds, label: cluster.text });
+    }
+    await expect(
+      t.mutation(api.answers.mergeTextGroups, { questionId, hostId, fromIndex: 1, intoIndex: 1 })
+    ).rejects.toThrowError("Pick two different groups");
+    await t.mutation(api.answers.mergeTextGroups, { questionId, hostId, fromIndex: 0, intoIndex: 2 });
+
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.ropes.map((r) => [r.optionText, r.players.length])).toEqual([["Olives", 1], ["Basil", 2]]);
+  });
+
+  test("only the host moderates, and only while answers are open", async () => {
+    const { t, hostId, sessionId, questionId, getQueue } = await setupFreeTextGame(["Ham"]);
+    const [cluster] = (await getQueue()).pending;
+
+    await expect(
+      t.mutation(api.answers.approveTextAnswers, { questionId, hostId: "someone-else", answerIds: cluster!.answerIds, label: "Ham" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    await expect(
+      t.mutation(api.answers.approveTextAnswers, { questionId, hostId, answerIds: cluster!.answerIds, label: "Ham" })
+    ).rejects.toThrowError("Can only moderate answers while they're open");
+  });
+
+  test("export and import keep the question free text", async () => {
+    const { t, hostId, sessionId, getQueue, questionId } = await setupFreeTextGame(["Ham"]);
+    const [cluster] = (await getQueue()).pending;
+    await t.mutation(api.answers.approveTextAnswers, { questionId, hostId, answerIds: cluster!.answerIds, label: "Ham" });
+
+    const exported = await t.query(api.questions.exportQuestions, { sessionId });
+    expect(exported.questions[0]).toMatchObject({ freeText: true, options: [] });
+
+    const { sessionId: newSessionId } = await t.mutation(api.sessions.create, { hostId });
+    await t.mutation(api.questions.importQuestions, { sessionId: newSessionId, hostId, questions: exported.questions });
+    const [imported] = await t.query(api.questions.listBySession, { sessionId: newSessionId });
+    expect(imported).toMatchObject({ freeText: true, options: [] });
+  });
+});
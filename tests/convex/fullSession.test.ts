@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
 import { Id } from "../../convex/_generated/dataModel";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -56,7 +57,7 @@ describe("Full Session Integration", () => {
   ) {
     const playerIds: Id<"players">[] = [];
     for (let i = 0; i < count; i++) {
-      const id = await t.mutation(api.players.join, {
+      const { playerId: id } = await t.mutation(api.players.join, {
         sessionId,
         name: `Player${i + 1}`,
       });
@@ -115,6 +116,7 @@ describe("Full Session Integration", () => {
         await t.mutation(api.answers.submit, {
           questionId: question._id,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex,
         });
       }
@@ -215,6 +217,7 @@ describe("Full Session Integration", () => {
       t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId: playerIds[0]!,
+        secretToken: await playerToken(t, playerIds[0]!),
         optionIndex: 0,
       })
     ).rejects.toThrow("Answers are not being accepted right now");
@@ -236,6 +239,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: 0,
     });
 
@@ -247,6 +251,7 @@ describe("Full Session Integration", () => {
       t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId: playerIds[1]!,
+        secretToken: await playerToken(t, playerIds[1]!),
         optionIndex: 0,
       })
     ).rejects.toThrow("Answers are not being accepted right now");
@@ -268,6 +273,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: 0,
     });
 
@@ -276,6 +282,7 @@ describe("Full Session Integration", () => {
       t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId: playerIds[0]!,
+        secretToken: await playerToken(t, playerIds[0]!),
         optionIndex: 1,
       })
     ).rejects.toThrow("Already answered this question");
@@ -298,12 +305,14 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: correctIndex,
     });
 
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[1]!,
+      secretToken: await playerToken(t, playerIds[1]!),
       optionIndex: correctIndex,
     });
 
@@ -341,6 +350,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: wrongIndex,
     });
 
@@ -381,6 +391,7 @@ describe("Full Session Integration", () => {
         await t.mutation(api.answers.submit, {
           questionId: question._id,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex,
         });
       }
@@ -442,6 +453,7 @@ describe("Full Session Integration", () => {
       await t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId: playerIds[i]!,
+        secretToken: await playerToken(t, playerIds[i]!),
         optionIndex: i,
       });
     }
@@ -476,6 +488,7 @@ describe("Full Session Integration", () => {
         await t.mutation(api.answers.submit, {
           questionId: questions[i]!._id,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         });
       }
@@ -520,6 +533,7 @@ describe("Full Session Integration", () => {
       await t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: questions[0]!.correctOptionIndex!,
       });
     }
@@ -528,7 +542,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
 
     // New player joins mid-game (during question 2)
-    const lateJoiner = await t.mutation(api.players.join, {
+    const { playerId: lateJoiner } = await t.mutation(api.players.join, {
       sessionId,
       name: "LateJoiner",
     });
@@ -542,6 +556,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[1]!._id,
       playerId: lateJoiner,
+      secretToken: await playerToken(t, lateJoiner),
       optionIndex: questions[1]!.correctOptionIndex!,
     });
 
@@ -570,6 +585,7 @@ describe("Full Session Integration", () => {
       await t.mutation(api.answers.submit, {
         questionId: questions[0]!._id,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: questions[0]!.correctOptionIndex!,
       });
     }
@@ -641,21 +657,25 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: correctIndex,
     });
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[1]!,
+      secretToken: await playerToken(t, playerIds[1]!),
       optionIndex: correctIndex,
     });
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[2]!,
+      secretToken: await playerToken(t, playerIds[2]!),
       optionIndex: (correctIndex + 1) % 4,
     });
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[3]!,
+      secretToken: await playerToken(t, playerIds[3]!),
       optionIndex: (correctIndex + 2) % 4,
     });
 
@@ -720,6 +740,7 @@ describe("Full Session Integration", () => {
         await t.mutation(api.answers.submit, {
           questionId: currentQuestion!._id,
           playerId,
+          secretToken: await playerToken(t, playerId),
           optionIndex: 0,
         });
       }
@@ -763,6 +784,7 @@ describe("Full Session Integration", () => {
       await t.mutation(api.answers.submit, {
         questionId: questions[i]!._id,
         playerId: playerIds[0]!,
+        secretToken: await playerToken(t, playerIds[0]!),
         optionIndex: questions[i]!.correctOptionIndex!,
       });
 
@@ -772,6 +794,7 @@ describe("Full Session Integration", () => {
         await t.mutation(api.answers.submit, {
           questionId: questions[i]!._id,
           playerId: playerIds[j]!,
+          secretToken: await playerToken(t, playerIds[j]!),
           optionIndex: wrongIndex,
         });
       }
@@ -912,6 +935,7 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[0]!,
+      secretToken: await playerToken(t, playerIds[0]!),
       optionIndex: 0,
     });
 
@@ -927,11 +951,13 @@ describe("Full Session Integration", () => {
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[1]!,
+      secretToken: await playerToken(t, playerIds[1]!),
       optionIndex: 1,
     });
     await t.mutation(api.answers.submit, {
       questionId: questions[0]!._id,
       playerId: playerIds[2]!,
+      secretToken: await playerToken(t, playerIds[2]!),
       optionIndex: 2,
     });
 
@@ -0,0 +1,172 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Owner "host-1" (Olive) and a registered helper "host-2" (Casey)
+async function setupSessionWithAccounts() {
+  const t = convexTest(schema, modules);
+  await t.mutation(api.hosts.register, { hostId: "host-1", name: "Olive", password: "owner-pass" });
+  await t.mutation(api.hosts.register, { hostId: "host-2", name: "Casey", password: "cohost-pass" });
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+  return { t, sessionId };
+}
+
+describe("hosts.register / signIn", () => {
+  test("signing in from another device returns the account's hostId", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.hosts.register, { hostId: "device-a", name: " Olive ", password: "hunter22" });
+
+    const result = await t.mutation(api.hosts.signIn, { name: "olive", password: "hunter22" });
+    expect(result).toEqual({ hostId: "device-a", name: "Olive" });
+    expect(await t.query(api.hosts.getAccount, { hostId: "device-a" })).toEqual({ name: "Olive" });
+    expect(await t.query(api.hosts.getAccount, { hostId: "device-b" })).toBeNull();
+  });
+
+  test("rejects wrong passwords and unknown names with the same error", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.hosts.register, { hostId: "device-a", name: "Olive", password: "hunter22" });
+
+    await expect(
+      t.mutation(api.hosts.signIn, { name: "Olive", password: "wrong-pass" })
+    ).rejects.toThrowError("Invalid host name or password");
+    await expect(
+      t.mutation(api.hosts.signIn, { name: "Nobody", password: "hunter22" })
+    ).rejects.toThrowError("Invalid host name or password");
+  });
+
+  test("rejects taken names, short passwords and a second account per device", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.hosts.register, { hostId: "device-a", name: "Olive", password: "hunter22" });
+
+    await expect(
+      t.mutation(api.hosts.register, { hostId: "device-b", name: "OLIVE", password: "hunter22" })
+    ).rejects.toThrowError("Host name already taken");
+    await expect(
+      t.mutation(api.hosts.register, { hostId: "device-b", name: "Casey", password: "short" })
+    ).rejects.toThrowError("Password must be at least 8 characters");
+    await expect(
+      t.mutation(api.hosts.register, { hostId: "device-a", name: "Casey", password: "hunter22" })
+    ).rejects.toThrowError("This device is already signed in to a host account");
+  });
+});
+
+describe("co-host permissions", () => {
+  test("a co-host who can run the game advances phases but cannot delete or edit", async () => {
+    const { t, sessionId } = await setupSessionWithAccounts();
+    await t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "casey", permissions: ["runGame"] });
+
+    expect(await t.query(api.hosts.getMyRole, { sessionId, hostId: "host-2" })).toEqual({
+      role: "cohost",
+      permissions: ["runGame"],
+    });
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-2" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "host-2" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-2" });
+
+    await expect(
+      t.mutation(api.sessions.remove, { sessionId, hostId: "host-2" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.questions.create, {
+        sessionId,
+        hostId: "host-2",
+        text: "Sneaky?",
+        options: [{ text: "Yes" }, { text: "No" }],
+        correctOptionIndex: 0,
+      })
+    ).rejects.toThrowError("Unauthorized: missing co-host permission");
+  });
+
+  test("updating and removing a co-host changes what they can do", async () => {
+    const { t, sessionId } = await setupSessionWithAccounts();
+    const coHostId = await t.mutation(api.hosts.addCoHost, {
+      sessionId,
+      hostId: "host-1",
+      name: "Casey",
+      permissions: ["runGame"],
+    });
+
+    await t.mutation(api.hosts.updateCoHost, { coHostId, hostId: "host-1", permissions: ["managePlayers"] });
+    await t.mutation(api.teams.create, { sessionId, hostId: "host-2", name: "Owls" });
+    await expect(
+      t.mutation(api.sessions.start, { sessionId, hostId: "host-2" })
+    ).rejects.toThrowError("Unauthorized: missing co-host permission");
+
+    await t.mutation(api.hosts.removeCoHost, { coHostId, hostId: "host-1" });
+    expect(await t.query(api.hosts.getMyRole, { sessionId, hostId: "host-2" })).toBeNull();
+    await expect(
+      t.mutation(api.teams.create, { sessionId, hostId: "host-2", name: "Jays" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+  });
+
+  test("only the owner can manage co-hosts", async () => {
+    const { t, sessionId } = await setupSessionWithAccounts();
+    await t.mutation(api.hosts.register, { hostId: "host-3", name: "Riley", password: "third-pass" });
+    await t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "Casey", permissions: ["runGame"] });
+
+    await expect(
+      t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-2", name: "Riley", permissions: ["runGame"] })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "Casey", permissions: ["runGame"] })
+    ).rejects.toThrowError("That host is already a co-host");
+    await expect(
+      t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "Nobody", permissions: ["runGame"] })
+    ).rejects.toThrowError("No host account with that name");
+    await expect(
+      t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "Riley", permissions: [] })
+    ).rejects.toThrowError("Pick at least one permission");
+  });
+
+  test("co-hosted sessions appear in the co-host's session list without the owner's hostId", async () => {
+    const { t, sessionId } = await setupSessionWithAccounts();
+    await t.mutation(api.hosts.addCoHost, { sessionId, hostId: "host-1", name: "Casey", permissions: ["runGame"] });
+
+    const coHostSessions = await t.query(api.sessions.listByHost, { hostId: "host-2" });
+    expect(coHostSessions.map((s) => s._id)).toEqual([sessionId]);
+    expect(coHostSessions[0]!.isCoHost).toBe(true);
+    expect(coHostSessions[0]).not.toHaveProperty("hostId");
+
+    const ownerSessions = await t.query(api.sessions.listByHost, { hostId: "host-1" });
+    expect(ownerSessions[0]!.isCoHost).toBe(false);
+
+    const session = await t.query(api.sessions.get, { sessionId });
+    expect(session).not.toHaveProperty("hostId");
+  });
+});
+
+describe("hosts.listActions", () => {
+  test("records which host revealed, kicked and ended the game early", async () => {
+    const { t, sessionId } = await setupSessionWithAccounts();
+    await t.mutation(api.hosts.addCoHost, {
+      sessionId,
+      hostId: "host-1",
+      name: "Casey",
+      permissions: ["runGame", "managePlayers"],
+    });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "host-1" });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "host-2" });
+    await t.mutation(api.players.kick, { playerId, hostId: "host-2" });
+    await t.mutation(api.sessions.endGameEarly, { sessionId, hostId: "host-1" });
+
+    const actions = await t.query(api.hosts.listActions, { sessionId, hostId: "host-1" });
+    expect(actions.map((a) => [a.hostName, a.action])).toEqual([
+      ["Olive", "endGameEarly"],
+      ["Casey", "kick"],
+      ["Casey", "revealAnswer"],
+    ]);
+    expect(actions[1]!.detail).toBe("Alice");
+    expect(actions[2]!.detail).toMatch(/^Q1: /);
+
+    // Not visible to outsiders
+    expect(await t.query(api.hosts.listActions, { sessionId, hostId: "intruder" })).toEqual([]);
+  });
+});
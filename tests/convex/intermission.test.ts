@@ -0,0 +1,139 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Three sample questions, one player, intermission after every question (standings + countdown)
+async function setupIntermissionGame() {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 3 });
+  await t.mutation(api.players.join, { sessionId, name: "Alice" });
+
+  await t.mutation(api.sessions.updateIntermissionSettings, {
+    sessionId,
+    hostId,
+    intermissionEvery: 1,
+    intermissionBetweenRounds: false,
+    intermissionPhases: ["intermission_standings", "intermission_countdown"],
+  });
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+
+  return { t, hostId, sessionId };
+}
+
+// Play the current question through to its results
+async function playToResults(t: ReturnType<typeof convexTest>, sessionId: Id<"sessions">, hostId: string) {
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+  await t.mutation(api.sessions.showResults, { sessionId, hostId });
+}
+
+describe("sessions.updateIntermissionSettings", () => {
+  test("needs at least one screen and can only be changed in the lobby", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+    await expect(
+      t.mutation(api.sessions.updateIntermissionSettings, {
+        sessionId,
+        hostId,
+        intermissionEvery: null,
+        intermissionBetweenRounds: true,
+        intermissionPhases: [],
+      })
+    ).rejects.toThrowError("Turn on at least one intermission screen");
+
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await expect(
+      t.mutation(api.sessions.updateIntermissionSettings, {
+        sessionId,
+        hostId,
+        intermissionEvery: 3,
+        intermissionBetweenRounds: false,
+        intermissionPhases: ["intermission_podium"],
+      })
+    ).rejects.toThrowError("Can only change intermission settings in lobby");
+  });
+});
+
+describe("intermission flow", () => {
+  test("plays the enabled screens after a due question, then moves on", async () => {
+    const { t, hostId, sessionId } = await setupIntermissionGame();
+    await playToResults(t, sessionId, hostId);
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    let session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("intermission_standings");
+    expect(session?.currentQuestionIndex).toBe(0);
+    // The question underneath stays on its results
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.questionPhase).toBe("results");
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("intermission_countdown");
+    // The countdown always ends on its own
+    expect(session?.phaseEndsAt).toBeDefined();
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("question_shown");
+    expect(session?.currentQuestionIndex).toBe(1);
+  });
+
+  test("going back steps through the screens to the results", async () => {
+    const { t, hostId, sessionId } = await setupIntermissionGame();
+    await playToResults(t, sessionId, hostId);
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+
+    expect(await t.mutation(api.sessions.previousPhase, { sessionId, hostId })).toEqual({
+      isDestructive: false,
+      targetDescription: "Standings",
+    });
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId });
+    const session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("results");
+    expect(session?.phaseEndsAt).toBeUndefined();
+  });
+
+  test("never comes after the last question", async () => {
+    const { t, hostId, sessionId } = await setupIntermissionGame();
+    for (let i = 0; i < 3; i++) {
+      await playToResults(t, sessionId, hostId);
+      if (i < 2) {
+        await t.mutation(api.sessions.nextQuestion, { sessionId, hostId }); // Standings
+        await t.mutation(api.sessions.nextQuestion, { sessionId, hostId }); // Countdown
+      }
+    }
+
+    const result = await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    expect(result).toEqual({ finished: true });
+  });
+
+  test("the host can insert one from any results screen", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 2 });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await expect(
+      t.mutation(api.sessions.startIntermission, { sessionId, hostId })
+    ).rejects.toThrowError("Can only start an intermission from results phase");
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    await t.mutation(api.sessions.startIntermission, { sessionId, hostId });
+
+    const session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("intermission_standings");
+  });
+});
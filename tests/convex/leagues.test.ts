@@ -0,0 +1,139 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Play a one-question session to the end with players finishing at the given elevations
+async function playSession(
+  t: ReturnType<typeof convexTest>,
+  hostId: string,
+  finishers: Array<[name: string, elevation: number, deviceId?: string]>
+): Promise<Id<"sessions">> {
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 1 });
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  for (const [name, elevation, deviceId] of finishers) {
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name, deviceId });
+    await t.run(async (ctx) => {
+      await ctx.db.patch(playerId, { elevation });
+    });
+  }
+  await t.mutation(api.sessions.finish, { sessionId, hostId });
+  return sessionId;
+}
+
+describe("leagues", () => {
+  test("the table adds up finished sessions and links players by device", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const leagueId = await t.mutation(api.leagues.create, { hostId, name: " Friday Trivia ", scoring: "position" });
+    const [league] = await t.query(api.leagues.listByHost, { hostId });
+    expect(league).toMatchObject({ _id: leagueId, name: "Friday Trivia", sessionCount: 0 });
+
+    const week1 = await playSession(t, hostId, [["Alice", 600, "device-a"], ["Bob", 400, "device-b"]]);
+    const week2 = await playSession(t, hostId, [["alice", 300, "device-a"], ["Bob", 800, "device-b"]]);
+    await playSession(t, hostId, [["Alice", 1_000, "device-a"]]); // Not in the league
+    await t.mutation(api.leagues.setSessionLeague, { sessionId: week1, hostId, leagueId });
+    await t.mutation(api.leagues.setSessionLeague, { sessionId: week2, hostId, leagueId });
+
+    const standings = await t.query(api.leagues.getStandings, { code: league!.code.toLowerCase() });
+    expect(standings?.sessionCount).toBe(2);
+    expect(standings?.table.map((row) => [row.name, row.points, row.sessionsPlayed])).toEqual([
+      ["Bob", 43, 2],
+      ["alice", 43, 2],
+    ]);
+    expect(standings?.table[0]).not.toHaveProperty("key");
+  });
+
+  test("players sharing a browser keep their own rows", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const leagueId = await t.mutation(api.leagues.create, { hostId, name: "Season", scoring: "position" });
+    const [league] = await t.query(api.leagues.listByHost, { hostId });
+
+    const sessionId = await playSession(t, hostId, [["Alice", 600, "shared"], ["Bob", 400, "shared"]]);
+    await t.mutation(api.leagues.setSessionLeague, { sessionId, hostId, leagueId });
+
+    const standings = await t.query(api.leagues.getStandings, { code: league!.code });
+    expect(standings?.table.map((row) => [row.name, row.points])).toEqual([
+      ["Alice", 25],
+      ["Bob", 18],
+    ]);
+  });
+
+  test("someone else typing the same name doesn't take over a climber's standing", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const leagueId = await t.mutation(api.leagues.create, { hostId, name: "Season", scoring: "position" });
+    const [league] = await t.query(api.leagues.listByHost, { hostId });
+
+    const week1 = await playSession(t, hostId, [["Alice", 600, "device-a"], ["Bob", 400, "device-b"]]);
+    const week2 = await playSession(t, hostId, [["Alice", 900, "device-x"], ["Bob", 100, "device-b"]]);
+    await t.mutation(api.leagues.setSessionLeague, { sessionId: week1, hostId, leagueId });
+    await t.mutation(api.leagues.setSessionLeague, { sessionId: week2, hostId, leagueId });
+
+    const standings = await t.query(api.leagues.getStandings, { code: league!.code });
+    expect(standings?.table.map((row) => [row.name, row.points, row.sessionsPlayed])).toEqual([
+      ["Bob", 36, 2],
+      ["Alice", 25, 1], // Week 2's impostor
+      ["Alice", 25, 1],
+    ]);
+  });
+
+  test("only the league owner can add sessions to it", async () => {
+    const t = convexTest(schema, modules);
+    const leagueId = await t.mutation(api.leagues.create, { hostId: "host-1", name: "Season", scoring: "elevation" });
+    const sessionId = await playSession(t, "host-2", [["Alice", 100]]);
+
+    await expect(
+      t.mutation(api.leagues.setSessionLeague, { sessionId, hostId: "host-2", leagueId })
+    ).rejects.toThrowError("Unauthorized: not the league owner");
+  });
+
+  test("co-hosts can't move the owner's session in or out of a league", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const ownerLeague = await t.mutation(api.leagues.create, { hostId, name: "Season", scoring: "position" });
+    const coHostLeague = await t.mutation(api.leagues.create, { hostId: "co-host", name: "Mine", scoring: "position" });
+    const sessionId = await playSession(t, hostId, [["Alice", 100]]);
+    await t.mutation(api.leagues.setSessionLeague, { sessionId, hostId, leagueId: ownerLeague });
+    await t.run(async (ctx) => {
+      await ctx.db.insert("coHosts", { sessionId, hostId: "co-host", permissions: ["runGame"], addedAt: Date.now() });
+    });
+
+    await expect(
+      t.mutation(api.leagues.setSessionLeague, { sessionId, hostId: "co-host", leagueId: coHostLeague })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.leagues.setSessionLeague, { sessionId, hostId: "co-host", leagueId: null })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    expect((await t.query(api.sessions.get, { sessionId }))?.leagueId).toBe(ownerLeague);
+  });
+
+  test("deleting a league keeps its sessions", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const leagueId = await t.mutation(api.leagues.create, { hostId, name: "Season", scoring: "position" });
+    const sessionId = await playSession(t, hostId, [["Alice", 100]]);
+    await t.mutation(api.leagues.setSessionLeague, { sessionId, hostId, leagueId });
+
+    await t.mutation(api.leagues.remove, { leagueId, hostId });
+    const session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.leagueId).toBeUndefined();
+    expect(await t.query(api.leagues.listByHost, { hostId })).toHaveLength(0);
+  });
+
+  test("a rematch stays in the league", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const leagueId = await t.mutation(api.leagues.create, { hostId, name: "Season", scoring: "position" });
+    const sessionId = await playSession(t, hostId, [["Alice", 100]]);
+    await t.mutation(api.leagues.setSessionLeague, { sessionId, hostId, leagueId });
+
+    const rematch = await t.mutation(api.sessions.rematch, { sessionId, hostId });
+    const session = await t.query(api.sessions.get, { sessionId: rematch.sessionId });
+    expect(session?.leagueId).toBe(leagueId);
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
 import { Id } from "../../convex/_generated/dataModel";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -82,7 +83,7 @@ describe("50-Player Concurrent Load Test", () => {
     }
 
     const results = await Promise.all(joinPromises);
-    playerIds.push(...results);
+    playerIds.push(...results.map((r) => r.playerId));
 
     return playerIds;
   }
@@ -175,11 +176,12 @@ describe("50-Player Concurrent Load Test", () => {
         const delay = getAnswerDelay(pIndex);
 
         return new Promise((resolve) => {
-          setTimeout(() => {
+          setTimeout(async () => {
             resolve(
               t.mutation(api.answers.submit, {
                 questionId: question._id,
                 playerId,
+                secretToken: await playerToken(t, playerId),
                 optionIndex,
               })
             );
@@ -338,7 +340,7 @@ describe("50-Player Concurrent Load Test", () => {
       })
     );
 
-    const playerIds = await Promise.all(joinPromises);
+    const playerIds = (await Promise.all(joinPromises)).map((r) => r.playerId);
     const duration = Date.now() - startTime;
 
     console.log(`✅ 50 concurrent joins completed in ${duration}ms`);
@@ -409,10 +411,11 @@ describe("50-Player Concurrent Load Test", () => {
     const startTime = Date.now();
 
     // All 50 players answer simultaneously
-    const answerPromises = playerIds.map((playerId, index) =>
+    const answerPromises = playerIds.map(async (playerId, index) =>
       t.mutation(api.answers.submit, {
         questionId: question._id,
         playerId,
+        secretToken: await playerToken(t, playerId),
         optionIndex: index % 4, // Distribute across all options
       })
     );
@@ -456,10 +459,12 @@ describe("50-Player Concurrent Load Test", () => {
     console.log("\n🔒 Testing duplicate answer prevention...");
 
     // Try to submit 10 answers simultaneously from the same player
+    const secretToken = await playerToken(t, playerId);
     const submitPromises = Array.from({ length: 10 }, () =>
       t.mutation(api.answers.submit, {
         questionId: question._id,
         playerId,
+        secretToken,
         optionIndex: 0,
       })
     );
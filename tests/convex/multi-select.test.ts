@@ -0,0 +1,217 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 1 question, 75% threshold: full base elevation = round(1000 / 0.75) = 1333m
+async function setupMultiSelectGame(partialCredit: boolean, playerCount = 3) {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  // Delete all auto-generated sample questions
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+
+  const questionId = await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "Which of these are prime?",
+    options: [{ text: "2" }, { text: "4" }, { text: "7" }, { text: "9" }],
+    correctOptionIndices: [2, 0],
+    partialCredit,
+  });
+
+  const players = [];
+  for (let i = 0; i < playerCount; i++) {
+    players.push((await t.mutation(api.players.join, { sessionId, name: `Player${i + 1}` })).playerId);
+  }
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+  return { t, hostId, sessionId, questionId, players };
+}
+
+describe("select all that apply questions", () => {
+  test("create stores a sorted correct set and no single correct index", async () => {
+    const { t, questionId } = await setupMultiSelectGame(false);
+
+    const question = await t.query(api.questions.get, { questionId });
+    expect(question?.correctOptionIndices).toEqual([0, 2]);
+    expect(question?.correctOptionIndex).toBeUndefined();
+  });
+
+  test("submit stores every pick and climbs the first picked rope", async () => {
+    const { t, sessionId, questionId, players } = await setupMultiSelectGame(false);
+
+    await t.mutation(api.answers.submit, {
+      questionId,
+      playerId: players[0]!,
+      secretToken: await playerToken(t, players[0]!),
+      optionIndices: [2, 0, 2],
+    });
+
+    const answer = await t.run(async (ctx) =>
+      ctx.db.query("answers").withIndex("by_player", (q) => q.eq("playerId", players[0]!)).first()
+    );
+    expect(answer?.optionIndices).toEqual([0, 2]);
+    expect(answer?.optionIndex).toBe(0);
+
+    const state = await t.query(api.answers.getRopeClimbingState, { sessionId });
+    expect(state?.question.multiSelect).toBe(true);
+    expect(state?.ropes.map((r) => r.isCorrect)).toEqual([true, false, true, false]);
+    expect(state?.ropes[0]!.players).toHaveLength(1);
+  });
+
+  test("submit validates picks", async () => {
+    const { t, questionId, players } = await setupMultiSelectGame(false);
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndices: [] })
+    ).rejects.toThrowError("Select at least one option");
+    await expect(
+      t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndices: [0, 4] })
+    ).rejects.toThrowError("Invalid option index: must be 0-3");
+  });
+
+  test("single-choice questions reject several picks", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Solo" });
+    await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId: "test-host" });
+    const question = await t.query(api.questions.getCurrentQuestion, { sessionId });
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId: question!._id, playerId, secretToken: await playerToken(t, playerId), optionIndices: [0, 1] })
+    ).rejects.toThrowError("This question only accepts one answer");
+  });
+
+  test("full-credit mode only rewards the exact correct set", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupMultiSelectGame(false);
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndices: [0, 2] });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), optionIndices: [0] });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[2]!, secretToken: await playerToken(t, players[2]!), optionIndices: [0, 1, 2] });
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const [exact, subset, extra] = await Promise.all(
+      players.map((id) => t.run(async (ctx) => ctx.db.get(id)))
+    );
+    expect(exact?.elevation).toBeGreaterThanOrEqual(1333);
+    expect(subset?.elevation).toBe(0);
+    expect(extra?.elevation).toBe(0);
+  });
+
+  test("partial-credit mode scales base elevation by the share of correct picks", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupMultiSelectGame(true);
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndices: [0, 2] });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), optionIndices: [2] });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[2]!, secretToken: await playerToken(t, players[2]!), optionIndices: [0, 1] });
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const answers = await t.run(async (ctx) =>
+      ctx.db.query("answers").withIndex("by_question", (q) => q.eq("questionId", questionId)).collect()
+    );
+    const baseFor = (playerId: string) => answers.find((a) => a.playerId === playerId)?.baseScore;
+
+    expect(baseFor(players[0]!)).toBe(1333);
+    expect(baseFor(players[1]!)).toBe(667); // 1 of 2 correct
+    expect(baseFor(players[2]!)).toBe(0); // 1 right - 1 wrong
+
+    const partialState = await t.query(api.answers.getPlayerRopeState, {
+      sessionId,
+      playerId: players[1]!,
+    });
+    expect(partialState?.myAnswer.isCorrect).toBe(true);
+    expect(partialState?.myAnswer.optionIndices).toEqual([2]);
+    expect(partialState?.ropes.map((r) => r.playerCount)).toEqual([2, 1, 2, 0]);
+  });
+
+  test("getResults counts every pick", async () => {
+    const { t, questionId, players } = await setupMultiSelectGame(true);
+
+    await t.mutation(api.answers.submit, { questionId, playerId: players[0]!, secretToken: await playerToken(t, players[0]!), optionIndices: [0, 2] });
+    await t.mutation(api.answers.submit, { questionId, playerId: players[1]!, secretToken: await playerToken(t, players[1]!), optionIndices: [0, 3] });
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results?.totalAnswers).toBe(2);
+    expect(results?.optionCounts).toEqual([2, 0, 1, 1]);
+    expect(results?.correctOptionIndices).toEqual([0, 2]);
+  });
+
+  test("update with an empty set turns the question back into single-choice", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    const questionId = await t.mutation(api.questions.create, {
+      sessionId,
+      hostId: "test-host",
+      text: "Pick primes",
+      options: [{ text: "2" }, { text: "4" }, { text: "7" }],
+      correctOptionIndices: [0, 2],
+    });
+
+    await t.mutation(api.questions.update, {
+      questionId,
+      hostId: "test-host",
+      correctOptionIndex: 2,
+      correctOptionIndices: [],
+    });
+
+    const question = await t.query(api.questions.get, { questionId });
+    expect(question?.correctOptionIndices).toBeUndefined();
+    expect(question?.correctOptionIndex).toBe(2);
+  });
+});
+
+describe("select all that apply with a wager", () => {
+  test("a partly correct answer that loses its stake still counts as correct", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+    for (const q of await t.query(api.questions.listBySession, { sessionId })) {
+      await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+    }
+    const questionId = await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text: "Which of these are primary colors?",
+      options: [{ text: "Red" }, { text: "Blue" }, { text: "Yellow" }, { text: "Green" }],
+      correctOptionIndices: [0, 1, 2],
+      partialCredit: true,
+    });
+    const { playerId, secretToken } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    await t.run(async (ctx) => {
+      await ctx.db.patch(playerId, { elevation: 4_000 });
+    });
+
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    // 1 of 3 right: a third of the base, but two thirds of the 2000m stake is lost
+    await t.mutation(api.answers.submit, { questionId, playerId, secretToken, optionIndices: [0], wager: 2_000 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const state = await t.query(api.answers.getPlayerRopeState, { sessionId, playerId });
+    expect(state?.myAnswer.elevationGain).toBeLessThan(0);
+    expect(state?.myAnswer.isCorrect).toBe(true);
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.questions[0]?.correctCount).toBe(1);
+    expect(report?.players[0]?.correct).toBe(1);
+    // ...and agrees with the stored streak
+    const player = await t.query(api.players.get, { playerId });
+    expect(player?.currentStreak).toBe(1);
+  });
+});
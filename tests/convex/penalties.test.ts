@@ -0,0 +1,117 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import type { PenaltyMode } from "../../lib/elevation";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 3 questions, 75% threshold: base 444m, and the first right answer adds an 89m bonus.
+// Alice gets Q1 right (533m), then answers Q2 wrong.
+async function setupWrongSecondAnswer(penaltyMode: PenaltyMode) {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+  await t.mutation(api.sessions.updatePenaltyMode, { sessionId, hostId, penaltyMode });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?", "Third?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }],
+      correctOptionIndex: 0,
+    });
+  }
+  const [q1, q2] = await t.query(api.questions.listBySession, { sessionId });
+
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...alice, optionIndex: 0 });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...bob, optionIndex: 1 });
+  await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+  await t.mutation(api.sessions.showResults, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  await t.mutation(api.answers.submit, { questionId: q2!._id, ...alice, optionIndex: 1 });
+  await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+  const elevationOf = async (playerId: typeof alice.playerId) =>
+    (await t.query(api.players.get, { playerId }))!.elevation;
+  return { t, hostId, sessionId, alice, bob, elevationOf };
+}
+
+describe("wrong-answer penalties", () => {
+  test.each([
+    ["none", 533],
+    ["fixedSlip", 483],
+    ["percentSlip", 480],
+    ["checkpoint", 500],
+  ] as const)("%s mode leaves a wrong answer at %im", async (mode, expected) => {
+    const { alice, elevationOf } = await setupWrongSecondAnswer(mode);
+    expect(await elevationOf(alice.playerId)).toBe(expected);
+  });
+
+  test("nobody slips below the base", async () => {
+    const { bob, elevationOf } = await setupWrongSecondAnswer("fixedSlip");
+    expect(await elevationOf(bob.playerId)).toBe(0);
+  });
+
+  test("stepping back from the reveal puts the slip back, and revealing again repeats it", async () => {
+    const { t, hostId, sessionId, alice, elevationOf } = await setupWrongSecondAnswer("fixedSlip");
+
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // revealed -> answers_shown
+    expect(await elevationOf(alice.playerId)).toBe(533);
+
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    expect(await elevationOf(alice.playerId)).toBe(483);
+
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // revealed -> answers_shown
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // answers_shown -> question_shown
+    expect(await elevationOf(alice.playerId)).toBe(533);
+  });
+
+  test("can only be changed in the lobby", async () => {
+    const { t, hostId, sessionId } = await setupWrongSecondAnswer("none");
+    await expect(
+      t.mutation(api.sessions.updatePenaltyMode, { sessionId, hostId, penaltyMode: "checkpoint" })
+    ).rejects.toThrowError("Can only change penalty mode in lobby");
+  });
+});
+
+describe("summit places after a slip", () => {
+  test("a summiter who slips back down and climbs over again keeps their first place", async () => {
+    const { t, hostId, sessionId, alice, bob } = await setupWrongSecondAnswer("fixedSlip");
+    const [, , q3] = await t.query(api.questions.listBySession, { sessionId });
+    // Alice summited earlier and the Q2 slip took her back below the top; Bob is close behind
+    await t.run(async (ctx) => {
+      await ctx.db.patch(alice.playerId, { elevation: 970, summitPlace: 1, summitElevation: 1_020 });
+      await ctx.db.patch(bob.playerId, { elevation: 900 });
+    });
+
+    await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.answers.submit, { questionId: q3!._id, ...alice, optionIndex: 0 });
+    await t.mutation(api.answers.submit, { questionId: q3!._id, ...bob, optionIndex: 0 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const placeOf = async (playerId: typeof alice.playerId) =>
+      (await t.query(api.players.get, { playerId }))!.summitPlace;
+    expect(await placeOf(alice.playerId)).toBe(1);
+    expect(await placeOf(bob.playerId)).toBe(2);
+
+    // Undoing the reveal only takes back the place it handed out
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId });
+    expect(await placeOf(alice.playerId)).toBe(1);
+    expect(await placeOf(bob.playerId)).toBeUndefined();
+  });
+});
@@ -3,6 +3,7 @@ import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
 import { PRESENCE_TIMEOUT_MS } from "../../lib/constants";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -19,7 +20,7 @@ describe("players.join", () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -52,13 +53,13 @@ describe("players.join", () => {
     ).rejects.toThrowError("Name already taken in this session");
   });
 
-  test("allows rejoin with same name when previous player is inactive (no heartbeat)", async () => {
+  test("allows rejoin with same name and token when previous player is inactive (no heartbeat)", async () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
     // First player joins
-    const playerId1 = await t.mutation(api.players.join, {
+    const { playerId: playerId1, secretToken } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
     });
@@ -66,10 +67,11 @@ describe("players.join", () => {
     // Advance time past the presence timeout
     vi.advanceTimersByTime(PRESENCE_TIMEOUT_MS + 1000);
 
-    // Same name can now rejoin (reactivates the old player)
-    const playerId2 = await t.mutation(api.players.join, {
+    // Same device can now rejoin (reactivates the old player)
+    const { playerId: playerId2 } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
+      secretToken,
     });
 
     // Should return the same player ID (reactivation, not new player)
@@ -80,24 +82,45 @@ describe("players.join", () => {
     expect(player?.lastSeenAt).toBeDefined();
   });
 
-  test("allows rejoin with same name when previous player explicitly disconnected", async () => {
+  test("rejects taking over an inactive player's name without their token", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    const { playerId, secretToken } = await t.mutation(api.players.join, {
+      sessionId,
+      name: "Tim",
+    });
+    await t.mutation(api.players.disconnect, { playerId, secretToken });
+
+    // Someone else typing the same name must not inherit Tim's progress
+    await expect(
+      t.mutation(api.players.join, { sessionId, name: "Tim" })
+    ).rejects.toThrowError("Name already taken in this session");
+    await expect(
+      t.mutation(api.players.join, { sessionId, name: "Tim", secretToken: "guessed-token" })
+    ).rejects.toThrowError("Name already taken in this session");
+  });
+
+  test("allows rejoin with token when previous player explicitly disconnected", async () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
     // First player joins
-    const playerId1 = await t.mutation(api.players.join, {
+    const { playerId: playerId1, secretToken } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
     });
 
     // Player explicitly disconnects (sets lastSeenAt to 0)
-    await t.mutation(api.players.disconnect, { playerId: playerId1 });
+    await t.mutation(api.players.disconnect, { playerId: playerId1, secretToken });
 
-    // Same name can now rejoin immediately (no need to wait for timeout)
-    const playerId2 = await t.mutation(api.players.join, {
+    // Same device can rejoin immediately (no need to wait for timeout)
+    const { playerId: playerId2 } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
+      secretToken,
     });
 
     // Should return the same player ID (reactivation)
@@ -110,7 +133,7 @@ describe("players.join", () => {
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
     // First player joins
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId, secretToken } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
     });
@@ -122,12 +145,13 @@ describe("players.join", () => {
     });
 
     // Player disconnects
-    await t.mutation(api.players.disconnect, { playerId });
+    await t.mutation(api.players.disconnect, { playerId, secretToken });
 
     // Same player rejoins
-    const rejoinedPlayerId = await t.mutation(api.players.join, {
+    const { playerId: rejoinedPlayerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "Tim",
+      secretToken,
     });
 
     // Should have preserved elevation
@@ -140,7 +164,7 @@ describe("players.join", () => {
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "  Tim  ",
     });
@@ -183,7 +207,7 @@ describe("players.heartbeat", () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -193,12 +217,28 @@ describe("players.heartbeat", () => {
 
     // Wait a bit and send heartbeat
     await new Promise((resolve) => setTimeout(resolve, 10));
-    await t.mutation(api.players.heartbeat, { playerId });
+    await t.mutation(api.players.heartbeat, { playerId, secretToken: await playerToken(t, playerId) });
 
     const playerAfter = await t.query(api.players.get, { playerId });
 
     expect(playerAfter?.lastSeenAt).toBeGreaterThanOrEqual(initialLastSeen ?? 0);
   });
+
+  test("ignores heartbeats without the player's token", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const { playerId, secretToken } = await t.mutation(api.players.join, {
+      sessionId,
+      name: "TestPlayer",
+    });
+    await t.mutation(api.players.disconnect, { playerId, secretToken });
+
+    await t.mutation(api.players.heartbeat, { playerId, secretToken: "not-the-token" });
+
+    const player = await t.query(api.players.get, { playerId });
+    expect(player?.lastSeenAt).toBe(0);
+  });
 });
 
 describe("players.disconnect", () => {
@@ -206,12 +246,12 @@ describe("players.disconnect", () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
 
-    await t.mutation(api.players.disconnect, { playerId });
+    await t.mutation(api.players.disconnect, { playerId, secretToken: await playerToken(t, playerId) });
 
     const player = await t.query(api.players.get, { playerId });
     expect(player?.lastSeenAt).toBe(0);
@@ -223,7 +263,7 @@ describe("players.kick", () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -244,7 +284,7 @@ describe("players.kick", () => {
     const t = convexTest(schema, modules);
 
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -267,6 +307,7 @@ describe("players.kick", () => {
     // Submit answer
     await t.mutation(api.answers.submit, {
       playerId,
+      secretToken: await playerToken(t, playerId),
       questionId,
       optionIndex: 0,
     });
@@ -288,7 +329,7 @@ describe("players.kick", () => {
 
     // Create a session just to get a valid session ID format
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -308,11 +349,11 @@ describe("players.kick", () => {
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
     // Join two players
-    const player1Id = await t.mutation(api.players.join, {
+    const { playerId: player1Id } = await t.mutation(api.players.join, {
       sessionId,
       name: "Player1",
     });
-    const player2Id = await t.mutation(api.players.join, {
+    const { playerId: player2Id } = await t.mutation(api.players.join, {
       sessionId,
       name: "Player2",
     });
@@ -334,3 +375,96 @@ describe("players.kick", () => {
     expect(leaderboardAfter[0].name).toBe("Player2");
   });
 });
+
+describe("players.resetToken", () => {
+  test("issues a new token that replaces the old device", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const { playerId, secretToken: oldToken } = await t.mutation(api.players.join, {
+      sessionId,
+      name: "Tim",
+    });
+
+    const { secretToken: newToken } = await t.mutation(api.players.resetToken, { playerId, hostId: "host-1" });
+    expect(newToken).not.toBe(oldToken);
+
+    // The old device is signed out and can no longer act as the player
+    const player = await t.query(api.players.get, { playerId });
+    expect(player?.lastSeenAt).toBe(0);
+    await expect(
+      t.mutation(api.players.reactivate, { playerId, secretToken: oldToken })
+    ).rejects.toThrowError("Invalid player token");
+
+    // The rejoin link's token takes the player back, progress intact
+    const { playerId: rejoinedId } = await t.mutation(api.players.join, {
+      sessionId,
+      name: "Tim",
+      secretToken: newToken,
+    });
+    expect(rejoinedId).toBe(playerId);
+  });
+
+  test("only the host can reset a player's link", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Tim" });
+
+    await expect(
+      t.mutation(api.players.resetToken, { playerId, hostId: "someone-else" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+  });
+
+  test("tokens are never exposed by player queries", async () => {
+    const t = convexTest(schema, modules);
+
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Tim" });
+
+    const listed = await t.query(api.players.listBySession, { sessionId });
+    const single = await t.query(api.players.get, { playerId });
+    const leaderboard = await t.query(api.players.getLeaderboard, { sessionId });
+    expect(listed[0]).not.toHaveProperty("secretToken");
+    expect(single).not.toHaveProperty("secretToken");
+    expect(leaderboard[0]).not.toHaveProperty("secretToken");
+  });
+});
+
+describe("players.getClimbReplay", () => {
+  test("rebuilds each player's elevation after every played question, once the game is over", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 3 });
+    const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    // Q1: Alice right, Bob wrong. Q2: nobody answers. The game ends before Q3.
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    const q1 = questions[0]!;
+    for (let i = 0; i < 2; i++) {
+      await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+      await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+      if (i === 0) {
+        await t.mutation(api.answers.submit, { questionId: q1._id, ...alice, optionIndex: q1.correctOptionIndex! });
+        await t.mutation(api.answers.submit, { questionId: q1._id, ...bob, optionIndex: (q1.correctOptionIndex! + 1) % q1.options.length });
+      }
+      await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+      await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    }
+
+    expect(await t.query(api.players.getClimbReplay, { sessionId })).toBeNull();
+    await t.mutation(api.sessions.finish, { sessionId, hostId });
+
+    const replay = await t.query(api.players.getClimbReplay, { sessionId });
+    const aliceElevation = (await t.query(api.players.get, { playerId: alice.playerId }))!.elevation;
+    expect(aliceElevation).toBeGreaterThan(0);
+    expect(replay?.players.map((p) => p.name)).toEqual(["Alice", "Bob"]);
+    expect(replay?.frames).toEqual([
+      [0, 0],
+      [aliceElevation, 0],
+      [aliceElevation, 0],
+    ]);
+  });
+});
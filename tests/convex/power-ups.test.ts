@@ -0,0 +1,160 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 2 questions, 75% threshold: 667m base + 133m first-answer bonus carries Alice
+// past every reward checkpoint (200m-800m) on the first question
+async function setupSecondQuestion() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }, { text: "Nope" }, { text: "Nah" }],
+      correctOptionIndex: 0,
+    });
+  }
+  const [q1, q2] = await t.query(api.questions.listBySession, { sessionId });
+
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...alice, optionIndex: 0 });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...bob, optionIndex: 1 });
+  await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+  await t.mutation(api.sessions.showResults, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+
+  return { t, hostId, sessionId, alice, bob, q2: q2! };
+}
+
+async function getInventory(t: ReturnType<typeof convexTest>, player: { playerId: Id<"players">; secretToken: string }) {
+  return (await t.query(api.powerUps.getMine, player))!;
+}
+
+describe("power-ups", () => {
+  test("checkpoints award power-ups once each", async () => {
+    const { t, hostId, sessionId, alice, bob } = await setupSecondQuestion();
+
+    const inventory = await getInventory(t, alice);
+    expect(inventory.inventory.map((p) => p.kind)).toEqual(["fiftyFifty", "shield", "freeze", "double"]);
+    expect((await getInventory(t, bob)).inventory).toEqual([]);
+
+    // Stepping back and re-revealing doesn't hand out duplicates
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // question_shown -> Q1 results
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // results -> revealed
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // revealed -> answers_shown
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    expect((await getInventory(t, alice)).inventory).toHaveLength(4);
+  });
+
+  test("can only be used while answers are open, one per question", async () => {
+    const { t, hostId, sessionId, alice } = await setupSecondQuestion();
+    const [fiftyFifty, shield] = (await getInventory(t, alice)).inventory;
+
+    await expect(
+      t.mutation(api.powerUps.use, { ...alice, powerUpId: shield!._id })
+    ).rejects.toThrowError("Power-ups can only be used while answers are open");
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    const result = await t.mutation(api.powerUps.use, { ...alice, powerUpId: fiftyFifty!._id });
+    expect(result.removedOptions).toHaveLength(2);
+    expect(result.removedOptions).not.toContain(0);
+    expect((await getInventory(t, alice)).hiddenOptions).toEqual(result.removedOptions);
+
+    await expect(
+      t.mutation(api.powerUps.use, { ...alice, powerUpId: shield!._id })
+    ).rejects.toThrowError("Only one power-up per question");
+  });
+
+  test("a frozen rival gains nothing for a correct answer", async () => {
+    const { t, hostId, sessionId, alice, bob, q2 } = await setupSecondQuestion();
+    const freeze = (await getInventory(t, alice)).inventory.find((p) => p.kind === "freeze")!;
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+    await expect(
+      t.mutation(api.powerUps.use, { ...alice, powerUpId: freeze._id, targetPlayerId: alice.playerId })
+    ).rejects.toThrowError("Pick a rival to freeze");
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: freeze._id, targetPlayerId: bob.playerId });
+    expect((await getInventory(t, bob)).frozenBy).toEqual(["Alice"]);
+
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...bob, optionIndex: 0 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    expect((await t.query(api.players.get, { playerId: bob.playerId }))!.elevation).toBe(0);
+  });
+
+  test("a freeze doesn't spare a rival who answers wrong from their lost stake", async () => {
+    const { t, hostId, sessionId, alice, bob, q2 } = await setupSecondQuestion();
+    const freeze = (await getInventory(t, alice)).inventory.find((p) => p.kind === "freeze")!;
+    await t.run(async (ctx) => {
+      await ctx.db.patch(bob.playerId, { elevation: 300 });
+    });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: freeze._id, targetPlayerId: bob.playerId });
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...bob, optionIndex: 1, wager: 100 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    expect((await t.query(api.players.get, { playerId: bob.playerId }))!.elevation).toBe(200);
+  });
+
+  test("a shielded wrong answer still climbs half the base elevation", async () => {
+    const { t, hostId, sessionId, alice, q2 } = await setupSecondQuestion();
+    const shield = (await getInventory(t, alice)).inventory.find((p) => p.kind === "shield")!;
+    const before = (await t.query(api.players.get, { playerId: alice.playerId }))!.elevation;
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: shield._id });
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 1 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBe(before + 334);
+  });
+
+  test("a shield pays out with the round's multiplier", async () => {
+    const { t, hostId, sessionId, alice, q2 } = await setupSecondQuestion();
+    await t.run(async (ctx) => {
+      const roundId = await ctx.db.insert("rounds", { sessionId, name: "Double", multiplier: 2, createdAt: Date.now() });
+      await ctx.db.patch(q2._id, { roundId });
+    });
+    const shield = (await getInventory(t, alice)).inventory.find((p) => p.kind === "shield")!;
+    const before = (await t.query(api.players.get, { playerId: alice.playerId }))!.elevation;
+
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: shield._id });
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 1 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    // Half of the doubled 1333m base
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBe(before + 667);
+  });
+
+  test("clearing a question's answers hands its power-ups back", async () => {
+    const { t, hostId, sessionId, alice } = await setupSecondQuestion();
+    const shield = (await getInventory(t, alice)).inventory.find((p) => p.kind === "shield")!;
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: shield._id });
+
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId });
+
+    const inventory = await getInventory(t, alice);
+    expect(inventory.usedThisQuestion).toBeNull();
+    expect(inventory.inventory).toHaveLength(4);
+  });
+});
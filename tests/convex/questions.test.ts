@@ -766,3 +766,79 @@ describe("questions export and import", () => {
     expect(imported[1]?.timeLimit).toBe(50);
   });
 });
+
+describe("question images", () => {
+  async function setup() {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    await deleteSampleQuestions(t, sessionId);
+    const imageId = await t.run((ctx) => ctx.storage.store(new Blob(["fake png"], { type: "image/png" })));
+    return { t, sessionId, imageId };
+  }
+
+  test("uploaded question and option pictures come back with URLs", async () => {
+    const { t, sessionId, imageId } = await setup();
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId: "test-host",
+      text: "Whose logo?",
+      imageId,
+      options: [{ text: "Acme", imageId }, { text: "Globex" }],
+      correctOptionIndex: 0,
+    });
+
+    const [question] = await t.query(api.questions.listBySession, { sessionId });
+    expect(question!.imageUrl).toEqual(expect.any(String));
+    expect(question!.options[0]!.imageUrl).toEqual(expect.any(String));
+    expect(question!.options[1]!.imageUrl).toBeUndefined();
+
+    // Saving the editor's options back keeps the storage id, not the filled-in URL
+    await t.mutation(api.questions.update, { questionId: question!._id, hostId: "test-host", options: question!.options });
+    const stored = await t.run((ctx) => ctx.db.get(question!._id));
+    expect(stored!.options[0]).toEqual({ text: "Acme", imageId });
+
+    await t.mutation(api.questions.update, { questionId: question!._id, hostId: "test-host", imageId: null });
+    expect((await t.query(api.questions.get, { questionId: question!._id }))!.imageUrl).toBeUndefined();
+  });
+
+  test("only the host can get an upload URL", async () => {
+    const { t, sessionId } = await setup();
+    await expect(
+      t.mutation(api.questions.generateUploadUrl, { sessionId, hostId: "someone-else" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+  });
+
+  test("export and import carry picture URLs", async () => {
+    const { t, sessionId, imageId } = await setup();
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId: "test-host",
+      text: "Whose baby photo?",
+      imageId,
+      options: [{ text: "Ann" }, { text: "Ben", imageId }],
+      correctOptionIndex: 1,
+    });
+
+    const exported = await t.query(api.questions.exportQuestions, { sessionId });
+    const storageUrl = exported.questions[0]!.imageUrl!;
+    expect(exported.questions[0]!.optionImageUrls).toEqual([null, storageUrl]);
+
+    const { sessionId: newSessionId } = await t.mutation(api.sessions.create, { hostId: "test-host" });
+    await t.mutation(api.questions.importQuestions, {
+      sessionId: newSessionId,
+      hostId: "test-host",
+      questions: exported.questions,
+    });
+    const [imported] = await t.query(api.questions.listBySession, { sessionId: newSessionId });
+    expect(imported!.imageUrl).toBe(storageUrl);
+    expect(imported!.options[1]!.imageUrl).toBe(storageUrl);
+
+    await expect(
+      t.mutation(api.questions.importQuestions, {
+        sessionId: newSessionId,
+        hostId: "test-host",
+        questions: [{ text: "Q", imageUrl: "javascript:alert(1)", options: ["A", "B"], correctIndex: 0 }],
+      })
+    ).rejects.toThrowError("Question 1: imageUrl must be an http(s) URL");
+  });
+});
@@ -0,0 +1,172 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Session with two known questions (sample questions removed)
+async function setupSessionWithQuestions() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+
+  await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "Capital of France?",
+    options: [{ text: "Paris" }, { text: "Lyon" }],
+    correctOptionIndex: 0,
+    followUpText: "Paris has been the capital since 987.",
+  });
+  await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "How tall is the Eiffel Tower (m)?",
+    options: [],
+    numericAnswer: 330,
+    timeLimit: 20,
+  });
+
+  return { t, hostId, sessionId };
+}
+
+describe("quizzes.saveFromSession", () => {
+  test("copies the session's questions in order", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: " Paris Night " });
+    const quiz = await t.query(api.quizzes.get, { quizId, hostId });
+
+    expect(quiz?.title).toBe("Paris Night");
+    expect(quiz?.questions.map((q) => q.text)).toEqual(["Capital of France?", "How tall is the Eiffel Tower (m)?"]);
+    expect(quiz?.questions[0]!.followUpText).toBe("Paris has been the capital since 987.");
+    expect(quiz?.questions[1]!.numericAnswer).toBe(330);
+    expect(quiz?.questions[1]!.timeLimit).toBe(20);
+  });
+
+  test("rejects non-host, empty titles and empty sessions", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+
+    await expect(
+      t.mutation(api.quizzes.saveFromSession, { sessionId, hostId: "intruder", title: "Mine" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "  " })
+    ).rejects.toThrowError("Quiz title is required");
+
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    for (const q of questions) {
+      await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+    }
+    await expect(
+      t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Empty" })
+    ).rejects.toThrowError("Session has no questions to save");
+  });
+});
+
+describe("quizzes library", () => {
+  test("lists only the host's quizzes and hides others from get", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    expect(await t.query(api.quizzes.listByHost, { hostId })).toHaveLength(1);
+    expect(await t.query(api.quizzes.listByHost, { hostId: "host-2" })).toHaveLength(0);
+    expect(await t.query(api.quizzes.get, { quizId, hostId: "host-2" })).toBeNull();
+  });
+
+  test("duplicate creates an independent copy", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Original" });
+
+    const copyId = await t.mutation(api.quizzes.duplicate, { quizId, hostId });
+    const copy = await t.query(api.quizzes.get, { quizId: copyId, hostId });
+    expect(copy?.title).toBe("Original (copy)");
+
+    await t.mutation(api.quizzes.update, {
+      quizId: copyId,
+      hostId,
+      questions: [{ text: "Only question", options: [{ text: "A" }, { text: "B" }], correctOptionIndex: 1, timeLimit: 30 }],
+    });
+
+    const original = await t.query(api.quizzes.get, { quizId, hostId });
+    expect(original?.questions).toHaveLength(2);
+    expect((await t.query(api.quizzes.get, { quizId: copyId, hostId }))?.questions).toHaveLength(1);
+  });
+
+  test("update validates questions and ownership", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    await expect(
+      t.mutation(api.quizzes.update, { quizId, hostId: "intruder", title: "Stolen" })
+    ).rejects.toThrowError("Unauthorized: not the quiz owner");
+    await expect(
+      t.mutation(api.quizzes.update, { quizId, hostId, questions: [] })
+    ).rejects.toThrowError("A quiz needs at least one question");
+    await expect(
+      t.mutation(api.quizzes.update, {
+        quizId,
+        hostId,
+        questions: [{ text: "Q", options: [{ text: "A" }, { text: "B" }], correctOptionIndex: 2, timeLimit: 30 }],
+      })
+    ).rejects.toThrowError("Question 1: correct option index must be 0-1");
+  });
+
+  test("editing a quiz does not change sessions saved from it", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    await t.mutation(api.quizzes.update, { quizId, hostId, title: "Renamed" });
+    const quiz = await t.query(api.quizzes.get, { quizId, hostId });
+    await t.mutation(api.quizzes.update, {
+      quizId,
+      hostId,
+      questions: quiz!.questions.map((q) => ({ ...q, text: `${q.text} (edited)` })),
+    });
+
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    expect(questions.map((q) => q.text)).toEqual(["Capital of France?", "How tall is the Eiffel Tower (m)?"]);
+  });
+
+  test("remove deletes only for the owner", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    await expect(
+      t.mutation(api.quizzes.remove, { quizId, hostId: "intruder" })
+    ).rejects.toThrowError("Unauthorized: not the quiz owner");
+
+    await t.mutation(api.quizzes.remove, { quizId, hostId });
+    expect(await t.query(api.quizzes.listByHost, { hostId })).toHaveLength(0);
+  });
+});
+
+describe("sessions.create with a quiz", () => {
+  test("seeds the new session from the quiz instead of sample questions", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    const created = await t.mutation(api.sessions.create, { hostId, quizId });
+    const questions = await t.query(api.questions.listBySession, { sessionId: created.sessionId });
+
+    expect(questions.map((q) => q.text)).toEqual(["Capital of France?", "How tall is the Eiffel Tower (m)?"]);
+    expect(questions.map((q) => q.order)).toEqual([0, 1]);
+    expect(questions[0]!.correctOptionIndex).toBe(0);
+    expect(questions[1]!.numericAnswer).toBe(330);
+  });
+
+  test("rejects another host's quiz", async () => {
+    const { t, hostId, sessionId } = await setupSessionWithQuestions();
+    const quizId = await t.mutation(api.quizzes.saveFromSession, { sessionId, hostId, title: "Mine" });
+
+    await expect(
+      t.mutation(api.sessions.create, { hostId: "host-2", quizId })
+    ).rejects.toThrowError("Unauthorized: not the quiz owner");
+  });
+});
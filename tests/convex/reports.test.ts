@@ -0,0 +1,143 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Session with three single-choice questions (correct option 0) and three players, started
+async function setupReportGame() {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+
+  const questionIds = [];
+  for (let i = 1; i <= 3; i++) {
+    questionIds.push(
+      await t.mutation(api.questions.create, {
+        sessionId,
+        hostId,
+        text: `Question ${i}`,
+        options: [{ text: "Right" }, { text: "Wrong" }, { text: "Also wrong" }],
+        correctOptionIndex: 0,
+      })
+    );
+  }
+
+  const players = [];
+  for (const name of ["Ana", "Ben", "Cy"]) {
+    players.push((await t.mutation(api.players.join, { sessionId, name })).playerId);
+  }
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  return { t, hostId, sessionId, questionIds, players };
+}
+
+describe("reports.getSessionReport", () => {
+  test("is empty before any question is revealed", async () => {
+    const { t, hostId, sessionId } = await setupReportGame();
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.questions).toEqual([]);
+    expect(report?.players.every((p) => p.answered === 0)).toBe(true);
+  });
+
+  test("reports accuracy, distribution, median response time and streaks", async () => {
+    const { t, hostId, sessionId, questionIds, players } = await setupReportGame();
+    const [ana, ben] = players;
+
+    // picks[questionIndex][playerIndex] (null = no answer)
+    const picks = [
+      [0, 0, 1],
+      [0, 2, null],
+      [0, 0, 0],
+    ];
+    for (let q = 0; q < 3; q++) {
+      await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+      await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+      for (let p = 0; p < 3; p++) {
+        const optionIndex = picks[q]![p];
+        if (optionIndex === null || optionIndex === undefined) continue;
+        await t.mutation(api.answers.submit, { questionId: questionIds[q]!, playerId: players[p]!, secretToken: await playerToken(t, players[p]!), optionIndex });
+      }
+      await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+      await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    }
+
+    // Spread Q1 answer times 1s apart to check the median
+    await t.run(async (ctx) => {
+      const answers = await ctx.db
+        .query("answers")
+        .withIndex("by_question", (q) => q.eq("questionId", questionIds[0]!))
+        .collect();
+      for (const answer of answers) {
+        const offset = answer.playerId === ana ? 0 : answer.playerId === ben ? 1000 : 4000;
+        await ctx.db.patch(answer._id, { answeredAt: 1_000_000 + offset });
+      }
+    });
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.questions.map((q) => q.number)).toEqual([1, 2, 3]);
+
+    const [q1, q2] = report!.questions;
+    expect(q1!.kind).toBe("choice");
+    expect(q1!.correctCount).toBe(2);
+    expect(q1!.accuracy).toBeCloseTo(2 / 3);
+    expect(q1!.distribution).toEqual([
+      { label: "Right", count: 2, isCorrect: true },
+      { label: "Wrong", count: 1, isCorrect: false },
+      { label: "Also wrong", count: 0, isCorrect: false },
+    ]);
+    expect(q1!.medianResponseMs).toBe(1000);
+    expect(q2!.totalAnswers).toBe(2);
+    expect(q2!.accuracy).toBe(0.5);
+
+    const byName = new Map(report!.players.map((p) => [p.name, p]));
+    expect(byName.get("Ana")).toMatchObject({ correct: 3, answered: 3, bestStreak: 3, currentStreak: 3, accuracy: 1 });
+    expect(byName.get("Ben")).toMatchObject({ correct: 2, bestStreak: 1, currentStreak: 1 });
+    // Missed Q2 entirely - unanswered breaks the streak
+    expect(byName.get("Cy")).toMatchObject({ correct: 1, answered: 2, bestStreak: 1, currentStreak: 1 });
+  });
+
+  test("buckets estimation guesses by closeness", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+    const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+    for (const q of sampleQuestions) {
+      await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+    }
+    const questionId = await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text: "Jelly beans?",
+      options: [],
+      numericAnswer: 100,
+    });
+    const guesses = [95, 120, 300];
+    const players = [];
+    for (let i = 0; i < guesses.length; i++) {
+      players.push((await t.mutation(api.players.join, { sessionId, name: `P${i}` })).playerId);
+    }
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    for (let i = 0; i < guesses.length; i++) {
+      await t.mutation(api.answers.submit, { questionId, playerId: players[i]!, secretToken: await playerToken(t, players[i]!), numericGuess: guesses[i]! });
+    }
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.questions[0]!.kind).toBe("estimation");
+    expect(report?.questions[0]!.distribution.map((d) => d.count)).toEqual([1, 1, 1]);
+    expect(report?.questions[0]!.correctCount).toBe(2); // 300 is off by 200% - no elevation
+  });
+});
@@ -2,6 +2,7 @@ import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -34,11 +35,12 @@ describe("reveal scoring with simplified system", () => {
     });
 
     // Add 10 players
-    const players = await Promise.all(
+    const joined = await Promise.all(
       Array.from({ length: 10 }, (_, i) =>
         t.mutation(api.players.join, { sessionId, name: `Player${i + 1}` })
       )
     );
+    const players = joined.map((p) => p.playerId);
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -49,17 +51,20 @@ describe("reveal scoring with simplified system", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId: players[0]!,
+      secretToken: await playerToken(t, players[0]!),
       optionIndex: 0, // Correct (first)
     });
     await t.mutation(api.answers.submit, {
       questionId,
       playerId: players[1]!,
+      secretToken: await playerToken(t, players[1]!),
       optionIndex: 0, // Correct (second)
     });
     for (let i = 2; i < 10; i++) {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId: players[i]!,
+        secretToken: await playerToken(t, players[i]!),
         optionIndex: 1, // Wrong
       });
     }
@@ -121,11 +126,11 @@ describe("reveal scoring with simplified system", () => {
       timeLimit: 30,
     });
 
-    const player1 = await t.mutation(api.players.join, {
+    const { playerId: player1 } = await t.mutation(api.players.join, {
       sessionId,
       name: "Alice",
     });
-    const player2 = await t.mutation(api.players.join, {
+    const { playerId: player2 } = await t.mutation(api.players.join, {
       sessionId,
       name: "Bob",
     });
@@ -138,11 +143,13 @@ describe("reveal scoring with simplified system", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId: player1,
+      secretToken: await playerToken(t, player1),
       optionIndex: 0,
     });
     await t.mutation(api.answers.submit, {
       questionId,
       playerId: player2,
+      secretToken: await playerToken(t, player2),
       optionIndex: 0,
     });
 
@@ -194,11 +201,12 @@ describe("reveal scoring with simplified system", () => {
     });
 
     // Add 10 players
-    const players = await Promise.all(
+    const joined = await Promise.all(
       Array.from({ length: 10 }, (_, i) =>
         t.mutation(api.players.join, { sessionId, name: `P${i + 1}` })
       )
     );
+    const players = joined.map((p) => p.playerId);
 
     await t.mutation(api.sessions.start, { sessionId, hostId: "test-host" });
     await t.mutation(api.sessions.nextQuestion, { sessionId, hostId: "test-host" });
@@ -209,6 +217,7 @@ describe("reveal scoring with simplified system", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId: players[i]!,
+        secretToken: await playerToken(t, players[i]!),
         optionIndex: 0, // Correct
       });
     }
@@ -216,6 +225,7 @@ describe("reveal scoring with simplified system", () => {
       await t.mutation(api.answers.submit, {
         questionId,
         playerId: players[i]!,
+        secretToken: await playerToken(t, players[i]!),
         optionIndex: 1, // Wrong
       });
     }
@@ -279,7 +289,7 @@ describe("reveal scoring with simplified system", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -291,6 +301,7 @@ describe("reveal scoring with simplified system", () => {
     const result = await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -348,7 +359,7 @@ describe("reveal scoring with simplified system", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "Player1",
     });
@@ -360,6 +371,7 @@ describe("reveal scoring with simplified system", () => {
     await t.mutation(api.answers.submit, {
       questionId: q1,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
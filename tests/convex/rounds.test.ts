@@ -0,0 +1,169 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// Three single-choice questions (correct option 0): a warm-up, then a ×2 "Lightning" round of two
+async function setupRoundsGame() {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  const questionIds = [];
+  for (const text of ["Warm-up", "Lightning 1", "Lightning 2"]) {
+    questionIds.push(
+      await t.mutation(api.questions.create, {
+        sessionId,
+        hostId,
+        text,
+        options: [{ text: "Yes" }, { text: "No" }],
+        correctOptionIndex: 0,
+      })
+    );
+  }
+
+  const roundId = await t.mutation(api.rounds.create, { sessionId, hostId, name: "Lightning" });
+  await t.mutation(api.rounds.update, { roundId, hostId, multiplier: 2 });
+  for (const questionId of questionIds.slice(1)) {
+    await t.mutation(api.rounds.assignQuestion, { questionId, hostId, roundId });
+  }
+
+  const player = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+
+  return { t, hostId, sessionId, roundId, questionIds, player };
+}
+
+describe("rounds settings", () => {
+  test("a round's time limit is applied to its questions", async () => {
+    const { t, hostId, sessionId, roundId, questionIds } = await setupRoundsGame();
+
+    await t.mutation(api.rounds.update, { roundId, hostId, timeLimit: 15 });
+    let questions = await t.query(api.questions.listBySession, { sessionId });
+    expect(questions.map((q) => q.timeLimit)).toEqual([30, 15, 15]);
+
+    // Questions added to the round later pick it up too
+    await t.mutation(api.rounds.assignQuestion, { questionId: questionIds[0]!, hostId, roundId });
+    questions = await t.query(api.questions.listBySession, { sessionId });
+    expect(questions[0]!.timeLimit).toBe(15);
+  });
+
+  test("rejects bad settings", async () => {
+    const { t, hostId, roundId } = await setupRoundsGame();
+
+    await expect(
+      t.mutation(api.rounds.update, { roundId, hostId, multiplier: 5 })
+    ).rejects.toThrowError("Multiplier must be between 1 and 3");
+    await expect(
+      t.mutation(api.rounds.update, { roundId, hostId, timeLimit: 1 })
+    ).rejects.toThrowError("Time limit must be between 5 and 300 seconds");
+    await expect(
+      t.mutation(api.rounds.update, { roundId, hostId, name: "  " })
+    ).rejects.toThrowError("Round name is required");
+  });
+
+  test("removing a round keeps its questions", async () => {
+    const { t, hostId, sessionId, roundId } = await setupRoundsGame();
+
+    await t.mutation(api.rounds.remove, { roundId, hostId });
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    expect(questions).toHaveLength(3);
+    expect(questions.every((q) => q.roundId === undefined)).toBe(true);
+  });
+
+  test("can only be changed in the lobby", async () => {
+    const { t, hostId, sessionId, roundId, questionIds } = await setupRoundsGame();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await expect(
+      t.mutation(api.rounds.create, { sessionId, hostId, name: "Late" })
+    ).rejects.toThrowError("Can only add rounds in lobby");
+    await expect(
+      t.mutation(api.rounds.update, { roundId, hostId, multiplier: 3 })
+    ).rejects.toThrowError("Can only change rounds in lobby");
+    await expect(
+      t.mutation(api.rounds.assignQuestion, { questionId: questionIds[0]!, hostId, roundId: null })
+    ).rejects.toThrowError("Can only change rounds in lobby");
+  });
+});
+
+describe("round intro", () => {
+  test("shows before a round's first question, and the host can step back to it", async () => {
+    const { t, hostId, sessionId, questionIds, player } = await setupRoundsGame();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.answers.submit, { questionId: questionIds[0]!, ...player, optionIndex: 0 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    await t.mutation(api.sessions.showResults, { sessionId, hostId });
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    let session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("round_intro");
+    expect(session?.currentQuestionIndex).toBe(1);
+    expect(await t.query(api.questions.getCurrentQuestion, { sessionId })).toBeNull();
+    expect(await t.query(api.rounds.getCurrentRound, { sessionId })).toMatchObject({
+      name: "Lightning",
+      number: 1,
+      totalRounds: 1,
+      questionCount: 2,
+      multiplier: 2,
+    });
+
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("question_shown");
+    expect(session?.currentQuestionIndex).toBe(1);
+
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId });
+    session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("round_intro");
+
+    // The second question in the round follows straight on
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    session = await t.query(api.sessions.get, { sessionId });
+    expect(session?.questionPhase).toBe("question_shown");
+  });
+});
+
+describe("round scoring", () => {
+  test("the multiplier scales elevation, and subtotals add it up per round", async () => {
+    const { t, hostId, sessionId, questionIds, player } = await setupRoundsGame();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    for (const questionId of questionIds.slice(0, 2)) {
+      await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+      const session = await t.query(api.sessions.get, { sessionId });
+      if (session?.questionPhase === "round_intro") {
+        await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+      }
+      await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+      await t.mutation(api.answers.submit, { questionId, ...player, optionIndex: 0 });
+      await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+      await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    }
+
+    const [warmUp, lightning] = await t.run(async (ctx) => ctx.db.query("answers").collect());
+    expect(lightning!.elevationGain).toBeGreaterThan(warmUp!.elevationGain! * 1.9);
+
+    const subtotals = await t.query(api.rounds.getSubtotals, { sessionId });
+    expect(subtotals?.rounds.map((r) => r.name)).toEqual(["Lightning"]);
+    expect(subtotals?.players).toEqual([{ playerId: player.playerId, totals: [lightning!.elevationGain] }]);
+  });
+
+  test("sessions without rounds have no subtotals", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    expect(await t.query(api.rounds.getSubtotals, { sessionId })).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import type { ScoringStrategy } from "../../lib/scoring";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 3 questions, 75% threshold: 444m base
+async function setupSession(scoringStrategy: ScoringStrategy) {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+  await t.mutation(api.sessions.updateScoringStrategy, { sessionId, hostId, scoringStrategy });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?", "Third?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }],
+      correctOptionIndex: 0,
+    });
+  }
+  const questions = await t.query(api.questions.listBySession, { sessionId });
+
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+
+  // Play a question: Alice and Bob pick the given options
+  async function play(index: number, picks: { alice: number; bob: number }) {
+    const questionId = questions[index]!._id;
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.answers.submit, { questionId, ...alice, optionIndex: picks.alice });
+    await t.mutation(api.answers.submit, { questionId, ...bob, optionIndex: picks.bob });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    const answers = await t.query(api.answers.getByQuestion, { questionId });
+    return answers.find((a) => a.playerId === alice.playerId)!;
+  }
+
+  return { t, hostId, sessionId, alice, bob, play };
+}
+
+describe("scoring strategies", () => {
+  test("minority: being one of the few right answers earns a bonus", async () => {
+    const { play } = await setupSession("minority");
+
+    const answer = await play(0, { alice: 0, bob: 1 });
+    expect(answer.baseScore).toBe(444);
+    expect(answer.speedBonus).toBe(0);
+    expect(answer.minorityBonus).toBe(111); // Half the room right: 444 * 50% * 50%
+    expect(answer.elevationGain).toBe(555);
+  });
+
+  test("streak: consecutive correct answers multiply the base", async () => {
+    const { play } = await setupSession("streak");
+
+    expect((await play(0, { alice: 0, bob: 0 })).streakBonus).toBe(0);
+    const second = await play(1, { alice: 0, bob: 1 });
+    expect(second.streakBonus).toBe(44); // x1.1
+    expect(second.elevationGain).toBe(488);
+  });
+
+  test("streak: a wrong answer resets the run", async () => {
+    const { play } = await setupSession("streak");
+
+    await play(0, { alice: 0, bob: 0 });
+    await play(1, { alice: 1, bob: 0 });
+    expect((await play(2, { alice: 0, bob: 0 })).streakBonus).toBe(0);
+  });
+
+  test("can only be changed in the lobby", async () => {
+    const { t, hostId, sessionId } = await setupSession("classic");
+    await expect(
+      t.mutation(api.sessions.updateScoringStrategy, { sessionId, hostId, scoringStrategy: "streak" })
+    ).rejects.toThrowError("Can only change scoring strategy in lobby");
+  });
+});
@@ -0,0 +1,191 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+const HOUR = 60 * 60 * 1000;
+
+// 2 questions, 75% threshold: full base elevation = round(1000 / 1.5) = 667m
+async function setupAsyncGame() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }],
+      correctOptionIndex: 0,
+      timeLimit: 30,
+    });
+  }
+
+  const deadline = Date.now() + HOUR;
+  await t.mutation(api.sessions.updateMode, { sessionId, hostId, mode: "async", asyncDeadline: deadline });
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+
+  return { t, hostId, sessionId, deadline, alice, bob };
+}
+
+describe("self-paced sessions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("only the host can switch modes, in lobby, with a future deadline", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    await expect(
+      t.mutation(api.sessions.updateMode, { sessionId, hostId: "intruder", mode: "async", asyncDeadline: Date.now() + HOUR })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.sessions.updateMode, { sessionId, hostId: "host-1", mode: "async", asyncDeadline: Date.now() - 1 })
+    ).rejects.toThrowError("Pick a deadline in the future");
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+    await expect(
+      t.mutation(api.sessions.updateMode, { sessionId, hostId: "host-1", mode: "async", asyncDeadline: Date.now() + HOUR })
+    ).rejects.toThrowError("Can only change game mode in lobby");
+  });
+
+  test("players answer on their own timer and earn a speed bonus", async () => {
+    const { t, alice } = await setupAsyncGame();
+
+    await t.mutation(api.selfPaced.startNextQuestion, alice);
+    vi.advanceTimersByTime(3000);
+    const result = await t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 0 });
+
+    // 667 base + 20% bonus scaled by the 90% of the timer left
+    expect(result).toEqual({ elevationGain: 667 + 120, isCorrect: true });
+    const progress = await t.query(api.selfPaced.getMyProgress, alice);
+    expect(progress!.questionIndex).toBe(0);
+    expect(progress!.current!.result).toEqual({ elevationGain: 787, isCorrect: true });
+    expect((await t.run((ctx) => ctx.db.get(alice.playerId)))!.elevation).toBe(787);
+
+    await expect(
+      t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 0 })
+    ).rejects.toThrowError("Already answered this question");
+  });
+
+  test("can't skip an open question, but can move on once its time runs out", async () => {
+    const { t, alice } = await setupAsyncGame();
+
+    await t.mutation(api.selfPaced.startNextQuestion, alice);
+    await expect(t.mutation(api.selfPaced.startNextQuestion, alice)).rejects.toThrowError(
+      "Answer the current question first"
+    );
+
+    vi.advanceTimersByTime(30_000);
+    await expect(
+      t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 0 })
+    ).rejects.toThrowError("Time's up! Answer not accepted.");
+
+    await t.mutation(api.selfPaced.startNextQuestion, alice);
+    const progress = await t.query(api.selfPaced.getMyProgress, alice);
+    expect(progress!.questionIndex).toBe(1);
+    expect(progress!.current!.text).toBe("Second?");
+  });
+
+  test("the shared live flow is closed in self-paced games", async () => {
+    const { t, hostId, sessionId, alice } = await setupAsyncGame();
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+
+    await expect(t.mutation(api.sessions.nextQuestion, { sessionId, hostId })).rejects.toThrowError(
+      "Players advance themselves in self-paced games"
+    );
+    await expect(
+      t.mutation(api.answers.submit, { questionId: questions[0]!._id, ...alice, optionIndex: 0 })
+    ).rejects.toThrowError("Answers are not being accepted right now");
+  });
+
+  test("host progress counts finished players without revealing scores", async () => {
+    const { t, sessionId, alice } = await setupAsyncGame();
+
+    for (let i = 0; i < 2; i++) {
+      await t.mutation(api.selfPaced.startNextQuestion, alice);
+      await t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 1 });
+    }
+    expect(await t.mutation(api.selfPaced.startNextQuestion, alice)).toEqual({ finished: true });
+
+    const progress = await t.query(api.selfPaced.getSessionProgress, { sessionId });
+    expect(progress!.finishedCount).toBe(1);
+    expect(progress!.players).toEqual([
+      { _id: alice.playerId, name: "Alice", questionsDone: 2, finished: true },
+      expect.objectContaining({ name: "Bob", questionsDone: 0, finished: false }),
+    ]);
+  });
+
+  test("scores and answer keys stay hidden from players until the deadline", async () => {
+    const { t, hostId, sessionId, deadline, alice } = await setupAsyncGame();
+
+    await t.mutation(api.selfPaced.startNextQuestion, alice);
+    await t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 0 });
+
+    const player = await t.query(api.players.get, { playerId: alice.playerId });
+    expect(player!.elevation).toBe(0);
+    const leaderboard = await t.query(api.players.getLeaderboard, { sessionId });
+    expect(leaderboard.map((p) => p.elevation)).toEqual([0, 0]);
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    expect(questions[0]!.correctOptionIndex).toBeUndefined();
+    const hostQuestions = await t.query(api.questions.listBySession, { sessionId, hostId });
+    expect(hostQuestions[0]!.correctOptionIndex).toBe(0);
+
+    vi.setSystemTime(deadline);
+    vi.runOnlyPendingTimers();
+    await t.finishInProgressScheduledFunctions();
+
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBeGreaterThan(0);
+    expect((await t.query(api.questions.listBySession, { sessionId }))[0]!.correctOptionIndex).toBe(0);
+  });
+
+  test("answers, results and the question export stay hidden until the deadline", async () => {
+    const { t, hostId, sessionId, deadline, alice } = await setupAsyncGame();
+    const [question] = await t.query(api.questions.listBySession, { sessionId });
+    const questionId = question!._id;
+
+    await t.mutation(api.selfPaced.startNextQuestion, alice);
+    await t.mutation(api.selfPaced.submitAnswer, { ...alice, optionIndex: 0 });
+
+    expect(await t.query(api.answers.getResults, { questionId })).toBeNull();
+    expect(await t.query(api.answers.getByQuestion, { questionId })).toEqual([]);
+    expect(await t.query(api.answers.getByPlayer, { playerId: alice.playerId })).toEqual([]);
+    expect(await t.query(api.answers.getPlayerAnswers, { questionId })).toEqual([]);
+    expect(await t.query(api.answers.getPlayersOnRopes, { questionId })).toBeNull();
+    expect(await t.query(api.questions.exportQuestions, { sessionId })).toBeNull();
+    expect((await t.query(api.questions.exportQuestions, { sessionId, hostId }))!.questions[0]!.correctIndex).toBe(0);
+
+    vi.setSystemTime(deadline);
+    vi.runOnlyPendingTimers();
+    await t.finishInProgressScheduledFunctions();
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results).toMatchObject({ totalAnswers: 1, optionCounts: [1, 0], correctOptionIndex: 0 });
+    expect(await t.query(api.answers.getByQuestion, { questionId })).toHaveLength(1);
+    expect(await t.query(api.questions.exportQuestions, { sessionId })).not.toBeNull();
+  });
+
+  test("the game finishes for everyone at the deadline", async () => {
+    const { t, sessionId, deadline } = await setupAsyncGame();
+
+    vi.setSystemTime(deadline);
+    vi.runOnlyPendingTimers();
+    await t.finishInProgressScheduledFunctions();
+
+    expect((await t.query(api.sessions.get, { sessionId }))!.status).toBe("finished");
+  });
+});
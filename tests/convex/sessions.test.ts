@@ -2,6 +2,7 @@ import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
 import { api } from "../../convex/_generated/api";
 import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
 
 const modules = import.meta.glob("../../convex/**/*.ts");
 
@@ -90,7 +91,7 @@ describe("sessions.remove", () => {
     });
 
     // Add a player
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -102,6 +103,7 @@ describe("sessions.remove", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -182,7 +184,7 @@ describe("sessions.backToLobby", () => {
     const questions = await t.query(api.questions.listBySession, { sessionId });
     const firstQuestion = questions[0]!;
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -195,6 +197,7 @@ describe("sessions.backToLobby", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: firstQuestion.correctOptionIndex!,
     });
 
@@ -227,7 +230,7 @@ describe("sessions.backToLobby", () => {
       timeLimit: 30,
     });
 
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -239,6 +242,7 @@ describe("sessions.backToLobby", () => {
     await t.mutation(api.answers.submit, {
       questionId,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: 0,
     });
 
@@ -271,7 +275,7 @@ describe("sessions.backToLobby", () => {
     const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
 
     // Add a player
-    const playerId = await t.mutation(api.players.join, {
+    const { playerId } = await t.mutation(api.players.join, {
       sessionId,
       name: "TestPlayer",
     });
@@ -289,6 +293,7 @@ describe("sessions.backToLobby", () => {
     await t.mutation(api.answers.submit, {
       questionId: firstQuestion._id,
       playerId,
+      secretToken: await playerToken(t, playerId),
       optionIndex: firstQuestion.correctOptionIndex!,
     });
     await t.mutation(api.sessions.revealAnswer, { sessionId, hostId: "host-1" });
@@ -319,3 +324,81 @@ describe("sessions.backToLobby", () => {
     expect(players[0].elevation).toBe(0);
   });
 });
+
+describe("sessions.listArchived", () => {
+  test("lists finished sessions with their player count and winner", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "host-1";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 2 });
+    await t.mutation(api.sessions.create, { hostId });
+    const { playerId: alice } = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+    const { playerId: bob } = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.run(async (ctx) => {
+      await ctx.db.patch(alice, { elevation: 300 });
+      await ctx.db.patch(bob, { elevation: 450 });
+    });
+    await t.mutation(api.sessions.finish, { sessionId, hostId });
+
+    const archived = await t.query(api.sessions.listArchived, { hostId });
+    expect(archived).toHaveLength(1);
+    expect(archived[0]).toMatchObject({
+      _id: sessionId,
+      questionCount: 2,
+      playerCount: 2,
+      winner: { name: "Bob", elevation: 450 },
+    });
+    expect(await t.query(api.sessions.listArchived, { hostId: "host-2" })).toHaveLength(0);
+  });
+});
+
+describe("sessions.rematch", () => {
+  test("starts a new lobby with the same questions, rounds and settings but no players", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "host-1";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 3 });
+    await t.mutation(api.sessions.updatePenaltyMode, { sessionId, hostId, penaltyMode: "fixedSlip" });
+    const roundId = await t.mutation(api.rounds.create, { sessionId, hostId, name: "Warm-up" });
+    const questions = await t.query(api.questions.listBySession, { sessionId });
+    await t.mutation(api.rounds.assignQuestion, { questionId: questions[1]._id, hostId, roundId });
+    await t.mutation(api.players.join, { sessionId, name: "Alice" });
+
+    await expect(
+      t.mutation(api.sessions.rematch, { sessionId, hostId })
+    ).rejects.toThrowError("Can only rematch a finished session");
+
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.finish, { sessionId, hostId });
+    const result = await t.mutation(api.sessions.rematch, { sessionId, hostId });
+
+    const original = await t.query(api.sessions.get, { sessionId });
+    const session = await t.query(api.sessions.get, { sessionId: result.sessionId });
+    expect(session?.status).toBe("lobby");
+    expect(session?.code).not.toBe(original?.code);
+    expect(session?.penaltyMode).toBe("fixedSlip");
+    expect(await t.query(api.players.listBySession, { sessionId: result.sessionId })).toHaveLength(0);
+
+    const copied = await t.query(api.questions.listBySession, { sessionId: result.sessionId });
+    expect(copied.map((q) => q.text)).toEqual(questions.map((q) => q.text));
+    const rounds = await t.query(api.rounds.listBySession, { sessionId: result.sessionId });
+    expect(rounds.map((r) => r.name)).toEqual(["Warm-up"]);
+    expect(copied[1].roundId).toBe(rounds[0]._id);
+    expect(copied[0].roundId).toBeUndefined();
+  });
+
+  test("only the owner can start a rematch", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "host-1";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId, questionCount: 1 });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+    await t.mutation(api.sessions.finish, { sessionId, hostId });
+    await t.run(async (ctx) => {
+      await ctx.db.insert("coHosts", { sessionId, hostId: "co-host", permissions: ["editQuestions"], addedAt: Date.now() });
+    });
+
+    await expect(
+      t.mutation(api.sessions.rematch, { sessionId, hostId: "co-host" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    expect(await t.query(api.sessions.listByHost, { hostId: "co-host" })).toHaveLength(0);
+  });
+});
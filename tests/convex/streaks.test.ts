@@ -0,0 +1,104 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 3 questions, 75% threshold: 444m base
+async function setupSession() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?", "Third?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }],
+      correctOptionIndex: 0,
+    });
+  }
+  const questions = await t.query(api.questions.listBySession, { sessionId });
+
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+
+  // Show a question and reveal it: Alice and Bob pick the given options (null = no answer)
+  async function play(index: number, picks: { alice: number; bob: number | null }) {
+    const questionId = questions[index]!._id;
+    if (index > 0) await t.mutation(api.sessions.showResults, { sessionId, hostId });
+    await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+    await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+    await t.mutation(api.answers.submit, { questionId, ...alice, optionIndex: picks.alice });
+    if (picks.bob !== null) {
+      await t.mutation(api.answers.submit, { questionId, ...bob, optionIndex: picks.bob });
+    }
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+    const answers = await t.query(api.answers.getByQuestion, { questionId });
+    return answers.find((a) => a.playerId === alice.playerId)!;
+  }
+
+  async function getStreak(playerId: Id<"players">) {
+    const player = (await t.query(api.players.get, { playerId }))!;
+    return { current: player.currentStreak ?? 0, best: player.bestStreak ?? 0 };
+  }
+
+  return { t, hostId, sessionId, alice, bob, play, getStreak };
+}
+
+describe("answer streaks", () => {
+  test("track current and best streaks on reveal", async () => {
+    const { t, hostId, sessionId, alice, bob, play, getStreak } = await setupSession();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await play(0, { alice: 0, bob: 0 });
+    await play(1, { alice: 0, bob: null }); // Bob's silence breaks his run
+    expect(await getStreak(alice.playerId)).toEqual({ current: 2, best: 2 });
+    expect(await getStreak(bob.playerId)).toEqual({ current: 0, best: 1 });
+
+    await play(2, { alice: 1, bob: 0 });
+    expect(await getStreak(alice.playerId)).toEqual({ current: 0, best: 2 });
+    expect(await getStreak(bob.playerId)).toEqual({ current: 1, best: 1 });
+  });
+
+  test("undoing a reveal restores streaks", async () => {
+    const { t, hostId, sessionId, alice, play, getStreak } = await setupSession();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await play(0, { alice: 0, bob: 0 });
+    await play(1, { alice: 0, bob: 0 });
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // revealed -> answers_shown
+
+    expect(await getStreak(alice.playerId)).toEqual({ current: 1, best: 1 });
+  });
+
+  test("leaderboard summary names the longest streak", async () => {
+    const { t, hostId, sessionId, play } = await setupSession();
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await play(0, { alice: 1, bob: 0 });
+    await play(1, { alice: 0, bob: 0 });
+
+    const summary = await t.query(api.players.getLeaderboardSummary, { sessionId });
+    expect(summary.longestStreak).toEqual({ name: "Bob", streak: 2 });
+  });
+
+  test("streak strategy uses the session's multiplier step", async () => {
+    const { t, hostId, sessionId, play } = await setupSession();
+    await expect(
+      t.mutation(api.sessions.updateScoringStrategy, { sessionId, hostId, scoringStrategy: "streak", streakStep: 2 })
+    ).rejects.toThrowError("Streak step must be between 0.05 and 0.5");
+    await t.mutation(api.sessions.updateScoringStrategy, { sessionId, hostId, scoringStrategy: "streak", streakStep: 0.25 });
+    await t.mutation(api.sessions.start, { sessionId, hostId });
+
+    await play(0, { alice: 0, bob: 0 });
+    expect((await play(1, { alice: 0, bob: 0 })).streakBonus).toBe(111); // x1.25
+  });
+});
@@ -0,0 +1,154 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+type SurveyQuestion =
+  | { ratingScale: "fivePoint" | "nps"; surveyScored?: boolean }
+  | { wordCloud: true; surveyScored?: boolean };
+
+// 1 survey question with answers open, 3 players
+async function setupSurveyGame(survey: SurveyQuestion) {
+  const t = convexTest(schema, modules);
+  const hostId = "test-host";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  const questionId = await t.mutation(api.questions.create, {
+    sessionId,
+    hostId,
+    text: "How was your week?",
+    options: [{ text: "ignored" }, { text: "also ignored" }],
+    correctOptionIndex: 0,
+    ...survey,
+  });
+
+  const players = [];
+  for (const name of ["Alice", "Bob", "Carol"]) {
+    players.push(await t.mutation(api.players.join, { sessionId, name }));
+  }
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+  return { t, hostId, sessionId, questionId, players };
+}
+
+describe("rating-scale questions", () => {
+  test("players pick a value on the scale", async () => {
+    const { t, questionId, players } = await setupSurveyGame({ ratingScale: "fivePoint" });
+
+    const question = await t.query(api.questions.get, { questionId });
+    expect(question?.options).toEqual([]);
+    expect(question?.correctOptionIndex).toBeUndefined();
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId, ...players[0]!, optionIndex: 0 })
+    ).rejects.toThrowError("This question takes a rating");
+    await expect(
+      t.mutation(api.answers.submit, { questionId, ...players[0]!, rating: 6 })
+    ).rejects.toThrowError("Rating must be 1-5");
+  });
+
+  test("getResults tallies ratings with the average and NPS score", async () => {
+    const { t, questionId, players } = await setupSurveyGame({ ratingScale: "nps" });
+    for (const [i, rating] of [10, 9, 2].entries()) {
+      await t.mutation(api.answers.submit, { questionId, ...players[i]!, rating });
+    }
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results?.ratingScale).toBe("nps");
+    expect(results?.ratings?.counts.find((c) => c.value === 10)?.count).toBe(1);
+    expect(results?.ratings?.average).toBe(7);
+    expect(results?.ratings?.npsScore).toBe(33);
+    expect(results?.words).toBeNull();
+  });
+
+  test("answers don't move anyone unless the question is scored", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupSurveyGame({ ratingScale: "fivePoint" });
+    await t.mutation(api.answers.submit, { questionId, ...players[0]!, rating: 1 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const answers = await t.query(api.answers.getByQuestion, { questionId });
+    expect(answers[0]!.elevationGain).toBe(0);
+    const player = await t.query(api.players.get, { playerId: players[0]!.playerId });
+    expect(player?.elevation).toBe(0);
+
+    const mine = await t.query(api.answers.getPlayerRopeState, { sessionId, playerId: players[0]!.playerId });
+    expect(mine?.survey).toEqual({ myRating: 1, myWord: null });
+    expect(mine?.myAnswer.isCorrect).toBeNull();
+  });
+
+  test("scored questions climb every answer like a poll", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupSurveyGame({ ratingScale: "fivePoint", surveyScored: true });
+    await t.mutation(api.answers.submit, { questionId, ...players[0]!, rating: 1 });
+    await t.mutation(api.answers.submit, { questionId, ...players[1]!, rating: 5 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const answers = await t.query(api.answers.getByQuestion, { questionId });
+    expect(answers.every((a) => (a.elevationGain ?? 0) > 0)).toBe(true);
+  });
+});
+
+describe("word-cloud questions", () => {
+  test("getResults merges matching words, most popular first", async () => {
+    const { t, questionId, players } = await setupSurveyGame({ wordCloud: true });
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId, ...players[0]!, text: "   " })
+    ).rejects.toThrowError("Type a word");
+    for (const [i, text] of ["Tired", "busy", "tired!"].entries()) {
+      await t.mutation(api.answers.submit, { questionId, ...players[i]!, text });
+    }
+
+    const results = await t.query(api.answers.getResults, { questionId });
+    expect(results?.words).toEqual([
+      { text: "Tired", count: 2 },
+      { text: "busy", count: 1 },
+    ]);
+    expect(results?.surveyScored).toBe(false);
+  });
+
+  test("the report lists the top words", async () => {
+    const { t, hostId, sessionId, questionId, players } = await setupSurveyGame({ wordCloud: true });
+    await t.mutation(api.answers.submit, { questionId, ...players[0]!, text: "sunny" });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    const report = await t.query(api.reports.getSessionReport, { sessionId });
+    expect(report?.questions[0]).toMatchObject({
+      kind: "wordCloud",
+      correctCount: null,
+      distribution: [{ label: "sunny", count: 1, isCorrect: null }],
+    });
+  });
+});
+
+describe("survey question setup", () => {
+  test("a question is either a rating or a word cloud", async () => {
+    const t = convexTest(schema, modules);
+    const hostId = "test-host";
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+    await expect(
+      t.mutation(api.questions.create, { sessionId, hostId, text: "Both?", options: [], ratingScale: "nps", wordCloud: true })
+    ).rejects.toThrowError("A survey question is either a rating or a word cloud");
+  });
+
+  test("export and import keep the survey settings", async () => {
+    const { t, hostId, sessionId } = await setupSurveyGame({ ratingScale: "nps", surveyScored: true });
+
+    const exported = await t.query(api.questions.exportQuestions, { sessionId });
+    expect(exported.questions[0]).toMatchObject({ ratingScale: "nps", surveyScored: true, options: [] });
+
+    const { sessionId: newSessionId } = await t.mutation(api.sessions.create, { hostId });
+    await t.mutation(api.questions.importQuestions, { sessionId: newSessionId, hostId, questions: exported.questions });
+    const [imported] = await t.query(api.questions.listBySession, { sessionId: newSessionId });
+    expect(imported).toMatchObject({ ratingScale: "nps", surveyScored: true, options: [] });
+  });
+});
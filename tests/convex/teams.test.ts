@@ -0,0 +1,176 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { playerToken } from "./testUtils";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+describe("teams.create", () => {
+  test("creates teams with distinct colors in creation order", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: " Red Rovers " });
+    await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Blue Jays" });
+
+    const teams = await t.query(api.teams.listBySession, { sessionId });
+    expect(teams.map((team) => team.name)).toEqual(["Red Rovers", "Blue Jays"]);
+    expect(teams[0]!.color).not.toBe(teams[1]!.color);
+  });
+
+  test("rejects duplicate names case-insensitively", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+    await expect(
+      t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "owls" })
+    ).rejects.toThrowError("A team with that name already exists");
+  });
+
+  test("rejects non-host and empty names", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+
+    await expect(
+      t.mutation(api.teams.create, { sessionId, hostId: "intruder", name: "Owls" })
+    ).rejects.toThrowError("Unauthorized: not the session host");
+    await expect(
+      t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "   " })
+    ).rejects.toThrowError("Team name is required");
+  });
+
+  test("rejects creating teams after the game starts", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+
+    await expect(
+      t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Late" })
+    ).rejects.toThrowError("Can only add teams in lobby");
+  });
+});
+
+describe("teams.remove", () => {
+  test("deletes the team and leaves its members teamless", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const teamId = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Alice", teamId });
+
+    await t.mutation(api.teams.remove, { teamId, hostId: "host-1" });
+
+    expect(await t.query(api.teams.listBySession, { sessionId })).toHaveLength(0);
+    const player = await t.query(api.players.get, { playerId });
+    expect(player?.teamId).toBeUndefined();
+  });
+});
+
+describe("players team membership", () => {
+  test("join stores the chosen team", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const teamId = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Alice", teamId });
+    const player = await t.query(api.players.get, { playerId });
+    expect(player?.teamId).toBe(teamId);
+  });
+
+  test("join rejects a team from another session", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId: s1 } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const { sessionId: s2 } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const otherTeamId = await t.mutation(api.teams.create, { sessionId: s2, hostId: "host-1", name: "Owls" });
+
+    await expect(
+      t.mutation(api.players.join, { sessionId: s1, name: "Alice", teamId: otherTeamId })
+    ).rejects.toThrowError("Team not found");
+  });
+
+  test("setTeam switches teams in lobby only", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const owls = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+    const foxes = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Foxes" });
+    const { playerId } = await t.mutation(api.players.join, { sessionId, name: "Alice", teamId: owls });
+
+    await t.mutation(api.players.setTeam, { playerId, secretToken: await playerToken(t, playerId), teamId: foxes });
+    expect((await t.query(api.players.get, { playerId }))?.teamId).toBe(foxes);
+
+    await t.mutation(api.sessions.start, { sessionId, hostId: "host-1" });
+    await expect(
+      t.mutation(api.players.setTeam, { playerId, secretToken: await playerToken(t, playerId), teamId: owls })
+    ).rejects.toThrowError("Can only switch teams in lobby");
+  });
+});
+
+describe("teams.getLeaderboard", () => {
+  async function setupTeams() {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    const owls = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+    const foxes = await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Foxes" });
+
+    const { playerId: a } = await t.mutation(api.players.join, { sessionId, name: "A", teamId: owls });
+    const { playerId: b } = await t.mutation(api.players.join, { sessionId, name: "B", teamId: owls });
+    const { playerId: c } = await t.mutation(api.players.join, { sessionId, name: "C", teamId: foxes });
+
+    await t.run(async (ctx) => {
+      await ctx.db.patch(a, { elevation: 100 });
+      await ctx.db.patch(b, { elevation: 300 });
+      await ctx.db.patch(c, { elevation: 250 });
+    });
+
+    return { t, sessionId, owls, foxes };
+  }
+
+  test("averages member elevations by default", async () => {
+    const { t, sessionId, owls, foxes } = await setupTeams();
+
+    const standings = await t.query(api.teams.getLeaderboard, { sessionId });
+    expect(standings.map((s) => [s._id, s.elevation, s.memberCount])).toEqual([
+      [foxes, 250, 1],
+      [owls, 200, 2],
+    ]);
+    expect(standings[1]!.members.map((m) => m.name)).toEqual(["B", "A"]);
+  });
+
+  test("sums member elevations when teamScoring is sum", async () => {
+    const { t, sessionId, owls, foxes } = await setupTeams();
+
+    await t.mutation(api.sessions.updateTeamScoring, {
+      sessionId,
+      hostId: "host-1",
+      teamScoring: "sum",
+    });
+
+    const standings = await t.query(api.teams.getLeaderboard, { sessionId });
+    expect(standings.map((s) => [s._id, s.elevation])).toEqual([
+      [owls, 400],
+      [foxes, 250],
+    ]);
+  });
+
+  test("returns an empty list when the session has no teams", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    await t.mutation(api.players.join, { sessionId, name: "Solo" });
+
+    expect(await t.query(api.teams.getLeaderboard, { sessionId })).toEqual([]);
+  });
+});
+
+describe("sessions.remove with teams", () => {
+  test("deletes the session's teams", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionId } = await t.mutation(api.sessions.create, { hostId: "host-1" });
+    await t.mutation(api.teams.create, { sessionId, hostId: "host-1", name: "Owls" });
+
+    await t.mutation(api.sessions.remove, { sessionId, hostId: "host-1" });
+
+    const remaining = await t.run(async (ctx) => await ctx.db.query("teams").collect());
+    expect(remaining).toHaveLength(0);
+  });
+});
@@ -0,0 +1,11 @@
+import type { TestConvex } from "convex-test";
+import type { Id } from "../../convex/_generated/dataModel";
+import type schema from "../../convex/schema";
+
+/**
+ * Look up the secret token a player was issued on join, so a test can act as that player.
+ */
+export async function playerToken(t: TestConvex<typeof schema>, playerId: Id<"players">): Promise<string> {
+  const player = await t.run((ctx) => ctx.db.get(playerId));
+  return player!.secretToken!;
+}
@@ -0,0 +1,106 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+
+const modules = import.meta.glob("../../convex/**/*.ts");
+
+// 2 questions, 75% threshold: Alice answers Q1 first and right (667m + 133m bonus = 800m),
+// Bob gets it wrong and stays at the base
+async function setupSecondQuestion() {
+  const t = convexTest(schema, modules);
+  const hostId = "host-1";
+  const { sessionId } = await t.mutation(api.sessions.create, { hostId });
+
+  const sampleQuestions = await t.query(api.questions.listBySession, { sessionId });
+  for (const q of sampleQuestions) {
+    await t.mutation(api.questions.remove, { questionId: q._id, hostId });
+  }
+  for (const text of ["First?", "Second?"]) {
+    await t.mutation(api.questions.create, {
+      sessionId,
+      hostId,
+      text,
+      options: [{ text: "Right" }, { text: "Wrong" }],
+      correctOptionIndex: 0,
+    });
+  }
+  const [q1, q2] = await t.query(api.questions.listBySession, { sessionId });
+
+  const alice = await t.mutation(api.players.join, { sessionId, name: "Alice" });
+  const bob = await t.mutation(api.players.join, { sessionId, name: "Bob" });
+
+  await t.mutation(api.sessions.start, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...alice, optionIndex: 0 });
+  await t.mutation(api.answers.submit, { questionId: q1!._id, ...bob, optionIndex: 1 });
+  await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+  await t.mutation(api.sessions.showResults, { sessionId, hostId });
+  await t.mutation(api.sessions.nextQuestion, { sessionId, hostId });
+  await t.mutation(api.sessions.showAnswers, { sessionId, hostId });
+
+  return { t, hostId, sessionId, alice, bob, q2: q2! };
+}
+
+describe("wagers", () => {
+  test("stakes are capped at half the player's elevation", async () => {
+    const { t, alice, bob, q2 } = await setupSecondQuestion();
+
+    await expect(
+      t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 0, wager: 401 })
+    ).rejects.toThrowError("Can't wager more than 400m");
+    await expect(
+      t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 0, wager: 10.5 })
+    ).rejects.toThrowError("Wager must be a whole number of meters");
+    await expect(
+      t.mutation(api.answers.submit, { questionId: q2._id, ...bob, optionIndex: 0, wager: 1 })
+    ).rejects.toThrowError("Can't wager more than 0m");
+
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 0, wager: 400 });
+    const answers = await t.query(api.answers.getByQuestion, { questionId: q2._id });
+    expect(answers[0]!.wager).toBe(400);
+  });
+
+  test("a right answer wins the stake on top of the climb", async () => {
+    const { t, hostId, sessionId, alice, q2 } = await setupSecondQuestion();
+
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 0, wager: 200 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    // 800 + 667 base + 133 first-answer bonus + 200 won
+    const player = await t.query(api.players.get, { playerId: alice.playerId });
+    expect(player!.elevation).toBe(1800);
+    expect(player!.summitPlace).toBe(1);
+  });
+
+  test("a wrong answer loses the stake, dropping back past checkpoints", async () => {
+    const { t, hostId, sessionId, alice, q2 } = await setupSecondQuestion();
+
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 1, wager: 400 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBe(400);
+    const state = await t.query(api.answers.getPlayerRopeState, { sessionId, playerId: alice.playerId });
+    expect(state!.myAnswer.elevationGain).toBe(-400);
+    expect(state!.myAnswer.wager).toBe(400);
+
+    // Clearing the answers puts the lost stake back
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // revealed -> answers_shown
+    await t.mutation(api.sessions.previousPhase, { sessionId, hostId }); // answers_shown -> question_shown
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBe(800);
+  });
+
+  test("a shield only refunds a lost stake", async () => {
+    const { t, hostId, sessionId, alice, q2 } = await setupSecondQuestion();
+    const mine = await t.query(api.powerUps.getMine, alice);
+    const shield = mine!.inventory.find((p) => p.kind === "shield")!;
+
+    await t.mutation(api.powerUps.use, { ...alice, powerUpId: shield._id });
+    await t.mutation(api.answers.submit, { questionId: q2._id, ...alice, optionIndex: 1, wager: 400 });
+    await t.mutation(api.sessions.revealAnswer, { sessionId, hostId });
+
+    // Back where she started instead of -400m - no consolation climb on top of a refund
+    expect((await t.query(api.players.get, { playerId: alice.playerId }))!.elevation).toBe(800);
+  });
+});
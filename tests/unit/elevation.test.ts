@@ -2,11 +2,20 @@ import { describe, it, expect } from "vitest";
 import {
   calculateBaseElevation,
   calculateFirstAnswererBonus,
+  calculateSpeedBonus,
   calculateElevationGain,
   applyElevationGain,
   hasReachedSummit,
   SUMMIT,
   DEFAULT_SUMMIT_THRESHOLD,
+  calculateTeamElevation,
+  calculateMultiSelectCredit,
+  calculateEstimationCredit,
+  rankEstimates,
+  getMaxWager,
+  resolveWager,
+  calculateSlip,
+  FIXED_SLIP,
 } from "../../lib/elevation";
 
 describe("calculateBaseElevation", () => {
@@ -159,6 +168,27 @@ describe("calculateFirstAnswererBonus", () => {
   });
 });
 
+describe("calculateSpeedBonus", () => {
+  it("gives the full 20% bonus pool for an instant answer", () => {
+    expect(calculateSpeedBonus(0, 30, 50)).toBe(10);
+  });
+
+  it("scales with the share of the timer left", () => {
+    expect(calculateSpeedBonus(6000, 30, 50)).toBe(8);
+    expect(calculateSpeedBonus(15000, 30, 50)).toBe(5);
+  });
+
+  it("returns 0 once the timer has run out", () => {
+    expect(calculateSpeedBonus(30000, 30, 50)).toBe(0);
+    expect(calculateSpeedBonus(45000, 30, 50)).toBe(0);
+  });
+
+  it("returns 0 for 0 base elevation or time limit", () => {
+    expect(calculateSpeedBonus(0, 30, 0)).toBe(0);
+    expect(calculateSpeedBonus(0, 0, 50)).toBe(0);
+  });
+});
+
 describe("calculateElevationGain", () => {
   describe("correct answers", () => {
     it("returns base + bonus for 1st correct answer", () => {
@@ -253,6 +283,56 @@ describe("calculateElevationGain", () => {
   });
 });
 
+describe("calculateElevationGain with partial credit", () => {
+  it("scales base elevation by credit", () => {
+    // 10 questions: base 133m, half credit = 67m
+    const result = calculateElevationGain(true, 100, 100, 10, 0.75, 0.5);
+    expect(result.base).toBe(67);
+    expect(result.total).toBe(67);
+  });
+
+  it("computes the speed bonus from the scaled base", () => {
+    const result = calculateElevationGain(true, 1, 10, 10, 0.75, 0.5);
+    expect(result.base).toBe(67);
+    expect(result.bonus).toBe(Math.round(67 * 0.2));
+  });
+
+  it("returns 0 for zero credit", () => {
+    expect(calculateElevationGain(true, 1, 10, 10, 0.75, 0).total).toBe(0);
+  });
+});
+
+describe("calculateMultiSelectCredit", () => {
+  const correct = [0, 2, 3];
+
+  it("gives full credit for the exact correct set in either mode", () => {
+    expect(calculateMultiSelectCredit([3, 0, 2], correct, false)).toBe(1);
+    expect(calculateMultiSelectCredit([0, 2, 3], correct, true)).toBe(1);
+  });
+
+  it("gives nothing for an incomplete set without partial credit", () => {
+    expect(calculateMultiSelectCredit([0, 2], correct, false)).toBe(0);
+    expect(calculateMultiSelectCredit([0, 1, 2, 3], correct, false)).toBe(0);
+  });
+
+  it("gives a share for correct picks with partial credit", () => {
+    expect(calculateMultiSelectCredit([0, 2], correct, true)).toBeCloseTo(2 / 3);
+  });
+
+  it("lets wrong picks cancel right ones", () => {
+    expect(calculateMultiSelectCredit([0, 1, 2], correct, true)).toBeCloseTo(1 / 3);
+    expect(calculateMultiSelectCredit([0, 1, 2, 3], correct, true)).toBeCloseTo(2 / 3);
+  });
+
+  it("never goes below zero", () => {
+    expect(calculateMultiSelectCredit([1], correct, true)).toBe(0);
+  });
+
+  it("ignores duplicate picks", () => {
+    expect(calculateMultiSelectCredit([0, 0, 2, 3], correct, false)).toBe(1);
+  });
+});
+
 describe("applyElevationGain", () => {
   it("adds gain to current elevation", () => {
     expect(applyElevationGain(100, 50)).toBe(150);
@@ -273,6 +353,61 @@ describe("applyElevationGain", () => {
   it("handles 0 gain", () => {
     expect(applyElevationGain(500, 0)).toBe(500);
   });
+
+  it("subtracts losses but never drops below 0", () => {
+    expect(applyElevationGain(500, -150)).toBe(350);
+    expect(applyElevationGain(100, -150)).toBe(0);
+  });
+});
+
+describe("calculateSlip", () => {
+  it("costs nothing with no penalty", () => {
+    expect(calculateSlip("none", 350)).toBe(0);
+  });
+
+  it("slips a fixed distance, but not past the base", () => {
+    expect(calculateSlip("fixedSlip", 350)).toBe(FIXED_SLIP);
+    expect(calculateSlip("fixedSlip", 20)).toBe(20);
+  });
+
+  it("slips a share of current elevation", () => {
+    expect(calculateSlip("percentSlip", 350)).toBe(35);
+    expect(calculateSlip("percentSlip", 0)).toBe(0);
+  });
+
+  it("slips back to the last checkpoint, which is safe to stand on", () => {
+    expect(calculateSlip("checkpoint", 350)).toBe(50);
+    expect(calculateSlip("checkpoint", 399)).toBe(99);
+    expect(calculateSlip("checkpoint", 300)).toBe(0);
+  });
+});
+
+describe("getMaxWager", () => {
+  it("allows staking up to half the current elevation", () => {
+    expect(getMaxWager(400)).toBe(200);
+    expect(getMaxWager(333)).toBe(166);
+  });
+
+  it("allows nothing at the base", () => {
+    expect(getMaxWager(0)).toBe(0);
+  });
+});
+
+describe("resolveWager", () => {
+  it("wins the stake when fully right and loses it when wrong", () => {
+    expect(resolveWager(100, 1)).toBe(100);
+    expect(resolveWager(100, 0)).toBe(-100);
+  });
+
+  it("scales with partial credit, breaking even at half", () => {
+    expect(resolveWager(100, 0.75)).toBe(50);
+    expect(resolveWager(100, 0.5)).toBe(0);
+    expect(resolveWager(100, 0.25)).toBe(-50);
+  });
+
+  it("is 0 without a stake", () => {
+    expect(resolveWager(0, 1)).toBe(0);
+  });
 });
 
 describe("hasReachedSummit", () => {
@@ -292,6 +427,80 @@ describe("hasReachedSummit", () => {
   });
 });
 
+describe("calculateTeamElevation", () => {
+  it("averages member elevations by default", () => {
+    expect(calculateTeamElevation([100, 200, 300])).toBe(200);
+  });
+
+  it("rounds the average to whole meters", () => {
+    expect(calculateTeamElevation([100, 101], "average")).toBe(101);
+  });
+
+  it("sums member elevations in sum mode", () => {
+    expect(calculateTeamElevation([100, 200, 300], "sum")).toBe(600);
+  });
+
+  it("returns 0 for a team with no members", () => {
+    expect(calculateTeamElevation([])).toBe(0);
+    expect(calculateTeamElevation([], "sum")).toBe(0);
+  });
+});
+
+describe("calculateEstimationCredit", () => {
+  it("gives full credit for an exact guess", () => {
+    expect(calculateEstimationCredit(330, 330)).toBe(1);
+  });
+
+  it("falls off linearly with relative error", () => {
+    expect(calculateEstimationCredit(150, 100)).toBeCloseTo(0.5);
+    expect(calculateEstimationCredit(75, 100)).toBeCloseTo(0.75);
+  });
+
+  it("gives no credit once the guess is off by 100% or more", () => {
+    expect(calculateEstimationCredit(200, 100)).toBe(0);
+    expect(calculateEstimationCredit(-500, 100)).toBe(0);
+  });
+
+  it("uses absolute error when the answer is 0", () => {
+    expect(calculateEstimationCredit(0.25, 0)).toBeCloseTo(0.75);
+    expect(calculateEstimationCredit(3, 0)).toBe(0);
+  });
+
+  it("handles negative answers", () => {
+    expect(calculateEstimationCredit(-90, -100)).toBeCloseTo(0.9);
+  });
+});
+
+describe("rankEstimates", () => {
+  it("sorts closest first with ranks", () => {
+    const ranked = rankEstimates(
+      [
+        { id: "a", guess: 50, answeredAt: 1 },
+        { id: "b", guess: 98, answeredAt: 2 },
+        { id: "c", guess: 120, answeredAt: 3 },
+      ],
+      100
+    );
+    expect(ranked.map((g) => [g.id, g.rank])).toEqual([["b", 1], ["c", 2], ["a", 3]]);
+  });
+
+  it("shares ranks on ties and orders ties by answer time", () => {
+    const ranked = rankEstimates(
+      [
+        { id: "late", guess: 110, answeredAt: 5 },
+        { id: "early", guess: 90, answeredAt: 1 },
+        { id: "far", guess: 200, answeredAt: 0 },
+      ],
+      100
+    );
+    expect(ranked.map((g) => [g.id, g.rank])).toEqual([["early", 1], ["late", 1], ["far", 3]]);
+  });
+
+  it("returns an empty list for no guesses", () => {
+    expect(rankEstimates([], 42)).toEqual([]);
+  });
+});
+
 describe("constants", () => {
   it("has expected summit value", () => {
     expect(SUMMIT).toBe(1000);
@@ -0,0 +1,39 @@
+import { describe, test, expect } from "vitest";
+import { buildClimbReplay, rankFinishers } from "../../lib/finale";
+
+describe("buildClimbReplay", () => {
+  test("starts everyone at base camp and follows each question's answers", () => {
+    const frames = buildClimbReplay(["a", "b"], [
+      [
+        { playerId: "a", elevationAtAnswer: 0, elevationGain: 150 },
+        { playerId: "b", elevationAtAnswer: 0, elevationGain: 0 },
+      ],
+      [{ playerId: "b", elevationAtAnswer: 0, elevationGain: 200 }],
+      [{ playerId: "a", elevationAtAnswer: 150, elevationGain: -50 }],
+    ]);
+
+    expect(frames).toEqual([
+      [0, 0],
+      [150, 0],
+      [150, 200],
+      [100, 200],
+    ]);
+  });
+
+  test("leaves answers from an unrevealed question where they were", () => {
+    expect(buildClimbReplay(["a"], [[{ playerId: "a", elevationAtAnswer: 300 }]])).toEqual([[0], [300]]);
+  });
+});
+
+describe("rankFinishers", () => {
+  test("puts summiters first in the order they reached the top", () => {
+    const ranked = rankFinishers([
+      { name: "low", elevation: 400 },
+      { name: "second up", elevation: 1200, summitPlace: 2 },
+      { name: "first up", elevation: 1050, summitPlace: 1 },
+      { name: "high", elevation: 900 },
+    ]);
+
+    expect(ranked.map((p) => p.name)).toEqual(["first up", "second up", "high", "low"]);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, test, expect } from "vitest";
+import { clusterTextAnswers, normalizeTextAnswer } from "../../lib/freeText";
+
+describe("normalizeTextAnswer", () => {
+  test("ignores case, accents, punctuation, spacing and a leading article", () => {
+    expect(normalizeTextAnswer("  The Beatles! ")).toBe("beatles");
+    expect(normalizeTextAnswer("Beyoncé")).toBe("beyonce");
+    expect(normalizeTextAnswer("rock   n' roll")).toBe("rock n roll");
+  });
+
+  test("keeps an article that is the whole answer", () => {
+    expect(normalizeTextAnswer("A")).toBe("a");
+  });
+});
+
+describe("clusterTextAnswers", () => {
+  test("groups matching answers, biggest first, labelled with the most common spelling", () => {
+    const clusters = clusterTextAnswers([
+      { id: 1, text: "Pizza" },
+      { id: 2, text: "tacos" },
+      { id: 3, text: "pizza" },
+      { id: 4, text: "pizza!" },
+      { id: 5, text: "pizza" },
+    ]);
+
+    expect(clusters.map((c) => c.text)).toEqual(["pizza", "tacos"]);
+    expect(clusters[0]!.items.map((i) => i.id)).toEqual([1, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from "vitest";
+import {
+  getIntermissionPhases,
+  getNextIntermissionPhase,
+  getPreviousIntermissionPhase,
+  isIntermissionDue,
+} from "../../lib/intermission";
+
+const sixQuestions = Array.from({ length: 6 }, () => ({}));
+
+describe("getIntermissionPhases", () => {
+  test("plays every screen by default, always in play order", () => {
+    expect(getIntermissionPhases({})).toEqual([
+      "intermission_standings",
+      "intermission_podium",
+      "intermission_countdown",
+    ]);
+    expect(
+      getIntermissionPhases({ intermissionPhases: ["intermission_countdown", "intermission_standings"] })
+    ).toEqual(["intermission_standings", "intermission_countdown"]);
+  });
+});
+
+describe("getNextIntermissionPhase / getPreviousIntermissionPhase", () => {
+  const settings = { intermissionPhases: ["intermission_standings" as const, "intermission_countdown" as const] };
+
+  test("steps through the enabled screens", () => {
+    expect(getNextIntermissionPhase(settings)).toBe("intermission_standings");
+    expect(getNextIntermissionPhase(settings, "intermission_standings")).toBe("intermission_countdown");
+    expect(getNextIntermissionPhase(settings, "intermission_countdown")).toBeNull();
+  });
+
+  test("steps back to the start", () => {
+    expect(getPreviousIntermissionPhase(settings, "intermission_countdown")).toBe("intermission_standings");
+    expect(getPreviousIntermissionPhase(settings, "intermission_standings")).toBeNull();
+  });
+});
+
+describe("isIntermissionDue", () => {
+  test("comes every N questions, but never after the last one", () => {
+    const settings = { intermissionEvery: 3 };
+    expect(isIntermissionDue(settings, sixQuestions, 2)).toBe(false);
+    expect(isIntermissionDue(settings, sixQuestions, 3)).toBe(true);
+    expect(isIntermissionDue(settings, sixQuestions, 6)).toBe(false);
+  });
+
+  test("comes between rounds when asked", () => {
+    const questions = [{}, { roundId: "a" }, { roundId: "a" }, { roundId: "b" }, {}];
+    const settings = { intermissionBetweenRounds: true };
+    expect(isIntermissionDue(settings, questions, 1)).toBe(true); // Round a begins
+    expect(isIntermissionDue(settings, questions, 2)).toBe(false);
+    expect(isIntermissionDue(settings, questions, 3)).toBe(true); // a ends, b begins
+    expect(isIntermissionDue(settings, questions, 4)).toBe(true); // b ends
+    expect(isIntermissionDue({}, questions, 3)).toBe(false);
+  });
+});
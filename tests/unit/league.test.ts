@@ -0,0 +1,95 @@
+import { describe, test, expect } from "vitest";
+import { buildLeagueTable, getFinishingPlaces, getLeagueMemberKey, getLeaguePoints } from "../../lib/league";
+
+describe("getLeagueMemberKey", () => {
+  test("matches the same device and name, ignoring case and extra spaces", () => {
+    expect(getLeagueMemberKey({ _id: "p1", name: "Mary  Jane", deviceId: "d1" }))
+      .toBe(getLeagueMemberKey({ _id: "p2", name: "mary jane ", deviceId: "d1" }));
+  });
+
+  test("the same name on another device is someone else", () => {
+    expect(getLeagueMemberKey({ _id: "p1", name: "Sam", deviceId: "d1" }))
+      .not.toBe(getLeagueMemberKey({ _id: "p1", name: "Sam", deviceId: "d2" }));
+  });
+
+  test("players sharing a browser stay separate", () => {
+    expect(getLeagueMemberKey({ _id: "p1", name: "Sam", deviceId: "d1" }))
+      .not.toBe(getLeagueMemberKey({ _id: "p2", name: "Alex", deviceId: "d1" }));
+  });
+
+  test("players without a device id never match anyone else", () => {
+    expect(getLeagueMemberKey({ _id: "p1", name: "Sam" })).not.toBe(getLeagueMemberKey({ _id: "p2", name: "Sam" }));
+  });
+});
+
+describe("getFinishingPlaces", () => {
+  test("ties share a place and the next result takes the next one", () => {
+    expect(getFinishingPlaces([
+      { elevation: 1_100, summitPlace: 1 },
+      { elevation: 1_050, summitPlace: 1 },
+      { elevation: 1_000, summitPlace: 2 },
+      { elevation: 600 },
+      { elevation: 600 },
+      { elevation: 200 },
+    ])).toEqual([1, 1, 2, 3, 3, 4]);
+  });
+});
+
+describe("getLeaguePoints", () => {
+  test("awards position points to the top ten only", () => {
+    expect(getLeaguePoints("position", 1, 500)).toBe(25);
+    expect(getLeaguePoints("position", 10, 0)).toBe(1);
+    expect(getLeaguePoints("position", 11, 900)).toBe(0);
+  });
+
+  test("awards final elevation in elevation mode", () => {
+    expect(getLeaguePoints("elevation", 1, 1_150)).toBe(1_150);
+    expect(getLeaguePoints("elevation", 4, 0)).toBe(0);
+  });
+});
+
+describe("buildLeagueTable", () => {
+  test("adds up each climber's sessions, matching them by key", () => {
+    const table = buildLeagueTable("position", [
+      [{ key: "a", name: "alice", elevation: 900 }, { key: "b", name: "Bob", elevation: 700 }],
+      [
+        { key: "b", name: "Bob", elevation: 1_000 },
+        { key: "a", name: "Alice", elevation: 800 },
+        { key: "c", name: "Cara", elevation: 100 },
+      ],
+    ]);
+
+    expect(table.map((row) => [row.name, row.points, row.sessionsPlayed, row.wins])).toEqual([
+      ["Bob", 43, 2, 1], // Level with Alice, but climbed higher
+      ["Alice", 43, 2, 1],
+      ["Cara", 15, 1, 0],
+    ]);
+    expect(table[1]!.bestElevation).toBe(900);
+  });
+
+  test("breaks ties on wins, then best elevation", () => {
+    const table = buildLeagueTable("elevation", [
+      [{ key: "d", name: "Dan", elevation: 500 }, { key: "e", name: "Eve", elevation: 300 }],
+      [{ key: "e", name: "Eve", elevation: 400 }, { key: "d", name: "Dan", elevation: 200 }],
+    ]);
+    expect(table.map((row) => row.name)).toEqual(["Dan", "Eve"]);
+  });
+
+  test("tied finishers score the same position points and both win", () => {
+    const table = buildLeagueTable("position", [
+      [{ key: "f", name: "Fay", elevation: 500 }, { key: "g", name: "Gus", elevation: 500 }, { key: "h", name: "Hal", elevation: 100 }],
+    ]);
+    expect(table.map((row) => [row.name, row.points, row.wins])).toEqual([
+      ["Fay", 25, 1],
+      ["Gus", 25, 1],
+      ["Hal", 18, 0],
+    ]);
+  });
+
+  test("two climbers with the same name stay separate", () => {
+    const table = buildLeagueTable("position", [
+      [{ key: "s1", name: "Sam", elevation: 500 }, { key: "s2", name: "Sam", elevation: 300 }],
+    ]);
+    expect(table.map((row) => row.points)).toEqual([25, 18]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from "vitest";
+import { applyPowerUps, getCheckpointRewards, pickFiftyFiftyRemovals } from "../../lib/powerUps";
+
+describe("getCheckpointRewards", () => {
+  test("returns every checkpoint crossed on the way up", () => {
+    expect(getCheckpointRewards(150, 450).map((c) => c.elevation)).toEqual([200, 400]);
+  });
+
+  test("landing exactly on a checkpoint counts, starting on one doesn't", () => {
+    expect(getCheckpointRewards(100, 200).map((c) => c.kind)).toEqual(["fiftyFifty"]);
+    expect(getCheckpointRewards(200, 300)).toEqual([]);
+  });
+});
+
+describe("applyPowerUps", () => {
+  test("double multiplies the full gain", () => {
+    expect(applyPowerUps(120, 100, ["double"])).toBe(240);
+  });
+
+  test("shield turns a wrong answer into half the base elevation", () => {
+    expect(applyPowerUps(0, 101, ["shield"])).toBe(51);
+    expect(applyPowerUps(120, 100, ["shield"])).toBe(120);
+  });
+
+  test("shield only refunds a lost wager and double never doubles a loss", () => {
+    expect(applyPowerUps(-80, 100, ["shield"], -80)).toBe(0);
+    expect(applyPowerUps(-130, 100, ["shield"], -100)).toBe(0); // Slip and stake both cancelled
+    expect(applyPowerUps(-80, 100, ["double"], -80)).toBe(-80);
+  });
+
+  test("a lost wager under a shield never beats a plain right answer", () => {
+    expect(applyPowerUps(-1_000, 100, ["shield", "double"], -1_000)).toBeLessThan(100);
+  });
+
+  test("freeze wins over everything", () => {
+    expect(applyPowerUps(120, 100, ["double", "freeze"])).toBe(0);
+  });
+
+  test("freeze doesn't save a wrong answer from its loss", () => {
+    expect(applyPowerUps(-50, 100, ["freeze"])).toBe(-50);
+    expect(applyPowerUps(-30, 100, ["shield", "freeze"])).toBe(-30);
+  });
+
+  test("no power-ups leaves the gain alone", () => {
+    expect(applyPowerUps(87, 100, [])).toBe(87);
+  });
+});
+
+describe("pickFiftyFiftyRemovals", () => {
+  test("removes half the options and never the correct one", () => {
+    for (const seed of ["a", "b", "c", "d", "e"]) {
+      const removed = pickFiftyFiftyRemovals(4, 2, seed);
+      expect(removed).toHaveLength(2);
+      expect(removed).not.toContain(2);
+    }
+    expect(pickFiftyFiftyRemovals(3, 0, "x")).toHaveLength(1);
+  });
+
+  test("is deterministic for a seed", () => {
+    expect(pickFiftyFiftyRemovals(4, 1, "seed")).toEqual(pickFiftyFiftyRemovals(4, 1, "seed"));
+  });
+});
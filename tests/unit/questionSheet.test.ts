@@ -0,0 +1,182 @@
+import { describe, test, expect } from "vitest";
+import {
+  detectDelimiter,
+  parseDelimited,
+  parseQuestionSheet,
+  questionsToSheet,
+  validateQuestionRecords,
+  type QuestionRecord,
+} from "../../lib/questionSheet";
+
+describe("parseDelimited", () => {
+  test("splits rows and cells", () => {
+    expect(parseDelimited("a,b\nc,d", ",")).toEqual([["a", "b"], ["c", "d"]]);
+  });
+
+  test("handles quoted delimiters, escaped quotes and newlines", () => {
+    const text = 'text,note\n"Hello, world","She said ""hi""\nthen left"\r\n';
+    expect(parseDelimited(text, ",")).toEqual([
+      ["text", "note"],
+      ["Hello, world", 'She said "hi"\nthen left'],
+    ]);
+  });
+
+  test("splits on tabs for TSV and strips a BOM", () => {
+    expect(parseDelimited("﻿a\tb,c\n", "\t")).toEqual([["a", "b,c"]]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  test("uses the file extension when present", () => {
+    expect(detectDelimiter("a,b", "questions.tsv")).toBe("\t");
+    expect(detectDelimiter("a\tb", "questions.CSV")).toBe(",");
+  });
+
+  test("sniffs the header line otherwise", () => {
+    expect(detectDelimiter("text\toption1\toption2")).toBe("\t");
+    expect(detectDelimiter("text,option1,option2")).toBe(",");
+  });
+});
+
+describe("parseQuestionSheet", () => {
+  test("parses options, correct index, time limit and follow-up", () => {
+    const csv = [
+      "Question,Option 1,Option 2,Option 3,Correct Index,Time Limit,Follow Up Text",
+      "Capital of France?,Paris,Lyon,Nice,0,20,Paris has been the capital since 987.",
+      "2 + 2?,3,4,,1,,",
+    ].join("\n");
+
+    const { questions, errors } = parseQuestionSheet(csv, ",");
+    expect(errors).toEqual([]);
+    expect(questions).toEqual([
+      {
+        text: "Capital of France?",
+        options: ["Paris", "Lyon", "Nice"],
+        correctIndex: 0,
+        timeLimit: 20,
+        followUpText: "Paris has been the capital since 987.",
+      },
+      { text: "2 + 2?", options: ["3", "4"], correctIndex: 1 },
+    ]);
+  });
+
+  test("reports every bad row with its spreadsheet row number", () => {
+    const csv = [
+      "text,option1,option2,correctIndex,timeLimit",
+      "Good question,A,B,1,30",
+      ",A,B,0,30",
+      "Only one option,A,,0,30",
+      "Out of range,A,B,5,30",
+      "",
+      "Bad time,A,B,0,-3",
+      "No answer,A,B,,30",
+    ].join("\n");
+
+    const { questions, errors } = parseQuestionSheet(csv, ",");
+    expect(questions.map((q) => q.text)).toEqual(["Good question"]);
+    expect(errors).toEqual([
+      { row: 3, message: "Question text is required" },
+      { row: 4, message: "Needs at least 2 options" },
+      { row: 5, message: "correctIndex must be between 0 and 1" },
+      { row: 7, message: "timeLimit must be a positive number of seconds" },
+      { row: 8, message: "correctIndex is required" },
+    ]);
+  });
+
+  test("flags gaps between options", () => {
+    const tsv = "text\toption1\toption2\toption3\tcorrectIndex\nGap\tA\t\tC\t0";
+    const { errors } = parseQuestionSheet(tsv, "\t");
+    expect(errors).toEqual([{ row: 2, message: "Options must be filled in from option1 with no gaps" }]);
+  });
+
+  test("reports missing columns on the header row", () => {
+    const { questions, errors } = parseQuestionSheet("prompt,answer\nQ,A", ",");
+    expect(questions).toEqual([]);
+    expect(errors).toEqual([
+      { row: 1, message: "Missing required column: text" },
+      { row: 1, message: "Missing option columns (option1, option2, ...)" },
+    ]);
+  });
+
+  test("supports select-all and estimation columns", () => {
+    const csv = [
+      "text,option1,option2,option3,correctIndex,numericAnswer,partialCredit",
+      "Primes?,2,4,7,0;2,,yes",
+      "Jelly beans?,,,,,412,",
+    ].join("\n");
+
+    const { questions, errors } = parseQuestionSheet(csv, ",");
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({ correctIndex: 0, correctIndices: [0, 2], partialCredit: true });
+    expect(questions[1]).toMatchObject({ options: [], numericAnswer: 412 });
+  });
+
+  test("free-text rows need no options or correct index", () => {
+    const csv = ["text,option1,option2,correctIndex,freeText", "Favorite band?,,,,yes"].join("\n");
+
+    const { questions, errors } = parseQuestionSheet(csv, ",");
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({ options: [], freeText: true });
+  });
+
+  test("survey rows take a rating scale or a word cloud flag", () => {
+    const csv = [
+      "text,option1,option2,correctIndex,ratingScale,wordCloud,surveyScored",
+      "How was it?,,,,1-5,,",
+      "Recommend us?,,,,NPS,,yes",
+      "One word?,,,,,true,",
+      "Bad scale?,,,,7,,",
+    ].join("\n");
+
+    const { questions, errors } = parseQuestionSheet(csv, ",");
+    expect(questions).toMatchObject([
+      { options: [], ratingScale: "fivePoint" },
+      { options: [], ratingScale: "nps", surveyScored: true },
+      { options: [], wordCloud: true },
+    ]);
+    expect(errors).toEqual([{ row: 5, message: 'ratingScale must be "1-5" (fivePoint) or "nps"' }]);
+  });
+});
+
+describe("validateQuestionRecords", () => {
+  test("numbers problems by question", () => {
+    const questions = [
+      { text: "Fine", options: ["A", "B"], correctIndex: 0 },
+      { text: "", options: ["A"], correctIndex: 0 },
+    ] as QuestionRecord[];
+
+    expect(validateQuestionRecords(questions)).toEqual([
+      { row: 2, message: "Question text is required" },
+      { row: 2, message: "Needs at least 2 options" },
+    ]);
+  });
+});
+
+describe("questionsToSheet", () => {
+  const questions: QuestionRecord[] = [
+    { text: "Say \"cheese\", please", options: ["Yes", "No"], correctIndex: 0, timeLimit: 30 },
+    { text: "Pick primes", options: ["2", "4", "7"], correctIndex: 0, correctIndices: [0, 2], followUpText: "Line 1\nLine 2" },
+  ];
+
+  test("quotes cells that need it and pads option columns", () => {
+    const csv = questionsToSheet(questions, ",");
+    const lines = csv.split("\n");
+    expect(lines[0]).toBe("text,option1,option2,option3,correctIndex,timeLimit,followUpText");
+    expect(lines[1]).toBe('"Say ""cheese"", please",Yes,No,,0,30,');
+  });
+
+  test("round-trips through parseQuestionSheet", () => {
+    for (const delimiter of [",", "\t"] as const) {
+      const { questions: parsed, errors } = parseQuestionSheet(questionsToSheet(questions, delimiter), delimiter);
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual(questions);
+    }
+  });
+
+  test("round-trips question pictures", () => {
+    const withImage: QuestionRecord[] = [{ ...questions[0]!, imageUrl: "https://example.com/logo.png" }];
+    const csv = questionsToSheet(withImage, ",");
+    expect(csv.split("\n")[0]).toBe("text,option1,option2,correctIndex,timeLimit,followUpText,imageUrl");
+    expect(parseQuestionSheet(csv, ",").questions).toEqual(withImage);
+  });
+});
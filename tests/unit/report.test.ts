@@ -0,0 +1,84 @@
+import { describe, test, expect } from "vitest";
+import {
+  calculateStreaks,
+  median,
+  playerReportToCsv,
+  questionReportToCsv,
+  type PlayerReport,
+  type QuestionReport,
+} from "../../lib/report";
+
+describe("median", () => {
+  test("returns null for no values", () => {
+    expect(median([])).toBeNull();
+  });
+
+  test("returns the middle value for odd lengths", () => {
+    expect(median([3000, 1000, 2000])).toBe(2000);
+  });
+
+  test("averages the middle two for even lengths", () => {
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe("calculateStreaks", () => {
+  test("tracks the best and current run of correct answers", () => {
+    expect(calculateStreaks([true, true, true, false, true])).toEqual({ current: 1, best: 3 });
+  });
+
+  test("ends at zero after a miss", () => {
+    expect(calculateStreaks([true, false])).toEqual({ current: 0, best: 1 });
+  });
+
+  test("skips poll questions without breaking a streak", () => {
+    expect(calculateStreaks([true, null, true])).toEqual({ current: 2, best: 2 });
+  });
+
+  test("handles no questions", () => {
+    expect(calculateStreaks([])).toEqual({ current: 0, best: 0 });
+  });
+});
+
+describe("report CSV", () => {
+  test("formats questions with percent, seconds and flattened distribution", () => {
+    const questions: QuestionReport[] = [
+      {
+        questionId: "q1",
+        number: 1,
+        text: "Capital of France?",
+        kind: "choice",
+        totalAnswers: 4,
+        correctCount: 3,
+        accuracy: 0.75,
+        distribution: [
+          { label: "Paris", count: 3, isCorrect: true },
+          { label: "Lyon", count: 1, isCorrect: false },
+        ],
+        medianResponseMs: 2350,
+      },
+    ];
+
+    expect(questionReportToCsv(questions).split("\n")[1]).toBe(
+      "1,Capital of France?,choice,4,3,75,2.4,Paris: 3; Lyon: 1"
+    );
+  });
+
+  test("formats players and leaves missing stats blank", () => {
+    const players: PlayerReport[] = [
+      {
+        playerId: "p1",
+        name: "Smith, Jo",
+        elevation: 420,
+        answered: 0,
+        correct: 0,
+        accuracy: null,
+        currentStreak: 0,
+        bestStreak: 0,
+        medianResponseMs: null,
+      },
+    ];
+
+    expect(playerReportToCsv(players).split("\n")[1]).toBe('"Smith, Jo",420,0,0,,0,0,');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateMinorityBonus,
+  calculateStreakMultiplier,
+  scoreAnswer,
+  type ScoringInput,
+} from "../../lib/scoring";
+import { calculateElevationGain } from "../../lib/elevation";
+
+// 10 questions at 75%: 133m base
+const input: ScoringInput = {
+  credit: 1,
+  answerPosition: 1,
+  answerTimeMs: 0,
+  timeLimit: 30,
+  correctShare: 1,
+  streak: 0,
+  totalPlayers: 10,
+  totalQuestions: 10,
+};
+
+describe("calculateMinorityBonus", () => {
+  it("pays more the fewer answerers got it right", () => {
+    expect(calculateMinorityBonus(0.1, 100)).toBe(45);
+    expect(calculateMinorityBonus(0.5, 100)).toBe(25);
+  });
+
+  it("pays nothing when everyone was right", () => {
+    expect(calculateMinorityBonus(1, 100)).toBe(0);
+  });
+
+  it("handles edge cases", () => {
+    expect(calculateMinorityBonus(0.5, 0)).toBe(0);
+    expect(calculateMinorityBonus(-1, 100)).toBe(50);
+  });
+});
+
+describe("calculateStreakMultiplier", () => {
+  it("starts at x1 with no streak", () => {
+    expect(calculateStreakMultiplier(0)).toBe(1);
+  });
+
+  it("grows with each correct answer in a row", () => {
+    expect(calculateStreakMultiplier(1)).toBe(1.1);
+    expect(calculateStreakMultiplier(2)).toBe(1.2);
+  });
+
+  it("stops growing after 5 in a row", () => {
+    expect(calculateStreakMultiplier(5)).toBe(1.5);
+    expect(calculateStreakMultiplier(20)).toBe(1.5);
+  });
+
+  it("uses the session's step", () => {
+    expect(calculateStreakMultiplier(2, 0.25)).toBe(1.5);
+    expect(calculateStreakMultiplier(9, 0.25)).toBe(2.25);
+  });
+});
+
+describe("scoreAnswer", () => {
+  it("scores nothing without credit, whatever the strategy", () => {
+    for (const strategy of ["classic", "timeDecay", "minority", "streak"] as const) {
+      expect(scoreAnswer(strategy, { ...input, credit: 0, streak: 3 }).total).toBe(0);
+    }
+  });
+
+  it("multiplies the base by the round multiplier, so bonuses scale with it", () => {
+    const normal = scoreAnswer("streak", { ...input, streak: 3 });
+    const doubled = scoreAnswer("streak", { ...input, streak: 3, roundMultiplier: 2 });
+    expect(doubled.base).toBe(267);
+    expect(doubled.streakBonus).toBe(normal.streakBonus * 2);
+  });
+
+  describe("classic", () => {
+    it("matches calculateElevationGain", () => {
+      const expected = calculateElevationGain(true, 2, 10, 10);
+      const scoring = scoreAnswer("classic", { ...input, answerPosition: 2 });
+      expect(scoring.base).toBe(expected.base);
+      expect(scoring.speedBonus).toBe(expected.bonus);
+      expect(scoring.total).toBe(expected.total);
+    });
+  });
+
+  describe("timeDecay", () => {
+    it("pays the whole bonus pool for an instant answer", () => {
+      expect(scoreAnswer("timeDecay", input).speedBonus).toBe(27);
+    });
+
+    it("decays continuously with time, ignoring answer order", () => {
+      const scoring = scoreAnswer("timeDecay", { ...input, answerPosition: 5, answerTimeMs: 15000 });
+      expect(scoring.speedBonus).toBe(13);
+      expect(scoring.total).toBe(146);
+    });
+
+    it("pays no bonus once the time limit has passed", () => {
+      expect(scoreAnswer("timeDecay", { ...input, answerTimeMs: 30000 }).speedBonus).toBe(0);
+    });
+  });
+
+  describe("minority", () => {
+    it("rewards being right when most weren't, with no speed bonus", () => {
+      const scoring = scoreAnswer("minority", { ...input, correctShare: 0.2 });
+      expect(scoring.speedBonus).toBe(0);
+      expect(scoring.minorityBonus).toBe(53);
+      expect(scoring.total).toBe(186);
+    });
+  });
+
+  describe("streak", () => {
+    it("multiplies the base by the streak coming into the question", () => {
+      const scoring = scoreAnswer("streak", { ...input, streak: 3 });
+      expect(scoring.streakBonus).toBe(40);
+      expect(scoring.total).toBe(173);
+    });
+
+    it("uses a custom streak step", () => {
+      expect(scoreAnswer("streak", { ...input, streak: 2, streakStep: 0.25 }).streakBonus).toBe(67);
+    });
+
+    it("scales with partial credit", () => {
+      const scoring = scoreAnswer("streak", { ...input, credit: 0.5, streak: 3 });
+      expect(scoring.base).toBe(67);
+      expect(scoring.streakBonus).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, test, expect } from "vitest";
+import { buildWordCloud, getRatingValues, summarizeRatings } from "../../lib/survey";
+
+describe("getRatingValues", () => {
+  test("lists every value on the scale", () => {
+    expect(getRatingValues("fivePoint")).toEqual([1, 2, 3, 4, 5]);
+    expect(getRatingValues("nps")).toHaveLength(11);
+  });
+});
+
+describe("summarizeRatings", () => {
+  test("counts each value and averages, ignoring values off the scale", () => {
+    const summary = summarizeRatings("fivePoint", [5, 4, 4, 0, 9]);
+    expect(summary.counts.map((c) => c.count)).toEqual([0, 0, 0, 2, 1]);
+    expect(summary.average).toBeCloseTo(13 / 3);
+    expect(summary.npsScore).toBeNull();
+  });
+
+  test("scores NPS as promoters minus detractors", () => {
+    // 2 promoters, 1 passive, 1 detractor
+    expect(summarizeRatings("nps", [10, 9, 8, 3]).npsScore).toBe(25);
+    expect(summarizeRatings("nps", []).npsScore).toBeNull();
+  });
+});
+
+describe("buildWordCloud", () => {
+  test("merges spellings, most popular first", () => {
+    expect(buildWordCloud(["Fun", "chaos", "fun!", "FUN", "?"])).toEqual([
+      { text: "Fun", count: 3 },
+      { text: "chaos", count: 1 },
+    ]);
+  });
+});